@@ -33,8 +33,11 @@ import AdminResources from "./pages/admin/AdminResources";
 import AdminAssignments from "./pages/admin/AdminAssignments";
 import AdminProgress from "./pages/admin/AdminProgress";
 import AdminCalendar from "./pages/admin/AdminCalendar";
+import AdminAttendance from "./pages/admin/AdminAttendance";
 import AdminUploadLeads from "./pages/admin/AdminUploadLeads";
 import AdminLeadsGenerated from "./pages/admin/AdminLeadsGenerated";
+import AdminLeadsFunnel from "./pages/admin/AdminLeadsFunnel";
+import AdminPayments from "./pages/admin/AdminPayments";
 import StudentAssignments from "./pages/StudentAssignments";
 import StudentProgress from "./pages/StudentProgress";
 import StudentQuizzes from "./pages/StudentQuizzes";
@@ -43,6 +46,7 @@ import BdeDashboard from "./pages/bde/BdeDashboard";
 import BdeLeadsInfo from "./pages/bde/BdeLeadsInfo";
 import BdeLeadsGenerated from "./pages/bde/BdeLeadsGenerated";
 import AdminQuizzes from "./pages/admin/AdminQuizzes";
+import AdminQuestionBank from "./pages/admin/AdminQuestionBank";
 import AdminSessionFeedbacks from "./pages/admin/AdminSessionFeedbacks";
 import StudentDocuments from "./pages/StudentDocuments";
 import AdminTemplates from "./pages/admin/AdminTemplates";
@@ -108,6 +112,8 @@ function AppRoutes() {
       <Route path="/faculty-leaves" element={<ProtectedRoute><FacultyLeaveRequests /></ProtectedRoute>} />
       <Route path="/check-progress" element={<ProtectedRoute><AdminProgress /></ProtectedRoute>} />
       <Route path="/manage-calendar" element={<ProtectedRoute><AdminCalendar /></ProtectedRoute>} />
+      <Route path="/manage-attendance" element={<ProtectedRoute><AdminAttendance /></ProtectedRoute>} />
+      <Route path="/question-bank" element={<ProtectedRoute><AdminQuestionBank /></ProtectedRoute>} />
 
       {/* Admin routes */}
       <Route path="/faculty" element={<ProtectedRoute><AdminFaculty /></ProtectedRoute>} />
@@ -117,6 +123,8 @@ function AppRoutes() {
       <Route path="/manage-assignments" element={<ProtectedRoute><AdminAssignments /></ProtectedRoute>} />
       <Route path="/upload-leads" element={<ProtectedRoute><AdminUploadLeads /></ProtectedRoute>} />
       <Route path="/admin-leads-generated" element={<ProtectedRoute><AdminLeadsGenerated /></ProtectedRoute>} />
+      <Route path="/admin-leads-funnel" element={<ProtectedRoute><AdminLeadsFunnel /></ProtectedRoute>} />
+      <Route path="/admin-payments" element={<ProtectedRoute><AdminPayments /></ProtectedRoute>} />
       <Route path="/manage-quizzes" element={<ProtectedRoute><AdminQuizzes /></ProtectedRoute>} />
       <Route path="/admin-feedbacks" element={<ProtectedRoute><AdminSessionFeedbacks /></ProtectedRoute>} />
       <Route path="/admin-templates" element={<ProtectedRoute><AdminTemplates /></ProtectedRoute>} />
@@ -0,0 +1,125 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2 } from "lucide-react";
+
+export interface AssignmentExtension {
+  student_id: string;
+  extended_deadline: string;
+  reason: string | null;
+}
+
+interface ExtensionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  assignmentId: string;
+  student: { user_id: string; name: string } | null;
+  // The assignment's own deadline, used as the starting point for a new extension
+  dueAt: Date;
+  extension: AssignmentExtension | null;
+  onSaved: () => void;
+}
+
+// datetime-local inputs work in the browser's time zone
+const toInputValue = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm");
+
+export function ExtensionDialog({ open, onOpenChange, assignmentId, student, dueAt, extension, onSaved }: ExtensionDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [until, setUntil] = useState("");
+  const [reason, setReason] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const dueTime = dueAt.getTime();
+
+  useEffect(() => {
+    if (!open) return;
+    setUntil(toInputValue(extension ? new Date(extension.extended_deadline) : new Date(dueTime + 24 * 60 * 60 * 1000)));
+    setReason(extension?.reason || "");
+  }, [open, extension, dueTime]);
+
+  const handleSave = async () => {
+    if (!user || !student || !until) return;
+    const extendedDeadline = new Date(until);
+    if (isNaN(extendedDeadline.getTime()) || extendedDeadline <= dueAt) {
+      toast({ title: "Error", description: "The extended deadline must be after the assignment deadline.", variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.from("assignment_extensions").upsert({
+        assignment_id: assignmentId,
+        student_id: student.user_id,
+        extended_deadline: extendedDeadline.toISOString(),
+        reason: reason.trim() || null,
+        granted_by: user.id,
+      }, { onConflict: "assignment_id,student_id" });
+      if (error) throw error;
+      toast({ title: "Extension granted", description: `${student.name} can submit until ${format(extendedDeadline, "MMM dd, HH:mm")}.` });
+      onSaved();
+      onOpenChange(false);
+    } catch (error: unknown) {
+      toast({ title: "Error", description: error instanceof Error ? error.message : "Failed to save the extension.", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!student) return;
+    setSaving(true);
+    try {
+      const { error } = await supabase.from("assignment_extensions").delete().eq("assignment_id", assignmentId).eq("student_id", student.user_id);
+      if (error) throw error;
+      toast({ title: "Extension removed", description: `${student.name} is back on the assignment deadline.` });
+      onSaved();
+      onOpenChange(false);
+    } catch (error: unknown) {
+      toast({ title: "Error", description: error instanceof Error ? error.message : "Failed to remove the extension.", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Deadline Extension</DialogTitle>
+          <DialogDescription>
+            {student?.name} • Assignment deadline: {format(dueAt, "MMM dd, yyyy HH:mm")}. Lateness and penalties are measured from the extended deadline.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="extended-deadline">Extended Deadline *</Label>
+            <Input id="extended-deadline" type="datetime-local" value={until} onChange={(e) => setUntil(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="extension-reason">Reason (optional)</Label>
+            <Input id="extension-reason" value={reason} onChange={(e) => setReason(e.target.value)} placeholder="e.g. Medical leave" />
+          </div>
+        </div>
+        <div className="flex justify-between gap-3">
+          {extension ? (
+            <Button variant="ghost" className="text-destructive hover:text-destructive" onClick={handleRemove} disabled={saving}>Remove</Button>
+          ) : <span />}
+          <div className="flex gap-3">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,53 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Plus, Trash2, X } from "lucide-react";
+import { MAX_RUBRIC_CRITERIA, MAX_RUBRIC_LEVELS, RubricCriterion, RubricLevel, emptyCriterion, rubricMaxPoints } from "@/lib/rubric";
+
+interface RubricEditorProps {
+  criteria: RubricCriterion[];
+  onChange: (criteria: RubricCriterion[]) => void;
+}
+
+export function RubricEditor({ criteria, onChange }: RubricEditorProps) {
+  const updateCriterion = (index: number, patch: Partial<RubricCriterion>) =>
+    onChange(criteria.map((c, i) => (i === index ? { ...c, ...patch } : c)));
+
+  const updateLevel = (index: number, levelIndex: number, patch: Partial<RubricLevel>) =>
+    updateCriterion(index, { levels: criteria[index].levels.map((l, i) => (i === levelIndex ? { ...l, ...patch } : l)) });
+
+  return (
+    <div className="space-y-3">
+      {criteria.map((c, i) => (
+        <div key={c.id} className="space-y-2 rounded-lg border p-3">
+          <div className="flex gap-2">
+            <Input value={c.title} onChange={(e) => updateCriterion(i, { title: e.target.value })} placeholder={`Criterion ${i + 1}, e.g. Code quality`} className="h-8" />
+            <Button type="button" variant="ghost" size="icon" className="h-8 w-8 shrink-0 text-destructive" onClick={() => onChange(criteria.filter((_, j) => j !== i))} title="Remove criterion">
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+          {c.levels.map((l, li) => (
+            <div key={li} className="grid grid-cols-[1fr_4.5rem_auto] gap-2 pl-3 sm:grid-cols-[8rem_1fr_4.5rem_auto]">
+              <Input value={l.label} onChange={(e) => updateLevel(i, li, { label: e.target.value })} placeholder="Level" className="h-8 text-xs" />
+              <Input value={l.description} onChange={(e) => updateLevel(i, li, { description: e.target.value })} placeholder="What this level looks like" className="col-span-3 row-start-2 h-8 text-xs sm:col-span-1 sm:row-start-auto" />
+              <Input type="number" min="0" value={l.points} onChange={(e) => updateLevel(i, li, { points: parseFloat(e.target.value) || 0 })} className="h-8 text-xs" title="Points" />
+              <Button type="button" variant="ghost" size="icon" className="h-8 w-8" disabled={c.levels.length <= 1} onClick={() => updateCriterion(i, { levels: c.levels.filter((_, j) => j !== li) })} title="Remove level">
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+          {c.levels.length < MAX_RUBRIC_LEVELS && (
+            <Button type="button" variant="ghost" size="sm" className="ml-3 h-7 text-xs" onClick={() => updateCriterion(i, { levels: [...c.levels, { label: "", description: "", points: 0 }] })}>
+              <Plus className="mr-1 h-3 w-3" /> Add Level
+            </Button>
+          )}
+        </div>
+      ))}
+      <div className="flex items-center justify-between">
+        <Button type="button" variant="outline" size="sm" disabled={criteria.length >= MAX_RUBRIC_CRITERIA} onClick={() => onChange([...criteria, emptyCriterion()])}>
+          <Plus className="mr-1 h-3 w-3" /> Add Criterion
+        </Button>
+        {criteria.length > 0 && <span className="text-xs text-muted-foreground">Total: {rubricMaxPoints(criteria)} points</span>}
+      </div>
+    </div>
+  );
+}
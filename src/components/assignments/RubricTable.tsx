@@ -0,0 +1,56 @@
+import { cn } from "@/lib/utils";
+import { RubricCriterion, criterionMaxPoints } from "@/lib/rubric";
+
+interface RubricTableProps {
+  criteria: RubricCriterion[];
+  // Criterion id -> index of the picked level
+  selected?: Record<string, number>;
+  // Makes levels clickable, for grading
+  onSelect?: (criterionId: string, levelIndex: number) => void;
+}
+
+export function RubricTable({ criteria, selected = {}, onSelect }: RubricTableProps) {
+  return (
+    <div className="space-y-3">
+      {criteria.map((c) => {
+        const picked = c.levels[selected[c.id]];
+        return (
+          <div key={c.id} className="space-y-1.5">
+            <div className="flex items-center justify-between gap-2 text-sm">
+              <p className="font-medium">{c.title}</p>
+              <span className="shrink-0 text-xs text-muted-foreground">
+                {picked ? `${picked.points} / ${criterionMaxPoints(c)}` : `${criterionMaxPoints(c)} pts`}
+              </span>
+            </div>
+            <div className="grid gap-1.5 sm:grid-flow-col sm:auto-cols-fr">
+              {c.levels.map((l, i) => {
+                const isPicked = selected[c.id] === i;
+                const className = cn(
+                  "rounded-md border p-2 text-left text-xs transition-colors",
+                  isPicked ? "border-primary bg-primary/10" : "bg-muted/30",
+                  onSelect && !isPicked && "hover:bg-muted",
+                );
+                const content = (
+                  <>
+                    <span className="flex items-center justify-between gap-2 font-medium">
+                      <span>{l.label}</span>
+                      <span className={isPicked ? "text-primary" : "text-muted-foreground"}>{l.points}</span>
+                    </span>
+                    {l.description && <span className="mt-0.5 block text-muted-foreground">{l.description}</span>}
+                  </>
+                );
+                return onSelect ? (
+                  <button key={i} type="button" className={className} onClick={() => onSelect(c.id, i)} aria-pressed={isPicked}>
+                    {content}
+                  </button>
+                ) : (
+                  <div key={i} className={className}>{content}</div>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { AttendanceSummary, formatAttendance, isBelowThreshold } from "@/lib/attendance";
+
+interface AttendanceBadgeProps {
+  summary: AttendanceSummary | undefined;
+  threshold: number;
+  className?: string;
+}
+
+export function AttendanceBadge({ summary, threshold, className }: AttendanceBadgeProps) {
+  const percent = summary?.percent ?? null;
+  if (percent === null) {
+    return <Badge variant="outline" className={cn("text-muted-foreground", className)} title="No attendance marked yet">—</Badge>;
+  }
+  const below = isBelowThreshold(percent, threshold);
+  return (
+    <Badge
+      variant="outline"
+      className={cn(below ? "bg-destructive/10 text-destructive border-destructive/20" : "bg-success/10 text-success border-success/20", className)}
+      title={`${summary!.present + summary!.late} attended of ${summary!.sessions - summary!.excused} sessions (minimum ${threshold}%)`}
+    >
+      {formatAttendance(percent)}
+    </Badge>
+  );
+}
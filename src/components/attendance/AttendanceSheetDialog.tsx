@@ -0,0 +1,230 @@
+import { useEffect, useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { CheckCheck, Loader2, Search } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { cn } from "@/lib/utils";
+import { ATTENDANCE_STATUSES, AttendanceSessionRow, AttendanceStatus } from "@/lib/attendance";
+
+interface SheetStudent {
+  user_id: string;
+  student_id: string | null;
+  full_name: string;
+  // "full" or "half" when an approved leave covers the session date
+  onLeave: "full" | "half" | null;
+}
+
+interface Mark {
+  status: AttendanceStatus;
+  note: string;
+}
+
+interface AttendanceSheetDialogProps {
+  session: AttendanceSessionRow | null;
+  onOpenChange: (open: boolean) => void;
+  onSaved?: () => void;
+}
+
+export function AttendanceSheetDialog({ session, onOpenChange, onSaved }: AttendanceSheetDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [students, setStudents] = useState<SheetStudent[]>([]);
+  const [marks, setMarks] = useState<Record<string, Mark>>({});
+  const [search, setSearch] = useState("");
+
+  useEffect(() => {
+    if (!session) return;
+    const load = async () => {
+      setLoading(true);
+      setSearch("");
+      try {
+        const { data: profiles, error } = await supabase
+          .from("student_profiles")
+          .select("user_id, student_id")
+          .eq("batch_id", session.batch_id)
+          .eq("status", "approved");
+        if (error) throw error;
+        const ids = (profiles || []).map((p) => p.user_id);
+
+        const [namesRes, recordsRes, leavesRes] = await Promise.all([
+          supabase.from("profiles").select("id, full_name").in("id", ids),
+          supabase.from("attendance_records").select("student_id, status, note").eq("session_id", session.id),
+          supabase
+            .from("leave_requests")
+            .select("user_id, half_day")
+            .in("user_id", ids)
+            .eq("status", "approved")
+            .lte("leave_date", session.session_date)
+            .gte("end_date", session.session_date),
+        ]);
+        const onLeave = new Map<string, "full" | "half">();
+        (leavesRes.data || []).forEach((l) => {
+          if (onLeave.get(l.user_id) !== "full") onLeave.set(l.user_id, l.half_day ? "half" : "full");
+        });
+
+        const list = (profiles || []).map((p) => ({
+          user_id: p.user_id,
+          student_id: p.student_id,
+          full_name: namesRes.data?.find((n) => n.id === p.user_id)?.full_name || "Unknown",
+          onLeave: onLeave.get(p.user_id) || null,
+        })).sort((a, b) => a.full_name.localeCompare(b.full_name));
+        setStudents(list);
+
+        // Saved marks win; students on approved full-day leave start as excused
+        const initial: Record<string, Mark> = {};
+        list.filter((s) => s.onLeave === "full").forEach((s) => { initial[s.user_id] = { status: "excused", note: "Approved leave" }; });
+        (recordsRes.data || []).forEach((r) => { initial[r.student_id] = { status: r.status as AttendanceStatus, note: r.note || "" }; });
+        setMarks(initial);
+      } catch (error: unknown) {
+        toast({ title: "Error", description: error instanceof Error ? error.message : "Could not load the attendance sheet.", variant: "destructive" });
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [session, toast]);
+
+  const setStatus = (studentId: string, status: AttendanceStatus) =>
+    setMarks((m) => ({ ...m, [studentId]: { status, note: m[studentId]?.note || "" } }));
+
+  const setNote = (studentId: string, note: string) =>
+    setMarks((m) => (m[studentId] ? { ...m, [studentId]: { ...m[studentId], note } } : m));
+
+  const markRemainingPresent = () =>
+    setMarks((m) => {
+      const next = { ...m };
+      students.forEach((s) => { if (!next[s.user_id]) next[s.user_id] = { status: "present", note: "" }; });
+      return next;
+    });
+
+  const handleSave = async () => {
+    if (!session) return;
+    const rows = Object.entries(marks).map(([studentId, mark]) => ({
+      session_id: session.id,
+      student_id: studentId,
+      status: mark.status,
+      note: mark.note.trim() || null,
+      marked_by: user!.id,
+      marked_at: new Date().toISOString(),
+    }));
+    if (rows.length === 0) {
+      toast({ title: "Nothing to save", description: "Mark at least one student.", variant: "destructive" });
+      return;
+    }
+    setSaving(true);
+    try {
+      const { error } = await supabase.from("attendance_records").upsert(rows, { onConflict: "session_id,student_id" });
+      if (error) throw error;
+      toast({ title: "Saved", description: `Attendance saved for ${rows.length} student${rows.length === 1 ? "" : "s"}.` });
+      onSaved?.();
+      onOpenChange(false);
+    } catch (error: unknown) {
+      toast({ title: "Error", description: error instanceof Error ? error.message : "Could not save attendance.", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const counts = ATTENDANCE_STATUSES.map((s) => ({ ...s, count: Object.values(marks).filter((m) => m.status === s.value).length }));
+  const unmarked = students.filter((s) => !marks[s.user_id]).length;
+  const visible = students.filter((s) =>
+    !search || s.full_name.toLowerCase().includes(search.toLowerCase()) || s.student_id?.toLowerCase().includes(search.toLowerCase()));
+
+  return (
+    <Dialog open={!!session} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{session?.title}</DialogTitle>
+          <DialogDescription>
+            {session && format(parseISO(session.session_date), "EEEE, MMM dd, yyyy")}
+            {session?.starts_at && ` · ${format(parseISO(session.starts_at), "h:mm a")}`}
+          </DialogDescription>
+        </DialogHeader>
+        {loading ? (
+          <div className="flex justify-center py-8"><Loader2 className="h-6 w-6 animate-spin text-muted-foreground" /></div>
+        ) : students.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">No approved students in this batch.</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2">
+              {counts.map((c) => <Badge key={c.value} variant="outline" className={c.className}>{c.label}: {c.count}</Badge>)}
+              {unmarked > 0 && <Badge variant="outline">Unmarked: {unmarked}</Badge>}
+            </div>
+            <div className="flex flex-col gap-2 sm:flex-row">
+              <div className="relative flex-1">
+                <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                <Input placeholder="Search students..." value={search} onChange={(e) => setSearch(e.target.value)} className="pl-9" />
+              </div>
+              <Button variant="outline" onClick={markRemainingPresent} disabled={unmarked === 0}>
+                <CheckCheck className="mr-2 h-4 w-4" /> Mark Remaining Present
+              </Button>
+            </div>
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Student</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Note</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visible.map((s) => (
+                    <TableRow key={s.user_id}>
+                      <TableCell>
+                        <p className="font-medium">{s.full_name}</p>
+                        <div className="flex items-center gap-1">
+                          <span className="font-mono text-xs text-muted-foreground">{s.student_id || "N/A"}</span>
+                          {s.onLeave && <Badge variant="outline" className="text-[10px]">{s.onLeave === "half" ? "Half-day leave" : "On leave"}</Badge>}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-1">
+                          {ATTENDANCE_STATUSES.map((st) => (
+                            <Button
+                              key={st.value}
+                              type="button"
+                              size="sm"
+                              variant="outline"
+                              title={st.label}
+                              className={cn("w-9 px-0", marks[s.user_id]?.status === st.value && st.className)}
+                              onClick={() => setStatus(s.user_id, st.value)}
+                            >
+                              {st.short}
+                            </Button>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          value={marks[s.user_id]?.note || ""}
+                          onChange={(e) => setNote(s.user_id, e.target.value)}
+                          disabled={!marks[s.user_id]}
+                          placeholder="Optional"
+                          className="h-8 min-w-[140px]"
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            <div className="flex justify-end">
+              <Button onClick={handleSave} disabled={saving}>
+                {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null} Save Attendance
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,159 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { CheckCircle, Loader2, QrCode as QrIcon, ScanLine, X } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { getAttendanceStatus } from "@/lib/attendance";
+
+// Chromium's Shape Detection API; not yet in the TypeScript DOM types
+interface DetectedBarcode {
+  rawValue: string;
+}
+interface BarcodeDetectorInstance {
+  detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>;
+}
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorInstance;
+
+const getBarcodeDetector = () =>
+  (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+
+// The QR holds a dashboard link with ?checkin=<code>; a bare code is accepted too
+const codeFromScan = (raw: string) => {
+  try {
+    return new URL(raw).searchParams.get("checkin") || raw;
+  } catch {
+    return raw;
+  }
+};
+
+export function CheckInCard() {
+  const { toast } = useToast();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [code, setCode] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [result, setResult] = useState<{ title: string; date: string; status: string } | null>(null);
+  const [scanning, setScanning] = useState(false);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canScan = !!getBarcodeDetector() && !!navigator.mediaDevices?.getUserMedia;
+
+  const checkIn = useCallback(async (value: string) => {
+    const trimmed = value.trim();
+    if (!trimmed) return;
+    setSubmitting(true);
+    try {
+      const { data, error } = await supabase.rpc("check_in_attendance", { _code: trimmed });
+      if (error) throw new Error(error.message);
+      const row = data?.[0];
+      if (row) {
+        setResult({ title: row.session_title, date: row.session_date, status: row.status });
+        toast({ title: "Checked in", description: `${row.session_title}: ${getAttendanceStatus(row.status)?.label || row.status}` });
+      }
+      setCode("");
+    } catch (error: unknown) {
+      toast({ title: "Check-in failed", description: error instanceof Error ? error.message : "Could not check in.", variant: "destructive" });
+    } finally {
+      setSubmitting(false);
+    }
+  }, [toast]);
+
+  // Opened from a scanned link: check in straight away and drop the code from the URL
+  useEffect(() => {
+    const fromLink = searchParams.get("checkin");
+    if (!fromLink) return;
+    const next = new URLSearchParams(searchParams);
+    next.delete("checkin");
+    setSearchParams(next, { replace: true });
+    checkIn(fromLink);
+  }, [searchParams, setSearchParams, checkIn]);
+
+  useEffect(() => {
+    if (!scanning) return;
+    const Detector = getBarcodeDetector();
+    if (!Detector) return;
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setInterval> | null = null;
+    let stopped = false;
+
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: "environment" } })
+      .then((media) => {
+        if (stopped) {
+          media.getTracks().forEach((t) => t.stop());
+          return;
+        }
+        stream = media;
+        const video = videoRef.current!;
+        video.srcObject = media;
+        video.play();
+        const detector = new Detector({ formats: ["qr_code"] });
+        timer = setInterval(async () => {
+          const found = await detector.detect(video).catch(() => []);
+          if (found.length > 0 && !stopped) {
+            setScanning(false);
+            checkIn(codeFromScan(found[0].rawValue));
+          }
+        }, 400);
+      })
+      .catch(() => {
+        toast({ title: "Camera unavailable", description: "Allow camera access or type the code shown on screen.", variant: "destructive" });
+        setScanning(false);
+      });
+
+    return () => {
+      stopped = true;
+      if (timer) clearInterval(timer);
+      stream?.getTracks().forEach((t) => t.stop());
+    };
+  }, [scanning, checkIn, toast]);
+
+  return (
+    <Card className="slide-up">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-base"><QrIcon className="h-4 w-4" /> Session Check-in</CardTitle>
+        <CardDescription>Scan the QR code shown in class, or type the code below it.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {result && (
+          <div className="flex items-center gap-2 rounded-lg border border-success/20 bg-success/10 p-3 text-sm text-success">
+            <CheckCircle className="h-4 w-4 shrink-0" />
+            <span>
+              Marked <strong>{getAttendanceStatus(result.status)?.label.toLowerCase() || result.status}</strong> for {result.title} ({format(parseISO(result.date), "MMM dd")})
+            </span>
+          </div>
+        )}
+        {scanning && (
+          <div className="relative overflow-hidden rounded-lg border bg-black">
+            <video ref={videoRef} className="aspect-video w-full object-cover" muted playsInline />
+            <Button size="icon" variant="secondary" className="absolute right-2 top-2" onClick={() => setScanning(false)}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+        <form
+          className="flex flex-col gap-2 sm:flex-row"
+          onSubmit={(e) => { e.preventDefault(); checkIn(code); }}
+        >
+          <Input
+            value={code}
+            onChange={(e) => setCode(e.target.value.toUpperCase())}
+            placeholder="8-character code"
+            maxLength={8}
+            className="font-mono tracking-widest sm:max-w-[200px]"
+          />
+          <Button type="submit" disabled={submitting || !code.trim()}>
+            {submitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CheckCircle className="mr-2 h-4 w-4" />}
+            Check In
+          </Button>
+          {canScan && !scanning && (
+            <Button type="button" variant="outline" onClick={() => setScanning(true)}>
+              <ScanLine className="mr-2 h-4 w-4" /> Scan QR
+            </Button>
+          )}
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
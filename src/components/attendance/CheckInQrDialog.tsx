@@ -0,0 +1,92 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Users } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { QrCode } from "@/components/attendance/QrCode";
+import { AttendanceSessionRow } from "@/lib/attendance";
+
+// A new code is shown this often; the server accepts each code for 45 seconds
+const ROTATE_SECONDS = 20;
+const POLL_SECONDS = 5;
+
+interface CheckInQrDialogProps {
+  session: AttendanceSessionRow | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const checkInUrl = (code: string) => `${window.location.origin}/dashboard?checkin=${code}`;
+
+export function CheckInQrDialog({ session, onOpenChange }: CheckInQrDialogProps) {
+  const { toast } = useToast();
+  const [code, setCode] = useState<string | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState(ROTATE_SECONDS);
+  const [checkedIn, setCheckedIn] = useState(0);
+
+  useEffect(() => {
+    if (!session) {
+      setCode(null);
+      return;
+    }
+    let cancelled = false;
+    const issue = async () => {
+      const { data, error } = await supabase.rpc("issue_attendance_checkin_code", { _session_id: session.id });
+      if (cancelled) return;
+      if (error || !data?.[0]) {
+        toast({ title: "Error", description: error?.message || "Could not issue a check-in code.", variant: "destructive" });
+        return;
+      }
+      setCode(data[0].code);
+      setSecondsLeft(ROTATE_SECONDS);
+    };
+    const poll = async () => {
+      const { count } = await supabase
+        .from("attendance_records")
+        .select("id", { count: "exact", head: true })
+        .eq("session_id", session.id)
+        .eq("note", "QR check-in");
+      if (!cancelled) setCheckedIn(count || 0);
+    };
+
+    issue();
+    poll();
+    const rotateTimer = setInterval(issue, ROTATE_SECONDS * 1000);
+    const pollTimer = setInterval(poll, POLL_SECONDS * 1000);
+    const tick = setInterval(() => setSecondsLeft((s) => Math.max(0, s - 1)), 1000);
+    return () => {
+      cancelled = true;
+      clearInterval(rotateTimer);
+      clearInterval(pollTimer);
+      clearInterval(tick);
+    };
+  }, [session, toast]);
+
+  return (
+    <Dialog open={!!session} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>QR Check-in · {session?.title}</DialogTitle>
+          <DialogDescription>
+            {session && format(parseISO(session.session_date), "EEEE, MMM dd")} · Students scan this from their dashboard. The code changes every {ROTATE_SECONDS} seconds.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex flex-col items-center gap-4">
+          {code ? (
+            <>
+              <QrCode value={checkInUrl(code)} size={320} className="rounded-lg border" />
+              <p className="font-mono text-3xl font-bold tracking-[0.3em]">{code}</p>
+              <p className="text-sm text-muted-foreground">New code in {secondsLeft}s</p>
+            </>
+          ) : (
+            <div className="flex h-80 items-center justify-center"><Loader2 className="h-8 w-8 animate-spin text-muted-foreground" /></div>
+          )}
+          <Badge variant="outline" className="bg-success/10 text-success border-success/20 text-sm">
+            <Users className="mr-1 h-4 w-4" /> {checkedIn} checked in
+          </Badge>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
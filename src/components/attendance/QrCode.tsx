@@ -0,0 +1,36 @@
+import { useMemo } from "react";
+import { encodeQr } from "@/lib/qrcode";
+
+interface QrCodeProps {
+  value: string;
+  size?: number;
+  className?: string;
+}
+
+const QUIET_ZONE = 4;
+
+export function QrCode({ value, size = 256, className }: QrCodeProps) {
+  const { path, dimension } = useMemo(() => {
+    const modules = encodeQr(value);
+    const segments: string[] = [];
+    modules.forEach((row, y) => row.forEach((dark, x) => {
+      if (dark) segments.push(`M${x + QUIET_ZONE} ${y + QUIET_ZONE}h1v1h-1z`);
+    }));
+    return { path: segments.join(""), dimension: modules.length + QUIET_ZONE * 2 };
+  }, [value]);
+
+  return (
+    <svg
+      viewBox={`0 0 ${dimension} ${dimension}`}
+      width={size}
+      height={size}
+      shapeRendering="crispEdges"
+      className={className}
+      role="img"
+      aria-label="QR code"
+    >
+      <rect width={dimension} height={dimension} fill="#ffffff" />
+      <path d={path} fill="#000000" />
+    </svg>
+  );
+}
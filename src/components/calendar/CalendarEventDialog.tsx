@@ -0,0 +1,235 @@
+import { useEffect, useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Trash2 } from "lucide-react";
+import { addDays, format, parseISO } from "date-fns";
+import { cn } from "@/lib/utils";
+import { CalendarEventRow, EVENT_TYPES, RECURRENCE_OPTIONS, WEEKDAYS } from "@/lib/calendarEvents";
+
+interface CalendarEventDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  batches: { id: string; name: string }[];
+  // Event being edited, or null to create one
+  event: CalendarEventRow | null;
+  defaultBatchId?: string;
+  defaultDate?: Date | null;
+  onSaved: () => void;
+}
+
+const combine = (date: string, time: string) => {
+  const [year, month, day] = date.split("-").map(Number);
+  const [hours, minutes] = time.split(":").map(Number);
+  return new Date(year, month - 1, day, hours, minutes);
+};
+
+export function CalendarEventDialog({ open, onOpenChange, batches, event, defaultBatchId, defaultDate, onSaved }: CalendarEventDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [batchId, setBatchId] = useState("");
+  const [title, setTitle] = useState("");
+  const [eventType, setEventType] = useState("session");
+  const [date, setDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [startTime, setStartTime] = useState("10:00");
+  const [endTime, setEndTime] = useState("11:00");
+  const [allDay, setAllDay] = useState(false);
+  const [location, setLocation] = useState("");
+  const [description, setDescription] = useState("");
+  const [recurrence, setRecurrence] = useState("none");
+  const [recurrenceDays, setRecurrenceDays] = useState<number[]>([]);
+  const [recurrenceUntil, setRecurrenceUntil] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    if (event) {
+      const start = parseISO(event.starts_at);
+      const end = parseISO(event.ends_at);
+      setBatchId(event.batch_id); setTitle(event.title); setEventType(event.event_type);
+      setDate(format(start, "yyyy-MM-dd"));
+      // All-day events end at midnight after their last day
+      setEndDate(format(event.all_day ? addDays(end, -1) : end, "yyyy-MM-dd"));
+      setStartTime(format(start, "HH:mm")); setEndTime(format(end, "HH:mm"));
+      setAllDay(event.all_day); setLocation(event.location || ""); setDescription(event.description || "");
+      setRecurrence(event.recurrence); setRecurrenceDays(event.recurrence_days); setRecurrenceUntil(event.recurrence_until || "");
+    } else {
+      const day = format(defaultDate || new Date(), "yyyy-MM-dd");
+      setBatchId(defaultBatchId || ""); setTitle(""); setEventType("session");
+      setDate(day); setEndDate(day); setStartTime("10:00"); setEndTime("11:00");
+      setAllDay(false); setLocation(""); setDescription("");
+      setRecurrence("none"); setRecurrenceDays([]); setRecurrenceUntil("");
+    }
+  }, [open, event, defaultBatchId, defaultDate]);
+
+  const toggleDay = (day: number) =>
+    setRecurrenceDays((days) => (days.includes(day) ? days.filter((d) => d !== day) : [...days, day].sort()));
+
+  const handleSave = async () => {
+    if (!batchId || !title.trim() || !date) {
+      toast({ title: "Error", description: "Batch, title and date are required.", variant: "destructive" });
+      return;
+    }
+    const startsAt = allDay ? combine(date, "00:00") : combine(date, startTime);
+    const endsAt = allDay ? addDays(combine(endDate || date, "00:00"), 1) : combine(date, endTime);
+    if (endsAt <= startsAt) {
+      toast({ title: "Error", description: "The event must end after it starts.", variant: "destructive" });
+      return;
+    }
+    if (recurrenceUntil && recurrenceUntil < date) {
+      toast({ title: "Error", description: "The repeat end date is before the first occurrence.", variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const payload = {
+        batch_id: batchId,
+        title: title.trim(),
+        description: description.trim() || null,
+        event_type: eventType,
+        starts_at: startsAt.toISOString(),
+        ends_at: endsAt.toISOString(),
+        all_day: allDay,
+        location: location.trim() || null,
+        recurrence,
+        recurrence_days: recurrence === "weekly" ? recurrenceDays : [],
+        recurrence_until: recurrence !== "none" && recurrenceUntil ? recurrenceUntil : null,
+      };
+      const { error } = event
+        ? await supabase.from("calendar_events").update(payload).eq("id", event.id)
+        : await supabase.from("calendar_events").insert({ ...payload, created_by: user!.id });
+      if (error) throw error;
+      toast({ title: "Saved", description: event ? "Event updated." : "Event added to the calendar." });
+      onSaved();
+      onOpenChange(false);
+    } catch (error: unknown) {
+      toast({ title: "Error", description: error instanceof Error ? error.message : "Could not save the event.", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!event) return;
+    setSaving(true);
+    try {
+      const { error } = await supabase.from("calendar_events").delete().eq("id", event.id);
+      if (error) throw error;
+      toast({ title: "Deleted", description: event.recurrence === "none" ? "Event deleted." : "All occurrences deleted." });
+      onSaved();
+      onOpenChange(false);
+    } catch (error: unknown) {
+      toast({ title: "Error", description: error instanceof Error ? error.message : "Could not delete the event.", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{event ? "Edit Event" : "Add Event"}</DialogTitle>
+          <DialogDescription>{event && event.recurrence !== "none" ? "Changes apply to every occurrence." : "Sessions, holidays and reviews for a batch."}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Batch *</Label>
+              <Select value={batchId} onValueChange={setBatchId}>
+                <SelectTrigger><SelectValue placeholder="Select batch" /></SelectTrigger>
+                <SelectContent>{batches.map((b) => <SelectItem key={b.id} value={b.id}>{b.name}</SelectItem>)}</SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={eventType} onValueChange={setEventType}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>{EVENT_TYPES.map((t) => <SelectItem key={t.value} value={t.value}>{t.label}</SelectItem>)}</SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Title *</Label>
+            <Input value={title} onChange={(e) => setTitle(e.target.value)} placeholder="e.g. React Fundamentals" />
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="all-day" checked={allDay} onCheckedChange={setAllDay} />
+            <Label htmlFor="all-day">All day</Label>
+          </div>
+          {allDay ? (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2"><Label>From *</Label><Input type="date" value={date} onChange={(e) => { setDate(e.target.value); if (endDate < e.target.value) setEndDate(e.target.value); }} /></div>
+              <div className="space-y-2"><Label>To</Label><Input type="date" value={endDate} min={date} onChange={(e) => setEndDate(e.target.value)} /></div>
+            </div>
+          ) : (
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2"><Label>Date *</Label><Input type="date" value={date} onChange={(e) => setDate(e.target.value)} /></div>
+              <div className="space-y-2"><Label>Starts</Label><Input type="time" value={startTime} onChange={(e) => setStartTime(e.target.value)} /></div>
+              <div className="space-y-2"><Label>Ends</Label><Input type="time" value={endTime} onChange={(e) => setEndTime(e.target.value)} /></div>
+            </div>
+          )}
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Repeat</Label>
+              <Select value={recurrence} onValueChange={setRecurrence}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>{RECURRENCE_OPTIONS.map((r) => <SelectItem key={r.value} value={r.value}>{r.label}</SelectItem>)}</SelectContent>
+              </Select>
+            </div>
+            {recurrence !== "none" && (
+              <div className="space-y-2"><Label>Until</Label><Input type="date" value={recurrenceUntil} min={date} onChange={(e) => setRecurrenceUntil(e.target.value)} /></div>
+            )}
+          </div>
+          {recurrence === "weekly" && (
+            <div className="space-y-2">
+              <Label>On</Label>
+              <div className="flex flex-wrap gap-1">
+                {WEEKDAYS.map((d, i) => (
+                  <Button
+                    key={d}
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    className={cn(recurrenceDays.includes(i) && "bg-primary text-primary-foreground hover:bg-primary/90 hover:text-primary-foreground")}
+                    onClick={() => toggleDay(i)}
+                  >
+                    {d}
+                  </Button>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">Leave empty to repeat on the weekday of the first date.</p>
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label>Location</Label>
+            <Input value={location} onChange={(e) => setLocation(e.target.value)} placeholder="Room, lab or meeting link" />
+          </div>
+          <div className="space-y-2">
+            <Label>Description</Label>
+            <Textarea value={description} onChange={(e) => setDescription(e.target.value)} rows={2} />
+          </div>
+          <div className="flex justify-between gap-3">
+            {event ? (
+              <Button variant="ghost" className="text-destructive hover:text-destructive" onClick={handleDelete} disabled={saving}>
+                <Trash2 className="mr-2 h-4 w-4" /> Delete
+              </Button>
+            ) : <span />}
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null} {event ? "Save Changes" : "Add Event"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
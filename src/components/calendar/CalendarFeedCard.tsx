@@ -0,0 +1,190 @@
+import { useEffect, useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { CalendarDays, Copy, ExternalLink, Loader2, RefreshCw, Trash2 } from "lucide-react";
+import { format, parseISO } from "date-fns";
+
+interface FeedToken {
+  created_at: string;
+  last_accessed_at: string | null;
+}
+
+const FEED_ENDPOINT = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/calendar-feed`;
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes).map((b) => b.toString(16).padStart(2, "0")).join("");
+
+// Only the hash is stored; the feed function hashes the token from the URL the same way
+const sha256 = async (value: string) =>
+  toHex(new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value))));
+
+export function CalendarFeedCard() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [feed, setFeed] = useState<FeedToken | null>(null);
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [confirm, setConfirm] = useState<"regenerate" | "revoke" | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+    supabase
+      .from("calendar_feed_tokens")
+      .select("created_at, last_accessed_at")
+      .eq("user_id", user.id)
+      .maybeSingle()
+      .then(({ data }) => {
+        setFeed(data);
+        setLoading(false);
+      });
+  }, [user]);
+
+  const generate = async () => {
+    if (!user) return;
+    setWorking(true);
+    try {
+      const token = toHex(crypto.getRandomValues(new Uint8Array(32)));
+      const { data, error } = await supabase
+        .from("calendar_feed_tokens")
+        .upsert({ user_id: user.id, token_hash: await sha256(token), created_at: new Date().toISOString(), last_accessed_at: null })
+        .select("created_at, last_accessed_at")
+        .single();
+      if (error) throw error;
+      setFeed(data);
+      setFeedUrl(`${FEED_ENDPOINT}?token=${token}`);
+      toast({ title: "Feed link created", description: "Copy it now — it is shown only once." });
+    } catch (error: unknown) {
+      toast({ title: "Error", description: error instanceof Error ? error.message : "Could not create the feed link.", variant: "destructive" });
+    } finally {
+      setWorking(false);
+      setConfirm(null);
+    }
+  };
+
+  const revoke = async () => {
+    if (!user) return;
+    setWorking(true);
+    try {
+      const { error } = await supabase.from("calendar_feed_tokens").delete().eq("user_id", user.id);
+      if (error) throw error;
+      setFeed(null);
+      setFeedUrl(null);
+      toast({ title: "Feed revoked", description: "Calendars subscribed to the old link will stop updating." });
+    } catch (error: unknown) {
+      toast({ title: "Error", description: error instanceof Error ? error.message : "Could not revoke the feed link.", variant: "destructive" });
+    } finally {
+      setWorking(false);
+      setConfirm(null);
+    }
+  };
+
+  const copyUrl = async () => {
+    if (!feedUrl) return;
+    await navigator.clipboard.writeText(feedUrl);
+    toast({ title: "Copied", description: "Paste the link into your calendar app's \"Subscribe by URL\" option." });
+  };
+
+  return (
+    <Card className="slide-up" style={{ animationDelay: '0.2s' }}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarDays className="h-5 w-5" />
+          Calendar Feed
+        </CardTitle>
+        <CardDescription>
+          Subscribe from Google Calendar, Outlook or Apple Calendar to see sessions, deadlines and approved leaves.
+          The link is private — anyone who has it can read your calendar.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        ) : (
+          <>
+            {feed ? (
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <Badge className="bg-success/10 text-success">Active</Badge>
+                <span className="text-muted-foreground">Created {format(parseISO(feed.created_at), "MMM dd, yyyy")}</span>
+                <span className="text-muted-foreground">
+                  · {feed.last_accessed_at ? `Last synced ${format(parseISO(feed.last_accessed_at), "MMM dd, h:mm a")}` : "Not synced yet"}
+                </span>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">You don't have a feed link yet.</p>
+            )}
+
+            {feedUrl && (
+              <div className="space-y-2">
+                <div className="flex gap-2">
+                  <Input value={feedUrl} readOnly className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+                  <Button variant="outline" size="icon" onClick={copyUrl} title="Copy link"><Copy className="h-4 w-4" /></Button>
+                  <Button variant="outline" size="icon" asChild title="Open in calendar app">
+                    <a href={feedUrl.replace(/^https?:/, "webcal:")}><ExternalLink className="h-4 w-4" /></a>
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">This link won't be shown again. Regenerate it if you lose it.</p>
+              </div>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+              {feed ? (
+                <>
+                  <Button variant="outline" onClick={() => setConfirm("regenerate")} disabled={working}>
+                    <RefreshCw className="mr-2 h-4 w-4" /> Regenerate Link
+                  </Button>
+                  <Button variant="ghost" className="text-destructive hover:text-destructive" onClick={() => setConfirm("revoke")} disabled={working}>
+                    <Trash2 className="mr-2 h-4 w-4" /> Revoke
+                  </Button>
+                </>
+              ) : (
+                <Button onClick={generate} disabled={working}>
+                  {working ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CalendarDays className="mr-2 h-4 w-4" />}
+                  Create Feed Link
+                </Button>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!confirm} onOpenChange={(open) => !open && setConfirm(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{confirm === "revoke" ? "Revoke calendar feed?" : "Regenerate feed link?"}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {confirm === "revoke"
+                ? "Calendars subscribed to your current link will stop receiving updates."
+                : "Your current link stops working immediately. You'll need to subscribe again with the new link."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={working}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => { e.preventDefault(); if (confirm === "revoke") revoke(); else generate(); }}
+              disabled={working}
+              className={confirm === "revoke" ? "bg-destructive text-destructive-foreground hover:bg-destructive/90" : undefined}
+            >
+              {working && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {confirm === "revoke" ? "Revoke" : "Regenerate"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
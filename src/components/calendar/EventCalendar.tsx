@@ -0,0 +1,173 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ChevronLeft, ChevronRight, MapPin, Repeat } from "lucide-react";
+import {
+  addDays, addMonths, addWeeks, endOfMonth, endOfWeek, format, isSameDay, isSameMonth, isToday,
+  startOfDay, startOfMonth, startOfWeek,
+} from "date-fns";
+import { cn } from "@/lib/utils";
+import { CalendarEventRow, CalendarOccurrence, OCCURRENCE_STYLES, WEEKDAYS, collectOccurrences } from "@/lib/calendarEvents";
+
+type CalendarView = "month" | "week" | "agenda";
+
+interface EventCalendarProps {
+  events: CalendarEventRow[];
+  deadlines: CalendarOccurrence[];
+  onSelect?: (occurrence: CalendarOccurrence) => void;
+  onSelectDay?: (day: Date) => void;
+}
+
+const AGENDA_DAYS = 30;
+
+const timeLabel = (o: CalendarOccurrence) => {
+  if (o.source !== "event") return o.allDay ? "Due today" : `Due ${format(o.start, "h:mm a")}`;
+  return o.allDay ? "All day" : `${format(o.start, "h:mm a")} – ${format(o.end, "h:mm a")}`;
+};
+
+export function EventCalendar({ events, deadlines, onSelect, onSelectDay }: EventCalendarProps) {
+  const [view, setView] = useState<CalendarView>("month");
+  const [cursor, setCursor] = useState(startOfDay(new Date()));
+
+  const range = view === "month"
+    ? { start: startOfWeek(startOfMonth(cursor)), end: addDays(endOfWeek(endOfMonth(cursor)), 1) }
+    : view === "week"
+      ? { start: startOfWeek(cursor), end: addDays(endOfWeek(cursor), 1) }
+      : { start: cursor, end: addDays(cursor, AGENDA_DAYS) };
+  const occurrences = collectOccurrences(events, deadlines, range.start, range.end);
+  const recurringIds = new Set(events.filter((e) => e.recurrence !== "none").map((e) => e.id));
+
+  const days: Date[] = [];
+  for (let d = range.start; d < range.end; d = addDays(d, 1)) days.push(d);
+  const onDay = (day: Date) => occurrences.filter((o) => isSameDay(o.start, day)
+    || (o.allDay && o.source === "event" && o.start < day && o.end > day));
+
+  const move = (step: number) => setCursor(
+    view === "month" ? addMonths(cursor, step) : view === "week" ? addWeeks(cursor, step) : addDays(cursor, step * AGENDA_DAYS),
+  );
+  const heading = view === "month"
+    ? format(cursor, "MMMM yyyy")
+    : `${format(range.start, "MMM dd")} – ${format(addDays(range.end, -1), "MMM dd, yyyy")}`;
+
+  const Chip = ({ o, compact }: { o: CalendarOccurrence; compact?: boolean }) => (
+    <button
+      type="button"
+      onClick={(e) => { e.stopPropagation(); onSelect?.(o); }}
+      className={cn("w-full truncate rounded border px-1.5 py-0.5 text-left text-xs", OCCURRENCE_STYLES[o.type]?.className)}
+      title={o.title}
+    >
+      {!compact && !o.allDay && <span className="mr-1 opacity-70">{format(o.start, "h:mm")}</span>}
+      {o.title}
+    </button>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" onClick={() => move(-1)}><ChevronLeft className="h-4 w-4" /></Button>
+          <Button variant="outline" size="sm" onClick={() => setCursor(startOfDay(new Date()))}>Today</Button>
+          <Button variant="outline" size="icon" onClick={() => move(1)}><ChevronRight className="h-4 w-4" /></Button>
+          <h3 className="ml-2 text-lg font-semibold">{heading}</h3>
+        </div>
+        <Tabs value={view} onValueChange={(v) => setView(v as CalendarView)}>
+          <TabsList>
+            <TabsTrigger value="month">Month</TabsTrigger>
+            <TabsTrigger value="week">Week</TabsTrigger>
+            <TabsTrigger value="agenda">Agenda</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {Object.entries(OCCURRENCE_STYLES).map(([type, style]) => (
+          <Badge key={type} variant="outline" className={style.className}>{style.label}</Badge>
+        ))}
+      </div>
+
+      {view === "month" && (
+        <div className="overflow-x-auto">
+          <div className="grid min-w-[640px] grid-cols-7 border-l border-t">
+            {WEEKDAYS.map((d) => (
+              <div key={d} className="border-b border-r bg-muted/50 p-2 text-center text-xs font-medium text-muted-foreground">{d}</div>
+            ))}
+            {days.map((day) => {
+              const items = onDay(day);
+              return (
+                <div
+                  key={day.toISOString()}
+                  onClick={() => onSelectDay?.(day)}
+                  className={cn(
+                    "min-h-[96px] space-y-1 border-b border-r p-1",
+                    !isSameMonth(day, cursor) && "bg-muted/30 text-muted-foreground",
+                    onSelectDay && "cursor-pointer hover:bg-muted/40",
+                  )}
+                >
+                  <div className={cn("flex h-6 w-6 items-center justify-center rounded-full text-xs", isToday(day) && "bg-primary text-primary-foreground")}>
+                    {format(day, "d")}
+                  </div>
+                  {items.slice(0, 3).map((o) => <Chip key={o.key} o={o} />)}
+                  {items.length > 3 && <p className="px-1 text-xs text-muted-foreground">+{items.length - 3} more</p>}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {view === "week" && (
+        <div className="overflow-x-auto">
+          <div className="grid min-w-[640px] grid-cols-7 gap-2">
+            {days.map((day) => (
+              <div key={day.toISOString()} className={cn("min-h-[240px] space-y-1 rounded-lg border p-2", isToday(day) && "border-primary")}>
+                <button type="button" className="w-full text-left" onClick={() => onSelectDay?.(day)}>
+                  <p className="text-xs text-muted-foreground">{format(day, "EEE")}</p>
+                  <p className="text-lg font-semibold">{format(day, "d")}</p>
+                </button>
+                {onDay(day).map((o) => (
+                  <div key={o.key} className="space-y-0.5">
+                    <Chip o={o} compact />
+                    <p className="px-1 text-[10px] text-muted-foreground">{timeLabel(o)}</p>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {view === "agenda" && (
+        occurrences.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">Nothing scheduled in the next {AGENDA_DAYS} days.</p>
+        ) : (
+          <div className="space-y-4">
+            {days.filter((day) => onDay(day).length > 0).map((day) => (
+              <div key={day.toISOString()} className="space-y-2">
+                <h4 className={cn("text-sm font-semibold", isToday(day) && "text-primary")}>{format(day, "EEEE, MMM dd")}</h4>
+                {onDay(day).map((o) => (
+                  <button
+                    key={o.key}
+                    type="button"
+                    onClick={() => onSelect?.(o)}
+                    className="flex w-full items-start gap-3 rounded-lg border p-3 text-left hover:bg-muted/40"
+                  >
+                    <Badge variant="outline" className={cn("shrink-0", OCCURRENCE_STYLES[o.type]?.className)}>{OCCURRENCE_STYLES[o.type]?.label || o.type}</Badge>
+                    <div className="min-w-0">
+                      <p className="flex items-center gap-1 font-medium text-sm">
+                        {o.title}
+                        {o.eventId && recurringIds.has(o.eventId) && <Repeat className="h-3 w-3 text-muted-foreground" />}
+                      </p>
+                      <p className="text-xs text-muted-foreground">{timeLabel(o)}</p>
+                      {o.location && <p className="flex items-center gap-1 text-xs text-muted-foreground"><MapPin className="h-3 w-3" />{o.location}</p>}
+                    </div>
+                  </button>
+                ))}
+              </div>
+            ))}
+          </div>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Clock, MapPin } from "lucide-react";
+import { format } from "date-fns";
+import { CalendarOccurrence, OCCURRENCE_STYLES } from "@/lib/calendarEvents";
+
+interface OccurrenceDetailsDialogProps {
+  occurrence: CalendarOccurrence | null;
+  batchName?: string;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function OccurrenceDetailsDialog({ occurrence, batchName, onOpenChange }: OccurrenceDetailsDialogProps) {
+  const style = occurrence ? OCCURRENCE_STYLES[occurrence.type] : undefined;
+  const when = (o: CalendarOccurrence) => {
+    if (o.source !== "event") return `Due ${format(o.start, "EEEE, MMM dd")}${o.allDay ? "" : ` at ${format(o.start, "h:mm a")}`}`;
+    if (o.allDay) return `${format(o.start, "EEEE, MMM dd")}${o.end.getTime() - o.start.getTime() > 86400000 ? ` – ${format(new Date(o.end.getTime() - 1), "MMM dd")}` : ""}`;
+    return `${format(o.start, "EEEE, MMM dd · h:mm a")} – ${format(o.end, "h:mm a")}`;
+  };
+
+  return (
+    <Dialog open={!!occurrence} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        {occurrence && (
+          <>
+            <DialogHeader>
+              <DialogTitle>{occurrence.title}</DialogTitle>
+              <DialogDescription className="flex flex-wrap items-center gap-2 pt-1">
+                <Badge variant="outline" className={style?.className}>{style?.label || occurrence.type}</Badge>
+                {batchName && <Badge variant="outline">{batchName}</Badge>}
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2 text-sm">
+              <p className="flex items-center gap-2"><Clock className="h-4 w-4 text-muted-foreground" />{when(occurrence)}</p>
+              {occurrence.location && <p className="flex items-center gap-2"><MapPin className="h-4 w-4 text-muted-foreground" />{occurrence.location}</p>}
+              {occurrence.description && <p className="whitespace-pre-wrap text-muted-foreground">{occurrence.description}</p>}
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
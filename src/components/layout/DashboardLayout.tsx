@@ -5,6 +5,8 @@ import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { NotificationBell } from "@/components/layout/NotificationBell";
+import { useNotifications } from "@/hooks/useNotifications";
 import {
   DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel,
   DropdownMenuSeparator, DropdownMenuTrigger,
@@ -15,7 +17,7 @@ import {
   GraduationCap, LayoutDashboard, User, BookOpen, FolderKanban, CalendarOff,
   MessageSquare, Users, Settings, LogOut, Menu, ChevronRight, Shield, UserCog,
   Library, ClipboardList, TrendingUp, Calendar, Briefcase, Upload, FileSearch,
-  Star, FileQuestion, FileText,
+  Star, FileQuestion, FileText, Layers, BarChart3, Wallet, ClipboardCheck,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 
@@ -48,7 +50,9 @@ const facultyNavItems: NavItem[] = [
   { title: "Resources", href: "/manage-resources", icon: Library },
   { title: "Assignments", href: "/manage-assignments", icon: ClipboardList },
   { title: "Quizzes", href: "/manage-quizzes", icon: FileQuestion },
+  { title: "Question Bank", href: "/question-bank", icon: Layers },
   { title: "Calendar", href: "/manage-calendar", icon: Calendar },
+  { title: "Attendance", href: "/manage-attendance", icon: ClipboardCheck },
   { title: "Check Progress", href: "/check-progress", icon: TrendingUp },
   { title: "Internship Diaries", href: "/view-diaries", icon: BookOpen },
   { title: "Projects", href: "/view-projects", icon: FolderKanban },
@@ -65,7 +69,9 @@ const adminNavItems: NavItem[] = [
   { title: "Resources", href: "/manage-resources", icon: Library },
   { title: "Assignments", href: "/manage-assignments", icon: ClipboardList },
   { title: "Quizzes", href: "/manage-quizzes", icon: FileQuestion },
+  { title: "Question Bank", href: "/question-bank", icon: Layers },
   { title: "Calendar", href: "/manage-calendar", icon: Calendar },
+  { title: "Attendance", href: "/manage-attendance", icon: ClipboardCheck },
   { title: "Projects", href: "/view-projects", icon: FolderKanban },
   { title: "Faculty", href: "/faculty", icon: UserCog },
   { title: "Batches", href: "/batches", icon: GraduationCap },
@@ -75,6 +81,8 @@ const adminNavItems: NavItem[] = [
   { title: "Session Feedbacks", href: "/admin-feedbacks", icon: Star },
   { title: "Upload Leads", href: "/upload-leads", icon: Upload },
   { title: "Leads Generated", href: "/admin-leads-generated", icon: FileSearch },
+  { title: "Leads Funnel", href: "/admin-leads-funnel", icon: BarChart3 },
+  { title: "Payments", href: "/admin-payments", icon: Wallet },
   { title: "Templates", href: "/admin-templates", icon: FileText },
   { title: "Reviews Generated", href: "/admin-reviews-generated", icon: FileText },
 ];
@@ -95,6 +103,7 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
   const { user, role, studentStatus, signOut } = useAuth();
   const location = useLocation();
   const navigate = useNavigate();
+  const notifications = useNotifications();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const [userProfile, setUserProfile] = useState<{
     full_name: string;
@@ -246,6 +255,7 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
             <GraduationCap className="h-5 w-5 text-primary-foreground" />
           </div>
           <span className="text-lg font-bold bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">FEST Interns</span>
+          <NotificationBell {...notifications} className="ml-auto" />
         </div>
         <div className="flex-1 overflow-y-auto"><NavContent /></div>
         <div className="border-t p-3">
@@ -289,12 +299,15 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
             </div>
             <span className="font-bold">FEST Interns</span>
           </div>
-          <Avatar className="h-8 w-8">
-            <AvatarImage src={userProfile?.avatar_url || ""} />
-            <AvatarFallback className="bg-primary text-primary-foreground text-xs">
-              {getInitials(userProfile?.full_name || user?.user_metadata?.full_name)}
-            </AvatarFallback>
-          </Avatar>
+          <div className="flex items-center gap-1">
+            <NotificationBell {...notifications} />
+            <Avatar className="h-8 w-8">
+              <AvatarImage src={userProfile?.avatar_url || ""} />
+              <AvatarFallback className="bg-primary text-primary-foreground text-xs">
+                {getInitials(userProfile?.full_name || user?.user_metadata?.full_name)}
+              </AvatarFallback>
+            </Avatar>
+          </div>
         </header>
         <div className="container max-w-7xl py-6 pb-24 md:py-8 md:pb-8">{children}</div>
         <MobileBottomNav />
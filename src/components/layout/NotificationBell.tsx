@@ -0,0 +1,69 @@
+import { useNavigate } from "react-router-dom";
+import { formatDistanceToNow, parseISO } from "date-fns";
+import { Bell, CheckCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { AppNotification } from "@/hooks/useNotifications";
+import { cn } from "@/lib/utils";
+
+interface NotificationBellProps {
+  notifications: AppNotification[];
+  unreadCount: number;
+  markRead: (id: string) => void;
+  markAllRead: () => void;
+  className?: string;
+}
+
+export function NotificationBell({ notifications, unreadCount, markRead, markAllRead, className }: NotificationBellProps) {
+  const navigate = useNavigate();
+
+  const openNotification = (n: AppNotification) => {
+    markRead(n.id);
+    if (n.link) navigate(n.link);
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className={cn("relative", className)} aria-label={`Notifications${unreadCount ? ` (${unreadCount} unread)` : ""}`}>
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -right-0.5 -top-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-destructive px-1 text-[10px] font-semibold text-destructive-foreground">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between border-b px-4 py-3">
+          <p className="font-semibold">Notifications</p>
+          {unreadCount > 0 && (
+            <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={markAllRead}>
+              <CheckCheck className="mr-1 h-3 w-3" /> Mark all read
+            </Button>
+          )}
+        </div>
+        {notifications.length === 0 ? (
+          <p className="px-4 py-10 text-center text-sm text-muted-foreground">You're all caught up.</p>
+        ) : (
+          <div className="max-h-96 divide-y overflow-y-auto">
+            {notifications.map((n) => (
+              <button
+                key={n.id}
+                onClick={() => openNotification(n)}
+                className={cn("flex w-full gap-3 px-4 py-3 text-left transition-colors hover:bg-muted/50", !n.read_at && "bg-primary/5")}
+              >
+                <span className={cn("mt-1.5 h-2 w-2 shrink-0 rounded-full", n.read_at ? "bg-transparent" : "bg-primary")} />
+                <span className="min-w-0 flex-1 space-y-0.5">
+                  <span className="block text-sm font-medium">{n.title}</span>
+                  {n.body && <span className="block text-xs text-muted-foreground line-clamp-2">{n.body}</span>}
+                  <span className="block text-[11px] text-muted-foreground">{formatDistanceToNow(parseISO(n.created_at), { addSuffix: true })}</span>
+                </span>
+              </button>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
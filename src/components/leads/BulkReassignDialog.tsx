@@ -0,0 +1,117 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Users } from "lucide-react";
+import { CLOSED_LEAD_STATUSES } from "@/lib/leadAssignment";
+
+interface ReassignBde {
+  user_id: string;
+  profile?: { full_name: string; email: string } | null;
+}
+
+interface BulkReassignDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  bdeUsers: ReassignBde[];
+  leads: { id: string; assigned_bde_id: string | null; status: string }[];
+  onReassigned: () => void;
+}
+
+export function BulkReassignDialog({ open, onOpenChange, bdeUsers, leads, onReassigned }: BulkReassignDialogProps) {
+  const { toast } = useToast();
+  const [fromBde, setFromBde] = useState("");
+  const [target, setTarget] = useState("round_robin");
+  const [openOnly, setOpenOnly] = useState(true);
+  const [pauseFrom, setPauseFrom] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setFromBde(""); setTarget("round_robin"); setOpenOnly(true); setPauseFrom(true);
+    }
+  }, [open]);
+
+  const bdeName = (b: ReassignBde) => b.profile?.full_name || b.profile?.email || b.user_id;
+  const selected = leads.filter((l) =>
+    l.assigned_bde_id === fromBde && (!openOnly || !CLOSED_LEAD_STATUSES.includes(l.status)));
+  const automatic = target === "round_robin" || target === "least_loaded";
+
+  const handleReassign = async () => {
+    if (!fromBde || selected.length === 0) return;
+    setSaving(true);
+    try {
+      // Pause first so automatic distribution can't hand the leads straight back
+      if (pauseFrom || automatic) {
+        const { error } = await supabase.from("bde_lead_settings").upsert({ bde_id: fromBde, active: false });
+        if (error) throw error;
+      }
+
+      const ids = selected.map((l) => l.id);
+      if (automatic) {
+        const { error } = await supabase.rpc("auto_assign_leads", { _lead_ids: ids, _mode: target });
+        if (error) throw error;
+      } else {
+        const { error } = await supabase.from("leads").update({ assigned_bde_id: target }).in("id", ids);
+        if (error) throw error;
+      }
+
+      toast({ title: "Leads Reassigned", description: `${ids.length} leads moved.` });
+      onReassigned();
+      onOpenChange(false);
+    } catch (error: unknown) {
+      toast({ title: "Error", description: error instanceof Error ? error.message : "Reassignment failed.", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Bulk Reassign Leads</DialogTitle>
+          <DialogDescription>Move every lead held by one BDE, e.g. when they leave the team.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>From BDE</Label>
+            <Select value={fromBde} onValueChange={setFromBde}>
+              <SelectTrigger><SelectValue placeholder="Select BDE..." /></SelectTrigger>
+              <SelectContent>{bdeUsers.map((b) => <SelectItem key={b.user_id} value={b.user_id}>{bdeName(b)}</SelectItem>)}</SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Reassign To</Label>
+            <Select value={target} onValueChange={setTarget}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="round_robin">Active BDEs (round-robin)</SelectItem>
+                <SelectItem value="least_loaded">Active BDEs (fewest open leads)</SelectItem>
+                {bdeUsers.filter((b) => b.user_id !== fromBde).map((b) => (
+                  <SelectItem key={b.user_id} value={b.user_id}>{bdeName(b)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox checked={openOnly} onCheckedChange={(c) => setOpenOnly(c === true)} />
+            Only open leads (skip paid and not interested)
+          </label>
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox checked={pauseFrom || automatic} disabled={automatic} onCheckedChange={(c) => setPauseFrom(c === true)} />
+            Stop assigning new leads to this BDE
+          </label>
+          {fromBde && <p className="text-sm text-muted-foreground">{selected.length} leads will be reassigned.</p>}
+          <Button onClick={handleReassign} className="w-full" disabled={saving || !fromBde || selected.length === 0}>
+            {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Users className="mr-2 h-4 w-4" />} Reassign Leads
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,206 @@
+import { useEffect, useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { AlarmClock, CalendarClock, CalendarPlus, Loader2, Phone, PhoneCall } from "lucide-react";
+import { format } from "date-fns";
+import { LeadActivityDialog } from "@/components/leads/LeadActivityDialog";
+import { SNOOZE_OPTIONS, SnoozeOption, getFollowUpBucket, getSnoozedReminder } from "@/lib/leads";
+import { ICS_MIME, buildIcs } from "@/lib/ics";
+import { downloadBlob } from "@/lib/spreadsheet";
+
+interface FollowUpLead {
+  id: string;
+  name: string;
+  phone: string | null;
+  college_name: string | null;
+  course_interested: string | null;
+  status: string;
+  reminder_date: string;
+}
+
+const CALLBACK_MINUTES = 15;
+
+export function FollowUpQueue() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [followUps, setFollowUps] = useState<FollowUpLead[]>([]);
+  const [activityLead, setActivityLead] = useState<FollowUpLead | null>(null);
+  const [activityOpen, setActivityOpen] = useState(false);
+  const [rescheduleLead, setRescheduleLead] = useState<FollowUpLead | null>(null);
+  const [rescheduleAt, setRescheduleAt] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const fetchFollowUps = async () => {
+    if (!user) return;
+    const { data, error } = await supabase
+      .from("leads")
+      .select("id, name, phone, college_name, course_interested, status, reminder_date")
+      .eq("assigned_bde_id", user.id)
+      .eq("status", "re_initiate_call")
+      .not("reminder_date", "is", null)
+      .order("reminder_date", { ascending: true });
+    if (error) console.error("Error fetching follow-ups:", error);
+    setFollowUps((data || []) as FollowUpLead[]);
+    setLoading(false);
+  };
+
+  useEffect(() => { fetchFollowUps(); }, [user]);
+
+  const updateReminder = async (lead: FollowUpLead, reminder: Date) => {
+    setSaving(true);
+    try {
+      const { error } = await supabase.from("leads").update({ reminder_date: reminder.toISOString() }).eq("id", lead.id);
+      if (error) throw error;
+      await supabase.from("lead_activities").insert({
+        lead_id: lead.id, actor_id: user!.id, activity_type: "note",
+        note: `Follow-up moved to ${format(reminder, "MMM dd, yyyy 'at' h:mm a")}.`,
+      });
+      toast({ title: "Follow-up Rescheduled", description: `${lead.name} · ${format(reminder, "MMM dd 'at' h:mm a")}` });
+      fetchFollowUps();
+    } catch (error: unknown) {
+      toast({ title: "Error", description: error instanceof Error ? error.message : "Could not reschedule.", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSnooze = (lead: FollowUpLead, option: SnoozeOption) => updateReminder(lead, getSnoozedReminder(option));
+
+  const handleReschedule = async () => {
+    if (!rescheduleLead || !rescheduleAt) return;
+    await updateReminder(rescheduleLead, new Date(rescheduleAt));
+    setRescheduleLead(null);
+  };
+
+  const now = new Date();
+  const withBucket = followUps.map((l) => ({ ...l, bucket: getFollowUpBucket(new Date(l.reminder_date), now) }));
+  const due = withBucket.filter((l) => l.bucket !== "upcoming");
+  const upcoming = withBucket.filter((l) => l.bucket === "upcoming");
+  const overdueCount = due.filter((l) => l.bucket === "overdue").length;
+
+  const handleExportIcs = () => {
+    const callbacks = withBucket.filter((l) => l.bucket !== "overdue");
+    if (callbacks.length === 0) {
+      toast({ title: "Nothing to Export", description: "No callbacks scheduled from today onwards." });
+      return;
+    }
+    const ics = buildIcs("Lead Callbacks", callbacks.map((l) => {
+      const start = new Date(l.reminder_date);
+      return {
+        uid: `lead-callback-${l.id}@lms`,
+        start,
+        end: new Date(start.getTime() + CALLBACK_MINUTES * 60 * 1000),
+        summary: `Call ${l.name}`,
+        description: [l.phone && `Phone: ${l.phone}`, l.college_name && `College: ${l.college_name}`, l.course_interested && `Course: ${l.course_interested}`]
+          .filter(Boolean).join("\n"),
+        alarmMinutes: 10,
+      };
+    }));
+    downloadBlob(new Blob([ics], { type: ICS_MIME }), "lead-callbacks.ics");
+  };
+
+  const FollowUpList = ({ rows }: { rows: typeof withBucket }) => (
+    rows.length === 0 ? (
+      <p className="text-center text-muted-foreground py-8">No follow-ups here.</p>
+    ) : (
+      <div className="space-y-2">
+        {rows.map((lead) => (
+          <div
+            key={lead.id}
+            className={`flex flex-wrap items-center justify-between gap-2 rounded-lg border p-3 ${lead.bucket === "overdue" ? "border-destructive/50 bg-destructive/5" : ""}`}
+          >
+            <div className="min-w-0">
+              <div className="flex flex-wrap items-center gap-1.5">
+                <p className="font-medium text-sm">{lead.name}</p>
+                {lead.bucket === "overdue" && <Badge className="bg-destructive/10 text-destructive text-xs">Overdue</Badge>}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {format(new Date(lead.reminder_date), lead.bucket === "upcoming" ? "EEE, MMM dd 'at' h:mm a" : "MMM dd 'at' h:mm a")}
+                {lead.college_name && ` · ${lead.college_name}`}
+              </p>
+            </div>
+            <div className="flex items-center gap-1">
+              {lead.phone && (
+                <Button size="sm" variant="ghost" asChild>
+                  <a href={`tel:${lead.phone}`}><Phone className="h-4 w-4" /></a>
+                </Button>
+              )}
+              <Button size="sm" variant="outline" onClick={() => { setActivityLead(lead); setActivityOpen(true); }}>
+                <PhoneCall className="mr-1 h-4 w-4" /> Log
+              </Button>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button size="sm" variant="outline" disabled={saving}><AlarmClock className="mr-1 h-4 w-4" /> Snooze</Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  {SNOOZE_OPTIONS.map((o) => (
+                    <DropdownMenuItem key={o.value} onClick={() => handleSnooze(lead, o.value)}>{o.label}</DropdownMenuItem>
+                  ))}
+                  <DropdownMenuItem onClick={() => { setRescheduleLead(lead); setRescheduleAt(format(new Date(lead.reminder_date), "yyyy-MM-dd'T'HH:mm")); }}>
+                    Pick a time...
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
+          </div>
+        ))}
+      </div>
+    )
+  );
+
+  return (
+    <Card className="slide-up">
+      <CardHeader className="flex flex-row items-center justify-between gap-2">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <CalendarClock className="h-4 w-4" /> Today's Follow-ups
+          {overdueCount > 0 && <Badge className="bg-destructive/10 text-destructive">{overdueCount} overdue</Badge>}
+        </CardTitle>
+        <Button size="sm" variant="outline" onClick={handleExportIcs} disabled={loading}>
+          <CalendarPlus className="mr-2 h-4 w-4" /> Export .ics
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-8"><Loader2 className="h-6 w-6 animate-spin text-primary" /></div>
+        ) : (
+          <Tabs defaultValue="due" className="space-y-4">
+            <TabsList>
+              <TabsTrigger value="due">Due ({due.length})</TabsTrigger>
+              <TabsTrigger value="upcoming">Upcoming ({upcoming.length})</TabsTrigger>
+            </TabsList>
+            <TabsContent value="due"><FollowUpList rows={due} /></TabsContent>
+            <TabsContent value="upcoming"><FollowUpList rows={upcoming} /></TabsContent>
+          </Tabs>
+        )}
+      </CardContent>
+
+      <Dialog open={!!rescheduleLead} onOpenChange={(open) => { if (!open) setRescheduleLead(null); }}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Reschedule Follow-up</DialogTitle>
+            <DialogDescription>{rescheduleLead?.name}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label>Call back at</Label>
+            <Input type="datetime-local" value={rescheduleAt} onChange={(e) => setRescheduleAt(e.target.value)} />
+          </div>
+          <Button onClick={handleReschedule} disabled={saving || !rescheduleAt} className="w-full">
+            {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null} Save
+          </Button>
+        </DialogContent>
+      </Dialog>
+
+      <LeadActivityDialog lead={activityLead} open={activityOpen} onOpenChange={setActivityOpen} canLog />
+    </Card>
+  );
+}
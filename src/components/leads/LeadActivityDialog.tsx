@@ -0,0 +1,210 @@
+import { useEffect, useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowRight, GraduationCap, Loader2, MessageCircle, Phone, Plus, StickyNote, Unlink, UserCheck } from "lucide-react";
+import { format } from "date-fns";
+import {
+  CALL_OUTCOMES, LOGGED_ACTIVITY_TYPES, LoggedActivityType, getCallOutcomeLabel, getLeadStatusLabel,
+} from "@/lib/leads";
+
+interface LeadActivity {
+  id: string;
+  actor_id: string | null;
+  activity_type: string;
+  from_status: string | null;
+  to_status: string | null;
+  call_outcome: string | null;
+  assigned_bde_id: string | null;
+  student_id: string | null;
+  note: string | null;
+  created_at: string;
+}
+
+interface LeadActivityDialogProps {
+  lead: { id: string; name: string; status: string } | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  canLog?: boolean;
+}
+
+const activityIcons: Record<string, typeof Phone> = {
+  created: Plus,
+  status_change: ArrowRight,
+  assignment: UserCheck,
+  call: Phone,
+  whatsapp: MessageCircle,
+  note: StickyNote,
+  student_linked: GraduationCap,
+  student_unlinked: Unlink,
+};
+
+export function LeadActivityDialog({ lead, open, onOpenChange, canLog = false }: LeadActivityDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(false);
+  const [activities, setActivities] = useState<LeadActivity[]>([]);
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+  const [activityType, setActivityType] = useState<LoggedActivityType>("call");
+  const [callOutcome, setCallOutcome] = useState("connected");
+  const [note, setNote] = useState("");
+
+  const fetchActivities = async (leadId: string) => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("lead_activities").select("*").eq("lead_id", leadId).order("created_at", { ascending: false });
+      if (error) throw error;
+      setActivities(data || []);
+
+      const ids = [...new Set((data || []).flatMap((a) => [a.actor_id, a.assigned_bde_id, a.student_id]).filter(Boolean))] as string[];
+      if (ids.length > 0) {
+        // Only admins can read other users' profiles; BDEs see "You" / "Team member"
+        const { data: profiles } = await supabase.from("profiles").select("id, full_name").in("id", ids);
+        setNames(Object.fromEntries((profiles || []).map((p) => [p.id, p.full_name])));
+      }
+    } catch (error) {
+      console.error("Error:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (open && lead) {
+      setNote(""); setActivityType("call"); setCallOutcome("connected");
+      fetchActivities(lead.id);
+    }
+  }, [open, lead]);
+
+  const personName = (id: string | null) => {
+    if (!id) return "System";
+    if (id === user?.id) return "You";
+    return names[id] || "Team member";
+  };
+
+  const handleLog = async () => {
+    if (!lead || !user) return;
+    if (activityType === "note" && !note.trim()) {
+      toast({ title: "Error", description: "Write a note first.", variant: "destructive" });
+      return;
+    }
+    setSaving(true);
+    try {
+      const { error } = await supabase.from("lead_activities").insert({
+        lead_id: lead.id,
+        actor_id: user.id,
+        activity_type: activityType,
+        call_outcome: activityType === "call" ? callOutcome : null,
+        note: note.trim() || null,
+      });
+      if (error) throw error;
+      setNote("");
+      fetchActivities(lead.id);
+    } catch (error: unknown) {
+      toast({ title: "Error", description: error instanceof Error ? error.message : "Could not log activity.", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const describe = (a: LeadActivity) => {
+    switch (a.activity_type) {
+      case "created":
+        return <>Lead created as <Badge variant="outline">{getLeadStatusLabel(a.to_status)}</Badge></>;
+      case "status_change":
+        return (
+          <>
+            <Badge variant="outline">{getLeadStatusLabel(a.from_status)}</Badge>
+            <ArrowRight className="h-3 w-3" />
+            <Badge variant="outline">{getLeadStatusLabel(a.to_status)}</Badge>
+          </>
+        );
+      case "assignment":
+        return <>{a.assigned_bde_id ? `Assigned to ${personName(a.assigned_bde_id)}` : "Unassigned"}</>;
+      case "call":
+        return <>Call · <span className="font-medium">{getCallOutcomeLabel(a.call_outcome)}</span></>;
+      case "whatsapp":
+        return <>Contacted on WhatsApp</>;
+      case "student_linked":
+        return <>Registered as student {a.student_id && names[a.student_id] ? <span className="font-medium">{names[a.student_id]}</span> : ""}</>;
+      case "student_unlinked":
+        return <>Student link removed</>;
+      default:
+        return <>Note</>;
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        {lead && (
+          <>
+            <DialogHeader>
+              <DialogTitle>Activity: {lead.name}</DialogTitle>
+              <DialogDescription>Current status: {getLeadStatusLabel(lead.status)}</DialogDescription>
+            </DialogHeader>
+
+            {canLog && (
+              <div className="space-y-3 rounded-lg border p-3">
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-1">
+                    <Label className="text-xs">Activity</Label>
+                    <Select value={activityType} onValueChange={(v) => setActivityType(v as LoggedActivityType)}>
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                      <SelectContent>{LOGGED_ACTIVITY_TYPES.map((t) => <SelectItem key={t.value} value={t.value}>{t.label}</SelectItem>)}</SelectContent>
+                    </Select>
+                  </div>
+                  {activityType === "call" && (
+                    <div className="space-y-1">
+                      <Label className="text-xs">Outcome</Label>
+                      <Select value={callOutcome} onValueChange={setCallOutcome}>
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                        <SelectContent>{CALL_OUTCOMES.map((o) => <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>)}</SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                </div>
+                <Textarea value={note} onChange={(e) => setNote(e.target.value)} placeholder="Notes (optional for calls and WhatsApp)..." rows={2} />
+                <Button size="sm" onClick={handleLog} disabled={saving} className="w-full">
+                  {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />} Log Activity
+                </Button>
+              </div>
+            )}
+
+            {loading ? (
+              <div className="flex justify-center py-8"><Loader2 className="h-6 w-6 animate-spin text-primary" /></div>
+            ) : activities.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">No activity yet.</p>
+            ) : (
+              <div className="relative space-y-4 border-l pl-6">
+                {activities.map((a) => {
+                  const Icon = activityIcons[a.activity_type] || StickyNote;
+                  return (
+                    <div key={a.id} className="relative">
+                      <span className="absolute -left-[37px] flex h-6 w-6 items-center justify-center rounded-full border bg-background">
+                        <Icon className="h-3 w-3 text-primary" />
+                      </span>
+                      <div className="flex flex-wrap items-center gap-1.5 text-sm">{describe(a)}</div>
+                      {a.note && <p className="mt-1 whitespace-pre-wrap text-sm text-muted-foreground">{a.note}</p>}
+                      <p className="mt-1 text-xs text-muted-foreground">
+                        {personName(a.actor_id)} · {format(new Date(a.created_at), "MMM dd, yyyy 'at' h:mm a")}
+                      </p>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
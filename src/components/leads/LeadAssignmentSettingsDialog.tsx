@@ -0,0 +1,204 @@
+import { useEffect, useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { RULE_FIELDS } from "@/lib/leadAssignment";
+
+interface AssignmentBde {
+  user_id: string;
+  profile?: { full_name: string; email: string } | null;
+}
+
+interface AssignmentRule {
+  id: string;
+  field: string;
+  match_value: string;
+  bde_id: string;
+  priority: number;
+}
+
+interface LeadAssignmentSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  bdeUsers: AssignmentBde[];
+  openLeadCounts: Record<string, number>;
+}
+
+export function LeadAssignmentSettingsDialog({ open, onOpenChange, bdeUsers, openLeadCounts }: LeadAssignmentSettingsDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(false);
+  const [inactive, setInactive] = useState<Set<string>>(new Set());
+  const [rules, setRules] = useState<AssignmentRule[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const [ruleField, setRuleField] = useState("college_name");
+  const [ruleValue, setRuleValue] = useState("");
+  const [ruleBde, setRuleBde] = useState("");
+  const [rulePriority, setRulePriority] = useState(0);
+
+  const bdeName = (id: string) => {
+    const bde = bdeUsers.find((b) => b.user_id === id);
+    return bde?.profile?.full_name || bde?.profile?.email || "Unknown BDE";
+  };
+
+  const fetchSettings = async () => {
+    setLoading(true);
+    try {
+      const [{ data: settings }, { data: rulesData }] = await Promise.all([
+        supabase.from("bde_lead_settings").select("bde_id, active"),
+        supabase.from("lead_assignment_rules").select("id, field, match_value, bde_id, priority").order("priority", { ascending: false }),
+      ]);
+      setInactive(new Set((settings || []).filter((s) => !s.active).map((s) => s.bde_id)));
+      setRules(rulesData || []);
+    } catch (error) {
+      console.error("Error:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (open) fetchSettings();
+  }, [open]);
+
+  const toggleActive = async (bdeId: string, active: boolean) => {
+    const { error } = await supabase.from("bde_lead_settings").upsert({ bde_id: bdeId, active });
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      return;
+    }
+    const next = new Set(inactive);
+    if (active) next.delete(bdeId); else next.add(bdeId);
+    setInactive(next);
+  };
+
+  const handleAddRule = async () => {
+    if (!ruleValue.trim() || !ruleBde) {
+      toast({ title: "Error", description: "Enter a value and pick a BDE.", variant: "destructive" });
+      return;
+    }
+    setSaving(true);
+    try {
+      const { error } = await supabase.from("lead_assignment_rules").insert({
+        field: ruleField, match_value: ruleValue.trim(), bde_id: ruleBde, priority: rulePriority, created_by: user?.id,
+      });
+      if (error) throw error;
+      setRuleValue("");
+      setRulePriority(0);
+      fetchSettings();
+    } catch (error: unknown) {
+      toast({ title: "Error", description: error instanceof Error ? error.message : "Could not save rule.", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteRule = async (id: string) => {
+    const { error } = await supabase.from("lead_assignment_rules").delete().eq("id", id);
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      return;
+    }
+    setRules(rules.filter((r) => r.id !== id));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Assignment Rules</DialogTitle>
+          <DialogDescription>Choose which BDEs receive leads automatically and route colleges or courses to specific BDEs.</DialogDescription>
+        </DialogHeader>
+        {loading ? (
+          <div className="flex justify-center py-8"><Loader2 className="h-6 w-6 animate-spin text-primary" /></div>
+        ) : (
+          <Tabs defaultValue="bdes">
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="bdes">BDEs</TabsTrigger>
+              <TabsTrigger value="rules">Routing Rules ({rules.length})</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="bdes" className="space-y-2 mt-4">
+              {bdeUsers.length === 0 ? (
+                <p className="text-center text-muted-foreground py-8">No BDEs yet.</p>
+              ) : bdeUsers.map((b) => (
+                <div key={b.user_id} className="flex items-center justify-between rounded-lg border p-3">
+                  <div>
+                    <p className="font-medium text-sm">{bdeName(b.user_id)}</p>
+                    <p className="text-xs text-muted-foreground">{openLeadCounts[b.user_id] || 0} open leads</p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs text-muted-foreground">{inactive.has(b.user_id) ? "Paused" : "Receives leads"}</span>
+                    <Switch checked={!inactive.has(b.user_id)} onCheckedChange={(c) => toggleActive(b.user_id, c)} />
+                  </div>
+                </div>
+              ))}
+            </TabsContent>
+
+            <TabsContent value="rules" className="space-y-4 mt-4">
+              <div className="grid gap-3 rounded-lg border p-3 sm:grid-cols-2">
+                <div className="space-y-1">
+                  <Label className="text-xs">When</Label>
+                  <Select value={ruleField} onValueChange={setRuleField}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>{RULE_FIELDS.map((f) => <SelectItem key={f.value} value={f.value}>{f.label}</SelectItem>)}</SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Equals</Label>
+                  <Input value={ruleValue} onChange={(e) => setRuleValue(e.target.value)} placeholder="e.g. ABC Engineering College" />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Assign to</Label>
+                  <Select value={ruleBde} onValueChange={setRuleBde}>
+                    <SelectTrigger><SelectValue placeholder="Select BDE..." /></SelectTrigger>
+                    <SelectContent>{bdeUsers.map((b) => <SelectItem key={b.user_id} value={b.user_id}>{bdeName(b.user_id)}</SelectItem>)}</SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Priority (higher wins)</Label>
+                  <div className="flex gap-2">
+                    <Input type="number" value={rulePriority} onChange={(e) => setRulePriority(parseInt(e.target.value) || 0)} />
+                    <Button onClick={handleAddRule} disabled={saving}>
+                      {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+                    </Button>
+                  </div>
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Matching ignores case. Rules apply in round-robin and fewest-open-leads modes; rules pointing to a paused BDE are ignored.
+              </p>
+
+              {rules.length === 0 ? (
+                <p className="text-center text-muted-foreground py-4">No routing rules yet.</p>
+              ) : rules.map((r) => (
+                <div key={r.id} className="flex items-center justify-between rounded-lg border p-3 text-sm">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Badge variant="outline">{RULE_FIELDS.find((f) => f.value === r.field)?.label || r.field}</Badge>
+                    <span className="font-medium">{r.match_value}</span>
+                    <span className="text-muted-foreground">→ {bdeName(r.bde_id)}</span>
+                    {r.priority !== 0 && <Badge variant="secondary" className="text-xs">Priority {r.priority}</Badge>}
+                    {inactive.has(r.bde_id) && <Badge variant="destructive" className="text-xs">BDE paused</Badge>}
+                  </div>
+                  <Button variant="ghost" size="sm" className="text-destructive" onClick={() => handleDeleteRule(r.id)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </TabsContent>
+          </Tabs>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,268 @@
+import { useEffect, useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { SkeletonTable } from "@/components/SkeletonCard";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
+import { CalendarRange, Filter, Trophy } from "lucide-react";
+import { BreakdownRow, LeadFunnel, formatDays, parseLeadFunnel } from "@/lib/leadFunnel";
+
+interface LeaderboardRow {
+  bde_id: string;
+  full_name: string;
+  leads: number;
+  converted: number;
+  paid: number;
+  registered: number;
+}
+
+interface LeadFunnelDashboardProps {
+  // "bde" limits the funnel to the signed-in BDE's leads; the leaderboard always covers the team
+  scope: "bde" | "admin";
+}
+
+const pct = (value: number | null) => (value === null ? "—" : `${Math.round(value)}%`);
+
+export function LeadFunnelDashboard({ scope }: LeadFunnelDashboardProps) {
+  const { user } = useAuth();
+  const [loading, setLoading] = useState(true);
+  const [funnel, setFunnel] = useState<LeadFunnel | null>(null);
+  const [leaderboard, setLeaderboard] = useState<LeaderboardRow[]>([]);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [leadType, setLeadType] = useState("all");
+  const [bdeFilter, setBdeFilter] = useState("all");
+
+  useEffect(() => {
+    const fetchFunnel = async () => {
+      if (!user) return;
+      try {
+        const owner = scope === "bde" ? user.id : bdeFilter === "all" ? null : bdeFilter;
+        const { data, error } = await supabase.rpc("get_lead_funnel", {
+          ...(from ? { _from: from } : {}),
+          ...(to ? { _to: to } : {}),
+          ...(leadType !== "all" ? { _lead_type: leadType } : {}),
+          ...(owner ? { _owner: owner } : {}),
+        });
+        if (error) throw error;
+        setFunnel(parseLeadFunnel(data));
+      } catch (error) {
+        console.error("Error fetching funnel data:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchFunnel();
+  }, [user, scope, from, to, leadType, bdeFilter]);
+
+  useEffect(() => {
+    const fetchLeaderboard = async () => {
+      const { data, error } = await supabase.rpc("get_bde_leaderboard", {
+        ...(from ? { _from: from } : {}),
+        ...(to ? { _to: to } : {}),
+      });
+      if (error) {
+        console.error("Error fetching leaderboard:", error);
+        return;
+      }
+      setLeaderboard((data || []).slice().sort((a, b) => b.converted - a.converted || b.leads - a.leads));
+    };
+    fetchLeaderboard();
+  }, [from, to]);
+
+  if (loading) return <SkeletonTable />;
+
+  const stages = funnel?.stages || [];
+  const lost = funnel?.lost ?? 0;
+  const chartData = stages.map((s) => ({ stage: s.label, leads: s.reached }));
+
+  const BreakdownTable = ({ title, rows }: { title: string; rows: BreakdownRow[] }) => (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>{title}</TableHead>
+            <TableHead className="text-right">Leads</TableHead>
+            <TableHead className="text-right">Converted</TableHead>
+            <TableHead className="text-right">Rate</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.length === 0 ? (
+            <TableRow><TableCell colSpan={4} className="text-center py-8 text-muted-foreground">No leads in this range</TableCell></TableRow>
+          ) : (
+            rows.slice(0, 15).map((r) => (
+              <TableRow key={r.key}>
+                <TableCell className="font-medium">{r.key}</TableCell>
+                <TableCell className="text-right">{r.leads}</TableCell>
+                <TableCell className="text-right">{r.converted}</TableCell>
+                <TableCell className="text-right">{pct(r.rate)}</TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <Card className="slide-up">
+        <CardHeader className="pb-3">
+          <CardTitle className="flex items-center gap-2 text-base"><Filter className="h-4 w-4" /> Funnel Filters</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+            <div className="space-y-2"><Label>From</Label><Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} /></div>
+            <div className="space-y-2"><Label>To</Label><Input type="date" value={to} onChange={(e) => setTo(e.target.value)} /></div>
+            <div className="space-y-2">
+              <Label>Lead Type</Label>
+              <Select value={leadType} onValueChange={setLeadType}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All</SelectItem>
+                  <SelectItem value="aicte">AICTE</SelectItem>
+                  <SelectItem value="internship">Internship</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {scope === "admin" ? (
+              <div className="space-y-2">
+                <Label>BDE</Label>
+                <Select value={bdeFilter} onValueChange={setBdeFilter}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All BDEs</SelectItem>
+                    {leaderboard.map((b) => <SelectItem key={b.bde_id} value={b.bde_id}>{b.full_name || "Unnamed"}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+            ) : (
+              <div className="flex items-end">
+                <Button variant="outline" onClick={() => { setFrom(""); setTo(""); setLeadType("all"); }} disabled={!from && !to && leadType === "all"}>
+                  <CalendarRange className="mr-2 h-4 w-4" /> All Time
+                </Button>
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Funnel ({funnel?.total ?? 0} leads)</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ResponsiveContainer width="100%" height={260}>
+              <BarChart data={chartData} layout="vertical" margin={{ left: 20 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                <XAxis type="number" allowDecimals={false} stroke="hsl(var(--muted-foreground))" fontSize={12} />
+                <YAxis type="category" dataKey="stage" width={120} stroke="hsl(var(--muted-foreground))" fontSize={12} />
+                <Tooltip contentStyle={{ backgroundColor: "hsl(var(--card))", border: "1px solid hsl(var(--border))", borderRadius: "8px" }} />
+                <Bar dataKey="leads" fill="hsl(var(--primary))" radius={[0, 4, 4, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+            <p className="mt-2 text-sm text-muted-foreground">{lost} lead{lost === 1 ? "" : "s"} marked Not Interested.</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Stage Conversion</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Stage</TableHead>
+                  <TableHead className="text-right">Reached</TableHead>
+                  <TableHead className="text-right">From Previous</TableHead>
+                  <TableHead className="text-right">Median Time</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {stages.map((s) => (
+                  <TableRow key={s.status}>
+                    <TableCell className="font-medium">{s.label}</TableCell>
+                    <TableCell className="text-right">{s.reached}</TableCell>
+                    <TableCell className="text-right">{pct(s.conversion)}</TableCell>
+                    <TableCell className="text-right">{formatDays(s.medianDays)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <p className="mt-2 text-xs text-muted-foreground">Median time counts only stays that ended with a status change.</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-base"><Trophy className="h-4 w-4" /> BDE Leaderboard</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>#</TableHead>
+                  <TableHead>BDE</TableHead>
+                  <TableHead className="text-right">Leads</TableHead>
+                  <TableHead className="text-right">Converted</TableHead>
+                  <TableHead className="text-right">Paid</TableHead>
+                  <TableHead className="text-right">Registered</TableHead>
+                  <TableHead className="text-right">Conversion</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {leaderboard.length === 0 ? (
+                  <TableRow><TableCell colSpan={7} className="text-center py-8 text-muted-foreground">No BDEs found</TableCell></TableRow>
+                ) : (
+                  leaderboard.map((b, i) => (
+                    <TableRow key={b.bde_id} className={b.bde_id === user?.id ? "bg-primary/5" : ""}>
+                      <TableCell>{i + 1}</TableCell>
+                      <TableCell className="font-medium">
+                        {b.full_name || "Unnamed"} {b.bde_id === user?.id && <Badge variant="outline" className="ml-1 text-xs">You</Badge>}
+                      </TableCell>
+                      <TableCell className="text-right">{b.leads}</TableCell>
+                      <TableCell className="text-right">{b.converted}</TableCell>
+                      <TableCell className="text-right">{b.paid}</TableCell>
+                      <TableCell className="text-right">{b.registered}</TableCell>
+                      <TableCell className="text-right">{pct(b.leads ? (b.converted / b.leads) * 100 : 0)}</TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Breakdown</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Tabs defaultValue="college" className="space-y-4">
+            <TabsList>
+              <TabsTrigger value="college">College</TabsTrigger>
+              <TabsTrigger value="branch">Branch</TabsTrigger>
+              <TabsTrigger value="course">Course</TabsTrigger>
+            </TabsList>
+            <TabsContent value="college"><BreakdownTable title="College" rows={funnel?.college || []} /></TabsContent>
+            <TabsContent value="branch"><BreakdownTable title="Branch" rows={funnel?.branch || []} /></TabsContent>
+            <TabsContent value="course"><BreakdownTable title="Course" rows={funnel?.course || []} /></TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,238 @@
+import { useEffect, useMemo, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Download, Loader2, Upload } from "lucide-react";
+import {
+  LEAD_FIELDS, LeadColumnMapping, LeadImportStatus, buildLeadPreview, guessLeadMapping, leadContacts, leadErrorReportRows,
+} from "@/lib/leadImport";
+import { AssignmentMode } from "@/lib/leadAssignment";
+import { downloadRows } from "@/lib/spreadsheet";
+
+interface LeadImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  fileName: string;
+  rows: string[][];
+  userId: string;
+  assignmentMode: AssignmentMode;
+  assignedBdeId: string | null;
+  onImported: () => void;
+}
+
+// Rows per insert request
+const INSERT_CHUNK = 500;
+// Phones and emails per duplicate check; keeps each response under the API row limit
+const CHECK_CHUNK = 400;
+
+const statusBadges: Record<LeadImportStatus, { label: string; className: string }> = {
+  insert: { label: "Insert", className: "bg-success/10 text-success" },
+  flag: { label: "Flagged", className: "bg-warning/10 text-warning" },
+  skip: { label: "Skipped", className: "bg-destructive/10 text-destructive" },
+};
+
+export function LeadImportDialog({ open, onOpenChange, fileName, rows, userId, assignmentMode, assignedBdeId, onImported }: LeadImportDialogProps) {
+  const { toast } = useToast();
+  const headers = useMemo(() => rows[0] || [], [rows]);
+  const [mapping, setMapping] = useState<LeadColumnMapping>(() => guessLeadMapping(headers));
+  const [existing, setExisting] = useState<{ phone: string | null; email: string | null }[]>([]);
+  const [loadingExisting, setLoadingExisting] = useState(false);
+  const [includeFlagged, setIncludeFlagged] = useState(false);
+  const [view, setView] = useState<"all" | LeadImportStatus>("all");
+  const [importing, setImporting] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setMapping(guessLeadMapping(headers));
+    setIncludeFlagged(false);
+    setView("all");
+  }, [open, headers]);
+
+  useEffect(() => {
+    if (!open) return;
+    const { phones, emails } = leadContacts(rows, mapping);
+    let cancelled = false;
+
+    const fetchExisting = async () => {
+      setLoadingExisting(true);
+      try {
+        const found: { phone: string | null; email: string | null }[] = [];
+        for (let i = 0; i < Math.max(phones.length, emails.length); i += CHECK_CHUNK) {
+          const { data, error } = await supabase.rpc("existing_lead_contacts", {
+            _phones: phones.slice(i, i + CHECK_CHUNK), _emails: emails.slice(i, i + CHECK_CHUNK),
+          });
+          if (error) throw new Error(error.message);
+          found.push(...(data || []));
+        }
+        if (!cancelled) setExisting(found);
+      } catch (error: unknown) {
+        if (!cancelled) toast({ title: "Error", description: error instanceof Error ? error.message : "Could not check for existing leads.", variant: "destructive" });
+      } finally {
+        if (!cancelled) setLoadingExisting(false);
+      }
+    };
+    fetchExisting();
+    return () => {
+      cancelled = true;
+    };
+  }, [open, rows, mapping, toast]);
+
+  const preview = useMemo(
+    () => (mapping.name === -1 ? [] : buildLeadPreview(rows, mapping, existing)),
+    [rows, mapping, existing],
+  );
+  const counts = {
+    insert: preview.filter((r) => r.status === "insert").length,
+    flag: preview.filter((r) => r.status === "flag").length,
+    skip: preview.filter((r) => r.status === "skip").length,
+  };
+  const toImport = preview.filter((r) => r.status === "insert" || (includeFlagged && r.status === "flag"));
+  const visible = view === "all" ? preview : preview.filter((r) => r.status === view);
+
+  const handleImport = async () => {
+    setImporting(true);
+    try {
+      const payload = toImport.map((r) => ({
+        ...r.values,
+        status: "initial_contact",
+        created_by: userId,
+        assigned_bde_id: assignmentMode === "single" ? assignedBdeId : null,
+      }));
+      for (let i = 0; i < payload.length; i += INSERT_CHUNK) {
+        const { data, error } = await supabase.from("leads").insert(payload.slice(i, i + INSERT_CHUNK)).select("id");
+        if (error) throw error;
+        if (assignmentMode !== "single" && data) {
+          const { error: assignError } = await supabase.rpc("auto_assign_leads", {
+            _lead_ids: data.map((l) => l.id), _mode: assignmentMode,
+          });
+          if (assignError) throw assignError;
+        }
+      }
+      toast({
+        title: "Upload Successful",
+        description: `${payload.length} leads imported, ${preview.length - payload.length} not imported.`,
+      });
+      onImported();
+      onOpenChange(false);
+    } catch (error: unknown) {
+      toast({ title: "Upload Failed", description: error instanceof Error ? error.message : "Import failed.", variant: "destructive" });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const downloadReport = () => {
+    const baseName = fileName.replace(/\.[^.]+$/, "");
+    downloadRows(leadErrorReportRows(headers, preview), `${baseName}-errors`, "csv");
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Leads</DialogTitle>
+          <DialogDescription>{fileName} · {Math.max(rows.length - 1, 0)} rows</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <h4 className="mb-2 text-sm font-semibold">Column Mapping</h4>
+            <div className="grid gap-3 sm:grid-cols-3">
+              {LEAD_FIELDS.map((f) => (
+                <div key={f.key} className="space-y-1">
+                  <Label className="text-xs">{f.label}{f.required ? " *" : ""}</Label>
+                  <Select
+                    value={String(mapping[f.key])}
+                    onValueChange={(v) => setMapping({ ...mapping, [f.key]: parseInt(v) })}
+                  >
+                    <SelectTrigger className="h-8"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="-1">Not mapped</SelectItem>
+                      {headers.map((h, idx) => <SelectItem key={idx} value={String(idx)}>{h || `Column ${idx + 1}`}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {mapping.name === -1 ? (
+            <p className="rounded-lg border border-destructive/30 bg-destructive/5 p-3 text-sm text-destructive">
+              Map the Name column to preview the import.
+            </p>
+          ) : loadingExisting ? (
+            <div className="flex justify-center py-8"><Loader2 className="h-6 w-6 animate-spin text-primary" /></div>
+          ) : (
+            <>
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <Tabs value={view} onValueChange={(v) => setView(v as typeof view)}>
+                  <TabsList>
+                    <TabsTrigger value="all">All ({preview.length})</TabsTrigger>
+                    <TabsTrigger value="insert">Insert ({counts.insert})</TabsTrigger>
+                    <TabsTrigger value="flag">Flagged ({counts.flag})</TabsTrigger>
+                    <TabsTrigger value="skip">Skipped ({counts.skip})</TabsTrigger>
+                  </TabsList>
+                </Tabs>
+                <Button variant="outline" size="sm" onClick={downloadReport} disabled={counts.flag + counts.skip === 0}>
+                  <Download className="mr-2 h-4 w-4" /> Error Report
+                </Button>
+              </div>
+
+              <div className="max-h-[40vh] overflow-auto rounded-lg border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-14">Row</TableHead>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Phone</TableHead>
+                      <TableHead>Email</TableHead>
+                      <TableHead>College</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Issues</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {visible.length === 0 ? (
+                      <TableRow><TableCell colSpan={7} className="text-center py-8 text-muted-foreground">No rows</TableCell></TableRow>
+                    ) : visible.map((r) => (
+                      <TableRow key={r.rowNumber}>
+                        <TableCell className="text-muted-foreground">{r.rowNumber}</TableCell>
+                        <TableCell className="font-medium">{r.values.name || "-"}</TableCell>
+                        <TableCell>{r.values.phone || "-"}</TableCell>
+                        <TableCell>{r.values.email || "-"}</TableCell>
+                        <TableCell>{r.values.college_name || "-"}</TableCell>
+                        <TableCell><Badge className={statusBadges[r.status].className}>{statusBadges[r.status].label}</Badge></TableCell>
+                        <TableCell className="text-xs text-muted-foreground">{r.issues.join(" ") || "-"}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              {counts.flag > 0 && (
+                <label className="flex items-center gap-2 text-sm">
+                  <Checkbox checked={includeFlagged} onCheckedChange={(c) => setIncludeFlagged(c === true)} />
+                  Also import flagged rows (invalid phone or email values are left empty)
+                </label>
+              )}
+            </>
+          )}
+
+          <div className="flex justify-end gap-3">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button onClick={handleImport} disabled={importing || toImport.length === 0}>
+              {importing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+              Import {toImport.length} Lead{toImport.length !== 1 ? "s" : ""}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
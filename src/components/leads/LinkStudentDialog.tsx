@@ -0,0 +1,159 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Link2, Loader2, Search, Unlink } from "lucide-react";
+import { normalizePhone } from "@/lib/leadImport";
+
+interface LinkableLead {
+  id: string;
+  name: string;
+  phone: string | null;
+  email: string | null;
+  converted_student_id: string | null;
+}
+
+interface StudentOption {
+  user_id: string;
+  student_id: string | null;
+  status: string | null;
+  full_name: string;
+  email: string;
+  phone: string | null;
+}
+
+interface LinkStudentDialogProps {
+  lead: LinkableLead | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onLinked: () => void;
+}
+
+export function LinkStudentDialog({ lead, open, onOpenChange, onLinked }: LinkStudentDialogProps) {
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(false);
+  const [students, setStudents] = useState<StudentOption[]>([]);
+  const [search, setSearch] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setSearch("");
+    const fetchStudents = async () => {
+      setLoading(true);
+      try {
+        const { data: studentProfiles, error } = await supabase.from("student_profiles").select("user_id, student_id, status");
+        if (error) throw error;
+        const ids = (studentProfiles || []).map((s) => s.user_id);
+        const { data: profiles } = ids.length
+          ? await supabase.from("profiles").select("id, full_name, email, phone").in("id", ids)
+          : { data: [] };
+        setStudents((studentProfiles || []).map((s) => {
+          const p = profiles?.find((pr) => pr.id === s.user_id);
+          return { ...s, full_name: p?.full_name || "", email: p?.email || "", phone: p?.phone || null };
+        }));
+      } catch (error) {
+        console.error("Error:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchStudents();
+  }, [open]);
+
+  const handleLink = async (studentId: string | null) => {
+    if (!lead) return;
+    setSaving(true);
+    try {
+      const { error } = await supabase.rpc("link_lead_to_student", studentId
+        ? { _lead_id: lead.id, _student_id: studentId }
+        : { _lead_id: lead.id });
+      if (error) throw error;
+      toast({ title: studentId ? "Lead Linked" : "Lead Unlinked", description: studentId ? "Lead linked to the student account." : "Link removed." });
+      onLinked();
+      onOpenChange(false);
+    } catch (error: unknown) {
+      toast({ title: "Error", description: error instanceof Error ? error.message : "Could not update the link.", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Students sharing the lead's phone or email first, then name matches
+  const leadPhone = lead?.phone ? normalizePhone(lead.phone) : "";
+  const leadEmail = lead?.email?.trim().toLowerCase() || "";
+  const isLikelyMatch = (s: StudentOption) =>
+    (leadPhone !== "" && s.phone !== null && normalizePhone(s.phone) === leadPhone)
+    || (leadEmail !== "" && s.email.toLowerCase() === leadEmail);
+  const query = search.trim().toLowerCase();
+  const candidates = students
+    .filter((s) => !query
+      || s.full_name.toLowerCase().includes(query)
+      || s.email.toLowerCase().includes(query)
+      || (s.phone || "").includes(query)
+      || (s.student_id || "").toLowerCase().includes(query))
+    .sort((a, b) => Number(isLikelyMatch(b)) - Number(isLikelyMatch(a)) || a.full_name.localeCompare(b.full_name))
+    .slice(0, 50);
+  const linked = students.find((s) => s.user_id === lead?.converted_student_id);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        {lead && (
+          <>
+            <DialogHeader>
+              <DialogTitle>Link to Student: {lead.name}</DialogTitle>
+              <DialogDescription>{[lead.phone, lead.email].filter(Boolean).join(" · ") || "No contact details"}</DialogDescription>
+            </DialogHeader>
+
+            {lead.converted_student_id && (
+              <div className="flex items-center justify-between rounded-lg border p-3 text-sm">
+                <span>Linked to <span className="font-medium">{linked?.full_name || "a student"}</span></span>
+                <Button variant="outline" size="sm" onClick={() => handleLink(null)} disabled={saving}>
+                  <Unlink className="mr-2 h-4 w-4" /> Unlink
+                </Button>
+              </div>
+            )}
+
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <Input value={search} onChange={(e) => setSearch(e.target.value)} placeholder="Search by name, email, phone or ID..." className="pl-9" />
+            </div>
+
+            {loading ? (
+              <div className="flex justify-center py-8"><Loader2 className="h-6 w-6 animate-spin text-primary" /></div>
+            ) : candidates.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">No students found.</p>
+            ) : (
+              <div className="space-y-2">
+                {candidates.map((s) => (
+                  <div key={s.user_id} className="flex items-center justify-between gap-2 rounded-lg border p-3">
+                    <div className="min-w-0">
+                      <div className="flex flex-wrap items-center gap-1">
+                        <p className="font-medium text-sm">{s.full_name || s.email}</p>
+                        {isLikelyMatch(s) && <Badge className="bg-success/10 text-success text-xs">Contact match</Badge>}
+                        {s.status && <Badge variant="outline" className="text-xs capitalize">{s.status}</Badge>}
+                      </div>
+                      <p className="truncate text-xs text-muted-foreground">{[s.student_id, s.email, s.phone].filter(Boolean).join(" · ")}</p>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleLink(s.user_id)}
+                      disabled={saving || s.user_id === lead.converted_student_id}
+                    >
+                      <Link2 className="mr-2 h-4 w-4" /> Link
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,53 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Scale } from "lucide-react";
+import { LeaveBalance, LeavePolicy } from "@/lib/leavePolicy";
+
+interface LeaveBalanceCardProps {
+  policy: LeavePolicy | null;
+  balances: LeaveBalance[];
+}
+
+export function LeaveBalanceCard({ policy, balances }: LeaveBalanceCardProps) {
+  const periodLabel = policy?.period === "year" ? `Allowance for ${new Date().getFullYear()}.` : "Overall allowance.";
+
+  return (
+    <Card className="slide-up">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-base"><Scale className="h-4 w-4" /> Leave Balance</CardTitle>
+        <CardDescription>
+          {policy
+            ? `${periodLabel} ${policy.enforcement === "block" ? "Requests over the allowance are not accepted." : "Requests over the allowance are flagged to the reviewer."}`
+            : "No leave allowance has been set for you."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-4 sm:grid-cols-2">
+        {balances.map((b) => {
+          const over = b.remaining !== null && b.remaining < 0;
+          return (
+            <div key={b.type} className="space-y-2 rounded-lg border p-3">
+              <div className="flex items-center justify-between">
+                <p className="font-medium">{b.label}</p>
+                {b.quota === null ? (
+                  <Badge variant="outline" className="text-muted-foreground">Unlimited</Badge>
+                ) : (
+                  <Badge
+                    variant="outline"
+                    className={over ? "bg-destructive/10 text-destructive border-destructive/20" : b.remaining === 0 ? "bg-warning/10 text-warning border-warning/20" : "bg-success/10 text-success border-success/20"}
+                  >
+                    {over ? `${-b.remaining!} over` : `${b.remaining} left`}
+                  </Badge>
+                )}
+              </div>
+              {b.quota !== null && <Progress value={b.quota === 0 ? 100 : Math.min(100, ((b.used + b.pending) / b.quota) * 100)} className="h-2" />}
+              <p className="text-xs text-muted-foreground">
+                {b.used} approved · {b.pending} pending{b.quota !== null && ` · ${b.quota} allowed`}
+              </p>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
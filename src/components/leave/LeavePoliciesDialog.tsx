@@ -0,0 +1,172 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2 } from "lucide-react";
+import { LeavePolicy } from "@/lib/leavePolicy";
+
+interface LeavePoliciesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  batches: { id: string; name: string }[];
+  onSaved: () => void;
+}
+
+interface PolicyDraft {
+  id: string | null;
+  audience: "student" | "faculty";
+  batch_id: string | null;
+  label: string;
+  sick: string;
+  casual: string;
+  enforcement: string;
+  period: string;
+}
+
+const parseQuota = (value: string) => (value.trim() === "" ? null : Number(value));
+
+export function LeavePoliciesDialog({ open, onOpenChange, batches, onSaved }: LeavePoliciesDialogProps) {
+  const { toast } = useToast();
+  const [drafts, setDrafts] = useState<PolicyDraft[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setLoading(true);
+    supabase.from("leave_policies").select("*").then(({ data }) => {
+      const policies = (data || []) as LeavePolicy[];
+      const draftFor = (audience: "student" | "faculty", batchId: string | null, label: string): PolicyDraft => {
+        const p = policies.find((x) => x.audience === audience && x.batch_id === batchId);
+        return {
+          id: p?.id || null,
+          audience,
+          batch_id: batchId,
+          label,
+          sick: p?.sick_quota?.toString() ?? "",
+          casual: p?.casual_quota?.toString() ?? "",
+          enforcement: p?.enforcement || "warn",
+          period: p?.period || (audience === "faculty" ? "year" : "total"),
+        };
+      };
+      setDrafts([
+        draftFor("student", null, "All students (default)"),
+        ...batches.map((b) => draftFor("student", b.id, b.name)),
+        draftFor("faculty", null, "Faculty"),
+      ]);
+      setLoading(false);
+    });
+  }, [open, batches]);
+
+  const update = (index: number, patch: Partial<PolicyDraft>) =>
+    setDrafts((prev) => prev.map((d, i) => (i === index ? { ...d, ...patch } : d)));
+
+  const handleSave = async () => {
+    const invalid = drafts.find((d) => [d.sick, d.casual].some((v) => {
+      const n = parseQuota(v);
+      return n !== null && (!Number.isInteger(n) || n < 0 || n > 365);
+    }));
+    if (invalid) {
+      toast({ title: "Error", description: `Quotas for ${invalid.label} must be whole numbers between 0 and 365.`, variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      for (const d of drafts) {
+        const values = {
+          sick_quota: parseQuota(d.sick),
+          casual_quota: parseQuota(d.casual),
+          enforcement: d.enforcement,
+          period: d.period,
+        };
+        if (d.id) {
+          const { error } = await supabase.from("leave_policies").update(values).eq("id", d.id);
+          if (error) throw error;
+        } else if (values.sick_quota !== null || values.casual_quota !== null) {
+          const { error } = await supabase.from("leave_policies").insert({ ...values, audience: d.audience, batch_id: d.batch_id });
+          if (error) throw error;
+        }
+      }
+      toast({ title: "Success", description: "Leave policies saved." });
+      onSaved();
+      onOpenChange(false);
+    } catch (error: unknown) {
+      toast({ title: "Error", description: error instanceof Error ? error.message : "Failed to save leave policies.", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Leave Policies</DialogTitle>
+          <DialogDescription>
+            Days allowed per leave type. Leave a quota empty for no limit. Batches without their own quotas use the student default.
+          </DialogDescription>
+        </DialogHeader>
+        {loading ? (
+          <div className="flex justify-center py-12"><Loader2 className="h-6 w-6 animate-spin text-muted-foreground" /></div>
+        ) : (
+          <div className="max-h-[60vh] overflow-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Applies To</TableHead>
+                  <TableHead>Sick</TableHead>
+                  <TableHead>Casual</TableHead>
+                  <TableHead>Counted</TableHead>
+                  <TableHead>Over Quota</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {drafts.map((d, i) => (
+                  <TableRow key={`${d.audience}-${d.batch_id}`}>
+                    <TableCell className="font-medium">{d.label}</TableCell>
+                    <TableCell>
+                      <Input type="number" min={0} value={d.sick} onChange={(e) => update(i, { sick: e.target.value })} placeholder="∞" className="w-20" />
+                    </TableCell>
+                    <TableCell>
+                      <Input type="number" min={0} value={d.casual} onChange={(e) => update(i, { casual: e.target.value })} placeholder="∞" className="w-20" />
+                    </TableCell>
+                    <TableCell>
+                      <Select value={d.period} onValueChange={(v) => update(i, { period: v })}>
+                        <SelectTrigger className="w-32"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="total">In total</SelectItem>
+                          <SelectItem value="year">Per year</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <Select value={d.enforcement} onValueChange={(v) => update(i, { enforcement: v })}>
+                        <SelectTrigger className="w-32"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="warn">Warn</SelectItem>
+                          <SelectItem value="block">Block</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+        <div className="flex justify-end gap-3">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={saving || loading}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Policies
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,282 @@
+import { useEffect, useState } from "react";
+import { z } from "zod";
+import { format } from "date-fns";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Paperclip } from "lucide-react";
+import { leaveRequestSchema } from "@/lib/validations";
+import {
+  HALF_DAY_OPTIONS, LEAVE_TYPES, LeavePolicy, LeaveRequestLike, LeaveType, checkLeaveQuota, computeLeaveBalances, formatDays,
+} from "@/lib/leavePolicy";
+
+const MAX_ATTACHMENT_MB = 5;
+
+interface LeaveRequestDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  policy: LeavePolicy | null;
+  // The user's existing requests, for the balance shown next to each leave type
+  requests: LeaveRequestLike[];
+  onSubmitted: () => void;
+}
+
+export function LeaveRequestDialog({ open, onOpenChange, policy, requests, onSubmitted }: LeaveRequestDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const today = format(new Date(), "yyyy-MM-dd");
+  const [leaveDate, setLeaveDate] = useState(today);
+  const [endDate, setEndDate] = useState(today);
+  const [halfDay, setHalfDay] = useState("full");
+  const [leaveType, setLeaveType] = useState<LeaveType>("casual");
+  const [reason, setReason] = useState("");
+  const [attachment, setAttachment] = useState<File | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [workingDays, setWorkingDays] = useState<number | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const isHalfDay = halfDay !== "full";
+  const effectiveEnd = isHalfDay ? leaveDate : endDate;
+
+  useEffect(() => {
+    if (!open) {
+      setLeaveDate(today);
+      setEndDate(today);
+      setHalfDay("full");
+      setLeaveType("casual");
+      setReason("");
+      setAttachment(null);
+      setErrors({});
+    }
+  }, [open, today]);
+
+  // The database counts the days when the request is saved; ask it for the same number up front
+  useEffect(() => {
+    if (!open || !user || !leaveDate || !effectiveEnd || effectiveEnd < leaveDate) {
+      setWorkingDays(null);
+      return;
+    }
+    let cancelled = false;
+    supabase
+      .rpc("leave_working_days", { _user_id: user.id, _start: leaveDate, _end: effectiveEnd, ...(isHalfDay && { _half_day: halfDay }) })
+      .then(({ data }) => {
+        if (!cancelled) setWorkingDays(data ?? null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, user, leaveDate, effectiveEnd, halfDay, isHalfDay]);
+
+  const balances = computeLeaveBalances(policy, requests, leaveDate || today);
+  const quotaCheck = checkLeaveQuota(policy, balances, leaveType, workingDays ?? 0);
+  const needsProof = leaveType === "sick";
+
+  const handleSubmit = async () => {
+    if (!user) return;
+    setErrors({});
+
+    try {
+      leaveRequestSchema.parse({ leaveDate, endDate: effectiveEnd, halfDay: isHalfDay ? halfDay : null, leaveType, reason });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const fieldErrors: Record<string, string> = {};
+        error.errors.forEach((err) => {
+          if (err.path[0]) fieldErrors[err.path[0] as string] = err.message;
+        });
+        setErrors(fieldErrors);
+        return;
+      }
+    }
+    if (needsProof && !attachment) {
+      setErrors({ attachment: "Attach a medical certificate or other proof for sick leave" });
+      return;
+    }
+    if (attachment && attachment.size > MAX_ATTACHMENT_MB * 1024 * 1024) {
+      setErrors({ attachment: `File must be smaller than ${MAX_ATTACHMENT_MB} MB` });
+      return;
+    }
+    if (workingDays === 0) {
+      setErrors({ endDate: "The selected dates fall on weekends or holidays only" });
+      return;
+    }
+    if (quotaCheck === "block") {
+      toast({ title: "Over leave quota", description: `You don't have enough ${leaveType} leave left.`, variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      let attachmentPath: string | null = null;
+      if (attachment) {
+        const ext = attachment.name.split(".").pop();
+        attachmentPath = `${user.id}/${Date.now()}.${ext}`;
+        const { error: uploadError } = await supabase.storage.from("leave-attachments").upload(attachmentPath, attachment);
+        if (uploadError) throw uploadError;
+      }
+
+      const { error } = await supabase.from("leave_requests").insert({
+        user_id: user.id,
+        leave_date: leaveDate,
+        end_date: effectiveEnd,
+        half_day: isHalfDay ? halfDay : null,
+        leave_type: leaveType,
+        reason,
+        attachment_path: attachmentPath,
+      });
+      // The quota and working-day triggers explain what was wrong
+      if (error) {
+        if (attachmentPath) {
+          const { error: removeError } = await supabase.storage.from("leave-attachments").remove([attachmentPath]);
+          if (removeError) console.error("Error removing unused attachment:", removeError);
+        }
+        throw new Error(error.message);
+      }
+
+      toast({ title: "Success", description: "Leave request submitted successfully." });
+      onOpenChange(false);
+      onSubmitted();
+    } catch (error: unknown) {
+      console.error("Error submitting leave request:", error);
+      toast({ title: "Error", description: error instanceof Error ? error.message : "Failed to submit leave request.", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="scale-in">
+        <DialogHeader>
+          <DialogTitle>New Leave Request</DialogTitle>
+          <DialogDescription>Submit a new leave request for approval. Weekends and holidays are not counted.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="leaveType">Leave Type *</Label>
+            <Select value={leaveType} onValueChange={(v) => setLeaveType(v as LeaveType)}>
+              <SelectTrigger id="leaveType" className={errors.leaveType ? "border-destructive" : ""}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LEAVE_TYPES.map((t) => {
+                  const balance = balances.find((b) => b.type === t.value);
+                  return (
+                    <SelectItem key={t.value} value={t.value}>
+                      {t.label}{balance?.remaining != null && ` (${Math.max(0, balance.remaining)} left)`}
+                    </SelectItem>
+                  );
+                })}
+              </SelectContent>
+            </Select>
+            {errors.leaveType && <p className="text-xs text-destructive">{errors.leaveType}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="halfDay">Duration</Label>
+            <Select value={halfDay} onValueChange={setHalfDay}>
+              <SelectTrigger id="halfDay"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="full">Full day(s)</SelectItem>
+                {HALF_DAY_OPTIONS.map((o) => <SelectItem key={o.value} value={o.value}>Half day · {o.label}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            {errors.halfDay && <p className="text-xs text-destructive">{errors.halfDay}</p>}
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="leaveDate">{isHalfDay ? "Date *" : "From *"}</Label>
+              <Input
+                id="leaveDate"
+                type="date"
+                value={leaveDate}
+                onChange={(e) => {
+                  setLeaveDate(e.target.value);
+                  if (e.target.value > endDate) setEndDate(e.target.value);
+                }}
+                className={errors.leaveDate ? "border-destructive" : ""}
+              />
+              {errors.leaveDate && <p className="text-xs text-destructive">{errors.leaveDate}</p>}
+            </div>
+            {!isHalfDay && (
+              <div className="space-y-2">
+                <Label htmlFor="endDate">To *</Label>
+                <Input
+                  id="endDate"
+                  type="date"
+                  value={endDate}
+                  min={leaveDate}
+                  onChange={(e) => setEndDate(e.target.value)}
+                  className={errors.endDate ? "border-destructive" : ""}
+                />
+                {errors.endDate && <p className="text-xs text-destructive">{errors.endDate}</p>}
+              </div>
+            )}
+          </div>
+
+          {workingDays !== null && (
+            <p className={`text-sm ${workingDays === 0 ? "text-destructive" : "text-muted-foreground"}`}>
+              {workingDays === 0 ? "No working days in this range." : `${formatDays(workingDays)} of leave`}
+            </p>
+          )}
+          {quotaCheck !== "ok" && (
+            <p className={`text-xs ${quotaCheck === "block" ? "text-destructive" : "text-warning"}`}>
+              {quotaCheck === "block"
+                ? "This request is more than your remaining allowance for this leave type and cannot be submitted."
+                : "This request is over your allowance for this leave type. It will be flagged to the reviewer."}
+            </p>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="reason">Reason * (min 10 characters)</Label>
+            <Textarea
+              id="reason"
+              placeholder="Please provide a detailed reason for your leave..."
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={4}
+              className={errors.reason ? "border-destructive" : ""}
+            />
+            {errors.reason && <p className="text-xs text-destructive">{errors.reason}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="attachment" className="flex items-center gap-1">
+              <Paperclip className="h-3 w-3" /> {needsProof ? "Medical Certificate or Proof *" : "Supporting Document (optional)"}
+            </Label>
+            <Input
+              id="attachment"
+              type="file"
+              accept=".pdf,image/*"
+              onChange={(e) => setAttachment(e.target.files?.[0] || null)}
+              className={errors.attachment ? "border-destructive" : ""}
+            />
+            <p className="text-xs text-muted-foreground">PDF or image, up to {MAX_ATTACHMENT_MB} MB.</p>
+            {errors.attachment && <p className="text-xs text-destructive">{errors.attachment}</p>}
+          </div>
+
+          <div className="flex justify-end gap-3">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button onClick={handleSubmit} disabled={saving || quotaCheck === "block"}>
+              {saving ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Submitting...
+                </>
+              ) : (
+                "Submit Request"
+              )}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,102 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2 } from "lucide-react";
+
+interface DeadlineReminderSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const MAX_OFFSETS = 5;
+const MAX_OFFSET_HOURS = 720;
+
+// "48, 2" -> [48, 2]; null if any entry isn't a whole number of hours in range
+const parseOffsets = (value: string) => {
+  const parts = value.split(",").map((p) => p.trim()).filter(Boolean);
+  const hours = parts.map(Number);
+  if (hours.some((h) => !Number.isInteger(h) || h < 1 || h > MAX_OFFSET_HOURS)) return null;
+  return [...new Set(hours)].sort((a, b) => b - a);
+};
+
+export function DeadlineReminderSettingsDialog({ open, onOpenChange }: DeadlineReminderSettingsDialogProps) {
+  const { toast } = useToast();
+  const [enabled, setEnabled] = useState(true);
+  const [offsets, setOffsets] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setLoading(true);
+    supabase.from("deadline_reminder_settings").select("offsets_hours, enabled").maybeSingle().then(({ data }) => {
+      setEnabled(data?.enabled ?? true);
+      setOffsets((data?.offsets_hours || [48, 2]).join(", "));
+      setLoading(false);
+    });
+  }, [open]);
+
+  const handleSave = async () => {
+    const hours = parseOffsets(offsets);
+    if (!hours || hours.length === 0 || hours.length > MAX_OFFSETS) {
+      toast({
+        title: "Error",
+        description: `Enter 1 to ${MAX_OFFSETS} whole numbers of hours between 1 and ${MAX_OFFSET_HOURS}, separated by commas.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.from("deadline_reminder_settings").update({ offsets_hours: hours, enabled }).eq("id", true);
+      if (error) throw error;
+      toast({ title: "Success", description: "Reminder settings saved." });
+      onOpenChange(false);
+    } catch (error: unknown) {
+      toast({ title: "Error", description: error instanceof Error ? error.message : "Failed to save reminder settings.", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Deadline Reminders</DialogTitle>
+          <DialogDescription>
+            Students who haven't submitted an assignment or quiz are reminded in the app and by email before its deadline.
+          </DialogDescription>
+        </DialogHeader>
+        {loading ? (
+          <div className="flex justify-center py-8"><Loader2 className="h-6 w-6 animate-spin text-muted-foreground" /></div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="reminders-enabled">Send reminders</Label>
+              <Switch id="reminders-enabled" checked={enabled} onCheckedChange={setEnabled} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="reminder-offsets">Hours before the deadline</Label>
+              <Input id="reminder-offsets" value={offsets} onChange={(e) => setOffsets(e.target.value)} placeholder="48, 2" disabled={!enabled} />
+              <p className="text-xs text-muted-foreground">Comma-separated, e.g. "48, 2" sends one reminder two days before and another two hours before.</p>
+            </div>
+          </div>
+        )}
+        <div className="flex justify-end gap-3">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={saving || loading}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,97 @@
+import { useEffect, useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Mail } from "lucide-react";
+
+type PreferenceKey = "leave_decisions" | "new_assignments" | "deadline_reminders";
+type Preferences = Record<PreferenceKey, boolean>;
+
+const DEFAULT_PREFERENCES: Preferences = {
+  leave_decisions: true,
+  new_assignments: true,
+  deadline_reminders: true,
+};
+
+const OPTIONS: { key: PreferenceKey; label: string; description: string }[] = [
+  { key: "leave_decisions", label: "Leave decisions", description: "When a leave request is approved or rejected." },
+  { key: "new_assignments", label: "New assignments", description: "When an assignment is posted for your batch." },
+  { key: "deadline_reminders", label: "Deadline reminders", description: "Before assignment and quiz deadlines you haven't submitted for." },
+];
+
+export function EmailPreferencesCard() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [preferences, setPreferences] = useState<Preferences>(DEFAULT_PREFERENCES);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState<PreferenceKey | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+    supabase
+      .from("email_preferences")
+      .select("leave_decisions, new_assignments, deadline_reminders")
+      .eq("user_id", user.id)
+      .maybeSingle()
+      .then(({ data }) => {
+        if (data) setPreferences(data);
+        setLoading(false);
+      });
+  }, [user]);
+
+  const toggle = async (key: PreferenceKey, value: boolean) => {
+    if (!user) return;
+    const previous = preferences;
+    const next = { ...preferences, [key]: value };
+    setPreferences(next);
+    setSaving(key);
+    try {
+      const { error } = await supabase.from("email_preferences").upsert({ user_id: user.id, ...next });
+      if (error) throw error;
+    } catch (error: unknown) {
+      setPreferences(previous);
+      toast({ title: "Error", description: error instanceof Error ? error.message : "Could not update email preferences.", variant: "destructive" });
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <Card className="slide-up" style={{ animationDelay: '0.25s' }}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Mail className="h-5 w-5" />
+          Email Notifications
+        </CardTitle>
+        <CardDescription>
+          Choose which updates are also sent to your email. Account emails, such as registration approval, are always sent.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        ) : (
+          <div className="divide-y">
+            {OPTIONS.map((option) => (
+              <div key={option.key} className="flex items-center justify-between gap-4 py-3 first:pt-0 last:pb-0">
+                <div className="space-y-0.5">
+                  <Label htmlFor={`email-${option.key}`}>{option.label}</Label>
+                  <p className="text-sm text-muted-foreground">{option.description}</p>
+                </div>
+                <Switch
+                  id={`email-${option.key}`}
+                  checked={preferences[option.key]}
+                  onCheckedChange={(checked) => toggle(option.key, checked)}
+                  disabled={saving !== null}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
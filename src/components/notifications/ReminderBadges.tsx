@@ -0,0 +1,30 @@
+import { format, parseISO } from "date-fns";
+import { BellRing } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+
+export interface DeadlineReminder {
+  student_id: string;
+  offset_hours: number;
+  sent_at: string;
+}
+
+const formatOffset = (hours: number) => (hours >= 24 && hours % 24 === 0 ? `${hours / 24}d` : `${hours}h`);
+
+// Reminders sent to one student for a deadline, largest offset first
+export function ReminderBadges({ reminders }: { reminders: DeadlineReminder[] }) {
+  if (reminders.length === 0) return null;
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      {[...reminders].sort((a, b) => b.offset_hours - a.offset_hours).map((r) => (
+        <Badge
+          key={r.offset_hours}
+          variant="outline"
+          className="gap-1 text-xs font-normal text-muted-foreground"
+          title={`Reminded ${format(parseISO(r.sent_at), "MMM dd, HH:mm")}`}
+        >
+          <BellRing className="h-3 w-3" /> {formatOffset(r.offset_hours)} before
+        </Badge>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,275 @@
+import { useEffect, useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { FileDown, Loader2, Plus } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import {
+  InstallmentDraft, InstallmentStatus, PAYMENT_MODES, PaymentRecord, allocatePayments, buildReceiptPdf,
+  formatCurrency, getPaymentModeLabel, sumAmounts,
+} from "@/lib/payments";
+import { downloadBlob } from "@/lib/spreadsheet";
+
+interface PaymentPlan {
+  id: string;
+  payer_name: string;
+  title: string;
+  total_amount: number;
+  notes: string | null;
+}
+
+interface PaymentLedgerDialogProps {
+  planId: string | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onChanged?: () => void;
+}
+
+const installmentBadge: Record<InstallmentStatus, string> = {
+  paid: "bg-success/10 text-success",
+  partial: "bg-warning/10 text-warning",
+  overdue: "bg-destructive/10 text-destructive",
+  due: "",
+};
+
+export function PaymentLedgerDialog({ planId, open, onOpenChange, onChanged }: PaymentLedgerDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(false);
+  const [plan, setPlan] = useState<PaymentPlan | null>(null);
+  const [installments, setInstallments] = useState<InstallmentDraft[]>([]);
+  const [payments, setPayments] = useState<PaymentRecord[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [amount, setAmount] = useState("");
+  const [mode, setMode] = useState("upi");
+  const [reference, setReference] = useState("");
+  const [paidOn, setPaidOn] = useState("");
+  const [notes, setNotes] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const fetchLedger = async (id: string) => {
+    setLoading(true);
+    try {
+      const [{ data: planData, error }, { data: installmentData }, { data: paymentData }] = await Promise.all([
+        supabase.from("payment_plans").select("id, payer_name, title, total_amount, notes").eq("id", id).single(),
+        supabase.from("payment_installments").select("installment_number, amount, due_date").eq("plan_id", id),
+        supabase.from("payments").select("*").eq("plan_id", id).order("paid_on", { ascending: true }),
+      ]);
+      if (error) throw error;
+      setPlan(planData);
+      setInstallments(installmentData || []);
+      setPayments(paymentData || []);
+    } catch (error) {
+      console.error("Error:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (open && planId) {
+      setShowForm(false);
+      fetchLedger(planId);
+    }
+  }, [open, planId]);
+
+  const paid = sumAmounts(payments);
+  const outstanding = plan ? Math.max(Number(plan.total_amount) - paid, 0) : 0;
+  const schedule = allocatePayments(installments, paid);
+  const nextDue = schedule.find((i) => i.status !== "paid");
+
+  const openForm = () => {
+    setAmount(nextDue ? String(Number((nextDue.amount - nextDue.paid).toFixed(2))) : String(outstanding));
+    setMode("upi"); setReference(""); setNotes("");
+    setPaidOn(format(new Date(), "yyyy-MM-dd"));
+    setShowForm(true);
+  };
+
+  const downloadReceipt = (payment: PaymentRecord) => {
+    if (!plan) return;
+    const paidToDate = sumAmounts(payments.filter((p) => p.paid_on < payment.paid_on
+      || (p.paid_on === payment.paid_on && p.receipt_number <= payment.receipt_number)));
+    const pdf = buildReceiptPdf({
+      payment, payerName: plan.payer_name, planTitle: plan.title, planTotal: Number(plan.total_amount), paidToDate,
+    });
+    downloadBlob(pdf, `${payment.receipt_number}.pdf`);
+  };
+
+  const handleRecord = async () => {
+    if (!plan) return;
+    const value = Number(amount);
+    if (!(value > 0)) {
+      toast({ title: "Error", description: "Enter an amount greater than zero.", variant: "destructive" });
+      return;
+    }
+    if (value > outstanding + 0.001) {
+      toast({ title: "Error", description: `Only ${formatCurrency(outstanding)} is outstanding.`, variant: "destructive" });
+      return;
+    }
+    if (mode !== "cash" && !reference.trim()) {
+      toast({ title: "Error", description: "Enter the transaction or cheque reference number.", variant: "destructive" });
+      return;
+    }
+    setSaving(true);
+    try {
+      const { data, error } = await supabase.from("payments").insert({
+        plan_id: plan.id,
+        amount: value,
+        mode,
+        reference_number: reference.trim() || null,
+        paid_on: paidOn,
+        notes: notes.trim() || null,
+        recorded_by: user!.id,
+      }).select("receipt_number").single();
+      if (error) throw error;
+      toast({ title: "Payment Recorded", description: `Receipt ${data.receipt_number} for ${formatCurrency(value)}.` });
+      setShowForm(false);
+      fetchLedger(plan.id);
+      onChanged?.();
+    } catch (error: unknown) {
+      toast({ title: "Error", description: error instanceof Error ? error.message : "Could not record the payment.", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        {loading || !plan ? (
+          <div className="flex justify-center py-8"><Loader2 className="h-6 w-6 animate-spin text-primary" /></div>
+        ) : (
+          <>
+            <DialogHeader>
+              <DialogTitle>{plan.payer_name}</DialogTitle>
+              <DialogDescription>{plan.title}{plan.notes ? ` · ${plan.notes}` : ""}</DialogDescription>
+            </DialogHeader>
+
+            <div className="grid grid-cols-3 gap-3 text-center">
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground">Total Fee</p>
+                <p className="text-lg font-bold">{formatCurrency(Number(plan.total_amount))}</p>
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground">Paid</p>
+                <p className="text-lg font-bold text-success">{formatCurrency(paid)}</p>
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground">Outstanding</p>
+                <p className={`text-lg font-bold ${outstanding > 0 ? "text-destructive" : ""}`}>{formatCurrency(outstanding)}</p>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <h4 className="text-sm font-semibold">Installments</h4>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>#</TableHead>
+                    <TableHead>Due</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead className="text-right">Paid</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {schedule.map((i) => (
+                    <TableRow key={i.installment_number}>
+                      <TableCell>{i.installment_number}</TableCell>
+                      <TableCell>{format(parseISO(i.due_date), "MMM dd, yyyy")}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(Number(i.amount))}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(i.paid)}</TableCell>
+                      <TableCell><Badge variant="outline" className={`capitalize ${installmentBadge[i.status]}`}>{i.status}</Badge></TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <h4 className="text-sm font-semibold">Payments</h4>
+                {outstanding > 0 && !showForm && (
+                  <Button size="sm" onClick={openForm}><Plus className="mr-2 h-4 w-4" /> Record Payment</Button>
+                )}
+              </div>
+
+              {showForm && (
+                <div className="space-y-3 rounded-lg border p-3">
+                  <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+                    <div className="space-y-1">
+                      <Label className="text-xs">Amount (₹)</Label>
+                      <Input type="number" min="0" step="0.01" value={amount} onChange={(e) => setAmount(e.target.value)} />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Mode</Label>
+                      <Select value={mode} onValueChange={setMode}>
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                        <SelectContent>{PAYMENT_MODES.map((m) => <SelectItem key={m.value} value={m.value}>{m.label}</SelectItem>)}</SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Reference No.</Label>
+                      <Input value={reference} onChange={(e) => setReference(e.target.value)} placeholder={mode === "cash" ? "Optional" : "UTR / cheque no."} />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Paid On</Label>
+                      <Input type="date" value={paidOn} onChange={(e) => setPaidOn(e.target.value)} />
+                    </div>
+                  </div>
+                  <Input value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Notes (optional)" />
+                  <div className="flex gap-2">
+                    <Button size="sm" onClick={handleRecord} disabled={saving || !paidOn}>
+                      {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null} Save Payment
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => setShowForm(false)}>Cancel</Button>
+                  </div>
+                </div>
+              )}
+
+              {payments.length === 0 ? (
+                <p className="text-center text-muted-foreground py-4 text-sm">No payments yet.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Receipt</TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Mode</TableHead>
+                      <TableHead>Reference</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {payments.map((p) => (
+                      <TableRow key={p.id}>
+                        <TableCell className="font-mono text-xs">{p.receipt_number}</TableCell>
+                        <TableCell>{format(parseISO(p.paid_on), "MMM dd, yyyy")}</TableCell>
+                        <TableCell>{getPaymentModeLabel(p.mode)}</TableCell>
+                        <TableCell>{p.reference_number || "-"}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(Number(p.amount))}</TableCell>
+                        <TableCell>
+                          <Button size="sm" variant="ghost" onClick={() => downloadReceipt(p)} title="Download receipt">
+                            <FileDown className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
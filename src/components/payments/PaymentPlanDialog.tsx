@@ -0,0 +1,157 @@
+import { useEffect, useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2 } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { formatCurrency, splitInstallments } from "@/lib/payments";
+
+export interface PlanPayer {
+  key: string;
+  lead_id: string | null;
+  student_id: string | null;
+  name: string;
+  detail: string;
+}
+
+interface PaymentPlanDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Fixed payer (e.g. opened from a lead row); otherwise one is picked from payerOptions
+  payer: PlanPayer | null;
+  payerOptions?: PlanPayer[];
+  onCreated: (planId: string) => void;
+}
+
+export function PaymentPlanDialog({ open, onOpenChange, payer, payerOptions = [], onCreated }: PaymentPlanDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [payerKey, setPayerKey] = useState("");
+  const [title, setTitle] = useState("Internship Fee");
+  const [total, setTotal] = useState("");
+  const [count, setCount] = useState("1");
+  const [firstDue, setFirstDue] = useState("");
+  const [notes, setNotes] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setPayerKey(""); setTitle("Internship Fee"); setTotal(""); setCount("1");
+    setFirstDue(format(new Date(), "yyyy-MM-dd")); setNotes("");
+  }, [open]);
+
+  const selectedPayer = payer || payerOptions.find((p) => p.key === payerKey) || null;
+  const totalAmount = Number(total);
+  const schedule = totalAmount > 0 && firstDue ? splitInstallments(totalAmount, Number(count), firstDue) : [];
+
+  const handleSave = async () => {
+    if (!selectedPayer) {
+      toast({ title: "Error", description: "Choose who is paying.", variant: "destructive" });
+      return;
+    }
+    if (!title.trim() || !(totalAmount > 0)) {
+      toast({ title: "Error", description: "Enter a title and a fee greater than zero.", variant: "destructive" });
+      return;
+    }
+    setSaving(true);
+    try {
+      const { data: plan, error } = await supabase.from("payment_plans").insert({
+        lead_id: selectedPayer.lead_id,
+        student_id: selectedPayer.student_id,
+        payer_name: selectedPayer.name,
+        title: title.trim(),
+        total_amount: totalAmount,
+        notes: notes.trim() || null,
+        created_by: user!.id,
+      }).select("id").single();
+      if (error) throw error;
+
+      const { error: installmentError } = await supabase.from("payment_installments")
+        .insert(schedule.map((i) => ({ ...i, plan_id: plan.id })));
+      if (installmentError) throw installmentError;
+
+      toast({ title: "Plan Created", description: `${formatCurrency(totalAmount)} in ${schedule.length} installment${schedule.length === 1 ? "" : "s"}.` });
+      onCreated(plan.id);
+      onOpenChange(false);
+    } catch (error: unknown) {
+      toast({ title: "Error", description: error instanceof Error ? error.message : "Could not create the plan.", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>New Payment Plan</DialogTitle>
+          <DialogDescription>{payer ? `${payer.name} · ${payer.detail}` : "Record the fee owed by a lead or student."}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          {!payer && (
+            <div className="space-y-2">
+              <Label>Payer *</Label>
+              <Select value={payerKey} onValueChange={setPayerKey}>
+                <SelectTrigger><SelectValue placeholder="Select a lead or student" /></SelectTrigger>
+                <SelectContent>
+                  {payerOptions.map((p) => <SelectItem key={p.key} value={p.key}>{p.name} · {p.detail}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label>Title *</Label>
+            <Input value={title} onChange={(e) => setTitle(e.target.value)} placeholder="e.g. AICTE Internship Fee" />
+          </div>
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Total Fee (₹) *</Label>
+              <Input type="number" min="0" step="0.01" value={total} onChange={(e) => setTotal(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Installments</Label>
+              <Select value={count} onValueChange={setCount}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>{[1, 2, 3, 4, 6, 12].map((n) => <SelectItem key={n} value={String(n)}>{n}</SelectItem>)}</SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>First Due</Label>
+              <Input type="date" value={firstDue} onChange={(e) => setFirstDue(e.target.value)} />
+            </div>
+          </div>
+          {schedule.length > 1 && (
+            <Table>
+              <TableHeader>
+                <TableRow><TableHead>#</TableHead><TableHead>Due</TableHead><TableHead className="text-right">Amount</TableHead></TableRow>
+              </TableHeader>
+              <TableBody>
+                {schedule.map((i) => (
+                  <TableRow key={i.installment_number}>
+                    <TableCell>{i.installment_number}</TableCell>
+                    <TableCell>{format(parseISO(i.due_date), "MMM dd, yyyy")}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(i.amount)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+          <div className="space-y-2">
+            <Label>Notes</Label>
+            <Textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} placeholder="Discounts, scholarship, etc." />
+          </div>
+          <Button onClick={handleSave} className="w-full" disabled={saving}>
+            {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null} Create Plan
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,160 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Progress } from "@/components/ui/progress";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
+import { useToast } from "@/hooks/use-toast";
+import { fetchAllRows } from "@/lib/fetchAllRows";
+import {
+  ANALYTICS_QUESTION_COLUMNS, AnalyticsAnswer, AnalyticsQuestion, AnalyticsSubmission, LOW_PERCENT_CORRECT, TopicStat,
+  computeItemStats, computeTopicStats, latestSubmissions, scoreHistogram, scorePercent,
+} from "@/lib/quizAnalytics";
+
+interface BatchQuizReportDialogProps {
+  batch: { id: string; name: string } | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface QuizSummary {
+  title: string;
+  students: number;
+  average: number;
+}
+
+export function BatchQuizReportDialog({ batch, open, onOpenChange }: BatchQuizReportDialogProps) {
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(false);
+  const [quizSummaries, setQuizSummaries] = useState<QuizSummary[]>([]);
+  const [submissions, setSubmissions] = useState<AnalyticsSubmission[]>([]);
+  const [topics, setTopics] = useState<TopicStat[]>([]);
+
+  useEffect(() => {
+    if (!open || !batch) return;
+
+    const fetchReport = async () => {
+      setLoading(true);
+      try {
+        const { error: finalizeError } = await supabase.rpc("finalize_expired_quiz_attempts");
+        if (finalizeError) throw new Error(finalizeError.message);
+        const { data: quizzesData, error: quizzesError } = await supabase.from("quizzes").select("id, title").eq("batch_id", batch.id).order("created_at");
+        if (quizzesError) throw new Error(quizzesError.message);
+        const quizzes = quizzesData || [];
+        if (quizzes.length === 0) {
+          setQuizSummaries([]); setSubmissions([]); setTopics([]);
+          return;
+        }
+
+        // Filtered through the quiz's batch rather than long lists of ids in the URL
+        const [questionsData, subsData] = await Promise.all([
+          fetchAllRows((from, to) => supabase
+            .from("quiz_questions").select(`${ANALYTICS_QUESTION_COLUMNS}, quizzes!inner(batch_id)`)
+            .eq("quizzes.batch_id", batch.id).order("id").range(from, to)),
+          fetchAllRows((from, to) => supabase
+            .from("quiz_submissions").select("id, quiz_id, student_id, attempt_number, score, total_points, quizzes!inner(batch_id)")
+            .eq("quizzes.batch_id", batch.id).order("id").range(from, to)),
+        ]);
+        const latest = latestSubmissions(subsData as AnalyticsSubmission[]);
+        const latestIds = new Set(latest.map((s) => s.id));
+        const answersData = latest.length > 0
+          ? await fetchAllRows((from, to) => supabase
+            .from("quiz_answers").select("id, submission_id, question_id, answer_text, points_awarded, graded_at, quiz_submissions!inner(quizzes!inner(batch_id))")
+            .eq("quiz_submissions.quizzes.batch_id", batch.id).order("id").range(from, to))
+          : [];
+        const answers = (answersData as AnalyticsAnswer[]).filter((a) => latestIds.has(a.submission_id));
+
+        const questions = questionsData as AnalyticsQuestion[];
+        // Item stats per quiz, so ranking for discrimination stays within a quiz
+        const items = quizzes.flatMap((quiz) => computeItemStats(
+          questions.filter((q) => q.quiz_id === quiz.id),
+          latest.filter((s) => s.quiz_id === quiz.id),
+          answers,
+        ));
+
+        setSubmissions(latest);
+        setTopics(computeTopicStats(items));
+        setQuizSummaries(quizzes.map((quiz) => {
+          const subs = latest.filter((s) => s.quiz_id === quiz.id);
+          return {
+            title: quiz.title,
+            students: subs.length,
+            average: subs.length ? Math.round(subs.reduce((sum, s) => sum + scorePercent(s), 0) / subs.length) : 0,
+          };
+        }));
+      } catch (error: unknown) {
+        setQuizSummaries([]); setSubmissions([]); setTopics([]);
+        toast({ title: "Error", description: error instanceof Error ? error.message : "Could not load the report.", variant: "destructive" });
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchReport();
+  }, [open, batch, toast]);
+
+  const tooltipStyle = { backgroundColor: "hsl(var(--card))", border: "1px solid hsl(var(--border))", borderRadius: "8px" };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        {batch && (
+          <>
+            <DialogHeader>
+              <DialogTitle>Quiz Report: {batch.name}</DialogTitle>
+              <DialogDescription>Score distribution and weak topics across all quizzes of this batch</DialogDescription>
+            </DialogHeader>
+            {loading ? (
+              <div className="flex justify-center py-12"><Loader2 className="h-6 w-6 animate-spin text-primary" /></div>
+            ) : submissions.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">No quiz submissions in this batch yet.</p>
+            ) : (
+              <div className="space-y-6">
+                <div>
+                  <h4 className="mb-2 text-sm font-semibold">Score Distribution</h4>
+                  <ResponsiveContainer width="100%" height={220}>
+                    <BarChart data={scoreHistogram(submissions)}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                      <XAxis dataKey="range" tick={{ fontSize: 10 }} stroke="hsl(var(--muted-foreground))" />
+                      <YAxis allowDecimals={false} tick={{ fontSize: 11 }} stroke="hsl(var(--muted-foreground))" />
+                      <Tooltip contentStyle={tooltipStyle} />
+                      <Bar dataKey="students" fill="hsl(var(--primary))" radius={[4, 4, 0, 0]} />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+
+                <div>
+                  <h4 className="mb-2 text-sm font-semibold">Average Score by Quiz</h4>
+                  <ResponsiveContainer width="100%" height={220}>
+                    <BarChart data={quizSummaries}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                      <XAxis dataKey="title" tick={{ fontSize: 10 }} stroke="hsl(var(--muted-foreground))" />
+                      <YAxis domain={[0, 100]} tick={{ fontSize: 11 }} stroke="hsl(var(--muted-foreground))" />
+                      <Tooltip contentStyle={tooltipStyle} formatter={(value: number) => [`${value}%`, "Average"]} />
+                      <Bar dataKey="average" fill="hsl(var(--primary))" radius={[4, 4, 0, 0]} />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+
+                <div className="space-y-2">
+                  <h4 className="text-sm font-semibold">Topics (weakest first)</h4>
+                  {topics.map((t) => (
+                    <div key={t.topic} className="flex items-center gap-3 rounded-lg border p-3">
+                      <div className="w-40">
+                        <p className="font-medium text-sm">{t.topic}</p>
+                        <p className="text-xs text-muted-foreground">{t.questions} question{t.questions !== 1 ? "s" : ""} · {t.responses} answers</p>
+                      </div>
+                      <Progress value={t.percentCorrect} className="h-2 flex-1" />
+                      <span className={`w-12 text-right text-sm font-semibold ${t.percentCorrect < LOW_PERCENT_CORRECT ? "text-destructive" : ""}`}>
+                        {Math.round(t.percentCorrect)}%
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,165 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Constants } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Plus, Search, Shuffle } from "lucide-react";
+import { QuestionDraft, QuestionRow, fromQuestionRow, getQuestionTypeLabel } from "@/lib/quizQuestions";
+
+export interface BankQuestion extends QuestionRow {
+  id: string;
+  internship_role: string | null;
+  created_at: string;
+}
+
+interface QuestionBankPickerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onAdd: (questions: QuestionDraft[]) => void;
+  excludeIds: string[];
+}
+
+export function QuestionBankPicker({ open, onOpenChange, onAdd, excludeIds }: QuestionBankPickerProps) {
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(false);
+  const [bank, setBank] = useState<BankQuestion[]>([]);
+  const [roleFilter, setRoleFilter] = useState("all");
+  const [topicFilter, setTopicFilter] = useState("all");
+  const [search, setSearch] = useState("");
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [drawCount, setDrawCount] = useState(5);
+
+  useEffect(() => {
+    if (!open) return;
+    setSelected(new Set());
+    const fetchBank = async () => {
+      setLoading(true);
+      try {
+        const { data, error } = await supabase.from("quiz_question_bank").select("*").order("created_at", { ascending: false });
+        if (error) throw error;
+        setBank(data || []);
+      } catch (error) {
+        console.error("Error:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchBank();
+  }, [open]);
+
+  const topics = [...new Set(bank.map((q) => q.topic).filter(Boolean))].sort() as string[];
+  const available = bank.filter((q) =>
+    !excludeIds.includes(q.id)
+    && (roleFilter === "all" || (roleFilter === "general" ? !q.internship_role : q.internship_role === roleFilter))
+    && (topicFilter === "all" || q.topic === topicFilter)
+    && (!search || q.question_text.toLowerCase().includes(search.toLowerCase()))
+  );
+
+  const toDrafts = (questions: BankQuestion[]) => questions.map((q) => ({ ...fromQuestionRow(q), bank_question_id: q.id }));
+
+  const handleAddSelected = () => {
+    onAdd(toDrafts(available.filter((q) => selected.has(q.id))));
+    onOpenChange(false);
+  };
+
+  const handleDraw = () => {
+    if (drawCount > available.length) {
+      toast({ title: "Error", description: `Only ${available.length} matching questions available.`, variant: "destructive" });
+      return;
+    }
+    const pool = [...available];
+    for (let i = pool.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [pool[i], pool[j]] = [pool[j], pool[i]];
+    }
+    onAdd(toDrafts(pool.slice(0, drawCount)));
+    onOpenChange(false);
+  };
+
+  const toggle = (id: string, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) next.add(id); else next.delete(id);
+    setSelected(next);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Add from Question Bank</DialogTitle>
+          <DialogDescription>Pick questions, or draw a random set from the filtered list.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid gap-3 sm:grid-cols-3">
+            <Select value={roleFilter} onValueChange={setRoleFilter}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Roles</SelectItem>
+                <SelectItem value="general">General</SelectItem>
+                {Constants.public.Enums.internship_role.map((r) => <SelectItem key={r} value={r}>{r.toUpperCase()}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <Select value={topicFilter} onValueChange={setTopicFilter}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Topics</SelectItem>
+                {topics.map((t) => <SelectItem key={t} value={t}>{t}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <Input value={search} onChange={(e) => setSearch(e.target.value)} placeholder="Search..." className="pl-9" />
+            </div>
+          </div>
+
+          <div className="flex items-end gap-2 rounded-lg border p-3">
+            <div className="space-y-1">
+              <Label className="text-xs">Random questions</Label>
+              <Input type="number" min="1" value={drawCount} onChange={(e) => setDrawCount(Math.max(parseInt(e.target.value) || 1, 1))} className="h-8 w-20" />
+            </div>
+            <Button variant="outline" size="sm" onClick={handleDraw} disabled={available.length === 0}>
+              <Shuffle className="mr-2 h-4 w-4" /> Draw Random
+            </Button>
+            <span className="ml-auto text-xs text-muted-foreground">{available.length} matching</span>
+          </div>
+
+          {loading ? (
+            <div className="flex justify-center py-8"><Loader2 className="h-6 w-6 animate-spin text-primary" /></div>
+          ) : available.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No matching questions in the bank.</p>
+          ) : (
+            <div className="space-y-2">
+              {available.map((q) => (
+                <label key={q.id} className="flex cursor-pointer items-start gap-3 rounded-lg border p-3 hover:bg-muted/50">
+                  <Checkbox checked={selected.has(q.id)} onCheckedChange={(c) => toggle(q.id, c === true)} className="mt-0.5" />
+                  <div className="flex-1 space-y-1">
+                    <p className="text-sm">{q.question_text}</p>
+                    <div className="flex flex-wrap gap-1">
+                      <Badge variant="outline" className="text-xs">{getQuestionTypeLabel(q.question_type)}</Badge>
+                      <Badge variant="outline" className="text-xs">{q.points} pt{q.points !== 1 ? "s" : ""}</Badge>
+                      {q.internship_role && <Badge variant="secondary" className="text-xs">{q.internship_role.toUpperCase()}</Badge>}
+                      {q.topic && <Badge variant="secondary" className="text-xs">{q.topic}</Badge>}
+                    </div>
+                  </div>
+                </label>
+              ))}
+            </div>
+          )}
+
+          <div className="flex justify-end gap-3">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button onClick={handleAddSelected} disabled={selected.size === 0}>
+              <Plus className="mr-2 h-4 w-4" /> Add Selected ({selected.size})
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,168 @@
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Layers, Plus, Trash2 } from "lucide-react";
+import {
+  QuestionDraft, QuestionType, QUESTION_TYPES, TRUE_FALSE_OPTIONS, MANUALLY_GRADED_TYPES, emptyQuestion,
+} from "@/lib/quizQuestions";
+
+interface QuestionEditorProps {
+  question: QuestionDraft;
+  label: string;
+  onChange: (question: QuestionDraft) => void;
+  onRemove?: () => void;
+  topicSuggestions?: string[];
+}
+
+export function QuestionEditor({ question: q, label, onChange, onRemove, topicSuggestions = [] }: QuestionEditorProps) {
+  const update = (patch: Partial<QuestionDraft>) => onChange({ ...q, ...patch });
+
+  const changeType = (type: QuestionType) => {
+    const fresh = emptyQuestion(type);
+    // Keep the options when switching between the two option-list types
+    const keepOptions = (type === "mcq" || type === "multi_select") && (q.question_type === "mcq" || q.question_type === "multi_select");
+    onChange({ ...fresh, question_text: q.question_text, points: q.points, topic: q.topic, options: keepOptions ? q.options : fresh.options });
+  };
+
+  const updateOption = (idx: number, value: string) => {
+    const previous = q.options[idx];
+    const options = q.options.map((o, i) => (i === idx ? value : o));
+    update({
+      options,
+      correct_answer: q.correct_answer === previous ? "" : q.correct_answer,
+      correct_answers: q.correct_answers.filter((a) => a !== previous),
+    });
+  };
+
+  const toggleCorrect = (opt: string, checked: boolean) => {
+    update({ correct_answers: checked ? [...q.correct_answers, opt] : q.correct_answers.filter((a) => a !== opt) });
+  };
+
+  const filledOptions = q.options.filter((o) => o.trim());
+
+  return (
+    <Card className="p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Badge variant="outline">{label}</Badge>
+          {q.bank_question_id && (
+            <Badge variant="secondary" className="text-xs"><Layers className="mr-1 h-3 w-3" /> Bank</Badge>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={q.question_type} onValueChange={(v) => changeType(v as QuestionType)}>
+            <SelectTrigger className="w-[130px] h-8"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {QUESTION_TYPES.map((t) => <SelectItem key={t.value} value={t.value}>{t.label}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <Input type="number" min="1" max="100" value={q.points} onChange={(e) => update({ points: parseInt(e.target.value) || 1 })} className="w-16 h-8" placeholder="Pts" />
+          {onRemove && (
+            <Button variant="ghost" size="sm" className="text-destructive h-8" onClick={onRemove}>
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          )}
+        </div>
+      </div>
+      <Textarea rows={2} value={q.question_text} onChange={(e) => update({ question_text: e.target.value })} placeholder="Enter question..." />
+      <Input
+        value={q.topic}
+        onChange={(e) => update({ topic: e.target.value })}
+        placeholder="Topic (optional), e.g. Recursion"
+        className="h-8"
+        list={topicSuggestions.length > 0 ? `topics-${label}` : undefined}
+      />
+      {topicSuggestions.length > 0 && (
+        <datalist id={`topics-${label}`}>{topicSuggestions.map((t) => <option key={t} value={t} />)}</datalist>
+      )}
+
+      {(q.question_type === "mcq" || q.question_type === "multi_select") && (
+        <div className="space-y-2 pl-4">
+          {q.options.map((opt, oi) => (
+            <div key={oi} className="flex items-center gap-2">
+              <span className="text-xs text-muted-foreground w-4">{String.fromCharCode(65 + oi)}.</span>
+              <Input value={opt} onChange={(e) => updateOption(oi, e.target.value)} placeholder={`Option ${oi + 1}`} className="h-8" />
+              {q.question_type === "multi_select" && (
+                <div className="flex items-center gap-1">
+                  <Checkbox
+                    id={`correct-${label}-${oi}`}
+                    checked={!!opt.trim() && q.correct_answers.includes(opt)}
+                    disabled={!opt.trim()}
+                    onCheckedChange={(c) => toggleCorrect(opt, c === true)}
+                  />
+                  <Label htmlFor={`correct-${label}-${oi}`} className="text-xs">Correct</Label>
+                </div>
+              )}
+              {q.options.length > 2 && (
+                <Button variant="ghost" size="sm" className="h-8 px-2" onClick={() => update({
+                  options: q.options.filter((_, i) => i !== oi),
+                  correct_answer: q.correct_answer === opt ? "" : q.correct_answer,
+                  correct_answers: q.correct_answers.filter((a) => a !== opt),
+                })}>
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              )}
+            </div>
+          ))}
+          {q.options.length < 8 && (
+            <Button type="button" variant="ghost" size="sm" onClick={() => update({ options: [...q.options, ""] })}>
+              <Plus className="mr-1 h-3 w-3" /> Add Option
+            </Button>
+          )}
+          {q.question_type === "mcq" && (
+            <div className="space-y-1">
+              <Label className="text-xs">Correct Answer *</Label>
+              <Select value={q.correct_answer} onValueChange={(v) => update({ correct_answer: v })}>
+                <SelectTrigger className="h-8"><SelectValue placeholder="Select correct answer" /></SelectTrigger>
+                <SelectContent>
+                  {filledOptions.map((opt, oi) => <SelectItem key={oi} value={opt}>{opt}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+      )}
+
+      {q.question_type === "true_false" && (
+        <div className="space-y-1 pl-4">
+          <Label className="text-xs">Correct Answer *</Label>
+          <Select value={q.correct_answer} onValueChange={(v) => update({ correct_answer: v })}>
+            <SelectTrigger className="h-8 w-[160px]"><SelectValue placeholder="Select" /></SelectTrigger>
+            <SelectContent>
+              {TRUE_FALSE_OPTIONS.map((opt) => <SelectItem key={opt} value={opt}>{opt}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {q.question_type === "numeric" && (
+        <div className="grid gap-3 pl-4 sm:grid-cols-2">
+          <div className="space-y-1">
+            <Label className="text-xs">Correct Answer *</Label>
+            <Input type="number" step="any" value={q.correct_answer} onChange={(e) => update({ correct_answer: e.target.value })} className="h-8" />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Tolerance (±)</Label>
+            <Input type="number" min="0" step="any" value={q.tolerance} onChange={(e) => update({ tolerance: Math.max(parseFloat(e.target.value) || 0, 0) })} className="h-8" />
+          </div>
+        </div>
+      )}
+
+      {q.question_type === "code" && (
+        <div className="space-y-1 pl-4">
+          <Label className="text-xs">Reference Solution (graders only)</Label>
+          <Textarea rows={4} value={q.correct_answer} onChange={(e) => update({ correct_answer: e.target.value })} className="font-mono text-xs" placeholder="Optional" />
+        </div>
+      )}
+
+      {MANUALLY_GRADED_TYPES.includes(q.question_type) && (
+        <p className="text-xs text-muted-foreground">Answers to this question are graded manually.</p>
+      )}
+    </Card>
+  );
+}
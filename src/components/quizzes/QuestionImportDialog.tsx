@@ -0,0 +1,129 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { CheckCircle, Download, Loader2, Plus, XCircle } from "lucide-react";
+import { QuestionDraft, getQuestionTypeLabel } from "@/lib/quizQuestions";
+import { ImportedQuestion, QUESTION_FILE_TEMPLATE, parseQuestionFile } from "@/lib/quizQuestionFile";
+import { downloadRows, readSpreadsheet } from "@/lib/spreadsheet";
+
+interface QuestionImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImport: (questions: QuestionDraft[]) => void;
+}
+
+export function QuestionImportDialog({ open, onOpenChange, onImport }: QuestionImportDialogProps) {
+  const [parsing, setParsing] = useState(false);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [rows, setRows] = useState<ImportedQuestion[]>([]);
+
+  useEffect(() => {
+    if (open) {
+      setRows([]);
+      setFileError(null);
+    }
+  }, [open]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    setParsing(true);
+    setFileError(null);
+    try {
+      setRows(parseQuestionFile(await readSpreadsheet(file)));
+    } catch (error: unknown) {
+      setRows([]);
+      setFileError(error instanceof Error ? error.message : "Could not read the file.");
+    } finally {
+      setParsing(false);
+    }
+  };
+
+  const valid = rows.filter((r) => r.errors.length === 0);
+  const invalid = rows.length - valid.length;
+
+  const handleImport = () => {
+    onImport(valid.map((r) => r.draft));
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Questions</DialogTitle>
+          <DialogDescription>
+            Upload a CSV or XLSX file. Separate options, and multiple correct answers, with "|".
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <Input type="file" accept=".csv,.xlsx" onChange={handleFile} disabled={parsing} className="max-w-xs" />
+            <Button variant="outline" size="sm" onClick={() => downloadRows(QUESTION_FILE_TEMPLATE, "quiz-questions-template", "csv")}>
+              <Download className="mr-2 h-4 w-4" /> CSV Template
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => downloadRows(QUESTION_FILE_TEMPLATE, "quiz-questions-template", "xlsx")}>
+              <Download className="mr-2 h-4 w-4" /> XLSX Template
+            </Button>
+          </div>
+
+          {fileError && <p className="rounded-lg border border-destructive/30 bg-destructive/5 p-3 text-sm text-destructive">{fileError}</p>}
+
+          {parsing ? (
+            <div className="flex justify-center py-8"><Loader2 className="h-6 w-6 animate-spin text-primary" /></div>
+          ) : rows.length > 0 && (
+            <>
+              <div className="flex gap-2 text-sm">
+                <Badge className="bg-success/10 text-success">{valid.length} ready</Badge>
+                {invalid > 0 && <Badge variant="destructive">{invalid} with errors (skipped)</Badge>}
+              </div>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-14">Row</TableHead>
+                    <TableHead>Question</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((r) => (
+                    <TableRow key={r.rowNumber} className={r.errors.length > 0 ? "bg-destructive/5" : ""}>
+                      <TableCell className="text-muted-foreground">{r.rowNumber}</TableCell>
+                      <TableCell className="max-w-xs truncate">{r.draft.question_text || "-"}</TableCell>
+                      <TableCell>{getQuestionTypeLabel(r.draft.question_type)}</TableCell>
+                      <TableCell>
+                        {r.errors.length === 0 ? (
+                          <span className="flex items-center gap-1 text-sm text-success"><CheckCircle className="h-4 w-4" /> OK</span>
+                        ) : (
+                          <div className="space-y-1">
+                            {r.errors.map((err) => (
+                              <p key={err} className="flex items-start gap-1 text-xs text-destructive">
+                                <XCircle className="mt-0.5 h-3 w-3 shrink-0" /> {err}
+                              </p>
+                            ))}
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </>
+          )}
+
+          <div className="flex justify-end gap-3">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button onClick={handleImport} disabled={valid.length === 0}>
+              <Plus className="mr-2 h-4 w-4" /> Add {valid.length} Question{valid.length !== 1 ? "s" : ""}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,214 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { AlertTriangle, CheckCircle, Loader2 } from "lucide-react";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
+import { useToast } from "@/hooks/use-toast";
+import { fetchAllRows } from "@/lib/fetchAllRows";
+import { getQuestionTypeLabel } from "@/lib/quizQuestions";
+import {
+  ANALYTICS_QUESTION_COLUMNS, AnalyticsAnswer, AnalyticsQuestion, AnalyticsSubmission, ItemStat, LOW_DISCRIMINATION,
+  LOW_PERCENT_CORRECT, computeItemStats, discriminationLabel, computeTopicStats, latestSubmissions, scoreHistogram, scorePercent,
+} from "@/lib/quizAnalytics";
+
+interface AnalyticsQuiz {
+  id: string;
+  title: string;
+  batches?: { name: string };
+}
+
+interface QuizAnalyticsDialogProps {
+  quiz: AnalyticsQuiz | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function QuizAnalyticsDialog({ quiz, open, onOpenChange }: QuizAnalyticsDialogProps) {
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(false);
+  const [items, setItems] = useState<ItemStat[]>([]);
+  const [submissions, setSubmissions] = useState<AnalyticsSubmission[]>([]);
+
+  useEffect(() => {
+    if (!open || !quiz) return;
+
+    const fetchAnalytics = async () => {
+      setLoading(true);
+      try {
+        const { error: finalizeError } = await supabase.rpc("finalize_expired_quiz_attempts", { _quiz_id: quiz.id });
+        if (finalizeError) throw new Error(finalizeError.message);
+        const [{ data: questionsData, error: questionsError }, subsData] = await Promise.all([
+          supabase.from("quiz_questions").select(ANALYTICS_QUESTION_COLUMNS).eq("quiz_id", quiz.id).order("order_number"),
+          fetchAllRows((from, to) => supabase
+            .from("quiz_submissions").select("id, quiz_id, student_id, attempt_number, score, total_points")
+            .eq("quiz_id", quiz.id).order("id").range(from, to)),
+        ]);
+        if (questionsError) throw new Error(questionsError.message);
+        const latest = latestSubmissions(subsData as AnalyticsSubmission[]);
+        const latestIds = new Set(latest.map((s) => s.id));
+        const answersData = latest.length > 0
+          ? await fetchAllRows((from, to) => supabase
+            .from("quiz_answers").select("id, submission_id, question_id, answer_text, points_awarded, graded_at, quiz_submissions!inner(quiz_id)")
+            .eq("quiz_submissions.quiz_id", quiz.id).order("id").range(from, to))
+          : [];
+        const answers = (answersData as AnalyticsAnswer[]).filter((a) => latestIds.has(a.submission_id));
+        setSubmissions(latest);
+        setItems(computeItemStats((questionsData || []) as AnalyticsQuestion[], latest, answers));
+      } catch (error: unknown) {
+        setSubmissions([]);
+        setItems([]);
+        toast({ title: "Error", description: error instanceof Error ? error.message : "Could not load analytics.", variant: "destructive" });
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchAnalytics();
+  }, [open, quiz, toast]);
+
+  const percents = submissions.map(scorePercent).sort((a, b) => a - b);
+  const avgScore = percents.length ? percents.reduce((a, b) => a + b, 0) / percents.length : 0;
+  const medianScore = percents.length ? percents[Math.floor(percents.length / 2)] : 0;
+  const flagged = items.filter((i) =>
+    (i.percentCorrect !== null && i.percentCorrect < LOW_PERCENT_CORRECT)
+    || (i.discrimination !== null && i.discrimination < LOW_DISCRIMINATION));
+  const topics = computeTopicStats(items);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        {quiz && (
+          <>
+            <DialogHeader>
+              <DialogTitle>Analytics: {quiz.title}</DialogTitle>
+              <DialogDescription>{quiz.batches?.name} · Based on each student's latest attempt</DialogDescription>
+            </DialogHeader>
+            {loading ? (
+              <div className="flex justify-center py-12"><Loader2 className="h-6 w-6 animate-spin text-primary" /></div>
+            ) : submissions.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">No submissions yet.</p>
+            ) : (
+              <Tabs defaultValue="questions">
+                <TabsList className="grid w-full grid-cols-3">
+                  <TabsTrigger value="questions">Questions</TabsTrigger>
+                  <TabsTrigger value="scores">Scores</TabsTrigger>
+                  <TabsTrigger value="topics">Topics</TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="questions" className="space-y-4 mt-4">
+                  {flagged.length > 0 && (
+                    <div className="flex items-center gap-2 rounded-lg border border-warning/30 bg-warning/5 p-3 text-sm">
+                      <AlertTriangle className="h-4 w-4 text-warning" />
+                      {flagged.length} question{flagged.length !== 1 ? "s" : ""} may need review (low % correct or poor discrimination).
+                    </div>
+                  )}
+                  {items.map((item) => {
+                    const disc = discriminationLabel(item.discrimination);
+                    const isFlagged = flagged.includes(item);
+                    return (
+                      <div key={item.question.id} className={`space-y-3 rounded-lg border p-4 ${isFlagged ? "border-warning/50" : ""}`}>
+                        <div className="flex items-start justify-between gap-2">
+                          <p className="font-medium text-sm">Q{item.question.order_number}. {item.question.question_text}</p>
+                          <div className="flex shrink-0 gap-1">
+                            <Badge variant="outline" className="text-xs">{getQuestionTypeLabel(item.question.question_type)}</Badge>
+                            {item.question.topic && <Badge variant="secondary" className="text-xs">{item.question.topic}</Badge>}
+                          </div>
+                        </div>
+                        <div className="grid gap-3 text-sm sm:grid-cols-3">
+                          <div>
+                            <p className="text-xs text-muted-foreground">% correct</p>
+                            <p className="font-semibold">{item.percentCorrect === null ? "—" : `${Math.round(item.percentCorrect)}%`}</p>
+                            {item.percentCorrect !== null && <Progress value={item.percentCorrect} className="mt-1 h-1.5" />}
+                          </div>
+                          <div>
+                            <p className="text-xs text-muted-foreground">Discrimination</p>
+                            <p className={`font-semibold ${disc.className}`}>
+                              {item.discrimination === null ? "" : `${item.discrimination.toFixed(2)} · `}{disc.label}
+                            </p>
+                          </div>
+                          <div>
+                            <p className="text-xs text-muted-foreground">Responses</p>
+                            <p className="font-semibold">
+                              {item.responses}{item.pending > 0 && <span className="text-xs font-normal text-muted-foreground"> ({item.pending} ungraded)</span>}
+                            </p>
+                          </div>
+                        </div>
+                        {item.options.length > 0 && (
+                          <div className="space-y-1.5">
+                            {item.options.map((opt) => {
+                              const share = item.responses ? (opt.count / item.responses) * 100 : 0;
+                              return (
+                                <div key={opt.option} className="flex items-center gap-2 text-xs">
+                                  <span className="flex w-40 items-center gap-1 truncate">
+                                    {opt.isCorrect && <CheckCircle className="h-3 w-3 shrink-0 text-success" />}
+                                    {opt.option}
+                                  </span>
+                                  <div className="h-2 flex-1 rounded-full bg-muted">
+                                    <div
+                                      className={`h-2 rounded-full ${opt.isCorrect ? "bg-success" : "bg-destructive/60"}`}
+                                      style={{ width: `${share}%` }}
+                                    />
+                                  </div>
+                                  <span className="w-16 text-right text-muted-foreground">{opt.count} ({Math.round(share)}%)</span>
+                                </div>
+                              );
+                            })}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </TabsContent>
+
+                <TabsContent value="scores" className="space-y-4 mt-4">
+                  <div className="grid gap-3 sm:grid-cols-3">
+                    <div className="rounded-lg border p-3 text-center">
+                      <p className="text-2xl font-bold">{submissions.length}</p>
+                      <p className="text-xs text-muted-foreground">Students</p>
+                    </div>
+                    <div className="rounded-lg border p-3 text-center">
+                      <p className="text-2xl font-bold">{Math.round(avgScore)}%</p>
+                      <p className="text-xs text-muted-foreground">Average</p>
+                    </div>
+                    <div className="rounded-lg border p-3 text-center">
+                      <p className="text-2xl font-bold">{Math.round(medianScore)}%</p>
+                      <p className="text-xs text-muted-foreground">Median</p>
+                    </div>
+                  </div>
+                  <ResponsiveContainer width="100%" height={250}>
+                    <BarChart data={scoreHistogram(submissions)}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                      <XAxis dataKey="range" tick={{ fontSize: 10 }} stroke="hsl(var(--muted-foreground))" />
+                      <YAxis allowDecimals={false} tick={{ fontSize: 11 }} stroke="hsl(var(--muted-foreground))" />
+                      <Tooltip contentStyle={{ backgroundColor: "hsl(var(--card))", border: "1px solid hsl(var(--border))", borderRadius: "8px" }} />
+                      <Bar dataKey="students" fill="hsl(var(--primary))" radius={[4, 4, 0, 0]} />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </TabsContent>
+
+                <TabsContent value="topics" className="space-y-2 mt-4">
+                  {topics.length === 0 ? (
+                    <p className="text-center text-muted-foreground py-8">No graded answers yet.</p>
+                  ) : topics.map((t) => (
+                    <div key={t.topic} className="flex items-center gap-3 rounded-lg border p-3">
+                      <div className="w-40">
+                        <p className="font-medium text-sm">{t.topic}</p>
+                        <p className="text-xs text-muted-foreground">{t.questions} question{t.questions !== 1 ? "s" : ""}</p>
+                      </div>
+                      <Progress value={t.percentCorrect} className="h-2 flex-1" />
+                      <span className={`w-12 text-right text-sm font-semibold ${t.percentCorrect < LOW_PERCENT_CORRECT ? "text-destructive" : ""}`}>
+                        {Math.round(t.percentCorrect)}%
+                      </span>
+                    </div>
+                  ))}
+                </TabsContent>
+              </Tabs>
+            )}
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
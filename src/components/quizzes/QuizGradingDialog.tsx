@@ -0,0 +1,239 @@
+import { useEffect, useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/hooks/use-toast";
+import { CheckCircle, Loader2, PenLine } from "lucide-react";
+import { formatAnswer } from "@/lib/quizQuestions";
+
+interface GradingQuiz {
+  id: string;
+  title: string;
+  batches?: { name: string };
+}
+
+interface GradingQuestion {
+  id: string;
+  question_text: string;
+  question_type: string;
+  correct_answer: string | null;
+  points: number;
+  order_number: number;
+}
+
+interface GradingAnswer {
+  id: string;
+  submission_id: string;
+  question_id: string;
+  answer_text: string | null;
+  points_awarded: number | null;
+  feedback: string | null;
+  graded_at: string | null;
+  graded_by: string | null;
+  studentName: string;
+  studentCode: string | null;
+  attemptNumber: number;
+}
+
+interface QuizGradingDialogProps {
+  quiz: GradingQuiz | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function QuizGradingDialog({ quiz, open, onOpenChange }: QuizGradingDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(false);
+  const [questions, setQuestions] = useState<GradingQuestion[]>([]);
+  const [answers, setAnswers] = useState<GradingAnswer[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, { points: string; feedback: string }>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open || !quiz) return;
+
+    const fetchAnswers = async () => {
+      setLoading(true);
+      try {
+        await supabase.rpc("finalize_expired_quiz_attempts", { _quiz_id: quiz.id });
+        const [{ data: questionsData }, { data: subsData }] = await Promise.all([
+          supabase.from("quiz_questions").select("id, question_text, question_type, correct_answer, points, order_number").eq("quiz_id", quiz.id).order("order_number"),
+          supabase.from("quiz_submissions").select("id, student_id, attempt_number").eq("quiz_id", quiz.id),
+        ]);
+        setQuestions(questionsData || []);
+
+        const subs = subsData || [];
+        if (subs.length === 0) {
+          setAnswers([]);
+          return;
+        }
+
+        const studentIds = [...new Set(subs.map((s) => s.student_id))];
+        const [{ data: answersData }, { data: profiles }, { data: students }] = await Promise.all([
+          supabase.from("quiz_answers").select("*").in("submission_id", subs.map((s) => s.id)),
+          supabase.from("profiles").select("id, full_name").in("id", studentIds),
+          supabase.from("student_profiles").select("user_id, student_id").in("user_id", studentIds),
+        ]);
+
+        // Only answers that need (or received) a human grade
+        const manual = (answersData || []).filter((a) => !a.graded_at || a.graded_by);
+        const rows: GradingAnswer[] = manual.map((a) => {
+          const sub = subs.find((s) => s.id === a.submission_id);
+          return {
+            ...a,
+            studentName: profiles?.find((p) => p.id === sub?.student_id)?.full_name || "Unknown student",
+            studentCode: students?.find((st) => st.user_id === sub?.student_id)?.student_id || null,
+            attemptNumber: sub?.attempt_number || 1,
+          };
+        });
+        setAnswers(rows);
+        setDrafts(Object.fromEntries(rows.map((a) => [a.id, {
+          points: a.graded_at ? String(a.points_awarded ?? 0) : "",
+          feedback: a.feedback || "",
+        }])));
+      } catch (error) {
+        console.error("Error:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchAnswers();
+  }, [open, quiz]);
+
+  const handleSave = async (answer: GradingAnswer, maxPoints: number) => {
+    const draft = drafts[answer.id];
+    const points = parseFloat(draft?.points ?? "");
+    if (isNaN(points) || points < 0 || points > maxPoints) {
+      toast({ title: "Error", description: `Points must be between 0 and ${maxPoints}.`, variant: "destructive" });
+      return;
+    }
+
+    setSavingId(answer.id);
+    try {
+      const { error } = await supabase.rpc("score_quiz_answer", {
+        _answer_id: answer.id,
+        _points: points,
+        _feedback: draft.feedback,
+      });
+      if (error) throw error;
+
+      setAnswers((prev) => prev.map((a) => a.id === answer.id
+        ? { ...a, points_awarded: points, feedback: draft.feedback || null, graded_at: new Date().toISOString(), graded_by: user?.id ?? null }
+        : a));
+      toast({ title: "Graded", description: `${answer.studentName}: ${points}/${maxPoints}` });
+    } catch (error: unknown) {
+      toast({ title: "Error", description: error instanceof Error ? error.message : "Failed to save grade.", variant: "destructive" });
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const pending = answers.filter((a) => !a.graded_at);
+  const graded = answers.filter((a) => a.graded_at);
+
+  const renderAnswers = (list: GradingAnswer[], emptyText: string) => {
+    const byQuestion = questions.filter((q) => list.some((a) => a.question_id === q.id));
+    if (byQuestion.length === 0) {
+      return <p className="text-center text-muted-foreground py-8">{emptyText}</p>;
+    }
+    return byQuestion.map((q) => (
+      <div key={q.id} className="space-y-3">
+        <div className="flex items-start justify-between gap-2 rounded-lg bg-muted/50 p-3">
+          <p className="font-medium text-sm">Q{q.order_number}. {q.question_text}</p>
+          <Badge variant="outline" className="shrink-0">{q.points} pt{q.points !== 1 ? "s" : ""}</Badge>
+        </div>
+        {q.question_type === "code" && q.correct_answer && (
+          <details className="ml-2 text-xs">
+            <summary className="cursor-pointer text-muted-foreground">Reference solution</summary>
+            <pre className="mt-1 overflow-x-auto rounded-md bg-muted/30 p-2 font-mono">{q.correct_answer}</pre>
+          </details>
+        )}
+        {list.filter((a) => a.question_id === q.id).map((a) => (
+          <div key={a.id} className="ml-2 space-y-3 rounded-lg border p-3">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="font-medium text-sm">{a.studentName}</p>
+                <p className="text-xs text-muted-foreground">
+                  {a.studentCode}{a.attemptNumber > 1 ? ` · Attempt ${a.attemptNumber}` : ""}
+                </p>
+              </div>
+              {a.graded_at && (
+                <Badge className="bg-success/10 text-success"><CheckCircle className="mr-1 h-3 w-3" /> {a.points_awarded}/{q.points}</Badge>
+              )}
+            </div>
+            <p className={`whitespace-pre-wrap rounded-md bg-muted/30 p-2 text-sm ${q.question_type === "code" ? "font-mono" : ""}`}>
+              {formatAnswer(q.question_type, a.answer_text) || <span className="italic text-muted-foreground">No answer</span>}
+            </p>
+            <div className="grid gap-3 sm:grid-cols-[120px_1fr]">
+              <div className="space-y-1">
+                <Label className="text-xs">Points (max {q.points})</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  max={q.points}
+                  step="0.5"
+                  value={drafts[a.id]?.points ?? ""}
+                  onChange={(e) => setDrafts({ ...drafts, [a.id]: { ...drafts[a.id], points: e.target.value } })}
+                  className="h-8"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Comment</Label>
+                <Textarea
+                  rows={2}
+                  value={drafts[a.id]?.feedback ?? ""}
+                  onChange={(e) => setDrafts({ ...drafts, [a.id]: { ...drafts[a.id], feedback: e.target.value } })}
+                  placeholder="Feedback shown to the student..."
+                />
+              </div>
+            </div>
+            <div className="flex justify-end">
+              <Button size="sm" onClick={() => handleSave(a, q.points)} disabled={savingId === a.id}>
+                {savingId === a.id ? <Loader2 className="mr-2 h-3 w-3 animate-spin" /> : <PenLine className="mr-2 h-3 w-3" />}
+                {a.graded_at ? "Update Grade" : "Save Grade"}
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+    ));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        {quiz && (
+          <>
+            <DialogHeader>
+              <DialogTitle>Grade: {quiz.title}</DialogTitle>
+              <DialogDescription>{quiz.batches?.name} · Answers that need manual grading</DialogDescription>
+            </DialogHeader>
+            {loading ? (
+              <div className="flex justify-center py-12"><Loader2 className="h-6 w-6 animate-spin text-primary" /></div>
+            ) : (
+              <Tabs defaultValue="pending">
+                <TabsList className="grid w-full grid-cols-2">
+                  <TabsTrigger value="pending">To Grade ({pending.length})</TabsTrigger>
+                  <TabsTrigger value="graded">Graded ({graded.length})</TabsTrigger>
+                </TabsList>
+                <TabsContent value="pending" className="space-y-6 mt-4">
+                  {renderAnswers(pending, "Nothing left to grade.")}
+                </TabsContent>
+                <TabsContent value="graded" className="space-y-6 mt-4">
+                  {renderAnswers(graded, "No manually graded answers yet.")}
+                </TabsContent>
+              </Tabs>
+            )}
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,81 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+
+export interface AppNotification {
+  id: string;
+  type: string;
+  title: string;
+  body: string | null;
+  link: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+const PAGE_SIZE = 30;
+
+export function useNotifications() {
+  const { user } = useAuth();
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const fetchNotifications = useCallback(async () => {
+    if (!user) return;
+    const [listRes, countRes] = await Promise.all([
+      supabase
+        .from("notifications")
+        .select("id, type, title, body, link, read_at, created_at")
+        .eq("user_id", user.id)
+        .order("created_at", { ascending: false })
+        .limit(PAGE_SIZE),
+      supabase
+        .from("notifications")
+        .select("id", { count: "exact", head: true })
+        .eq("user_id", user.id)
+        .is("read_at", null),
+    ]);
+    setNotifications(listRes.data || []);
+    setUnreadCount(countRes.count || 0);
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) return;
+    fetchNotifications();
+
+    const channel = supabase
+      .channel(`notifications-${user.id}`)
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "notifications", filter: `user_id=eq.${user.id}` },
+        (payload) => {
+          const row = payload.new as AppNotification;
+          setNotifications((prev) => [row, ...prev.filter((n) => n.id !== row.id)].slice(0, PAGE_SIZE));
+          setUnreadCount((c) => c + 1);
+        },
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, fetchNotifications]);
+
+  const markRead = async (id: string) => {
+    const target = notifications.find((n) => n.id === id);
+    if (!target || target.read_at) return;
+    const now = new Date().toISOString();
+    setNotifications((prev) => prev.map((n) => (n.id === id ? { ...n, read_at: now } : n)));
+    setUnreadCount((c) => Math.max(0, c - 1));
+    await supabase.from("notifications").update({ read_at: now }).eq("id", id);
+  };
+
+  const markAllRead = async () => {
+    if (!user || unreadCount === 0) return;
+    const now = new Date().toISOString();
+    setNotifications((prev) => prev.map((n) => (n.read_at ? n : { ...n, read_at: now })));
+    setUnreadCount(0);
+    await supabase.from("notifications").update({ read_at: now }).eq("user_id", user.id).is("read_at", null);
+  };
+
+  return { notifications, unreadCount, markRead, markAllRead };
+}
@@ -50,6 +50,47 @@ export type Database = {
         }
         Relationships: []
       }
+      assignment_extensions: {
+        Row: {
+          assignment_id: string
+          created_at: string
+          extended_deadline: string
+          granted_by: string
+          id: string
+          reason: string | null
+          student_id: string
+          updated_at: string
+        }
+        Insert: {
+          assignment_id: string
+          created_at?: string
+          extended_deadline: string
+          granted_by: string
+          id?: string
+          reason?: string | null
+          student_id: string
+          updated_at?: string
+        }
+        Update: {
+          assignment_id?: string
+          created_at?: string
+          extended_deadline?: string
+          granted_by?: string
+          id?: string
+          reason?: string | null
+          student_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "assignment_extensions_assignment_id_fkey"
+            columns: ["assignment_id"]
+            isOneToOne: false
+            referencedRelation: "assignments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       assignment_grades: {
         Row: {
           assignment_id: string
@@ -58,6 +99,9 @@ export type Database = {
           grade_attained: number
           graded_by: string
           id: string
+          late_penalty: number
+          raw_grade: number | null
+          rubric_scores: Json | null
           student_id: string
           total_grade: number
           updated_at: string
@@ -69,6 +113,9 @@ export type Database = {
           grade_attained?: number
           graded_by: string
           id?: string
+          late_penalty?: number
+          raw_grade?: number | null
+          rubric_scores?: Json | null
           student_id: string
           total_grade?: number
           updated_at?: string
@@ -80,6 +127,9 @@ export type Database = {
           grade_attained?: number
           graded_by?: string
           id?: string
+          late_penalty?: number
+          raw_grade?: number | null
+          rubric_scores?: Json | null
           student_id?: string
           total_grade?: number
           updated_at?: string
@@ -100,6 +150,7 @@ export type Database = {
           file_name: string
           file_url: string
           id: string
+          late_days: number
           student_id: string
           submission_type: string | null
           submitted_at: string
@@ -110,6 +161,7 @@ export type Database = {
           file_name: string
           file_url: string
           id?: string
+          late_days?: number
           student_id: string
           submission_type?: string | null
           submitted_at?: string
@@ -120,6 +172,7 @@ export type Database = {
           file_name?: string
           file_url?: string
           id?: string
+          late_days?: number
           student_id?: string
           submission_type?: string | null
           submitted_at?: string
@@ -144,9 +197,13 @@ export type Database = {
           deadline: string
           deadline_time: string | null
           description: string | null
+          grace_minutes: number
           id: string
+          late_cutoff_days: number | null
+          late_penalty_percent: number
           links: string | null
           pdf_url: string | null
+          rubric: Json | null
           start_date: string
           title: string
           updated_at: string
@@ -159,9 +216,13 @@ export type Database = {
           deadline: string
           deadline_time?: string | null
           description?: string | null
+          grace_minutes?: number
           id?: string
+          late_cutoff_days?: number | null
+          late_penalty_percent?: number
           links?: string | null
           pdf_url?: string | null
+          rubric?: Json | null
           start_date?: string
           title: string
           updated_at?: string
@@ -174,9 +235,13 @@ export type Database = {
           deadline?: string
           deadline_time?: string | null
           description?: string | null
+          grace_minutes?: number
           id?: string
+          late_cutoff_days?: number | null
+          late_penalty_percent?: number
           links?: string | null
           pdf_url?: string | null
+          rubric?: Json | null
           start_date?: string
           title?: string
           updated_at?: string
@@ -191,6 +256,130 @@ export type Database = {
           },
         ]
       }
+      attendance_checkin_codes: {
+        Row: {
+          code: string
+          created_at: string
+          created_by: string
+          expires_at: string
+          id: string
+          session_id: string
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          created_by: string
+          expires_at: string
+          id?: string
+          session_id: string
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          created_by?: string
+          expires_at?: string
+          id?: string
+          session_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "attendance_checkin_codes_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "attendance_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      attendance_records: {
+        Row: {
+          id: string
+          marked_at: string
+          marked_by: string | null
+          note: string | null
+          session_id: string
+          status: string
+          student_id: string
+        }
+        Insert: {
+          id?: string
+          marked_at?: string
+          marked_by?: string | null
+          note?: string | null
+          session_id: string
+          status: string
+          student_id: string
+        }
+        Update: {
+          id?: string
+          marked_at?: string
+          marked_by?: string | null
+          note?: string | null
+          session_id?: string
+          status?: string
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "attendance_records_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "attendance_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      attendance_sessions: {
+        Row: {
+          batch_id: string
+          created_at: string
+          created_by: string
+          event_id: string | null
+          id: string
+          session_date: string
+          starts_at: string | null
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          batch_id: string
+          created_at?: string
+          created_by: string
+          event_id?: string | null
+          id?: string
+          session_date: string
+          starts_at?: string | null
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          batch_id?: string
+          created_at?: string
+          created_by?: string
+          event_id?: string | null
+          id?: string
+          session_date?: string
+          starts_at?: string | null
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "attendance_sessions_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_sessions_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "calendar_events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       batches: {
         Row: {
           assigned_faculty_id: string | null
@@ -201,6 +390,7 @@ export type Database = {
           description: string | null
           end_date: string
           id: string
+          min_attendance_percent: number
           name: string
           start_date: string
           updated_at: string
@@ -214,6 +404,7 @@ export type Database = {
           description?: string | null
           end_date: string
           id?: string
+          min_attendance_percent?: number
           name: string
           start_date: string
           updated_at?: string
@@ -227,12 +418,117 @@ export type Database = {
           description?: string | null
           end_date?: string
           id?: string
+          min_attendance_percent?: number
           name?: string
           start_date?: string
           updated_at?: string
         }
         Relationships: []
       }
+      bde_lead_settings: {
+        Row: {
+          active: boolean
+          bde_id: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          active?: boolean
+          bde_id: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          active?: boolean
+          bde_id?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      calendar_events: {
+        Row: {
+          all_day: boolean
+          batch_id: string
+          created_at: string
+          created_by: string
+          description: string | null
+          ends_at: string
+          event_type: string
+          id: string
+          location: string | null
+          recurrence: string
+          recurrence_days: number[]
+          recurrence_until: string | null
+          starts_at: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          all_day?: boolean
+          batch_id: string
+          created_at?: string
+          created_by: string
+          description?: string | null
+          ends_at: string
+          event_type?: string
+          id?: string
+          location?: string | null
+          recurrence?: string
+          recurrence_days?: number[]
+          recurrence_until?: string | null
+          starts_at: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          all_day?: boolean
+          batch_id?: string
+          created_at?: string
+          created_by?: string
+          description?: string | null
+          ends_at?: string
+          event_type?: string
+          id?: string
+          location?: string | null
+          recurrence?: string
+          recurrence_days?: number[]
+          recurrence_until?: string | null
+          starts_at?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "calendar_events_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "batches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      calendar_feed_tokens: {
+        Row: {
+          created_at: string
+          last_accessed_at: string | null
+          token_hash: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          last_accessed_at?: string | null
+          token_hash: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          last_accessed_at?: string | null
+          token_hash?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       calendars: {
         Row: {
           batch_id: string
@@ -271,6 +567,144 @@ export type Database = {
           },
         ]
       }
+      deadline_reminder_settings: {
+        Row: {
+          enabled: boolean
+          id: boolean
+          offsets_hours: number[]
+          updated_at: string
+        }
+        Insert: {
+          enabled?: boolean
+          id?: boolean
+          offsets_hours?: number[]
+          updated_at?: string
+        }
+        Update: {
+          enabled?: boolean
+          id?: boolean
+          offsets_hours?: number[]
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      deadline_reminders: {
+        Row: {
+          assignment_id: string | null
+          deadline_at: string
+          id: string
+          offset_hours: number
+          quiz_id: string | null
+          sent_at: string
+          student_id: string
+        }
+        Insert: {
+          assignment_id?: string | null
+          deadline_at: string
+          id?: string
+          offset_hours: number
+          quiz_id?: string | null
+          sent_at?: string
+          student_id: string
+        }
+        Update: {
+          assignment_id?: string | null
+          deadline_at?: string
+          id?: string
+          offset_hours?: number
+          quiz_id?: string | null
+          sent_at?: string
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "deadline_reminders_assignment_id_fkey"
+            columns: ["assignment_id"]
+            isOneToOne: false
+            referencedRelation: "assignments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "deadline_reminders_quiz_id_fkey"
+            columns: ["quiz_id"]
+            isOneToOne: false
+            referencedRelation: "quizzes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_outbox: {
+        Row: {
+          attempts: number
+          created_at: string
+          data: Json
+          dedupe_key: string | null
+          id: string
+          last_error: string | null
+          next_attempt_at: string
+          send_started_at: string | null
+          sent_at: string | null
+          status: string
+          template: string
+          to_email: string
+          user_id: string | null
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          data?: Json
+          dedupe_key?: string | null
+          id?: string
+          last_error?: string | null
+          next_attempt_at?: string
+          send_started_at?: string | null
+          sent_at?: string | null
+          status?: string
+          template: string
+          to_email: string
+          user_id?: string | null
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          data?: Json
+          dedupe_key?: string | null
+          id?: string
+          last_error?: string | null
+          next_attempt_at?: string
+          send_started_at?: string | null
+          sent_at?: string | null
+          status?: string
+          template?: string
+          to_email?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      email_preferences: {
+        Row: {
+          deadline_reminders: boolean
+          leave_decisions: boolean
+          new_assignments: boolean
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          deadline_reminders?: boolean
+          leave_decisions?: boolean
+          new_assignments?: boolean
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          deadline_reminders?: boolean
+          leave_decisions?: boolean
+          new_assignments?: boolean
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       generated_reviews: {
         Row: {
           created_at: string
@@ -341,118 +775,494 @@ export type Database = {
           work_summary?: string | null
         }
         Update: {
-          created_at?: string
-          entry_date?: string
-          hours_worked?: number
+          created_at?: string
+          entry_date?: string
+          hours_worked?: number
+          id?: string
+          is_locked?: boolean | null
+          learning_outcome?: string | null
+          reference_links?: string | null
+          skills_gained?: string | null
+          title?: string | null
+          updated_at?: string
+          user_id?: string
+          week_number?: number
+          work_description?: string
+          work_summary?: string | null
+        }
+        Relationships: []
+      }
+      lead_activities: {
+        Row: {
+          activity_type: string
+          actor_id: string | null
+          assigned_bde_id: string | null
+          call_outcome: string | null
+          created_at: string
+          from_status: string | null
+          id: string
+          lead_id: string
+          note: string | null
+          student_id: string | null
+          to_status: string | null
+        }
+        Insert: {
+          activity_type: string
+          actor_id?: string | null
+          assigned_bde_id?: string | null
+          call_outcome?: string | null
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          lead_id: string
+          note?: string | null
+          student_id?: string | null
+          to_status?: string | null
+        }
+        Update: {
+          activity_type?: string
+          actor_id?: string | null
+          assigned_bde_id?: string | null
+          call_outcome?: string | null
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          lead_id?: string
+          note?: string | null
+          student_id?: string | null
+          to_status?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lead_activities_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lead_assignment_rules: {
+        Row: {
+          bde_id: string
+          created_at: string
+          created_by: string | null
+          field: string
+          id: string
+          match_value: string
+          priority: number
+        }
+        Insert: {
+          bde_id: string
+          created_at?: string
+          created_by?: string | null
+          field: string
+          id?: string
+          match_value: string
+          priority?: number
+        }
+        Update: {
+          bde_id?: string
+          created_at?: string
+          created_by?: string | null
+          field?: string
+          id?: string
+          match_value?: string
+          priority?: number
+        }
+        Relationships: []
+      }
+      leads: {
+        Row: {
+          assigned_at: string | null
+          assigned_bde_id: string | null
+          branch: string | null
+          college_name: string | null
+          converted_at: string | null
+          converted_student_id: string | null
+          course_interested: string | null
+          created_at: string
+          created_by: string
+          email: string | null
+          id: string
+          lead_type: string
+          name: string
+          phone: string | null
+          reminder_date: string | null
+          semester: string | null
+          status: string
+          updated_at: string
+          year: string | null
+        }
+        Insert: {
+          assigned_at?: string | null
+          assigned_bde_id?: string | null
+          branch?: string | null
+          college_name?: string | null
+          converted_at?: string | null
+          converted_student_id?: string | null
+          course_interested?: string | null
+          created_at?: string
+          created_by: string
+          email?: string | null
+          id?: string
+          lead_type?: string
+          name: string
+          phone?: string | null
+          reminder_date?: string | null
+          semester?: string | null
+          status?: string
+          updated_at?: string
+          year?: string | null
+        }
+        Update: {
+          assigned_at?: string | null
+          assigned_bde_id?: string | null
+          branch?: string | null
+          college_name?: string | null
+          converted_at?: string | null
+          converted_student_id?: string | null
+          course_interested?: string | null
+          created_at?: string
+          created_by?: string
+          email?: string | null
+          id?: string
+          lead_type?: string
+          name?: string
+          phone?: string | null
+          reminder_date?: string | null
+          semester?: string | null
+          status?: string
+          updated_at?: string
+          year?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "leads_converted_student_id_fkey"
+            columns: ["converted_student_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      leave_policies: {
+        Row: {
+          audience: string
+          batch_id: string | null
+          casual_quota: number | null
+          created_at: string
+          enforcement: string
+          id: string
+          period: string
+          sick_quota: number | null
+          updated_at: string
+        }
+        Insert: {
+          audience: string
+          batch_id?: string | null
+          casual_quota?: number | null
+          created_at?: string
+          enforcement?: string
+          id?: string
+          period?: string
+          sick_quota?: number | null
+          updated_at?: string
+        }
+        Update: {
+          audience?: string
+          batch_id?: string | null
+          casual_quota?: number | null
+          created_at?: string
+          enforcement?: string
+          id?: string
+          period?: string
+          sick_quota?: number | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "leave_policies_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "batches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      leave_requests: {
+        Row: {
+          attachment_path: string | null
+          created_at: string
+          days: number
+          end_date: string
+          half_day: string | null
+          id: string
+          leave_date: string
+          leave_type: Database["public"]["Enums"]["leave_type"]
+          reason: string
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: Database["public"]["Enums"]["leave_status"] | null
+          title: string | null
+          user_id: string
+        }
+        Insert: {
+          attachment_path?: string | null
+          created_at?: string
+          days?: number
+          end_date: string
+          half_day?: string | null
+          id?: string
+          leave_date: string
+          leave_type: Database["public"]["Enums"]["leave_type"]
+          reason: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: Database["public"]["Enums"]["leave_status"] | null
+          title?: string | null
+          user_id: string
+        }
+        Update: {
+          attachment_path?: string | null
+          created_at?: string
+          days?: number
+          end_date?: string
+          half_day?: string | null
+          id?: string
+          leave_date?: string
+          leave_type?: Database["public"]["Enums"]["leave_type"]
+          reason?: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: Database["public"]["Enums"]["leave_status"] | null
+          title?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          body: string | null
+          created_at: string
+          id: string
+          link: string | null
+          read_at: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          body?: string | null
+          created_at?: string
+          id?: string
+          link?: string | null
+          read_at?: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Update: {
+          body?: string | null
+          created_at?: string
+          id?: string
+          link?: string | null
+          read_at?: string | null
+          title?: string
+          type?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      password_reset_codes: {
+        Row: {
+          attempts: number
+          code_hash: string
+          created_at: string
+          email: string
+          expires_at: string
+          id: string
+          used_at: string | null
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          code_hash: string
+          created_at?: string
+          email: string
+          expires_at: string
+          id?: string
+          used_at?: string | null
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          code_hash?: string
+          created_at?: string
+          email?: string
+          expires_at?: string
+          id?: string
+          used_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      password_reset_requests: {
+        Row: {
+          action: string
+          created_at: string
+          email: string
+          id: string
+          ip_address: string | null
+        }
+        Insert: {
+          action?: string
+          created_at?: string
+          email: string
+          id?: string
+          ip_address?: string | null
+        }
+        Update: {
+          action?: string
+          created_at?: string
+          email?: string
+          id?: string
+          ip_address?: string | null
+        }
+        Relationships: []
+      }
+      payment_installments: {
+        Row: {
+          amount: number
+          due_date: string
+          id: string
+          installment_number: number
+          plan_id: string
+        }
+        Insert: {
+          amount: number
+          due_date: string
+          id?: string
+          installment_number: number
+          plan_id: string
+        }
+        Update: {
+          amount?: number
+          due_date?: string
           id?: string
-          is_locked?: boolean | null
-          learning_outcome?: string | null
-          reference_links?: string | null
-          skills_gained?: string | null
-          title?: string | null
-          updated_at?: string
-          user_id?: string
-          week_number?: number
-          work_description?: string
-          work_summary?: string | null
+          installment_number?: number
+          plan_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "payment_installments_plan_id_fkey"
+            columns: ["plan_id"]
+            isOneToOne: false
+            referencedRelation: "payment_plans"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      leads: {
+      payment_plans: {
         Row: {
-          assigned_bde_id: string | null
-          branch: string | null
-          college_name: string | null
-          course_interested: string | null
           created_at: string
-          created_by: string
-          email: string | null
+          created_by: string | null
           id: string
-          lead_type: string
-          name: string
-          phone: string | null
-          reminder_date: string | null
-          semester: string | null
-          status: string
+          lead_id: string | null
+          notes: string | null
+          payer_name: string
+          student_id: string | null
+          title: string
+          total_amount: number
           updated_at: string
-          year: string | null
         }
         Insert: {
-          assigned_bde_id?: string | null
-          branch?: string | null
-          college_name?: string | null
-          course_interested?: string | null
           created_at?: string
-          created_by: string
-          email?: string | null
+          created_by?: string | null
           id?: string
-          lead_type?: string
-          name: string
-          phone?: string | null
-          reminder_date?: string | null
-          semester?: string | null
-          status?: string
+          lead_id?: string | null
+          notes?: string | null
+          payer_name: string
+          student_id?: string | null
+          title: string
+          total_amount: number
           updated_at?: string
-          year?: string | null
         }
         Update: {
-          assigned_bde_id?: string | null
-          branch?: string | null
-          college_name?: string | null
-          course_interested?: string | null
           created_at?: string
-          created_by?: string
-          email?: string | null
+          created_by?: string | null
           id?: string
-          lead_type?: string
-          name?: string
-          phone?: string | null
-          reminder_date?: string | null
-          semester?: string | null
-          status?: string
+          lead_id?: string | null
+          notes?: string | null
+          payer_name?: string
+          student_id?: string | null
+          title?: string
+          total_amount?: number
           updated_at?: string
-          year?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "payment_plans_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_plans_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      leave_requests: {
+      payments: {
         Row: {
+          amount: number
           created_at: string
           id: string
-          leave_date: string
-          leave_type: Database["public"]["Enums"]["leave_type"]
-          reason: string
-          reviewed_at: string | null
-          reviewed_by: string | null
-          status: Database["public"]["Enums"]["leave_status"] | null
-          title: string | null
-          user_id: string
+          mode: string
+          notes: string | null
+          paid_on: string
+          plan_id: string
+          receipt_number: string
+          recorded_by: string | null
+          reference_number: string | null
         }
         Insert: {
+          amount: number
           created_at?: string
           id?: string
-          leave_date: string
-          leave_type: Database["public"]["Enums"]["leave_type"]
-          reason: string
-          reviewed_at?: string | null
-          reviewed_by?: string | null
-          status?: Database["public"]["Enums"]["leave_status"] | null
-          title?: string | null
-          user_id: string
+          mode: string
+          notes?: string | null
+          paid_on?: string
+          plan_id: string
+          receipt_number?: string
+          recorded_by?: string | null
+          reference_number?: string | null
         }
         Update: {
+          amount?: number
           created_at?: string
           id?: string
-          leave_date?: string
-          leave_type?: Database["public"]["Enums"]["leave_type"]
-          reason?: string
-          reviewed_at?: string | null
-          reviewed_by?: string | null
-          status?: Database["public"]["Enums"]["leave_status"] | null
-          title?: string | null
-          user_id?: string
+          mode?: string
+          notes?: string | null
+          paid_on?: string
+          plan_id?: string
+          receipt_number?: string
+          recorded_by?: string | null
+          reference_number?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "payments_plan_id_fkey"
+            columns: ["plan_id"]
+            isOneToOne: false
+            referencedRelation: "payment_plans"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       profiles: {
         Row: {
@@ -593,6 +1403,9 @@ export type Database = {
       quiz_answers: {
         Row: {
           answer_text: string | null
+          feedback: string | null
+          graded_at: string | null
+          graded_by: string | null
           id: string
           is_correct: boolean | null
           points_awarded: number | null
@@ -601,6 +1414,9 @@ export type Database = {
         }
         Insert: {
           answer_text?: string | null
+          feedback?: string | null
+          graded_at?: string | null
+          graded_by?: string | null
           id?: string
           is_correct?: boolean | null
           points_awarded?: number | null
@@ -609,6 +1425,9 @@ export type Database = {
         }
         Update: {
           answer_text?: string | null
+          feedback?: string | null
+          graded_at?: string | null
+          graded_by?: string | null
           id?: string
           is_correct?: boolean | null
           points_awarded?: number | null
@@ -632,8 +1451,96 @@ export type Database = {
           },
         ]
       }
+      quiz_attempts: {
+        Row: {
+          answers: Json
+          expires_at: string
+          id: string
+          quiz_id: string
+          started_at: string
+          student_id: string
+          updated_at: string
+        }
+        Insert: {
+          answers?: Json
+          expires_at: string
+          id?: string
+          quiz_id: string
+          started_at?: string
+          student_id: string
+          updated_at?: string
+        }
+        Update: {
+          answers?: Json
+          expires_at?: string
+          id?: string
+          quiz_id?: string
+          started_at?: string
+          student_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quiz_attempts_quiz_id_fkey"
+            columns: ["quiz_id"]
+            isOneToOne: false
+            referencedRelation: "quizzes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quiz_question_bank: {
+        Row: {
+          correct_answer: string | null
+          created_at: string
+          created_by: string
+          id: string
+          internship_role: Database["public"]["Enums"]["internship_role"] | null
+          options: Json | null
+          points: number
+          question_text: string
+          question_type: string
+          tolerance: number | null
+          topic: string | null
+          updated_at: string
+        }
+        Insert: {
+          correct_answer?: string | null
+          created_at?: string
+          created_by: string
+          id?: string
+          internship_role?:
+            | Database["public"]["Enums"]["internship_role"]
+            | null
+          options?: Json | null
+          points?: number
+          question_text: string
+          question_type?: string
+          tolerance?: number | null
+          topic?: string | null
+          updated_at?: string
+        }
+        Update: {
+          correct_answer?: string | null
+          created_at?: string
+          created_by?: string
+          id?: string
+          internship_role?:
+            | Database["public"]["Enums"]["internship_role"]
+            | null
+          options?: Json | null
+          points?: number
+          question_text?: string
+          question_type?: string
+          tolerance?: number | null
+          topic?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
       quiz_questions: {
         Row: {
+          bank_question_id: string | null
           correct_answer: string | null
           id: string
           options: Json | null
@@ -642,8 +1549,11 @@ export type Database = {
           question_text: string
           question_type: string
           quiz_id: string
+          tolerance: number | null
+          topic: string | null
         }
         Insert: {
+          bank_question_id?: string | null
           correct_answer?: string | null
           id?: string
           options?: Json | null
@@ -652,8 +1562,11 @@ export type Database = {
           question_text: string
           question_type?: string
           quiz_id: string
+          tolerance?: number | null
+          topic?: string | null
         }
         Update: {
+          bank_question_id?: string | null
           correct_answer?: string | null
           id?: string
           options?: Json | null
@@ -662,8 +1575,17 @@ export type Database = {
           question_text?: string
           question_type?: string
           quiz_id?: string
+          tolerance?: number | null
+          topic?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "quiz_questions_bank_question_id_fkey"
+            columns: ["bank_question_id"]
+            isOneToOne: false
+            referencedRelation: "quiz_question_bank"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "quiz_questions_quiz_id_fkey"
             columns: ["quiz_id"]
@@ -675,6 +1597,7 @@ export type Database = {
       }
       quiz_submissions: {
         Row: {
+          attempt_number: number
           id: string
           is_graded: boolean
           quiz_id: string
@@ -684,6 +1607,7 @@ export type Database = {
           total_points: number | null
         }
         Insert: {
+          attempt_number?: number
           id?: string
           is_graded?: boolean
           quiz_id: string
@@ -693,6 +1617,7 @@ export type Database = {
           total_points?: number | null
         }
         Update: {
+          attempt_number?: number
           id?: string
           is_graded?: boolean
           quiz_id?: string
@@ -719,7 +1644,10 @@ export type Database = {
           deadline: string
           deadline_time: string | null
           description: string | null
+          duration_minutes: number | null
           id: string
+          max_attempts: number
+          shuffle_options: boolean
           title: string
           updated_at: string
         }
@@ -730,7 +1658,10 @@ export type Database = {
           deadline: string
           deadline_time?: string | null
           description?: string | null
+          duration_minutes?: number | null
           id?: string
+          max_attempts?: number
+          shuffle_options?: boolean
           title: string
           updated_at?: string
         }
@@ -741,7 +1672,10 @@ export type Database = {
           deadline?: string
           deadline_time?: string | null
           description?: string | null
+          duration_minutes?: number | null
           id?: string
+          max_attempts?: number
+          shuffle_options?: boolean
           title?: string
           updated_at?: string
         }
@@ -1004,19 +1938,131 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      active_bde_ids: { Args: never; Returns: string[] }
+      assignment_deadline_for: {
+        Args: { _assignment_id: string; _student_id: string }
+        Returns: string
+      }
+      assignment_late_days: {
+        Args: {
+          _assignment_id: string
+          _student_id: string
+          _submitted_at: string
+        }
+        Returns: number
+      }
+      attendance_totals: {
+        Args: { _batch_id?: string }
+        Returns: {
+          absent: number
+          excused: number
+          late: number
+          present: number
+          student_id: string
+        }[]
+      }
+      auto_assign_leads: {
+        Args: { _lead_ids: string[]; _mode?: string }
+        Returns: number
+      }
       can_access_project: {
         Args: { _project_id: string; _user_id: string }
         Returns: boolean
       }
+      check_in_attendance: {
+        Args: { _code: string }
+        Returns: {
+          session_date: string
+          session_title: string
+          status: string
+        }[]
+      }
+      claim_email_outbox: {
+        Args: { _limit?: number; _max_attempts?: number }
+        Returns: {
+          attempts: number
+          created_at: string
+          data: Json
+          dedupe_key: string | null
+          id: string
+          last_error: string | null
+          next_attempt_at: string
+          sent_at: string | null
+          status: string
+          template: string
+          to_email: string
+          user_id: string | null
+        }[]
+      }
       delete_student_cascade: { Args: { _user_id: string }; Returns: undefined }
+      enqueue_email: {
+        Args: {
+          _data: Json
+          _dedupe_key?: string
+          _template: string
+          _user_id: string
+        }
+        Returns: undefined
+      }
+      existing_lead_contacts: {
+        Args: { _emails: string[]; _phones: string[] }
+        Returns: {
+          email: string
+          phone: string
+        }[]
+      }
+      finalize_expired_quiz_attempts: {
+        Args: { _quiz_id?: string }
+        Returns: number
+      }
       generate_student_id: {
         Args: { batch_year: string; course_code: string }
         Returns: string
       }
+      get_auth_user_id_by_email: { Args: { _email: string }; Returns: string }
+      get_bde_leaderboard: {
+        Args: { _from?: string; _to?: string }
+        Returns: {
+          bde_id: string
+          converted: number
+          full_name: string
+          leads: number
+          paid: number
+          registered: number
+        }[]
+      }
+      get_lead_funnel: {
+        Args: {
+          _from?: string
+          _lead_type?: string
+          _owner?: string
+          _to?: string
+        }
+        Returns: Json
+      }
+      get_quiz_questions: {
+        Args: { _quiz_id: string }
+        Returns: {
+          id: string
+          options: Json
+          order_number: number
+          points: number
+          question_text: string
+          question_type: string
+          quiz_id: string
+        }[]
+      }
       get_user_role: {
         Args: { _user_id: string }
         Returns: Database["public"]["Enums"]["app_role"]
       }
+      grade_quiz_answer: {
+        Args: {
+          _answer: string
+          _question: Database["public"]["Tables"]["quiz_questions"]["Row"]
+        }
+        Returns: boolean
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -1024,6 +2070,11 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_approved_batch_student: {
+        Args: { _batch_id: string; _user_id: string }
+        Returns: boolean
+      }
+      is_payment_plan_bde: { Args: { _plan_id: string }; Returns: boolean }
       is_project_lead: {
         Args: { _project_id: string; _user_id: string }
         Returns: boolean
@@ -1032,6 +2083,102 @@ export type Database = {
         Args: { _project_id: string; _user_id: string }
         Returns: boolean
       }
+      issue_attendance_checkin_code: {
+        Args: { _session_id: string }
+        Returns: {
+          code: string
+          expires_at: string
+        }[]
+      }
+      leave_holidays: {
+        Args: { _end: string; _start: string; _user_id: string }
+        Returns: string[]
+      }
+      leave_policy_for: {
+        Args: { _user_id: string }
+        Returns: {
+          audience: string
+          batch_id: string | null
+          casual_quota: number | null
+          created_at: string
+          enforcement: string
+          id: string
+          period: string
+          sick_quota: number | null
+          updated_at: string
+        }
+      }
+      leave_working_days: {
+        Args: {
+          _end: string
+          _half_day?: string
+          _start: string
+          _user_id: string
+        }
+        Returns: number
+      }
+      link_lead_to_student: {
+        Args: { _lead_id: string; _student_id?: string }
+        Returns: undefined
+      }
+      normalize_phone: { Args: { _phone: string }; Returns: string }
+      notify_batch: {
+        Args: {
+          _batch_id: string
+          _body: string
+          _link: string
+          _title: string
+          _type: string
+        }
+        Returns: undefined
+      }
+      notify_user: {
+        Args: {
+          _body: string
+          _link: string
+          _title: string
+          _type: string
+          _user_id: string
+        }
+        Returns: undefined
+      }
+      password_reset_rate_limited: {
+        Args: {
+          _action: string
+          _email: string
+          _ip: string
+          _max_per_email: number
+          _max_per_ip: number
+        }
+        Returns: boolean
+      }
+      quiz_deadline_at: {
+        Args: { _deadline: string; _deadline_time: string }
+        Returns: string
+      }
+      recalculate_quiz_submission: {
+        Args: { _submission_id: string }
+        Returns: undefined
+      }
+      refresh_assignment_lateness: {
+        Args: { _assignment_id: string; _student_id?: string }
+        Returns: undefined
+      }
+      save_quiz_draft: {
+        Args: { _answers: Json; _quiz_id: string }
+        Returns: undefined
+      }
+      score_quiz_answer: {
+        Args: { _answer_id: string; _feedback: string; _points: number }
+        Returns: undefined
+      }
+      send_deadline_reminders: { Args: never; Returns: number }
+      start_quiz_attempt: { Args: { _quiz_id: string }; Returns: Json }
+      submit_quiz: { Args: { _answers: Json; _quiz_id: string }; Returns: Json }
+      use_password_reset_attempt: {
+        Args: { _code_id: string; _max_attempts: number }
+        Returns: number
+      }
     }
     Enums: {
       app_role: "student" | "faculty" | "admin" | "bde"
@@ -0,0 +1,76 @@
+export type AttendanceStatus = "present" | "absent" | "late" | "excused";
+
+export const ATTENDANCE_STATUSES: { value: AttendanceStatus; label: string; short: string; className: string }[] = [
+  { value: "present", label: "Present", short: "P", className: "bg-success/10 text-success border-success/20" },
+  { value: "late", label: "Late", short: "L", className: "bg-warning/10 text-warning border-warning/20" },
+  { value: "absent", label: "Absent", short: "A", className: "bg-destructive/10 text-destructive border-destructive/20" },
+  { value: "excused", label: "Excused", short: "E", className: "bg-muted text-muted-foreground" },
+];
+
+export const getAttendanceStatus = (status: string) => ATTENDANCE_STATUSES.find((s) => s.value === status);
+
+export const DEFAULT_MIN_ATTENDANCE = 75;
+
+export interface AttendanceSummary {
+  sessions: number;
+  present: number;
+  late: number;
+  absent: number;
+  excused: number;
+  // null until at least one non-excused session is marked
+  percent: number | null;
+}
+
+type AttendanceCounts = Omit<AttendanceSummary, "sessions" | "percent">;
+
+// Late counts as attended; excused sessions are left out of the percentage
+export function summarizeCounts({ present, late, absent, excused }: AttendanceCounts): AttendanceSummary {
+  const counted = present + late + absent;
+  return {
+    sessions: counted + excused,
+    present,
+    late,
+    absent,
+    excused,
+    percent: counted > 0 ? ((present + late) / counted) * 100 : null,
+  };
+}
+
+export function summarizeAttendance(statuses: string[]): AttendanceSummary {
+  const count = (status: AttendanceStatus) => statuses.filter((s) => s === status).length;
+  return summarizeCounts({ present: count("present"), late: count("late"), absent: count("absent"), excused: count("excused") });
+}
+
+export function summarizeByStudent(records: { student_id: string; status: string }[]) {
+  const statuses: Record<string, string[]> = {};
+  records.forEach((r) => {
+    (statuses[r.student_id] ||= []).push(r.status);
+  });
+  const result: Record<string, AttendanceSummary> = {};
+  Object.entries(statuses).forEach(([studentId, list]) => {
+    result[studentId] = summarizeAttendance(list);
+  });
+  return result;
+}
+
+// Rows from the attendance_totals RPC
+export function summarizeTotals(rows: (AttendanceCounts & { student_id: string })[]) {
+  const result: Record<string, AttendanceSummary> = {};
+  rows.forEach(({ student_id, ...counts }) => {
+    result[student_id] = summarizeCounts(counts);
+  });
+  return result;
+}
+
+export const formatAttendance = (percent: number | null) => (percent === null ? "—" : `${Math.round(percent)}%`);
+
+export const isBelowThreshold = (percent: number | null, threshold: number) => percent !== null && percent < threshold;
+
+export interface AttendanceSessionRow {
+  id: string;
+  batch_id: string;
+  event_id: string | null;
+  session_date: string;
+  title: string;
+  starts_at: string | null;
+}
@@ -0,0 +1,128 @@
+import { addDays, differenceInMinutes, parseISO, startOfDay } from "date-fns";
+
+export interface CalendarEventRow {
+  id: string;
+  batch_id: string;
+  title: string;
+  description: string | null;
+  event_type: string;
+  starts_at: string;
+  ends_at: string;
+  all_day: boolean;
+  location: string | null;
+  recurrence: string;
+  recurrence_days: number[];
+  recurrence_until: string | null;
+}
+
+export type OccurrenceSource = "event" | "assignment" | "quiz";
+
+// One dated entry on the calendar: an occurrence of an event, or a deadline
+export interface CalendarOccurrence {
+  key: string;
+  source: OccurrenceSource;
+  eventId: string | null;
+  batchId: string;
+  title: string;
+  type: string;
+  start: Date;
+  end: Date;
+  allDay: boolean;
+  description: string | null;
+  location: string | null;
+}
+
+export const EVENT_TYPES = [
+  { value: "session", label: "Session" },
+  { value: "holiday", label: "Holiday" },
+  { value: "review", label: "Review" },
+  { value: "other", label: "Other" },
+];
+
+export const RECURRENCE_OPTIONS = [
+  { value: "none", label: "Does not repeat" },
+  { value: "daily", label: "Daily" },
+  { value: "weekly", label: "Weekly" },
+];
+
+export const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// Colour classes per occurrence type, including the deadline types
+export const OCCURRENCE_STYLES: Record<string, { label: string; className: string }> = {
+  session: { label: "Session", className: "bg-primary/10 text-primary border-primary/20" },
+  holiday: { label: "Holiday", className: "bg-success/10 text-success border-success/20" },
+  review: { label: "Review", className: "bg-warning/10 text-warning border-warning/20" },
+  other: { label: "Other", className: "bg-muted text-muted-foreground" },
+  assignment: { label: "Assignment Due", className: "bg-accent/10 text-accent border-accent/20" },
+  quiz: { label: "Quiz Due", className: "bg-destructive/10 text-destructive border-destructive/20" },
+};
+
+// Occurrences of an event that overlap [rangeStart, rangeEnd)
+export function expandEvent(event: CalendarEventRow, rangeStart: Date, rangeEnd: Date): CalendarOccurrence[] {
+  const first = parseISO(event.starts_at);
+  const duration = differenceInMinutes(parseISO(event.ends_at), first);
+  const occurrence = (start: Date): CalendarOccurrence => ({
+    key: `event-${event.id}-${start.getTime()}`,
+    source: "event",
+    eventId: event.id,
+    batchId: event.batch_id,
+    title: event.title,
+    type: event.event_type,
+    start,
+    end: new Date(start.getTime() + duration * 60 * 1000),
+    allDay: event.all_day,
+    description: event.description,
+    location: event.location,
+  });
+  const overlaps = (o: CalendarOccurrence) => o.start < rangeEnd && (o.end > rangeStart || o.start >= rangeStart);
+
+  if (event.recurrence === "none") {
+    const single = occurrence(first);
+    return overlaps(single) ? [single] : [];
+  }
+
+  const until = event.recurrence_until ? addDays(parseISO(event.recurrence_until), 1) : rangeEnd;
+  const weekdays = event.recurrence_days.length > 0 ? event.recurrence_days : [first.getDay()];
+  const results: CalendarOccurrence[] = [];
+  // Start a day early so occurrences running past midnight into the range are kept
+  let day = startOfDay(first > rangeStart ? first : addDays(rangeStart, -1));
+  while (day < rangeEnd && day < until) {
+    if (event.recurrence === "daily" || weekdays.includes(day.getDay())) {
+      const start = new Date(day.getFullYear(), day.getMonth(), day.getDate(), first.getHours(), first.getMinutes());
+      const o = occurrence(start);
+      if (start >= first && overlaps(o)) results.push(o);
+    }
+    day = addDays(day, 1);
+  }
+  return results;
+}
+
+// Deadlines are stored as a date plus an optional time; without a time they fall due at end of day
+export function deadlineOccurrence(
+  source: "assignment" | "quiz",
+  row: { id: string; batch_id: string; title: string; deadline: string; deadline_time: string | null; description: string | null },
+): CalendarOccurrence {
+  const [year, month, day] = row.deadline.split("-").map(Number);
+  const [hours, minutes] = row.deadline_time ? row.deadline_time.split(":").map(Number) : [23, 59];
+  const due = new Date(year, month - 1, day, hours, minutes);
+  return {
+    key: `${source}-${row.id}`,
+    source,
+    eventId: null,
+    batchId: row.batch_id,
+    title: row.title,
+    type: source,
+    start: due,
+    end: due,
+    allDay: !row.deadline_time,
+    description: row.description,
+    location: null,
+  };
+}
+
+export function collectOccurrences(events: CalendarEventRow[], deadlines: CalendarOccurrence[], rangeStart: Date, rangeEnd: Date) {
+  return [
+    ...events.flatMap((e) => expandEvent(e, rangeStart, rangeEnd)),
+    ...deadlines.filter((d) => d.start >= rangeStart && d.start < rangeEnd),
+  ].sort((a, b) => a.start.getTime() - b.start.getTime());
+}
@@ -0,0 +1,46 @@
+// Mirrors assignment_deadline_for / assignment_late_days in the database, for display.
+// Deadlines are wall-clock times in India Standard Time, matching how faculty enter them.
+
+export interface LatePolicy {
+  grace_minutes: number;
+  late_penalty_percent: number;
+  // Days after the deadline that submissions are accepted; null never closes
+  late_cutoff_days: number | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function assignmentDueAt(deadline: string, deadlineTime: string | null | undefined, extendedDeadline?: string | null): Date {
+  if (extendedDeadline) return new Date(extendedDeadline);
+  return new Date(`${deadline}T${deadlineTime || "23:59"}:59.999+05:30`);
+}
+
+// When late submissions stop being accepted, or null if they never do
+export function submissionsCloseAt(dueAt: Date, policy: LatePolicy): Date | null {
+  if (policy.late_cutoff_days === null) return null;
+  return new Date(dueAt.getTime() + Math.max(policy.grace_minutes * 60 * 1000, policy.late_cutoff_days * DAY_MS));
+}
+
+export function lateDays(submittedAt: Date, dueAt: Date, graceMinutes: number) {
+  if (submittedAt.getTime() <= dueAt.getTime() + graceMinutes * 60 * 1000) return 0;
+  return Math.ceil((submittedAt.getTime() - dueAt.getTime()) / DAY_MS);
+}
+
+export function formatGrace(minutes: number) {
+  if (minutes % 1440 === 0) return `${minutes / 1440} day${minutes === 1440 ? "" : "s"}`;
+  if (minutes % 60 === 0) return `${minutes / 60} hour${minutes === 60 ? "" : "s"}`;
+  return `${minutes} min`;
+}
+
+// e.g. "15 min grace · 10% off per day late · closes 3 days after the deadline"
+export function describeLatePolicy(policy: LatePolicy) {
+  const parts: string[] = [];
+  if (policy.grace_minutes > 0) parts.push(`${formatGrace(policy.grace_minutes)} grace`);
+  if (policy.late_cutoff_days === 0) {
+    parts.push("no late submissions");
+    return parts.join(" · ");
+  }
+  parts.push(policy.late_penalty_percent > 0 ? `${policy.late_penalty_percent}% off per day late` : "no late penalty");
+  parts.push(policy.late_cutoff_days === null ? "late submissions always accepted" : `closes ${policy.late_cutoff_days} day${policy.late_cutoff_days === 1 ? "" : "s"} after the deadline`);
+  return parts.join(" · ");
+}
@@ -0,0 +1,17 @@
+export type AssignmentMode = "single" | "round_robin" | "least_loaded";
+
+export const ASSIGNMENT_MODES: { value: AssignmentMode; label: string; description: string }[] = [
+  { value: "single", label: "Single BDE", description: "Every lead goes to the selected BDE." },
+  { value: "round_robin", label: "Round-robin", description: "Leads rotate through active BDEs." },
+  { value: "least_loaded", label: "Fewest open leads", description: "Each lead goes to the BDE with the fewest open leads." },
+];
+
+export type RuleField = "college_name" | "course_interested";
+
+export const RULE_FIELDS: { value: RuleField; label: string }[] = [
+  { value: "college_name", label: "College" },
+  { value: "course_interested", label: "Course Interested" },
+];
+
+// Statuses that no longer need BDE follow-up
+export const CLOSED_LEAD_STATUSES = ["paid", "not_interested"];
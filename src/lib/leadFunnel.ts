@@ -0,0 +1,71 @@
+import type { Json } from "@/integrations/supabase/types";
+import { LEAD_STATUSES } from "@/lib/leads";
+
+export interface FunnelStage {
+  status: string;
+  label: string;
+  reached: number;
+  // Share of the previous stage that got this far, 0-100
+  conversion: number | null;
+  medianDays: number | null;
+}
+
+export interface BreakdownRow {
+  key: string;
+  leads: number;
+  converted: number;
+  rate: number;
+}
+
+// Forward stages of the funnel; not_interested is an exit, counted separately
+export const FUNNEL_STATUSES = LEAD_STATUSES.filter((s) => s.value !== "not_interested");
+
+export interface LeadFunnel {
+  total: number;
+  lost: number;
+  stages: FunnelStage[];
+  college: BreakdownRow[];
+  branch: BreakdownRow[];
+  course: BreakdownRow[];
+}
+
+interface FunnelResponse {
+  total: number;
+  lost: number;
+  stages: { status: string; reached: number; median_days: number | null }[] | null;
+  college: Omit<BreakdownRow, "rate">[];
+  branch: Omit<BreakdownRow, "rate">[];
+  course: Omit<BreakdownRow, "rate">[];
+}
+
+const withRates = (rows: Omit<BreakdownRow, "rate">[]) =>
+  rows.map((r) => ({ ...r, rate: r.leads ? (r.converted / r.leads) * 100 : 0 }));
+
+// Result of the get_lead_funnel RPC, with labels and stage-to-stage conversion added
+export function parseLeadFunnel(value: Json): LeadFunnel {
+  const data = value as unknown as FunnelResponse;
+  const reached = new Map((data.stages || []).map((s) => [s.status, s]));
+  const stages = FUNNEL_STATUSES.map((s) => ({
+    status: s.value,
+    label: s.label,
+    reached: reached.get(s.value)?.reached ?? 0,
+    medianDays: reached.get(s.value)?.median_days ?? null,
+  }));
+  return {
+    total: data.total,
+    lost: data.lost,
+    stages: stages.map((s, i) => ({
+      ...s,
+      conversion: i === 0 ? null : stages[i - 1].reached ? (s.reached / stages[i - 1].reached) * 100 : 0,
+    })),
+    college: withRates(data.college),
+    branch: withRates(data.branch),
+    course: withRates(data.course),
+  };
+}
+
+export function formatDays(days: number | null) {
+  if (days === null) return "—";
+  if (days < 1) return `${Math.round(days * 24)}h`;
+  return `${days.toFixed(1)}d`;
+}
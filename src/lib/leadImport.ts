@@ -0,0 +1,159 @@
+import { emailSchema, phoneSchema } from "@/lib/validations";
+
+export type LeadField =
+  | "name" | "college_name" | "branch" | "year" | "semester" | "phone" | "email" | "course_interested" | "lead_type";
+
+export const LEAD_FIELDS: { key: LeadField; label: string; required?: boolean; aliases: string[] }[] = [
+  { key: "name", label: "Name", required: true, aliases: ["name", "studentname", "fullname", "leadname"] },
+  { key: "college_name", label: "College", aliases: ["collegename", "college", "institute", "institution"] },
+  { key: "branch", label: "Branch", aliases: ["branch", "department", "stream"] },
+  { key: "year", label: "Year", aliases: ["year", "studyyear"] },
+  { key: "semester", label: "Semester", aliases: ["semester", "sem"] },
+  { key: "phone", label: "Phone", aliases: ["phone", "phonenumber", "mobile", "mobilenumber", "contact", "contactnumber"] },
+  { key: "email", label: "Email", aliases: ["email", "emailid", "emailaddress", "mail"] },
+  { key: "course_interested", label: "Course Interested", aliases: ["courseinterested", "course", "interestedcourse"] },
+  { key: "lead_type", label: "Lead Type", aliases: ["leadtype", "type"] },
+];
+
+export const LEAD_TYPES = ["internship", "aicte"];
+
+// Column index per field, -1 when the file has no matching column
+export type LeadColumnMapping = Record<LeadField, number>;
+
+export type LeadImportStatus = "insert" | "flag" | "skip";
+
+export interface LeadImportValues {
+  name: string;
+  college_name: string | null;
+  branch: string | null;
+  year: string | null;
+  semester: string | null;
+  phone: string | null;
+  email: string | null;
+  course_interested: string | null;
+  lead_type: string;
+}
+
+export interface LeadImportRow {
+  rowNumber: number;
+  status: LeadImportStatus;
+  issues: string[];
+  values: LeadImportValues;
+  raw: string[];
+}
+
+const normalizeHeader = (value: string) => value.trim().toLowerCase().replace(/[^a-z0-9]/g, "");
+
+export function guessLeadMapping(headers: string[]): LeadColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  return Object.fromEntries(
+    LEAD_FIELDS.map((f) => [f.key, normalized.findIndex((h) => f.aliases.includes(h))]),
+  ) as LeadColumnMapping;
+}
+
+// Last 10 digits, matching normalize_phone in the database
+export function normalizePhone(value: string) {
+  return value.replace(/\D/g, "").slice(-10);
+}
+
+// Normalized phones and emails in the file, for the existing_lead_contacts duplicate check
+export function leadContacts(rows: string[][], mapping: LeadColumnMapping) {
+  const column = (index: number) => (index === -1 ? [] : rows.slice(1).map((r) => (r[index] || "").trim()).filter(Boolean));
+  return {
+    phones: [...new Set(column(mapping.phone).map(normalizePhone).filter(Boolean))],
+    emails: [...new Set(column(mapping.email).map((e) => e.toLowerCase()))],
+  };
+}
+
+// Classifies each data row: new leads are inserted, duplicates and nameless rows skipped,
+// rows with an invalid phone, email or lead type flagged for review
+export function buildLeadPreview(
+  rows: string[][],
+  mapping: LeadColumnMapping,
+  existing: { phone: string | null; email: string | null }[],
+): LeadImportRow[] {
+  const knownPhones = new Set(existing.map((l) => (l.phone ? normalizePhone(l.phone) : "")).filter(Boolean));
+  const knownEmails = new Set(existing.map((l) => l.email?.trim().toLowerCase()).filter(Boolean));
+  const seenPhones = new Map<string, number>();
+  const seenEmails = new Map<string, number>();
+
+  return rows.slice(1).map((raw, i) => {
+    const rowNumber = i + 2;
+    const cell = (field: LeadField) => (mapping[field] === -1 ? "" : (raw[mapping[field]] || "").trim());
+    const issues: string[] = [];
+    let flagged = false;
+    let skipped = false;
+
+    const rawPhone = cell("phone");
+    const rawEmail = cell("email");
+    const phone = rawPhone ? normalizePhone(rawPhone) : "";
+    const email = rawEmail.toLowerCase();
+    const phoneValid = !rawPhone || phoneSchema.safeParse(phone).success;
+    const emailValid = !email || emailSchema.safeParse(email).success;
+
+    const values: LeadImportValues = {
+      name: cell("name"),
+      college_name: cell("college_name") || null,
+      branch: cell("branch") || null,
+      year: cell("year") || null,
+      semester: cell("semester") || null,
+      phone: phone && phoneValid ? phone : null,
+      email: email && emailValid ? email : null,
+      course_interested: cell("course_interested") || null,
+      lead_type: cell("lead_type").toLowerCase() || "internship",
+    };
+
+    if (!values.name) {
+      issues.push("Name is missing.");
+      skipped = true;
+    }
+    if (!phoneValid) {
+      issues.push(`Invalid phone "${rawPhone}".`);
+      flagged = true;
+    }
+    if (!emailValid) {
+      issues.push(`Invalid email "${rawEmail}".`);
+      flagged = true;
+    }
+    if (!values.phone && !values.email && phoneValid && emailValid) {
+      issues.push("No phone or email.");
+      flagged = true;
+    }
+    if (!LEAD_TYPES.includes(values.lead_type)) {
+      issues.push(`Unknown lead type "${values.lead_type}", using internship.`);
+      values.lead_type = "internship";
+      flagged = true;
+    }
+
+    if (values.phone && knownPhones.has(values.phone)) {
+      issues.push(`Phone ${values.phone} already exists in leads.`);
+      skipped = true;
+    } else if (values.email && knownEmails.has(values.email)) {
+      issues.push(`Email ${values.email} already exists in leads.`);
+      skipped = true;
+    } else if (values.phone && seenPhones.has(values.phone)) {
+      issues.push(`Duplicate of row ${seenPhones.get(values.phone)} (same phone).`);
+      skipped = true;
+    } else if (values.email && seenEmails.has(values.email)) {
+      issues.push(`Duplicate of row ${seenEmails.get(values.email)} (same email).`);
+      skipped = true;
+    }
+
+    if (!skipped) {
+      if (values.phone) seenPhones.set(values.phone, rowNumber);
+      if (values.email) seenEmails.set(values.email, rowNumber);
+    }
+
+    return { rowNumber, status: skipped ? "skip" : flagged ? "flag" : "insert", issues, values, raw };
+  });
+}
+
+// Skipped and flagged rows with their original cells, for fixing and re-uploading
+export function leadErrorReportRows(headers: string[], preview: LeadImportRow[]): string[][] {
+  return [
+    ["row", "status", "issues", ...headers],
+    ...preview
+      .filter((r) => r.status !== "insert")
+      .map((r) => [String(r.rowNumber), r.status === "skip" ? "skipped" : "flagged", r.issues.join(" "), ...r.raw]),
+  ];
+}
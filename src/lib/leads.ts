@@ -0,0 +1,66 @@
+// Lead stages in funnel order, ending with the lost outcome
+export const LEAD_STATUSES = [
+  { value: "initial_contact", label: "Initial Contact" },
+  { value: "whatsapp_group_created", label: "WhatsApp Group" },
+  { value: "re_initiate_call", label: "Re-Initiate Call" },
+  { value: "converted", label: "Converted" },
+  { value: "paid", label: "Paid" },
+  { value: "not_interested", label: "Not Interested" },
+];
+
+export const getLeadStatusLabel = (status: string | null) =>
+  LEAD_STATUSES.find((s) => s.value === status)?.label || status || "-";
+
+export type LoggedActivityType = "call" | "whatsapp" | "note";
+
+export const LOGGED_ACTIVITY_TYPES: { value: LoggedActivityType; label: string }[] = [
+  { value: "call", label: "Call" },
+  { value: "whatsapp", label: "WhatsApp" },
+  { value: "note", label: "Note" },
+];
+
+export const CALL_OUTCOMES = [
+  { value: "connected", label: "Connected" },
+  { value: "no_answer", label: "No Answer" },
+  { value: "busy", label: "Busy" },
+  { value: "switched_off", label: "Switched Off" },
+  { value: "wrong_number", label: "Wrong Number" },
+  { value: "call_back", label: "Asked to Call Back" },
+];
+
+export const getCallOutcomeLabel = (outcome: string | null) =>
+  CALL_OUTCOMES.find((o) => o.value === outcome)?.label || outcome || "";
+
+export type FollowUpBucket = "overdue" | "today" | "upcoming";
+
+// Callbacks due before today are overdue; ones later today are still on time
+export function getFollowUpBucket(reminder: Date, now = new Date()): FollowUpBucket {
+  const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const startOfTomorrow = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
+  if (reminder < startOfToday) return "overdue";
+  if (reminder < startOfTomorrow) return "today";
+  return "upcoming";
+}
+
+export const SNOOZE_OPTIONS = [
+  { value: "1h", label: "1 hour" },
+  { value: "3h", label: "3 hours" },
+  { value: "tomorrow", label: "Tomorrow morning" },
+  { value: "week", label: "Next week" },
+] as const;
+
+export type SnoozeOption = (typeof SNOOZE_OPTIONS)[number]["value"];
+
+// Snoozing counts from now rather than from the original time, so overdue callbacks come back
+export function getSnoozedReminder(option: SnoozeOption, now = new Date()) {
+  switch (option) {
+    case "1h":
+      return new Date(now.getTime() + 60 * 60 * 1000);
+    case "3h":
+      return new Date(now.getTime() + 3 * 60 * 60 * 1000);
+    case "tomorrow":
+      return new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1, 10, 0);
+    case "week":
+      return new Date(now.getFullYear(), now.getMonth(), now.getDate() + 7, 10, 0);
+  }
+}
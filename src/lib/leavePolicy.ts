@@ -0,0 +1,103 @@
+import { format, parseISO } from "date-fns";
+
+export type LeaveType = "sick" | "casual";
+
+export const LEAVE_TYPES: { value: LeaveType; label: string }[] = [
+  { value: "sick", label: "Sick Leave" },
+  { value: "casual", label: "Casual Leave" },
+];
+
+export const HALF_DAY_OPTIONS = [
+  { value: "first_half", label: "First half" },
+  { value: "second_half", label: "Second half" },
+];
+
+export interface LeavePolicy {
+  id: string;
+  audience: string;
+  batch_id: string | null;
+  sick_quota: number | null;
+  casual_quota: number | null;
+  // "block" is also enforced by a trigger on leave_requests
+  enforcement: string;
+  // "total" counts every leave; "year" counts the calendar year of the leave date
+  period: string;
+}
+
+export interface LeaveRequestLike {
+  leave_type: string;
+  leave_date: string;
+  // Working days, computed by the database when the request is saved
+  days: number;
+  status: string | null;
+}
+
+const sumDays = (requests: LeaveRequestLike[]) => requests.reduce((total, r) => total + Number(r.days), 0);
+
+export const formatDays = (days: number) => `${Number(days)} day${Number(days) === 1 ? "" : "s"}`;
+
+// "Mar 3, 2026", "Mar 3 – Mar 7, 2026" or "Mar 3, 2026 (First half)"
+export function formatLeaveDates(r: { leave_date: string; end_date: string; half_day: string | null }) {
+  const start = parseISO(r.leave_date);
+  const end = parseISO(r.end_date);
+  if (r.half_day) return `${format(start, "MMM d, yyyy")} (${HALF_DAY_OPTIONS.find((o) => o.value === r.half_day)?.label})`;
+  if (r.end_date === r.leave_date) return format(start, "MMM d, yyyy");
+  return `${format(start, start.getFullYear() === end.getFullYear() ? "MMM d" : "MMM d, yyyy")} – ${format(end, "MMM d, yyyy")}`;
+}
+
+export interface LeaveBalance {
+  type: LeaveType;
+  label: string;
+  // null = unlimited
+  quota: number | null;
+  used: number;
+  pending: number;
+  remaining: number | null;
+}
+
+// Mirrors leave_policy_for(): a batch policy wins over the audience default
+export function resolveLeavePolicy(policies: LeavePolicy[], audience: "student" | "faculty", batchId?: string | null) {
+  const scoped = policies.filter((p) => p.audience === audience);
+  return (batchId && scoped.find((p) => p.batch_id === batchId)) || scoped.find((p) => p.batch_id === null) || null;
+}
+
+export const quotaFor = (policy: LeavePolicy | null, type: string) =>
+  !policy ? null : type === "sick" ? policy.sick_quota : policy.casual_quota;
+
+const inPeriod = (policy: LeavePolicy | null, leaveDate: string, refDate: string) =>
+  policy?.period !== "year" || leaveDate.slice(0, 4) === refDate.slice(0, 4);
+
+// refDate (yyyy-MM-dd) picks the year for yearly policies
+export function computeLeaveBalances(policy: LeavePolicy | null, requests: LeaveRequestLike[], refDate: string): LeaveBalance[] {
+  return LEAVE_TYPES.map(({ value, label }) => {
+    const counted = requests.filter((r) => r.leave_type === value && inPeriod(policy, r.leave_date, refDate));
+    const used = sumDays(counted.filter((r) => r.status === "approved"));
+    const pending = sumDays(counted.filter((r) => r.status === "pending" || r.status === null));
+    const quota = quotaFor(policy, value);
+    return { type: value, label, quota, used, pending, remaining: quota === null ? null : quota - used - pending };
+  });
+}
+
+export type QuotaCheck = "ok" | "warn" | "block";
+
+// Whether `days` more of `type` would go over quota, and what the policy says to do about it
+export function checkLeaveQuota(policy: LeavePolicy | null, balances: LeaveBalance[], type: string, days = 1): QuotaCheck {
+  const balance = balances.find((b) => b.type === type);
+  if (!policy || !balance || balance.remaining === null || balance.remaining >= days) return "ok";
+  return policy.enforcement === "block" ? "block" : "warn";
+}
+
+// Approving counts only leave that is already approved, matching the trigger
+export function checkLeaveApproval(
+  policy: LeavePolicy | null,
+  requests: (LeaveRequestLike & { id: string })[],
+  request: LeaveRequestLike & { id: string },
+): QuotaCheck {
+  const quota = quotaFor(policy, request.leave_type);
+  if (!policy || quota === null) return "ok";
+  const approved = sumDays(requests.filter((r) =>
+    r.id !== request.id && r.status === "approved" && r.leave_type === request.leave_type && inPeriod(policy, r.leave_date, request.leave_date),
+  ));
+  if (approved + Number(request.days) <= quota) return "ok";
+  return policy.enforcement === "block" ? "block" : "warn";
+}
@@ -0,0 +1,138 @@
+import { addMonths, format, parseISO } from "date-fns";
+import { PDF_PAGE_HEIGHT, PDF_PAGE_WIDTH, PdfOp, buildPdf } from "@/lib/pdf";
+
+export const PAYMENT_MODES = [
+  { value: "upi", label: "UPI" },
+  { value: "bank_transfer", label: "Bank Transfer" },
+  { value: "cash", label: "Cash" },
+  { value: "card", label: "Card" },
+  { value: "cheque", label: "Cheque" },
+];
+
+export const getPaymentModeLabel = (mode: string) => PAYMENT_MODES.find((m) => m.value === mode)?.label || mode;
+
+export const formatAmount = (amount: number) =>
+  amount.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export const formatCurrency = (amount: number) => `₹${formatAmount(amount)}`;
+
+export interface InstallmentDraft {
+  installment_number: number;
+  amount: number;
+  due_date: string;
+}
+
+export interface PaymentRecord {
+  id: string;
+  plan_id: string;
+  receipt_number: string;
+  amount: number;
+  mode: string;
+  reference_number: string | null;
+  paid_on: string;
+  notes: string | null;
+  created_at: string;
+}
+
+export type InstallmentStatus = "paid" | "partial" | "overdue" | "due";
+
+// Equal monthly installments starting on firstDue; rounding leftovers go on the last one
+export function splitInstallments(total: number, count: number, firstDue: string): InstallmentDraft[] {
+  const paise = Math.round(total * 100);
+  const base = Math.floor(paise / count);
+  const [year, month, day] = firstDue.split("-").map(Number);
+  return Array.from({ length: count }, (_, i) => ({
+    installment_number: i + 1,
+    amount: (i === count - 1 ? paise - base * (count - 1) : base) / 100,
+    due_date: format(addMonths(new Date(year, month - 1, day), i), "yyyy-MM-dd"),
+  }));
+}
+
+// Payments settle installments oldest first
+export function allocatePayments(installments: InstallmentDraft[], totalPaid: number, today = format(new Date(), "yyyy-MM-dd")) {
+  let remaining = Math.round(totalPaid * 100);
+  return [...installments]
+    .sort((a, b) => a.installment_number - b.installment_number)
+    .map((inst) => {
+      const due = Math.round(inst.amount * 100);
+      const covered = Math.min(due, Math.max(remaining, 0));
+      remaining -= covered;
+      const status: InstallmentStatus = covered >= due
+        ? "paid"
+        : inst.due_date < today ? "overdue" : covered > 0 ? "partial" : "due";
+      return { ...inst, paid: covered / 100, status };
+    });
+}
+
+export const sumAmounts = (rows: { amount: number }[]) => rows.reduce((sum, r) => sum + Number(r.amount), 0);
+
+interface ReceiptDetails {
+  payment: PaymentRecord;
+  payerName: string;
+  planTitle: string;
+  planTotal: number;
+  paidToDate: number;
+}
+
+// The built-in PDF font has no rupee sign, so amounts are written as "Rs."
+export function buildReceiptPdf({ payment, payerName, planTitle, planTotal, paidToDate }: ReceiptDetails) {
+  const left = 60;
+  const right = PDF_PAGE_WIDTH - 60;
+  const rs = (amount: number) => `Rs. ${formatAmount(amount)}`;
+  let y = PDF_PAGE_HEIGHT - 80;
+
+  const ops: PdfOp[] = [
+    { type: "text", x: left, y, text: "FEST Interns", size: 20, bold: true },
+    { type: "text", x: right, y, text: "PAYMENT RECEIPT", size: 14, bold: true, align: "right" },
+  ];
+  y -= 24;
+  ops.push(
+    { type: "text", x: right, y, text: `Receipt No: ${payment.receipt_number}`, size: 10, align: "right" },
+    { type: "text", x: right, y: y - 14, text: `Date: ${format(parseISO(payment.paid_on), "dd MMM yyyy")}`, size: 10, align: "right" },
+  );
+  y -= 40;
+  ops.push({ type: "line", x1: left, y1: y, x2: right, y2: y, width: 1 });
+
+  y -= 30;
+  const rows: [string, string][] = [
+    ["Received from", payerName],
+    ["Towards", planTitle],
+    ["Payment mode", getPaymentModeLabel(payment.mode)],
+    ["Reference number", payment.reference_number || "-"],
+  ];
+  if (payment.notes) rows.push(["Notes", payment.notes.replace(/\s+/g, " ").slice(0, 80)]);
+  for (const [label, value] of rows) {
+    ops.push(
+      { type: "text", x: left, y, text: label, size: 11 },
+      { type: "text", x: left + 150, y, text: value, size: 11, bold: true },
+    );
+    y -= 22;
+  }
+
+  y -= 10;
+  ops.push({ type: "rect", x: left, y: y - 14, width: right - left, height: 34, gray: 0.93 });
+  ops.push(
+    { type: "text", x: left + 12, y, text: "Amount Received", size: 13, bold: true },
+    { type: "text", x: right - 12, y, text: rs(payment.amount), size: 13, bold: true, align: "right" },
+  );
+
+  y -= 50;
+  const summary: [string, number][] = [
+    ["Total fee", planTotal],
+    ["Paid to date", paidToDate],
+    ["Balance outstanding", Math.max(planTotal - paidToDate, 0)],
+  ];
+  for (const [label, amount] of summary) {
+    ops.push(
+      { type: "text", x: left + 12, y, text: label, size: 11 },
+      { type: "text", x: right - 12, y, text: rs(amount), size: 11, align: "right" },
+    );
+    y -= 20;
+  }
+
+  ops.push(
+    { type: "line", x1: left, y1: 100, x2: right, y2: 100 },
+    { type: "text", x: PDF_PAGE_WIDTH / 2, y: 80, text: "This is a computer-generated receipt and does not need a signature.", size: 9, align: "center" },
+  );
+  return buildPdf(ops);
+}
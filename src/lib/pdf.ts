@@ -0,0 +1,71 @@
+// Minimal single-page PDF writer (A4, built-in Helvetica) for receipts and similar documents.
+// Text is limited to Latin-1; other characters are replaced with "?".
+
+export const PDF_PAGE_WIDTH = 595;
+export const PDF_PAGE_HEIGHT = 842;
+
+export type PdfOp =
+  | { type: "text"; x: number; y: number; text: string; size?: number; bold?: boolean; align?: "left" | "right" | "center" }
+  | { type: "line"; x1: number; y1: number; x2: number; y2: number; width?: number }
+  | { type: "rect"; x: number; y: number; width: number; height: number; gray: number };
+
+// Helvetica advance widths (per 1000 units) for the characters receipts mostly use
+const HELVETICA_WIDTHS: Record<string, number> = {
+  " ": 278, ".": 278, ",": 278, ":": 278, "-": 333, "/": 278, "(": 333, ")": 333, "#": 556,
+  "0": 556, "1": 556, "2": 556, "3": 556, "4": 556, "5": 556, "6": 556, "7": 556, "8": 556, "9": 556,
+  i: 222, j: 222, l: 222, f: 278, t: 278, r: 333, m: 833, w: 722, I: 278, M: 833, W: 944,
+};
+
+export function pdfTextWidth(text: string, size: number, bold = false) {
+  const units = [...text].reduce((sum, char) => sum + (HELVETICA_WIDTHS[char] ?? (char === char.toUpperCase() ? 667 : 556)), 0);
+  return (units * size * (bold ? 1.05 : 1)) / 1000;
+}
+
+const toLatin1 = (text: string) => [...text].map((c) => (c.charCodeAt(0) < 256 ? c : "?")).join("");
+
+const escapePdfText = (text: string) => toLatin1(text).replace(/\\/g, "\\\\").replace(/\(/g, "\\(").replace(/\)/g, "\\)");
+
+const num = (n: number) => Number(n.toFixed(2)).toString();
+
+function renderOp(op: PdfOp) {
+  switch (op.type) {
+    case "text": {
+      const size = op.size ?? 11;
+      const width = op.align && op.align !== "left" ? pdfTextWidth(op.text, size, op.bold) : 0;
+      const x = op.align === "right" ? op.x - width : op.align === "center" ? op.x - width / 2 : op.x;
+      return `BT /${op.bold ? "F2" : "F1"} ${size} Tf ${num(x)} ${num(op.y)} Td (${escapePdfText(op.text)}) Tj ET`;
+    }
+    case "line":
+      return `${num(op.width ?? 0.5)} w ${num(op.x1)} ${num(op.y1)} m ${num(op.x2)} ${num(op.y2)} l S`;
+    case "rect":
+      return `q ${num(op.gray)} g ${num(op.x)} ${num(op.y)} ${num(op.width)} ${num(op.height)} re f Q`;
+  }
+}
+
+// Coordinates are in points from the bottom-left corner of the page
+export function buildPdf(ops: PdfOp[]): Blob {
+  const content = ops.map(renderOp).join("\n");
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] /Contents 4 0 R /Resources << /Font << /F1 5 0 R /F2 6 0 R >> >> >>`,
+    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+  ];
+
+  let pdf = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(pdf.length);
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+  });
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((o) => `${String(o).padStart(10, "0")} 00000 n \n`).join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  // Every character is Latin-1 at this point, so string length equals byte length
+  const bytes = Uint8Array.from(pdf, (c) => c.charCodeAt(0));
+  return new Blob([bytes], { type: "application/pdf" });
+}
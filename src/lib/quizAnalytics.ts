@@ -0,0 +1,166 @@
+import { parseMultiSelectAnswer } from "@/lib/quizQuestions";
+
+export interface AnalyticsQuestion {
+  id: string;
+  quiz_id: string;
+  question_text: string;
+  question_type: string;
+  options: unknown;
+  correct_answer: string | null;
+  points: number;
+  order_number: number;
+  topic: string | null;
+}
+
+export interface AnalyticsSubmission {
+  id: string;
+  quiz_id: string;
+  student_id: string;
+  attempt_number: number;
+  score: number | null;
+  total_points: number | null;
+}
+
+export interface AnalyticsAnswer {
+  submission_id: string;
+  question_id: string;
+  answer_text: string | null;
+  points_awarded: number | null;
+  graded_at: string | null;
+}
+
+export interface OptionStat {
+  option: string;
+  count: number;
+  isCorrect: boolean;
+}
+
+export interface ItemStat {
+  question: AnalyticsQuestion;
+  responses: number;
+  pending: number;
+  // Average share of the question's points earned, 0-100
+  percentCorrect: number | null;
+  // Top-group minus bottom-group score on this item, -1..1
+  discrimination: number | null;
+  options: OptionStat[];
+}
+
+export interface TopicStat {
+  topic: string;
+  questions: number;
+  responses: number;
+  percentCorrect: number;
+}
+
+// Share of the top and bottom scorers compared for discrimination (the classic 27%)
+const GROUP_SHARE = 0.27;
+const MIN_STUDENTS_FOR_DISCRIMINATION = 4;
+
+// Questions below these are worth a second look
+export const LOW_PERCENT_CORRECT = 30;
+export const LOW_DISCRIMINATION = 0.1;
+
+export const ANALYTICS_QUESTION_COLUMNS = "id, quiz_id, question_text, question_type, options, correct_answer, points, order_number, topic";
+
+// Each student's most recent attempt per quiz
+export function latestSubmissions(submissions: AnalyticsSubmission[]) {
+  const latest = new Map<string, AnalyticsSubmission>();
+  for (const sub of submissions) {
+    const key = `${sub.quiz_id}:${sub.student_id}`;
+    const current = latest.get(key);
+    if (!current || sub.attempt_number > current.attempt_number) latest.set(key, sub);
+  }
+  return [...latest.values()];
+}
+
+export function scorePercent(sub: AnalyticsSubmission) {
+  return sub.total_points ? ((sub.score || 0) / sub.total_points) * 100 : 0;
+}
+
+const itemScore = (answer: AnalyticsAnswer, question: AnalyticsQuestion) =>
+  question.points > 0 ? (answer.points_awarded || 0) / question.points : 0;
+
+const average = (values: number[]) => (values.length ? values.reduce((a, b) => a + b, 0) / values.length : null);
+
+function optionStats(question: AnalyticsQuestion, answers: AnalyticsAnswer[]): OptionStat[] {
+  if (!Array.isArray(question.options)) return [];
+  const options = question.options as string[];
+  const correct = question.question_type === "multi_select"
+    ? parseMultiSelectAnswer(question.correct_answer)
+    : [question.correct_answer || ""];
+  const normalize = (v: string) => v.trim().toLowerCase();
+
+  return options.map((option) => ({
+    option,
+    isCorrect: correct.some((c) => normalize(c) === normalize(option)),
+    count: answers.filter((a) => {
+      const picked = question.question_type === "multi_select" ? parseMultiSelectAnswer(a.answer_text) : [a.answer_text || ""];
+      return picked.some((p) => normalize(p) === normalize(option));
+    }).length,
+  }));
+}
+
+// Per-question difficulty, discrimination and option frequencies over the given submissions
+export function computeItemStats(
+  questions: AnalyticsQuestion[],
+  submissions: AnalyticsSubmission[],
+  answers: AnalyticsAnswer[],
+): ItemStat[] {
+  const ranked = [...submissions].sort((a, b) => scorePercent(b) - scorePercent(a));
+  const groupSize = Math.max(1, Math.round(ranked.length * GROUP_SHARE));
+  const canDiscriminate = ranked.length >= MIN_STUDENTS_FOR_DISCRIMINATION;
+  const top = new Set(ranked.slice(0, groupSize).map((s) => s.id));
+  const bottom = new Set(ranked.slice(-groupSize).map((s) => s.id));
+  const submissionIds = new Set(submissions.map((s) => s.id));
+
+  return questions.map((question) => {
+    const questionAnswers = answers.filter((a) => a.question_id === question.id && submissionIds.has(a.submission_id));
+    const graded = questionAnswers.filter((a) => a.graded_at);
+    const percent = average(graded.map((a) => itemScore(a, question)));
+    const topScore = average(graded.filter((a) => top.has(a.submission_id)).map((a) => itemScore(a, question)));
+    const bottomScore = average(graded.filter((a) => bottom.has(a.submission_id)).map((a) => itemScore(a, question)));
+
+    return {
+      question,
+      responses: questionAnswers.length,
+      pending: questionAnswers.length - graded.length,
+      percentCorrect: percent === null ? null : percent * 100,
+      discrimination: canDiscriminate && topScore !== null && bottomScore !== null ? topScore - bottomScore : null,
+      options: optionStats(question, questionAnswers),
+    };
+  });
+}
+
+// Submission counts in 10-point percentage bands
+export function scoreHistogram(submissions: AnalyticsSubmission[]) {
+  const bands = Array.from({ length: 10 }, (_, i) => ({ range: `${i * 10}-${i === 9 ? 100 : i * 10 + 9}%`, students: 0 }));
+  for (const sub of submissions) {
+    bands[Math.min(Math.floor(scorePercent(sub) / 10), 9)].students++;
+  }
+  return bands;
+}
+
+// Percent correct per topic, weakest first
+export function computeTopicStats(items: ItemStat[]): TopicStat[] {
+  const byTopic = new Map<string, ItemStat[]>();
+  for (const item of items) {
+    if (item.percentCorrect === null) continue;
+    const topic = item.question.topic || "Untagged";
+    byTopic.set(topic, [...(byTopic.get(topic) || []), item]);
+  }
+  return [...byTopic.entries()]
+    .map(([topic, list]) => {
+      const responses = list.reduce((sum, i) => sum + i.responses - i.pending, 0);
+      const weighted = list.reduce((sum, i) => sum + (i.percentCorrect || 0) * (i.responses - i.pending), 0);
+      return { topic, questions: list.length, responses, percentCorrect: responses ? weighted / responses : 0 };
+    })
+    .sort((a, b) => a.percentCorrect - b.percentCorrect);
+}
+
+export function discriminationLabel(value: number | null) {
+  if (value === null) return { label: "Not enough data", className: "text-muted-foreground" };
+  if (value >= 0.3) return { label: "Good", className: "text-success" };
+  if (value >= LOW_DISCRIMINATION) return { label: "Fair", className: "text-warning" };
+  return { label: "Poor", className: "text-destructive" };
+}
@@ -0,0 +1,131 @@
+import {
+  QUESTION_TYPES, QuestionDraft, QuestionRow, QuestionType, TRUE_FALSE_OPTIONS, emptyQuestion, fromQuestionRow, validateQuestion,
+} from "@/lib/quizQuestions";
+
+// Column order of imported and exported question files
+export const QUESTION_FILE_HEADERS = ["question", "type", "options", "correct_answer", "points", "tolerance", "topic"];
+
+// Separates options, and the correct answers of multi-select questions, within one cell
+const LIST_SEPARATOR = "|";
+
+export interface ImportedQuestion {
+  rowNumber: number;
+  draft: QuestionDraft;
+  errors: string[];
+}
+
+const normalizeKey = (value: string) => value.trim().toLowerCase().replace(/[^a-z0-9]/g, "");
+
+const TYPE_ALIASES: Record<string, QuestionType> = Object.fromEntries(
+  QUESTION_TYPES.flatMap((t) => [[normalizeKey(t.value), t.value], [normalizeKey(t.label), t.value]]),
+);
+
+const splitList = (value: string) => value.split(LIST_SEPARATOR).map((v) => v.trim()).filter(Boolean);
+
+const matchOption = (options: string[], value: string) =>
+  options.find((o) => o.toLowerCase() === value.trim().toLowerCase());
+
+function parseRow(cells: Record<string, string>, rowNumber: number): ImportedQuestion {
+  const errors: string[] = [];
+  const rawType = cells.type || "mcq";
+  const type = TYPE_ALIASES[normalizeKey(rawType)];
+  if (!type) {
+    errors.push(`Unknown question type "${rawType}".`);
+  }
+
+  const draft = emptyQuestion(type || "mcq");
+  draft.question_text = cells.question || "";
+  draft.topic = cells.topic || "";
+
+  if (cells.points) {
+    const points = Number(cells.points);
+    if (!Number.isInteger(points) || points < 1) errors.push("Points must be a whole number of at least 1.");
+    else draft.points = points;
+  }
+
+  const options = splitList(cells.options || "");
+  const answer = cells.correct_answer || "";
+  switch (type) {
+    case "mcq": {
+      draft.options = options;
+      const match = matchOption(options, answer);
+      if (answer && !match) errors.push("Correct answer must be one of the options.");
+      draft.correct_answer = match || "";
+      break;
+    }
+    case "multi_select": {
+      draft.options = options;
+      const answers = splitList(answer);
+      const matched = answers.map((a) => matchOption(options, a)).filter(Boolean) as string[];
+      if (matched.length !== answers.length) errors.push("Every correct answer must be one of the options.");
+      draft.correct_answers = matched;
+      break;
+    }
+    case "true_false":
+      draft.correct_answer = matchOption(TRUE_FALSE_OPTIONS, answer) || "";
+      break;
+    case "numeric":
+      draft.correct_answer = answer;
+      if (cells.tolerance) {
+        const tolerance = Number(cells.tolerance);
+        if (isNaN(tolerance)) errors.push("Tolerance must be a number.");
+        else draft.tolerance = tolerance;
+      }
+      break;
+    case "code":
+      draft.correct_answer = answer;
+      break;
+  }
+
+  if (type) {
+    const problem = validateQuestion(draft);
+    if (problem) errors.push(problem);
+  }
+  return { rowNumber, draft, errors };
+}
+
+// Converts spreadsheet rows (header first) into question drafts with per-row errors
+export function parseQuestionFile(rows: string[][]): ImportedQuestion[] {
+  if (rows.length === 0) throw new Error("The file is empty.");
+  const header = rows[0].map(normalizeKey);
+  const columns = QUESTION_FILE_HEADERS.map((h) => header.indexOf(normalizeKey(h)));
+  if (columns[0] === -1) throw new Error(`Missing required "question" column. Expected columns: ${QUESTION_FILE_HEADERS.join(", ")}.`);
+
+  return rows.slice(1).map((row, i) => {
+    const cells = Object.fromEntries(
+      QUESTION_FILE_HEADERS.map((h, c) => [h, columns[c] === -1 ? "" : (row[columns[c]] || "").trim()]),
+    );
+    // Row numbers match what the user sees in their spreadsheet
+    return parseRow(cells, i + 2);
+  });
+}
+
+// Spreadsheet rows (header first) for stored questions, importable by parseQuestionFile
+export function questionFileRows(questions: QuestionRow[]): string[][] {
+  return [
+    QUESTION_FILE_HEADERS,
+    ...questions.map((row) => {
+      const q = fromQuestionRow(row);
+      const answer = q.question_type === "multi_select" ? q.correct_answers.join(` ${LIST_SEPARATOR} `) : q.correct_answer;
+      return [
+        q.question_text,
+        q.question_type,
+        ["mcq", "multi_select"].includes(q.question_type) ? q.options.join(` ${LIST_SEPARATOR} `) : "",
+        answer,
+        String(q.points),
+        q.question_type === "numeric" ? String(q.tolerance) : "",
+        q.topic,
+      ];
+    }),
+  ];
+}
+
+export const QUESTION_FILE_TEMPLATE: string[][] = [
+  QUESTION_FILE_HEADERS,
+  ["Which hook runs after every render by default?", "mcq", "useMemo | useEffect | useRef | useId", "useEffect", "1", "", "React"],
+  ["Which of these are JavaScript primitives?", "multi_select", "string | object | boolean | array", "string | boolean", "2", "", "JavaScript"],
+  ["HTTP is a stateless protocol.", "true_false", "", "True", "1", "", "Networking"],
+  ["What is 0.1 + 0.2, to two decimals?", "numeric", "", "0.3", "1", "0.01", "Math"],
+  ["Explain the difference between let and var.", "text", "", "", "3", "", "JavaScript"],
+  ["Write a function that reverses a string.", "code", "", "const reverse = (s) => [...s].reverse().join('');", "5", "", "JavaScript"],
+];
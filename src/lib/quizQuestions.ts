@@ -0,0 +1,139 @@
+import type { Json } from "@/integrations/supabase/types";
+
+export type QuestionType = "mcq" | "multi_select" | "true_false" | "numeric" | "text" | "code";
+
+export const QUESTION_TYPES: { value: QuestionType; label: string }[] = [
+  { value: "mcq", label: "MCQ" },
+  { value: "multi_select", label: "Multi-select" },
+  { value: "true_false", label: "True/False" },
+  { value: "numeric", label: "Numeric" },
+  { value: "text", label: "Text" },
+  { value: "code", label: "Code" },
+];
+
+export const TRUE_FALSE_OPTIONS = ["True", "False"];
+
+// Types whose answers are scored by hand in the grading queue
+export const MANUALLY_GRADED_TYPES: QuestionType[] = ["text", "code"];
+
+export interface QuestionDraft {
+  question_text: string;
+  question_type: QuestionType;
+  options: string[];
+  correct_answer: string;
+  correct_answers: string[];
+  tolerance: number;
+  points: number;
+  topic: string;
+  bank_question_id?: string | null;
+}
+
+export interface QuestionRow {
+  question_text: string;
+  question_type: string;
+  options: Json | null;
+  correct_answer: string | null;
+  tolerance: number | null;
+  points: number;
+  topic: string | null;
+}
+
+export function emptyQuestion(type: QuestionType = "mcq"): QuestionDraft {
+  return {
+    question_text: "",
+    question_type: type,
+    options: type === "true_false" ? [...TRUE_FALSE_OPTIONS] : type === "mcq" || type === "multi_select" ? ["", "", "", ""] : [],
+    correct_answer: "",
+    correct_answers: [],
+    tolerance: 0,
+    points: 1,
+    topic: "",
+  };
+}
+
+export function getQuestionTypeLabel(type: string) {
+  return QUESTION_TYPES.find((t) => t.value === type)?.label || type;
+}
+
+// Returns an error message, or null when the question can be saved
+export function validateQuestion(q: QuestionDraft): string | null {
+  if (!q.question_text.trim()) return "All questions must have text.";
+  const options = q.options.filter((o) => o.trim());
+  switch (q.question_type) {
+    case "mcq":
+      if (options.length < 2 || !q.correct_answer) return "MCQ questions need at least 2 options and a correct answer.";
+      break;
+    case "multi_select":
+      if (options.length < 2 || q.correct_answers.length === 0) return "Multi-select questions need at least 2 options and one or more correct answers.";
+      break;
+    case "true_false":
+      if (!TRUE_FALSE_OPTIONS.includes(q.correct_answer)) return "True/False questions need a correct answer.";
+      break;
+    case "numeric":
+      if (q.correct_answer.trim() === "" || isNaN(Number(q.correct_answer))) return "Numeric questions need a numeric correct answer.";
+      if (q.tolerance < 0) return "Tolerance cannot be negative.";
+      break;
+  }
+  return null;
+}
+
+// Shape stored in quiz_questions / quiz_question_bank
+export function toQuestionRow(q: QuestionDraft): QuestionRow {
+  const options = q.options.filter((o) => o.trim());
+  let correctAnswer: string | null = null;
+  switch (q.question_type) {
+    case "mcq":
+    case "true_false":
+      correctAnswer = q.correct_answer;
+      break;
+    case "multi_select":
+      correctAnswer = JSON.stringify(q.correct_answers.filter((a) => options.includes(a)));
+      break;
+    case "numeric":
+      correctAnswer = q.correct_answer.trim();
+      break;
+    case "code":
+      // Optional reference solution, only visible to graders
+      correctAnswer = q.correct_answer.trim() || null;
+      break;
+  }
+  return {
+    question_text: q.question_text.trim(),
+    question_type: q.question_type,
+    options: ["mcq", "multi_select", "true_false"].includes(q.question_type) ? options : null,
+    correct_answer: correctAnswer,
+    tolerance: q.question_type === "numeric" ? q.tolerance : null,
+    points: q.points,
+    topic: q.topic.trim() || null,
+  };
+}
+
+export function fromQuestionRow(row: QuestionRow): QuestionDraft {
+  const type = (QUESTION_TYPES.some((t) => t.value === row.question_type) ? row.question_type : "text") as QuestionType;
+  return {
+    question_text: row.question_text,
+    question_type: type,
+    options: Array.isArray(row.options) ? (row.options as string[]) : [],
+    correct_answer: type === "multi_select" ? "" : row.correct_answer || "",
+    correct_answers: type === "multi_select" ? parseMultiSelectAnswer(row.correct_answer) : [],
+    tolerance: row.tolerance ?? 0,
+    points: row.points,
+    topic: row.topic || "",
+  };
+}
+
+export function parseMultiSelectAnswer(value: string | null): string[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+}
+
+// Human-readable form of a stored answer
+export function formatAnswer(type: string, value: string | null): string {
+  if (!value) return "";
+  return type === "multi_select" ? parseMultiSelectAnswer(value).join(", ") : value;
+}
@@ -0,0 +1,95 @@
+import type { Json } from "@/integrations/supabase/types";
+
+export interface RubricLevel {
+  label: string;
+  description: string;
+  points: number;
+}
+
+export interface RubricCriterion {
+  id: string;
+  title: string;
+  levels: RubricLevel[];
+}
+
+export interface RubricScore {
+  criterion_id: string;
+  level_index: number;
+  points: number;
+}
+
+export const MAX_RUBRIC_CRITERIA = 20;
+export const MAX_RUBRIC_LEVELS = 6;
+
+export function emptyCriterion(): RubricCriterion {
+  return {
+    id: crypto.randomUUID(),
+    title: "",
+    levels: [
+      { label: "Excellent", description: "", points: 10 },
+      { label: "Good", description: "", points: 7 },
+      { label: "Needs work", description: "", points: 3 },
+    ],
+  };
+}
+
+// assignments.rubric and assignment_grades.rubric_scores are untyped jsonb
+export function parseRubric(value: Json | null | undefined): RubricCriterion[] {
+  return Array.isArray(value) ? (value as unknown as RubricCriterion[]) : [];
+}
+
+export function parseRubricScores(value: Json | null | undefined): RubricScore[] {
+  return Array.isArray(value) ? (value as unknown as RubricScore[]) : [];
+}
+
+export function criterionMaxPoints(criterion: RubricCriterion) {
+  return criterion.levels.length ? Math.max(...criterion.levels.map((l) => l.points)) : 0;
+}
+
+export function rubricMaxPoints(criteria: RubricCriterion[]) {
+  return criteria.reduce((sum, c) => sum + criterionMaxPoints(c), 0);
+}
+
+// Picked levels (criterion id -> level index) as stored scores; null until every criterion is scored
+export function toRubricScores(criteria: RubricCriterion[], picks: Record<string, number>): RubricScore[] | null {
+  const scores: RubricScore[] = [];
+  for (const c of criteria) {
+    const level = c.levels[picks[c.id]];
+    if (!level) return null;
+    scores.push({ criterion_id: c.id, level_index: picks[c.id], points: level.points });
+  }
+  return scores;
+}
+
+// Inverse of toRubricScores, for showing a saved grade
+export function rubricPicksFromScores(scores: RubricScore[]): Record<string, number> {
+  return Object.fromEntries(scores.map((s) => [s.criterion_id, s.level_index]));
+}
+
+export function rubricScoreTotal(scores: RubricScore[]) {
+  return scores.reduce((sum, s) => sum + s.points, 0);
+}
+
+// Returns an error message, or null when the rubric can be saved
+export function validateRubric(criteria: RubricCriterion[]): string | null {
+  if (criteria.length > MAX_RUBRIC_CRITERIA) return `A rubric can have at most ${MAX_RUBRIC_CRITERIA} criteria.`;
+  for (const [i, c] of criteria.entries()) {
+    const name = c.title.trim() || `Criterion ${i + 1}`;
+    if (!c.title.trim()) return `Criterion ${i + 1} needs a title.`;
+    if (c.levels.length === 0) return `"${name}" needs at least one level.`;
+    if (c.levels.length > MAX_RUBRIC_LEVELS) return `"${name}" can have at most ${MAX_RUBRIC_LEVELS} levels.`;
+    if (c.levels.some((l) => !l.label.trim())) return `Every level of "${name}" needs a label.`;
+    if (c.levels.some((l) => !Number.isFinite(l.points) || l.points < 0)) return `Points for "${name}" must be zero or more.`;
+  }
+  return null;
+}
+
+// Trimmed copy for saving; an empty rubric is stored as null
+export function toRubricColumn(criteria: RubricCriterion[]): Json | null {
+  if (criteria.length === 0) return null;
+  return criteria.map((c) => ({
+    id: c.id,
+    title: c.title.trim(),
+    levels: c.levels.map((l) => ({ label: l.label.trim(), description: l.description.trim(), points: l.points })),
+  }));
+}
@@ -0,0 +1,186 @@
+import PizZip from "pizzip";
+
+export const XLSX_MIME = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+// RFC 4180: quoted fields may contain commas, line breaks and doubled quotes
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (inQuotes) {
+      if (ch === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((v) => v.trim() !== ""));
+}
+
+export function toCsv(rows: (string | number | null | undefined)[][]): string {
+  const escape = (value: string | number | null | undefined) => {
+    const s = value === null || value === undefined ? "" : String(value);
+    return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+  };
+  return rows.map((r) => r.map(escape).join(",")).join("\r\n");
+}
+
+const columnIndex = (ref: string) => {
+  const letters = ref.replace(/[0-9]/g, "");
+  let index = 0;
+  for (const ch of letters) index = index * 26 + (ch.charCodeAt(0) - 64);
+  return index - 1;
+};
+
+const columnName = (index: number) => {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+const textOf = (el: Element) => Array.from(el.getElementsByTagName("t")).map((t) => t.textContent || "").join("");
+
+// Reads the first worksheet of an .xlsx file as rows of cell text
+export function parseXlsx(data: ArrayBuffer): string[][] {
+  const zip = new PizZip(data);
+  const xml = (path: string) => {
+    const file = zip.file(path);
+    return file ? new DOMParser().parseFromString(file.asText(), "application/xml") : null;
+  };
+
+  // Locate the first sheet through the workbook relationships
+  let sheetPath = "xl/worksheets/sheet1.xml";
+  const workbook = xml("xl/workbook.xml");
+  const rels = xml("xl/_rels/workbook.xml.rels");
+  const firstSheet = workbook?.getElementsByTagName("sheet")[0];
+  const relId = firstSheet?.getAttribute("r:id");
+  if (rels && relId) {
+    const rel = Array.from(rels.getElementsByTagName("Relationship")).find((r) => r.getAttribute("Id") === relId);
+    const target = rel?.getAttribute("Target");
+    if (target) sheetPath = target.startsWith("/") ? target.slice(1) : `xl/${target}`;
+  }
+
+  const sheet = xml(sheetPath);
+  if (!sheet) throw new Error("The workbook has no worksheet.");
+
+  const shared = xml("xl/sharedStrings.xml");
+  const sharedStrings = shared ? Array.from(shared.getElementsByTagName("si")).map(textOf) : [];
+
+  const rows: string[][] = [];
+  for (const rowEl of Array.from(sheet.getElementsByTagName("row"))) {
+    const row: string[] = [];
+    for (const cell of Array.from(rowEl.getElementsByTagName("c"))) {
+      const ref = cell.getAttribute("r");
+      const index = ref ? columnIndex(ref) : row.length;
+      const type = cell.getAttribute("t");
+      const raw = cell.getElementsByTagName("v")[0]?.textContent || "";
+      let value = raw;
+      if (type === "s") value = sharedStrings[parseInt(raw)] ?? "";
+      else if (type === "inlineStr") value = textOf(cell);
+      else if (type === "b") value = raw === "1" ? "TRUE" : "FALSE";
+      while (row.length < index) row.push("");
+      row[index] = value;
+    }
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((v) => v.trim() !== ""));
+}
+
+const escapeXml = (s: string) =>
+  s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+// Builds a single-sheet .xlsx with every cell stored as text
+export function toXlsx(rows: (string | number | null | undefined)[][], sheetName = "Sheet1"): Blob {
+  const sheetRows = rows.map((r, ri) => {
+    const cells = r.map((value, ci) => {
+      const text = value === null || value === undefined ? "" : String(value);
+      return `<c r="${columnName(ci)}${ri + 1}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(text)}</t></is></c>`;
+    });
+    return `<row r="${ri + 1}">${cells.join("")}</row>`;
+  });
+
+  const zip = new PizZip();
+  zip.file("[Content_Types].xml",
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+    + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+    + '<Default Extension="xml" ContentType="application/xml"/>'
+    + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+    + '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+    + "</Types>");
+  zip.file("_rels/.rels",
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+    + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+    + "</Relationships>");
+  zip.file("xl/workbook.xml",
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">'
+    + `<sheets><sheet name="${escapeXml(sheetName.slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets>`
+    + "</workbook>");
+  zip.file("xl/_rels/workbook.xml.rels",
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+    + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>'
+    + "</Relationships>");
+  zip.file("xl/worksheets/sheet1.xml",
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+    + `<sheetData>${sheetRows.join("")}</sheetData>`
+    + "</worksheet>");
+
+  return zip.generate({ type: "blob", mimeType: XLSX_MIME, compression: "DEFLATE" });
+}
+
+// Rows of a .csv or .xlsx file
+export async function readSpreadsheet(file: File): Promise<string[][]> {
+  const ext = file.name.split(".").pop()?.toLowerCase();
+  if (ext === "csv") return parseCsv(await file.text());
+  if (ext === "xlsx") return parseXlsx(await file.arrayBuffer());
+  throw new Error("Only .csv and .xlsx files are supported.");
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+export function downloadRows(rows: (string | number | null | undefined)[][], fileName: string, format: "csv" | "xlsx") {
+  if (format === "xlsx") {
+    downloadBlob(toXlsx(rows), `${fileName}.xlsx`);
+  } else {
+    downloadBlob(new Blob([toCsv(rows)], { type: "text/csv" }), `${fileName}.csv`);
+  }
+}
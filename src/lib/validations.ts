@@ -61,17 +61,28 @@ export const hoursSchema = z
   );
 
 // Leave request form schema
-export const leaveRequestSchema = z.object({
-  leaveDate: dateSchema,
-  leaveType: z.enum(["sick", "casual"], {
-    required_error: "Please select a leave type",
-  }),
-  reason: z
-    .string()
-    .trim()
-    .min(10, "Reason must be at least 10 characters")
-    .max(500, "Reason must be less than 500 characters"),
-});
+export const leaveRequestSchema = z
+  .object({
+    leaveDate: dateSchema,
+    endDate: dateSchema,
+    halfDay: z.enum(["first_half", "second_half"]).nullable(),
+    leaveType: z.enum(["sick", "casual"], {
+      required_error: "Please select a leave type",
+    }),
+    reason: z
+      .string()
+      .trim()
+      .min(10, "Reason must be at least 10 characters")
+      .max(500, "Reason must be less than 500 characters"),
+  })
+  .refine((val) => val.endDate >= val.leaveDate, {
+    message: "End date cannot be before the start date",
+    path: ["endDate"],
+  })
+  .refine((val) => !val.halfDay || val.endDate === val.leaveDate, {
+    message: "A half day must start and end on the same date",
+    path: ["halfDay"],
+  });
 
 // Admin query form schema
 export const adminQuerySchema = z.object({
@@ -6,7 +6,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { GraduationCap, Loader2, Eye, EyeOff, ArrowLeft, WifiOff, CheckCircle } from "lucide-react";
+import { GraduationCap, Loader2, Eye, EyeOff, ArrowLeft, WifiOff } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { z } from "zod";
 
@@ -59,10 +59,6 @@ export default function Auth() {
 
   // Forgot password state
   const [forgotEmail, setForgotEmail] = useState("");
-  const [forgotPassword, setForgotPassword] = useState("");
-  const [forgotConfirmPassword, setForgotConfirmPassword] = useState("");
-  const [forgotSent, setForgotSent] = useState(false);
-  const [showForgotPassword, setShowForgotPassword] = useState(false);
 
   useEffect(() => {
     if (!authLoading) return;
@@ -169,28 +165,20 @@ export default function Auth() {
       setErrors({ forgotEmail: "Please enter a valid email address" });
       return;
     }
-    if (!forgotPassword || forgotPassword.length < 6) {
-      setErrors({ forgotPassword: "Password must be at least 6 characters" });
-      return;
-    }
-    if (forgotPassword !== forgotConfirmPassword) {
-      setErrors({ forgotConfirmPassword: "Passwords do not match" });
-      return;
-    }
 
     setIsLoading(true);
     try {
       const { data, error } = await supabase.functions.invoke("reset-password", {
-        body: { email: forgotEmail, newPassword: forgotPassword },
+        body: { action: "request", email: forgotEmail },
       });
       if (error) throw error;
       if (data?.error) throw new Error(data.error);
 
-      setForgotSent(true);
       toast({
-        title: "Password Updated!",
-        description: "Your password has been reset successfully. You can now login.",
+        title: "Check Your Email",
+        description: "If an account exists for this email, we've sent a 6-digit reset code.",
       });
+      navigate(`/reset-password?email=${encodeURIComponent(forgotEmail.trim())}`);
     } catch (err: any) {
       console.error("Reset error:", err);
       const msg = err?.message || "";
@@ -198,7 +186,7 @@ export default function Auth() {
         title: "Reset Failed",
         description: isNetworkError(msg)
           ? "Unable to reach the server. Please switch to mobile data or use a VPN and try again."
-          : msg || "Failed to reset password.",
+          : msg || "Failed to send reset code.",
         variant: "destructive",
       });
     } finally {
@@ -243,7 +231,7 @@ export default function Auth() {
               </CardTitle>
               <CardDescription>
                 {mode === "forgot"
-                  ? "Enter your email and set a new password"
+                  ? "Enter your email and we'll send you a reset code"
                   : mode === "login"
                   ? "Sign in to access your internship portal"
                   : "Register to start your internship journey"}
@@ -253,81 +241,35 @@ export default function Auth() {
 
           <CardContent>
             {mode === "forgot" ? (
-              forgotSent ? (
-                <div className="space-y-4 text-center fade-in">
-                  <div className="mx-auto flex h-16 w-16 items-center justify-center rounded-full bg-success/10 bounce-in">
-                    <CheckCircle className="h-8 w-8 text-success" />
-                  </div>
-                  <p className="text-sm text-muted-foreground">
-                    Password for <strong>{forgotEmail}</strong> has been updated successfully!
-                  </p>
-                  <Link to="/auth?mode=login" className="inline-block w-full">
-                    <Button className="w-full">Go to Login</Button>
-                  </Link>
+              <form onSubmit={handleForgotPassword} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="forgot-email">Email</Label>
+                  <Input
+                    id="forgot-email"
+                    type="email"
+                    placeholder="you@example.com"
+                    value={forgotEmail}
+                    onChange={(e) => setForgotEmail(e.target.value)}
+                    disabled={isLoading}
+                    className={errors.forgotEmail ? "border-destructive" : ""}
+                  />
+                  {errors.forgotEmail && <p className="text-xs text-destructive">{errors.forgotEmail}</p>}
                 </div>
-              ) : (
-                <form onSubmit={handleForgotPassword} className="space-y-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="forgot-email">Email</Label>
-                    <Input
-                      id="forgot-email"
-                      type="email"
-                      placeholder="you@example.com"
-                      value={forgotEmail}
-                      onChange={(e) => setForgotEmail(e.target.value)}
-                      disabled={isLoading}
-                      className={errors.forgotEmail ? "border-destructive" : ""}
-                    />
-                    {errors.forgotEmail && <p className="text-xs text-destructive">{errors.forgotEmail}</p>}
-                  </div>
-
-                  <div className="space-y-2">
-                    <Label htmlFor="forgot-password">New Password</Label>
-                    <div className="relative">
-                      <Input
-                        id="forgot-password"
-                        type={showForgotPassword ? "text" : "password"}
-                        placeholder="********"
-                        value={forgotPassword}
-                        onChange={(e) => setForgotPassword(e.target.value)}
-                        disabled={isLoading}
-                        className={errors.forgotPassword ? "border-destructive" : ""}
-                      />
-                      <button
-                        type="button"
-                        onClick={() => setShowForgotPassword(!showForgotPassword)}
-                        className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
-                      >
-                        {showForgotPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
-                      </button>
-                    </div>
-                    {errors.forgotPassword && <p className="text-xs text-destructive">{errors.forgotPassword}</p>}
-                  </div>
 
-                  <div className="space-y-2">
-                    <Label htmlFor="forgot-confirm-password">Re-Enter New Password</Label>
-                    <Input
-                      id="forgot-confirm-password"
-                      type="password"
-                      placeholder="********"
-                      value={forgotConfirmPassword}
-                      onChange={(e) => setForgotConfirmPassword(e.target.value)}
-                      disabled={isLoading}
-                      className={errors.forgotConfirmPassword ? "border-destructive" : ""}
-                    />
-                    {errors.forgotConfirmPassword && <p className="text-xs text-destructive">{errors.forgotConfirmPassword}</p>}
-                  </div>
+                <Button type="submit" className="w-full" size="lg" disabled={isLoading}>
+                  {isLoading ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Sending...</> : "Send Reset Code"}
+                </Button>
 
-                  <Button type="submit" className="w-full" size="lg" disabled={isLoading}>
-                    {isLoading ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Updating...</> : "Reset Password"}
-                  </Button>
+                <p className="text-center text-sm text-muted-foreground">
+                  Already have a code?{" "}
+                  <Link to={`/reset-password${forgotEmail ? `?email=${encodeURIComponent(forgotEmail.trim())}` : ""}`} className="font-medium text-primary hover:underline">Enter it here</Link>
+                </p>
 
-                  <p className="text-center text-sm text-muted-foreground">
-                    Remember your password?{" "}
-                    <Link to="/auth?mode=login" className="font-medium text-primary hover:underline">Sign in</Link>
-                  </p>
-                </form>
-              )
+                <p className="text-center text-sm text-muted-foreground">
+                  Remember your password?{" "}
+                  <Link to="/auth?mode=login" className="font-medium text-primary hover:underline">Sign in</Link>
+                </p>
+              </form>
             ) : mode === "login" ? (
               <form onSubmit={handleLogin} className="space-y-4">
                 <div className="space-y-2">
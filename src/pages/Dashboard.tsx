@@ -19,6 +19,7 @@ import {
   PlayCircle,
 } from "lucide-react";
 import { filterOngoingBatches, filterCompletedBatches, Batch } from "@/lib/batchUtils";
+import { CheckInCard } from "@/components/attendance/CheckInCard";
 
 interface StudentStats {
   diaryEntries: number;
@@ -304,6 +305,8 @@ export default function Dashboard() {
             </Badge>
           </div>
 
+          <CheckInCard />
+
           {/* Stats Grid */}
           <div className="grid gap-4 grid-cols-2 lg:grid-cols-4">
             <Card className="card-3d slide-up stagger-1 overflow-hidden relative group">
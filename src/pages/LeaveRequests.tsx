@@ -3,36 +3,22 @@ import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
 import { DashboardLayout } from "@/components/layout/DashboardLayout";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
-import { Label } from "@/components/ui/label";
-import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import {
-  Dialog,
-  DialogContent,
-  DialogDescription,
-  DialogHeader,
-  DialogTitle,
-  DialogTrigger,
-} from "@/components/ui/dialog";
-import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from "@/components/ui/select";
 import { SkeletonTable } from "@/components/SkeletonCard";
-import { useToast } from "@/hooks/use-toast";
-import { Loader2, Plus, CalendarOff, Lock, Calendar, AlertCircle, CheckCircle, XCircle } from "lucide-react";
+import { Plus, CalendarOff, Lock, Calendar, AlertCircle, CheckCircle, XCircle, Paperclip } from "lucide-react";
 import { format, parseISO } from "date-fns";
-import { z } from "zod";
-import { leaveRequestSchema } from "@/lib/validations";
+import { LeaveBalanceCard } from "@/components/leave/LeaveBalanceCard";
+import { LeaveRequestDialog } from "@/components/leave/LeaveRequestDialog";
+import { LeavePolicy, computeLeaveBalances, formatDays, formatLeaveDates, resolveLeavePolicy } from "@/lib/leavePolicy";
 
 interface LeaveRequest {
   id: string;
   leave_date: string;
+  end_date: string;
+  half_day: string | null;
+  days: number;
+  attachment_path: string | null;
   leave_type: "sick" | "casual";
   reason: string;
   status: "pending" | "approved" | "rejected";
@@ -41,30 +27,28 @@ interface LeaveRequest {
 
 export default function LeaveRequests() {
   const { user, studentStatus } = useAuth();
-  const { toast } = useToast();
   const [loading, setLoading] = useState(true);
-  const [saving, setSaving] = useState(false);
   const [requests, setRequests] = useState<LeaveRequest[]>([]);
+  const [policy, setPolicy] = useState<LeavePolicy | null>(null);
   const [dialogOpen, setDialogOpen] = useState(false);
 
-  // Form state
-  const [leaveDate, setLeaveDate] = useState(format(new Date(), "yyyy-MM-dd"));
-  const [leaveType, setLeaveType] = useState<"sick" | "casual">("casual");
-  const [reason, setReason] = useState("");
-  const [errors, setErrors] = useState<Record<string, string>>({});
-
   const fetchRequests = async () => {
     if (!user) return;
 
     try {
-      const { data, error } = await supabase
-        .from("leave_requests")
-        .select("*")
-        .eq("user_id", user.id)
-        .order("created_at", { ascending: false });
-
-      if (error) throw error;
-      setRequests(data || []);
+      const [requestsRes, policiesRes, profileRes] = await Promise.all([
+        supabase
+          .from("leave_requests")
+          .select("*")
+          .eq("user_id", user.id)
+          .order("created_at", { ascending: false }),
+        supabase.from("leave_policies").select("*"),
+        supabase.from("student_profiles").select("batch_id").eq("user_id", user.id).maybeSingle(),
+      ]);
+
+      if (requestsRes.error) throw requestsRes.error;
+      setRequests(requestsRes.data || []);
+      setPolicy(resolveLeavePolicy(policiesRes.data || [], "student", profileRes.data?.batch_id));
     } catch (error) {
       console.error("Error fetching leave requests:", error);
     } finally {
@@ -76,69 +60,6 @@ export default function LeaveRequests() {
     fetchRequests();
   }, [user]);
 
-  const handleSubmit = async () => {
-    if (!user) return;
-
-    setErrors({});
-
-    // Validate form
-    try {
-      leaveRequestSchema.parse({
-        leaveDate,
-        leaveType,
-        reason,
-      });
-    } catch (error) {
-      if (error instanceof z.ZodError) {
-        const fieldErrors: Record<string, string> = {};
-        error.errors.forEach((err) => {
-          if (err.path[0]) {
-            fieldErrors[err.path[0] as string] = err.message;
-          }
-        });
-        setErrors(fieldErrors);
-        return;
-      }
-    }
-
-    setSaving(true);
-    try {
-      const { error } = await supabase.from("leave_requests").insert({
-        user_id: user.id,
-        leave_date: leaveDate,
-        leave_type: leaveType,
-        reason,
-      });
-
-      if (error) throw error;
-
-      toast({
-        title: "Success",
-        description: "Leave request submitted successfully.",
-      });
-
-      setDialogOpen(false);
-      resetForm();
-      fetchRequests();
-    } catch (error) {
-      console.error("Error submitting leave request:", error);
-      toast({
-        title: "Error",
-        description: "Failed to submit leave request.",
-        variant: "destructive",
-      });
-    } finally {
-      setSaving(false);
-    }
-  };
-
-  const resetForm = () => {
-    setLeaveDate(format(new Date(), "yyyy-MM-dd"));
-    setLeaveType("casual");
-    setReason("");
-    setErrors({});
-  };
-
   const getStatusIcon = (status: string) => {
     switch (status) {
       case "approved":
@@ -196,88 +117,10 @@ export default function LeaveRequests() {
             <p className="text-muted-foreground">Submit and track your leave requests.</p>
           </div>
 
-          <Dialog open={dialogOpen} onOpenChange={(open) => {
-            setDialogOpen(open);
-            if (!open) resetForm();
-          }}>
-            <DialogTrigger asChild>
-              <Button className="transition-smooth hover:scale-105 active-press">
-                <Plus className="mr-2 h-4 w-4" />
-                Request Leave
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="scale-in">
-              <DialogHeader>
-                <DialogTitle>New Leave Request</DialogTitle>
-                <DialogDescription>
-                  Submit a new leave request for approval.
-                </DialogDescription>
-              </DialogHeader>
-
-              <div className="space-y-4">
-                <div className="space-y-2">
-                  <Label htmlFor="leaveDate">Date *</Label>
-                  <Input
-                    id="leaveDate"
-                    type="date"
-                    value={leaveDate}
-                    onChange={(e) => setLeaveDate(e.target.value)}
-                    className={errors.leaveDate ? "border-destructive" : ""}
-                  />
-                  {errors.leaveDate && (
-                    <p className="text-xs text-destructive">{errors.leaveDate}</p>
-                  )}
-                </div>
-
-                <div className="space-y-2">
-                  <Label htmlFor="leaveType">Leave Type *</Label>
-                  <Select value={leaveType} onValueChange={(v) => setLeaveType(v as "sick" | "casual")}>
-                    <SelectTrigger className={errors.leaveType ? "border-destructive" : ""}>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="sick">Sick Leave</SelectItem>
-                      <SelectItem value="casual">Casual Leave</SelectItem>
-                    </SelectContent>
-                  </Select>
-                  {errors.leaveType && (
-                    <p className="text-xs text-destructive">{errors.leaveType}</p>
-                  )}
-                </div>
-
-                <div className="space-y-2">
-                  <Label htmlFor="reason">Reason * (min 10 characters)</Label>
-                  <Textarea
-                    id="reason"
-                    placeholder="Please provide a detailed reason for your leave..."
-                    value={reason}
-                    onChange={(e) => setReason(e.target.value)}
-                    rows={4}
-                    className={errors.reason ? "border-destructive" : ""}
-                  />
-                  {errors.reason && (
-                    <p className="text-xs text-destructive">{errors.reason}</p>
-                  )}
-                </div>
-
-                <div className="flex justify-end gap-3">
-                  <Button variant="outline" onClick={() => setDialogOpen(false)}>
-                    Cancel
-                  </Button>
-                  <Button onClick={handleSubmit} disabled={saving}>
-                    {saving ? (
-                      <>
-                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                        Submitting...
-                      </>
-                    ) : (
-                      "Submit Request"
-                    )}
-                  </Button>
-                </div>
-              </div>
-            </DialogContent>
-          </Dialog>
+          <Button onClick={() => setDialogOpen(true)} className="transition-smooth hover:scale-105 active-press">
+            <Plus className="mr-2 h-4 w-4" />
+            Request Leave
+          </Button>
         </div>
 
         {/* Stats */}
@@ -319,6 +162,8 @@ export default function LeaveRequests() {
           </Card>
         </div>
 
+        <LeaveBalanceCard policy={policy} balances={computeLeaveBalances(policy, requests, format(new Date(), "yyyy-MM-dd"))} />
+
         {/* Requests List */}
         {requests.length === 0 ? (
           <Card className="fade-in">
@@ -348,11 +193,15 @@ export default function LeaveRequests() {
                         <div className="flex items-center gap-2">
                           <Calendar className="h-4 w-4 text-muted-foreground" />
                           <span className="font-medium">
-                            {format(parseISO(request.leave_date), "EEEE, MMM d, yyyy")}
+                            {request.end_date === request.leave_date && !request.half_day
+                              ? format(parseISO(request.leave_date), "EEEE, MMM d, yyyy")
+                              : formatLeaveDates(request)}
                           </span>
                           <Badge variant="outline" className="capitalize">
                             {request.leave_type}
                           </Badge>
+                          <Badge variant="outline" className="text-muted-foreground">{formatDays(request.days)}</Badge>
+                          {request.attachment_path && <Paperclip className="h-3 w-3 text-muted-foreground" />}
                         </div>
                         <p className="text-sm text-muted-foreground">{request.reason}</p>
                         <p className="text-xs text-muted-foreground">
@@ -368,6 +217,8 @@ export default function LeaveRequests() {
           </div>
         )}
       </div>
+
+      <LeaveRequestDialog open={dialogOpen} onOpenChange={setDialogOpen} policy={policy} requests={requests} onSubmitted={fetchRequests} />
     </DashboardLayout>
   );
 }
@@ -17,6 +17,8 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { SkeletonProfile } from "@/components/SkeletonCard";
+import { CalendarFeedCard } from "@/components/calendar/CalendarFeedCard";
+import { EmailPreferencesCard } from "@/components/notifications/EmailPreferencesCard";
 import { useToast } from "@/hooks/use-toast";
 import { Loader2, Upload, Save, User, Lock } from "lucide-react";
 import { z } from "zod";
@@ -648,6 +650,10 @@ export default function Profile() {
             </CardContent>
           </Card>
         </div>
+
+        <EmailPreferencesCard />
+
+        <CalendarFeedCard />
       </div>
     </DashboardLayout>
   );
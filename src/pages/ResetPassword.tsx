@@ -1,5 +1,5 @@
-import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useState } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -7,50 +7,57 @@ import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { GraduationCap, Loader2, Eye, EyeOff, CheckCircle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { z } from "zod";
 
 export default function ResetPassword() {
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const { toast } = useToast();
+  const [email, setEmail] = useState(searchParams.get("email") || "");
+  const [code, setCode] = useState("");
   const [password, setPassword] = useState("");
   const [confirmPassword, setConfirmPassword] = useState("");
   const [showPassword, setShowPassword] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [resending, setResending] = useState(false);
   const [success, setSuccess] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
-  const [isRecovery, setIsRecovery] = useState(false);
-  const [checking, setChecking] = useState(true); // ✅ prevent flash of "invalid link"
 
-  useEffect(() => {
-    // Check URL hash immediately
-    const hash = window.location.hash;
-    if (hash.includes("type=recovery")) {
-      setIsRecovery(true);
-      setChecking(false);
+  const handleResend = async () => {
+    setErrors({});
+    if (!z.string().email().safeParse(email.trim()).success) {
+      setErrors({ email: "Please enter a valid email address" });
+      return;
     }
 
-    // Check if there's already an active session (token already exchanged)
-    supabase.auth.getSession().then(({ data: { session } }) => {
-      if (session) {
-        setIsRecovery(true);
-      }
-      setChecking(false);
-    });
-
-    // Listen for auth events — catches PASSWORD_RECOVERY even if fired before mount
-    const { data: { subscription } } = supabase.auth.onAuthStateChange((event) => {
-      if (event === "PASSWORD_RECOVERY" || event === "SIGNED_IN") {
-        setIsRecovery(true);
-        setChecking(false);
-      }
-    });
-
-    return () => subscription.unsubscribe();
-  }, []);
+    setResending(true);
+    try {
+      const { data, error } = await supabase.functions.invoke("reset-password", {
+        body: { action: "request", email: email.trim() },
+      });
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+      toast({ title: "Code Sent", description: "If an account exists for this email, a new code is on its way." });
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : "";
+      toast({ title: "Request Failed", description: message || "Failed to send a new code.", variant: "destructive" });
+    } finally {
+      setResending(false);
+    }
+  };
 
   const handleReset = async (e: React.FormEvent) => {
     e.preventDefault();
     setErrors({});
 
+    if (!z.string().email().safeParse(email.trim()).success) {
+      setErrors({ email: "Please enter a valid email address" });
+      return;
+    }
+    if (!/^[0-9]{6}$/.test(code.trim())) {
+      setErrors({ code: "Enter the 6-digit code from your email" });
+      return;
+    }
     if (password.length < 6) {
       setErrors({ password: "Password must be at least 6 characters" });
       return;
@@ -62,43 +69,23 @@ export default function ResetPassword() {
 
     setIsLoading(true);
     try {
-      const { error } = await supabase.auth.updateUser({ password });
+      const { data, error } = await supabase.functions.invoke("reset-password", {
+        body: { action: "confirm", email: email.trim(), code: code.trim(), newPassword: password },
+      });
       if (error) throw error;
+      if (data?.error) throw new Error(data.error);
 
       setSuccess(true);
       toast({ title: "Password Updated", description: "You can now sign in with your new password." });
-
-      await supabase.auth.signOut();
       setTimeout(() => navigate("/auth?mode=login"), 2000);
-    } catch (err: any) {
-      toast({ title: "Update Failed", description: err.message || "Failed to update password.", variant: "destructive" });
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : "";
+      toast({ title: "Update Failed", description: message || "Invalid or expired reset code.", variant: "destructive" });
     } finally {
       setIsLoading(false);
     }
   };
 
-  // ✅ Show nothing while we check session — avoids flash of "invalid link"
-  if (checking) {
-    return (
-      <div className="flex min-h-screen items-center justify-center bg-gradient-to-br from-background via-background to-primary/5">
-        <Loader2 className="h-8 w-8 animate-spin text-primary" />
-      </div>
-    );
-  }
-
-  if (!isRecovery && !success) {
-    return (
-      <div className="flex min-h-screen items-center justify-center bg-gradient-to-br from-background via-background to-primary/5">
-        <Card className="w-full max-w-md border-0 shadow-elevated">
-          <CardContent className="pt-6 text-center">
-            <p className="text-muted-foreground">Invalid or expired reset link. Please request a new one.</p>
-            <Button className="mt-4" onClick={() => navigate("/auth?mode=forgot")}>Request New Link</Button>
-          </CardContent>
-        </Card>
-      </div>
-    );
-  }
-
   return (
     <div className="flex min-h-screen items-center justify-center bg-gradient-to-br from-background via-background to-primary/5">
       <Card className="w-full max-w-md border-0 shadow-elevated animate-scale-in">
@@ -108,13 +95,47 @@ export default function ResetPassword() {
           </div>
           <div>
             <CardTitle className="text-2xl font-bold">{success ? "Password Updated!" : "Set New Password"}</CardTitle>
-            <CardDescription>{success ? "Redirecting you to login..." : "Enter your new password below"}</CardDescription>
+            <CardDescription>{success ? "Redirecting you to login..." : "Enter the code we emailed you and choose a new password"}</CardDescription>
           </div>
         </CardHeader>
 
         {!success && (
           <CardContent>
             <form onSubmit={handleReset} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="reset-email">Email</Label>
+                <Input
+                  id="reset-email"
+                  type="email"
+                  placeholder="you@example.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  disabled={isLoading}
+                  className={errors.email ? "border-destructive" : ""}
+                />
+                {errors.email && <p className="text-xs text-destructive">{errors.email}</p>}
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="reset-code">Reset Code</Label>
+                  <button type="button" onClick={handleResend} disabled={resending || isLoading} className="text-xs text-primary hover:underline disabled:opacity-50">
+                    {resending ? "Sending..." : "Resend code"}
+                  </button>
+                </div>
+                <Input
+                  id="reset-code"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  placeholder="123456"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value.replace(/\D/g, "").slice(0, 6))}
+                  disabled={isLoading}
+                  className={errors.code ? "border-destructive" : ""}
+                />
+                {errors.code && <p className="text-xs text-destructive">{errors.code}</p>}
+              </div>
+
               <div className="space-y-2">
                 <Label htmlFor="new-password">New Password</Label>
                 <div className="relative">
@@ -151,6 +172,11 @@ export default function ResetPassword() {
               <Button type="submit" className="w-full" size="lg" disabled={isLoading}>
                 {isLoading ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Updating...</> : "Update Password"}
               </Button>
+
+              <p className="text-center text-sm text-muted-foreground">
+                Remember your password?{" "}
+                <Link to="/auth?mode=login" className="font-medium text-primary hover:underline">Sign in</Link>
+              </p>
             </form>
           </CardContent>
         )}
@@ -19,6 +19,10 @@ import { SkeletonTable } from "@/components/SkeletonCard";
 import { useToast } from "@/hooks/use-toast";
 import { ClipboardList, Upload, Lock, FileText, ExternalLink, Loader2, CheckCircle, Link2, Type, Image, Trash2, Award } from "lucide-react";
 import { format } from "date-fns";
+import { RubricTable } from "@/components/assignments/RubricTable";
+import { RubricScore, parseRubric, parseRubricScores, rubricMaxPoints, rubricPicksFromScores } from "@/lib/rubric";
+import type { Json } from "@/integrations/supabase/types";
+import { assignmentDueAt, describeLatePolicy, submissionsCloseAt } from "@/lib/latePolicy";
 
 interface Assignment {
   id: string;
@@ -29,7 +33,21 @@ interface Assignment {
   links: string | null;
   start_date: string;
   deadline: string;
+  deadline_time: string | null;
   created_at: string;
+  rubric: Json | null;
+  grace_minutes: number;
+  late_penalty_percent: number;
+  late_cutoff_days: number | null;
+}
+
+interface Grade {
+  grade_attained: number;
+  total_grade: number;
+  comments: string | null;
+  rubric_scores: RubricScore[];
+  raw_grade: number | null;
+  late_penalty: number;
 }
 
 interface Submission {
@@ -40,6 +58,7 @@ interface Submission {
   submitted_at: string;
   text_content: string | null;
   submission_type: string | null;
+  late_days: number;
 }
 
 export default function StudentAssignments() {
@@ -48,7 +67,9 @@ export default function StudentAssignments() {
   const [loading, setLoading] = useState(true);
   const [assignments, setAssignments] = useState<Assignment[]>([]);
   const [submissions, setSubmissions] = useState<Submission[]>([]);
-  const [grades, setGrades] = useState<Record<string, { grade_attained: number; total_grade: number; comments: string | null }>>({});
+  const [grades, setGrades] = useState<Record<string, Grade>>({});
+  // Assignment id -> this student's extended deadline
+  const [extensions, setExtensions] = useState<Record<string, string>>({});
   const [selectedAssignment, setSelectedAssignment] = useState<Assignment | null>(null);
   const [dialogOpen, setDialogOpen] = useState(false);
   const [uploading, setUploading] = useState(false);
@@ -85,12 +106,18 @@ export default function StudentAssignments() {
             .eq("student_id", user.id)
             .in("assignment_id", assignmentIds);
 
-          const gradesMap: Record<string, { grade_attained: number; total_grade: number; comments: string | null }> = {};
-          (gradesData || []).forEach((g: any) => {
-            gradesMap[g.assignment_id] = { grade_attained: g.grade_attained, total_grade: g.total_grade, comments: g.comments };
+          const gradesMap: Record<string, Grade> = {};
+          (gradesData || []).forEach((g) => {
+            gradesMap[g.assignment_id] = { grade_attained: g.grade_attained, total_grade: g.total_grade, comments: g.comments, rubric_scores: parseRubricScores(g.rubric_scores), raw_grade: g.raw_grade, late_penalty: g.late_penalty };
           });
           setGrades(gradesMap);
         }
+
+        const { data: extensionsData } = await supabase
+          .from("assignment_extensions")
+          .select("assignment_id, extended_deadline")
+          .eq("student_id", user.id);
+        setExtensions(Object.fromEntries((extensionsData || []).map((e) => [e.assignment_id, e.extended_deadline])));
       } catch (error) {
         console.error("Error fetching assignments:", error);
       } finally {
@@ -103,15 +130,15 @@ export default function StudentAssignments() {
   const getSubmissions = (assignmentId: string) =>
     submissions.filter((s) => s.assignment_id === assignmentId);
 
-  const isDeadlinePassed = (deadline: string, deadlineTime?: string | null) => {
-    const dl = new Date(deadline);
-    if (deadlineTime) {
-      const [hours, minutes] = deadlineTime.split(":").map(Number);
-      dl.setHours(hours, minutes, 59, 999);
-    } else {
-      dl.setHours(23, 59, 59, 999);
-    }
-    return dl < new Date();
+  const getDueAt = (assignment: Assignment) =>
+    assignmentDueAt(assignment.deadline, assignment.deadline_time, extensions[assignment.id]);
+
+  const isDeadlinePassed = (assignment: Assignment) => getDueAt(assignment) < new Date();
+
+  // Late submissions are accepted until the assignment's cutoff
+  const isSubmissionClosed = (assignment: Assignment) => {
+    const closesAt = submissionsCloseAt(getDueAt(assignment), assignment);
+    return closesAt !== null && closesAt < new Date();
   };
 
   const refreshSubmissions = async () => {
@@ -268,7 +295,8 @@ export default function StudentAssignments() {
           <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
             {assignments.map((assignment) => {
               const subs = getSubmissions(assignment.id);
-              const deadlinePassed = isDeadlinePassed(assignment.deadline, (assignment as any).deadline_time);
+              const deadlinePassed = isDeadlinePassed(assignment);
+              const closed = isSubmissionClosed(assignment);
               return (
                 <Card
                   key={assignment.id}
@@ -280,8 +308,10 @@ export default function StudentAssignments() {
                       <Badge variant="outline">#{assignment.assignment_number}</Badge>
                       {subs.length > 0 ? (
                         <Badge className="bg-success/10 text-success">Submitted ({subs.length})</Badge>
-                      ) : deadlinePassed ? (
+                      ) : closed ? (
                         <Badge variant="destructive">Missed</Badge>
+                      ) : deadlinePassed ? (
+                        <Badge className="bg-destructive/10 text-destructive">Overdue</Badge>
                       ) : (
                         <Badge className="bg-warning/10 text-warning">Pending</Badge>
                       )}
@@ -291,6 +321,9 @@ export default function StudentAssignments() {
                   <CardContent className="space-y-2 text-sm text-muted-foreground">
                     <p>Start: {format(new Date(assignment.start_date), "MMM dd, yyyy")}</p>
                     <p>Deadline: {format(new Date(assignment.deadline), "MMM dd, yyyy")}{(assignment as any).deadline_time ? ` at ${(assignment as any).deadline_time}` : ""}</p>
+                    {extensions[assignment.id] && (
+                      <p className="text-primary">Extended to {format(new Date(extensions[assignment.id]), "MMM dd, yyyy HH:mm")}</p>
+                    )}
                     {grades[assignment.id] && (
                       <div className="flex items-center gap-1 text-primary font-medium">
                         <Award className="h-3 w-3" />
@@ -328,8 +361,12 @@ export default function StudentAssignments() {
                   <div className="rounded-lg bg-muted/50 p-3">
                     <p className="text-muted-foreground">Deadline</p>
                     <p className="font-medium">{format(new Date(selectedAssignment.deadline), "MMM dd, yyyy")}{(selectedAssignment as any).deadline_time ? ` at ${(selectedAssignment as any).deadline_time}` : ""}</p>
+                    {extensions[selectedAssignment.id] && (
+                      <p className="text-xs text-primary">Extended to {format(new Date(extensions[selectedAssignment.id]), "MMM dd, yyyy HH:mm")}</p>
+                    )}
                   </div>
                   </div>
+                <p className="text-xs text-muted-foreground">Late policy: {describeLatePolicy(selectedAssignment)}</p>
 
                 {/* Grade display */}
                 {grades[selectedAssignment.id] && (
@@ -338,9 +375,30 @@ export default function StudentAssignments() {
                       <Award className="h-5 w-5 text-primary" />
                       <p className="font-semibold text-primary">Grade: {grades[selectedAssignment.id].grade_attained} / {grades[selectedAssignment.id].total_grade}</p>
                     </div>
+                    {grades[selectedAssignment.id].late_penalty > 0 && (
+                      <p className="text-sm text-muted-foreground">
+                        Awarded {grades[selectedAssignment.id].raw_grade}, with {grades[selectedAssignment.id].late_penalty} deducted for late submission.
+                      </p>
+                    )}
                     {grades[selectedAssignment.id].comments && (
                       <p className="text-sm text-muted-foreground">💬 {grades[selectedAssignment.id].comments}</p>
                     )}
+                    {grades[selectedAssignment.id].rubric_scores.length > 0 && (
+                      <div className="mt-3">
+                        <RubricTable
+                          criteria={parseRubric(selectedAssignment.rubric)}
+                          selected={rubricPicksFromScores(grades[selectedAssignment.id].rubric_scores)}
+                        />
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {/* Rubric students are graded against, until it is filled in */}
+                {!grades[selectedAssignment.id]?.rubric_scores.length && parseRubric(selectedAssignment.rubric).length > 0 && (
+                  <div className="space-y-2">
+                    <p className="text-sm font-medium">Grading Rubric ({rubricMaxPoints(parseRubric(selectedAssignment.rubric))} points)</p>
+                    <RubricTable criteria={parseRubric(selectedAssignment.rubric)} />
                   </div>
                 )}
 
@@ -388,6 +446,7 @@ export default function StudentAssignments() {
                                 <CheckCircle className="h-4 w-4" />
                                 <Badge variant="outline" className="text-xs">{sub.submission_type || "file"}</Badge>
                                 <span className="text-xs font-medium">{sub.file_name}</span>
+                                {sub.late_days > 0 && <Badge variant="outline" className="text-xs text-destructive">Late {sub.late_days}d</Badge>}
                               </div>
                               <p className="text-xs text-muted-foreground">
                                 {format(new Date(sub.submitted_at), "MMM dd, yyyy HH:mm")}
@@ -408,13 +467,19 @@ export default function StudentAssignments() {
                 })()}
 
                 {/* Submission area */}
-                {isDeadlinePassed(selectedAssignment.deadline, (selectedAssignment as any).deadline_time) ? (
+                {isSubmissionClosed(selectedAssignment) ? (
                   <div className="rounded-lg border border-destructive/30 bg-destructive/5 p-4">
                     <p className="text-sm text-destructive font-medium">Deadline has passed. Submission closed.</p>
                   </div>
                 ) : (
                   <div className="space-y-4 border-t pt-4">
                     <p className="text-sm font-medium">Add Submission</p>
+                    {isDeadlinePassed(selectedAssignment) && (
+                      <p className="rounded-lg bg-warning/10 p-3 text-xs text-warning">
+                        The deadline has passed. New submissions will be marked late
+                        {selectedAssignment.late_penalty_percent > 0 ? ` and lose ${selectedAssignment.late_penalty_percent}% of the grade per day` : ""}.
+                      </p>
+                    )}
                     
                     {/* File upload */}
                     <div className="space-y-1">
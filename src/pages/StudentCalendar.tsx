@@ -5,9 +5,13 @@ import { DashboardLayout } from "@/components/layout/DashboardLayout";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { SkeletonTable } from "@/components/SkeletonCard";
 import { Calendar, FileText, Lock, Download } from "lucide-react";
 import { format } from "date-fns";
+import { EventCalendar } from "@/components/calendar/EventCalendar";
+import { OccurrenceDetailsDialog } from "@/components/calendar/OccurrenceDetailsDialog";
+import { CalendarEventRow, CalendarOccurrence, deadlineOccurrence } from "@/lib/calendarEvents";
 
 interface CalendarItem {
   id: string;
@@ -20,16 +24,27 @@ export default function StudentCalendar() {
   const { user, studentStatus } = useAuth();
   const [loading, setLoading] = useState(true);
   const [calendars, setCalendars] = useState<CalendarItem[]>([]);
+  const [events, setEvents] = useState<CalendarEventRow[]>([]);
+  const [deadlines, setDeadlines] = useState<CalendarOccurrence[]>([]);
+  const [selected, setSelected] = useState<CalendarOccurrence | null>(null);
 
   useEffect(() => {
     const fetchCalendars = async () => {
       if (!user) return;
       try {
-        const { data } = await supabase
-          .from("calendars")
-          .select("id, title, pdf_url, created_at")
-          .order("created_at", { ascending: false });
+        // Row-level security limits all of these to the student's batch
+        const [{ data }, { data: eventsData }, { data: assignmentsData }, { data: quizzesData }] = await Promise.all([
+          supabase.from("calendars").select("id, title, pdf_url, created_at").order("created_at", { ascending: false }),
+          supabase.from("calendar_events").select("*").order("starts_at"),
+          supabase.from("assignments").select("id, batch_id, title, deadline, deadline_time, description"),
+          supabase.from("quizzes").select("id, batch_id, title, deadline, deadline_time, description"),
+        ]);
         setCalendars(data || []);
+        setEvents(eventsData || []);
+        setDeadlines([
+          ...(assignmentsData || []).map((a) => deadlineOccurrence("assignment", a)),
+          ...(quizzesData || []).map((q) => deadlineOccurrence("quiz", q)),
+        ]);
       } catch (error) {
         console.error("Error:", error);
       } finally {
@@ -84,43 +99,62 @@ export default function StudentCalendar() {
       <div className="space-y-6">
         <div className="fade-in">
           <h1 className="text-2xl font-bold md:text-3xl">Working Calendar</h1>
-          <p className="text-muted-foreground">View your batch working calendar.</p>
+          <p className="text-muted-foreground">Sessions, holidays, reviews and deadlines for your batch.</p>
         </div>
 
-        {calendars.length === 0 ? (
-          <Card>
-            <CardContent className="flex flex-col items-center justify-center py-12">
-              <Calendar className="mb-4 h-12 w-12 text-muted-foreground" />
-              <h3 className="text-lg font-semibold">No calendar available</h3>
-              <p className="text-muted-foreground">Your working calendar will appear here once uploaded.</p>
-            </CardContent>
-          </Card>
-        ) : (
-          <div className="grid gap-4 sm:grid-cols-2">
-            {calendars.map(cal => (
-              <Card key={cal.id} className="transition-all hover:shadow-md">
-                <CardHeader className="pb-3">
-                  <CardTitle className="flex items-center gap-2 text-base">
-                    <Calendar className="h-5 w-5 text-primary" />
-                    {cal.title}
-                  </CardTitle>
-                  <p className="text-xs text-muted-foreground">
-                    Updated: {format(new Date(cal.created_at), "MMM dd, yyyy")}
-                  </p>
-                </CardHeader>
-                <CardContent className="flex gap-2">
-                  <Button variant="outline" size="sm" className="flex-1" onClick={() => handleViewPdf(cal.pdf_url, cal.title)}>
-                    <FileText className="mr-2 h-4 w-4" /> View PDF
-                  </Button>
-                  <Button variant="outline" size="sm" onClick={() => handleDownloadPdf(cal.pdf_url, cal.title)}>
-                    <Download className="h-4 w-4" />
-                  </Button>
+        <Tabs defaultValue="events" className="space-y-4">
+          <TabsList>
+            <TabsTrigger value="events">Events</TabsTrigger>
+            <TabsTrigger value="pdf">PDF Calendars ({calendars.length})</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="events">
+            <Card>
+              <CardContent className="pt-6">
+                <EventCalendar events={events} deadlines={deadlines} onSelect={setSelected} />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="pdf">
+            {calendars.length === 0 ? (
+              <Card>
+                <CardContent className="flex flex-col items-center justify-center py-12">
+                  <Calendar className="mb-4 h-12 w-12 text-muted-foreground" />
+                  <h3 className="text-lg font-semibold">No calendar available</h3>
+                  <p className="text-muted-foreground">Your working calendar will appear here once uploaded.</p>
                 </CardContent>
               </Card>
-            ))}
-          </div>
-        )}
+            ) : (
+              <div className="grid gap-4 sm:grid-cols-2">
+                {calendars.map(cal => (
+                  <Card key={cal.id} className="transition-all hover:shadow-md">
+                    <CardHeader className="pb-3">
+                      <CardTitle className="flex items-center gap-2 text-base">
+                        <Calendar className="h-5 w-5 text-primary" />
+                        {cal.title}
+                      </CardTitle>
+                      <p className="text-xs text-muted-foreground">
+                        Updated: {format(new Date(cal.created_at), "MMM dd, yyyy")}
+                      </p>
+                    </CardHeader>
+                    <CardContent className="flex gap-2">
+                      <Button variant="outline" size="sm" className="flex-1" onClick={() => handleViewPdf(cal.pdf_url, cal.title)}>
+                        <FileText className="mr-2 h-4 w-4" /> View PDF
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => handleDownloadPdf(cal.pdf_url, cal.title)}>
+                        <Download className="h-4 w-4" />
+                      </Button>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
       </div>
+
+      <OccurrenceDetailsDialog occurrence={selected} onOpenChange={(open) => { if (!open) setSelected(null); }} />
     </DashboardLayout>
   );
 }
@@ -5,8 +5,9 @@ import { DashboardLayout } from "@/components/layout/DashboardLayout";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { SkeletonTable } from "@/components/SkeletonCard";
-import { TrendingUp, BookOpen, FolderKanban, ClipboardList, CheckCircle, XCircle, Clock, AlertTriangle, BarChart3 } from "lucide-react";
+import { TrendingUp, BookOpen, FolderKanban, ClipboardList, CheckCircle, XCircle, Clock, AlertTriangle, BarChart3, ClipboardCheck } from "lucide-react";
 import { format, parseISO, subDays, eachDayOfInterval, differenceInDays } from "date-fns";
+import { AttendanceSummary, ATTENDANCE_STATUSES, DEFAULT_MIN_ATTENDANCE, formatAttendance, isBelowThreshold, summarizeAttendance } from "@/lib/attendance";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LineChart, Line, PieChart, Pie, Cell } from "recharts";
 
 interface DiaryEntry {
@@ -25,6 +26,8 @@ export default function StudentProgress() {
   const [projectCount, setProjectCount] = useState(0);
   const [assignmentStats, setAssignmentStats] = useState({ total: 0, submitted: 0 });
   const [missedDays, setMissedDays] = useState<string[]>([]);
+  const [attendance, setAttendance] = useState<AttendanceSummary>(summarizeAttendance([]));
+  const [minAttendance, setMinAttendance] = useState(DEFAULT_MIN_ATTENDANCE);
 
   useEffect(() => {
     if (user && role === "student" && studentStatus === "approved") fetchData();
@@ -33,14 +36,17 @@ export default function StudentProgress() {
   const fetchData = async () => {
     if (!user) return;
     try {
-      const [diariesRes, projectsRes, studentProfileRes] = await Promise.all([
+      const [diariesRes, projectsRes, studentProfileRes, attendanceRes] = await Promise.all([
         supabase.from("internship_diary").select("id, entry_date, week_number, hours_worked, title, created_at").eq("user_id", user.id).order("entry_date", { ascending: false }),
         supabase.from("project_members").select("id", { count: "exact", head: true }).eq("user_id", user.id),
-        supabase.from("student_profiles").select("batch_id").eq("user_id", user.id).maybeSingle(),
+        supabase.from("student_profiles").select("batch_id, batches(min_attendance_percent)").eq("user_id", user.id).maybeSingle(),
+        supabase.from("attendance_records").select("status").eq("student_id", user.id),
       ]);
 
       setDiaryEntries(diariesRes.data || []);
       setProjectCount(projectsRes.count || 0);
+      setAttendance(summarizeAttendance((attendanceRes.data || []).map(r => r.status)));
+      setMinAttendance(studentProfileRes.data?.batches?.min_attendance_percent ?? DEFAULT_MIN_ATTENDANCE);
 
       // Fetch assignment stats
       if (studentProfileRes.data?.batch_id) {
@@ -161,6 +167,27 @@ export default function StudentProgress() {
           </Card>
         </div>
 
+        {/* Attendance */}
+        <Card className={isBelowThreshold(attendance.percent, minAttendance) ? "border-destructive/30 bg-destructive/5" : undefined}>
+          <CardContent className="flex flex-col gap-4 pt-6 sm:flex-row sm:items-center sm:justify-between">
+            <div className="flex items-center gap-4">
+              <div className="flex h-12 w-12 items-center justify-center rounded-xl bg-primary/10"><ClipboardCheck className="h-6 w-6 text-primary" /></div>
+              <div>
+                <p className="text-2xl font-bold">{formatAttendance(attendance.percent)}</p>
+                <p className="text-sm text-muted-foreground">
+                  Attendance · minimum {minAttendance}%
+                  {isBelowThreshold(attendance.percent, minAttendance) && <span className="font-medium text-destructive"> · below the required minimum</span>}
+                </p>
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {ATTENDANCE_STATUSES.map(st => (
+                <Badge key={st.value} variant="outline" className={st.className}>{st.label}: {attendance[st.value]}</Badge>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+
         {/* Charts */}
         <div className="grid gap-6 lg:grid-cols-2">
           <Card>
@@ -1,4 +1,4 @@
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
 import { DashboardLayout } from "@/components/layout/DashboardLayout";
@@ -9,11 +9,13 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { SkeletonTable } from "@/components/SkeletonCard";
 import { useToast } from "@/hooks/use-toast";
-import { Lock, FileQuestion, CheckCircle, Clock, Loader2, Award } from "lucide-react";
+import { Lock, FileQuestion, CheckCircle, Clock, Loader2, Award, Timer, CloudOff } from "lucide-react";
 import { format } from "date-fns";
+import { TRUE_FALSE_OPTIONS, formatAnswer, parseMultiSelectAnswer } from "@/lib/quizQuestions";
 
 interface Quiz {
   id: string;
@@ -21,6 +23,8 @@ interface Quiz {
   description: string | null;
   deadline: string;
   deadline_time: string | null;
+  max_attempts: number;
+  duration_minutes: number | null;
   created_at: string;
 }
 
@@ -36,12 +40,47 @@ interface Question {
 interface QuizSubmission {
   id: string;
   quiz_id: string;
+  attempt_number: number;
   score: number | null;
   total_points: number | null;
   is_graded: boolean;
   submitted_at: string;
 }
 
+interface QuizAttempt {
+  quiz_id: string;
+  expires_at: string;
+  answers: Record<string, string>;
+}
+
+interface AttemptStart {
+  expires_at: string;
+  answers: Record<string, string>;
+  updated_at: string;
+  server_now: string;
+}
+
+interface LocalDraft {
+  answers: Record<string, string>;
+  savedAt: string;
+}
+
+interface QuizAnswer {
+  id: string;
+  question_id: string;
+  answer_text: string | null;
+  is_correct: boolean | null;
+  points_awarded: number | null;
+  feedback: string | null;
+  graded_at: string | null;
+}
+
+// Failed draft saves are retried after 5, 10, 20, 40 and 80 seconds
+const DRAFT_RETRY_MS = 5000;
+const MAX_DRAFT_RETRIES = 5;
+
+const draftKey = (userId: string | undefined, quizId: string) => `quiz-draft-${userId}-${quizId}`;
+
 export default function StudentQuizzes() {
   const { user, studentStatus } = useAuth();
   const { toast } = useToast();
@@ -53,17 +92,45 @@ export default function StudentQuizzes() {
   const [answers, setAnswers] = useState<Record<string, string>>({});
   const [dialogOpen, setDialogOpen] = useState(false);
   const [submitting, setSubmitting] = useState(false);
+  const [resultsOpen, setResultsOpen] = useState(false);
+  const [resultsSubmission, setResultsSubmission] = useState<QuizSubmission | null>(null);
+  const [resultAnswers, setResultAnswers] = useState<QuizAnswer[]>([]);
+  const [attempts, setAttempts] = useState<QuizAttempt[]>([]);
+  const [expiresAt, setExpiresAt] = useState<number | null>(null);
+  const [timeLeft, setTimeLeft] = useState<number | null>(null);
+  const [saveState, setSaveState] = useState<"saving" | "saved" | "error" | null>(null);
+  const [retryTick, setRetryTick] = useState(0);
+  const draftLoaded = useRef(false);
+  const autoSubmitted = useRef(false);
+  const draftRetries = useRef(0);
+
+  const fetchSubmissions = useCallback(async () => {
+    if (!user) return;
+    const [{ data: subsData }, { data: attemptsData }] = await Promise.all([
+      supabase.from("quiz_submissions").select("*").eq("student_id", user.id).order("attempt_number", { ascending: false }),
+      supabase.from("quiz_attempts").select("quiz_id, expires_at, answers").eq("student_id", user.id),
+    ]);
+    setSubmissions((subsData || []) as QuizSubmission[]);
+    setAttempts((attemptsData || []) as QuizAttempt[]);
+    return (attemptsData || []) as QuizAttempt[];
+  }, [user]);
 
   useEffect(() => {
     const fetchData = async () => {
       if (!user) return;
       try {
-        const [{ data: quizzesData }, { data: subsData }] = await Promise.all([
-          supabase.from("quizzes").select("*").order("created_at", { ascending: false }),
-          supabase.from("quiz_submissions").select("*").eq("student_id", user.id),
-        ]);
+        const { data: quizzesData } = await supabase.from("quizzes").select("*").order("created_at", { ascending: false });
         setQuizzes((quizzesData || []) as Quiz[]);
-        setSubmissions((subsData || []) as QuizSubmission[]);
+        const inProgress = await fetchSubmissions();
+
+        // Attempts whose time ran out while the page was closed are submitted by the server with their saved draft
+        const expired = (inProgress || []).filter((a) => new Date(a.expires_at) < new Date());
+        const { data: finalized } = await supabase.rpc("finalize_expired_quiz_attempts");
+        if (finalized) {
+          expired.forEach((a) => localStorage.removeItem(draftKey(user.id, a.quiz_id)));
+          toast({ title: "Time's up", description: "Unfinished quizzes were submitted with your saved answers." });
+          await fetchSubmissions();
+        }
       } catch (error) {
         console.error("Error:", error);
       } finally {
@@ -71,7 +138,45 @@ export default function StudentQuizzes() {
       }
     };
     fetchData();
-  }, [user]);
+  }, [user, fetchSubmissions, toast]);
+
+  // Save the draft locally right away and to the server shortly after the last change.
+  // Saving stops once the attempt is being submitted or has run out.
+  const attemptOver = timeLeft === 0;
+  useEffect(() => {
+    if (!dialogOpen || !selectedQuiz || !draftLoaded.current || submitting || attemptOver) return;
+    localStorage.setItem(draftKey(user?.id, selectedQuiz.id), JSON.stringify({ answers, savedAt: new Date().toISOString() }));
+    setSaveState("saving");
+    let cancelled = false;
+    let retryTimeout: ReturnType<typeof setTimeout> | undefined;
+    const timeout = setTimeout(async () => {
+      const { error } = await supabase.rpc("save_quiz_draft", { _quiz_id: selectedQuiz.id, _answers: answers });
+      if (cancelled) return;
+      if (error) {
+        setSaveState("error");
+        if (draftRetries.current < MAX_DRAFT_RETRIES) {
+          retryTimeout = setTimeout(() => setRetryTick((t) => t + 1), DRAFT_RETRY_MS * 2 ** draftRetries.current);
+          draftRetries.current++;
+        }
+      } else {
+        draftRetries.current = 0;
+        setSaveState("saved");
+      }
+    }, 1000);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+      clearTimeout(retryTimeout);
+    };
+  }, [answers, retryTick, dialogOpen, selectedQuiz, submitting, attemptOver, user]);
+
+  useEffect(() => {
+    if (!dialogOpen || expiresAt === null) return;
+    const tick = () => setTimeLeft(Math.max(Math.ceil((expiresAt - Date.now()) / 1000), 0));
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [dialogOpen, expiresAt]);
 
   const isDeadlinePassed = (deadline: string, deadlineTime?: string | null) => {
     const dl = new Date(deadline);
@@ -86,93 +191,126 @@ export default function StudentQuizzes() {
 
   const handleOpenQuiz = async (quiz: Quiz) => {
     setSelectedQuiz(quiz);
-    setAnswers({});
+    draftLoaded.current = false;
+    autoSubmitted.current = false;
+    draftRetries.current = 0;
     try {
-      const { data } = await supabase
-        .from("quiz_questions")
-        .select("*")
-        .eq("quiz_id", quiz.id)
-        .order("order_number");
+      // Questions come without correct answers; grading happens in submit_quiz
+      const [{ data, error }, { data: attemptData, error: attemptError }] = await Promise.all([
+        supabase.rpc("get_quiz_questions", { _quiz_id: quiz.id }),
+        supabase.rpc("start_quiz_attempt", { _quiz_id: quiz.id }),
+      ]);
+      if (error) throw error;
+      if (attemptError) throw attemptError;
+      const attempt = attemptData as unknown as AttemptStart;
+
+      // Resume from whichever draft is newer: the server's or the one kept in this browser
+      const stored = localStorage.getItem(draftKey(user?.id, quiz.id));
+      const local = stored ? (JSON.parse(stored) as LocalDraft) : null;
+      const useLocal = local && new Date(local.savedAt) > new Date(attempt.updated_at);
+
+      // Run the countdown on the server's clock
+      const clockOffset = new Date(attempt.server_now).getTime() - Date.now();
+      setExpiresAt(new Date(attempt.expires_at).getTime() - clockOffset);
+      setTimeLeft(null);
+      setSaveState(null);
       setQuestions((data || []) as Question[]);
+      setAnswers(useLocal ? local.answers : attempt.answers || {});
+      draftLoaded.current = true;
       setDialogOpen(true);
-    } catch (error) {
+    } catch (error: unknown) {
+      console.error("Error:", error);
+      toast({ title: "Error", description: error instanceof Error ? error.message : "Failed to load quiz.", variant: "destructive" });
+    }
+  };
+
+  const handleViewResults = async (quiz: Quiz, sub: QuizSubmission) => {
+    setSelectedQuiz(quiz);
+    setResultsSubmission(sub);
+    try {
+      const [{ data: questionsData, error }, { data: answersData }] = await Promise.all([
+        supabase.rpc("get_quiz_questions", { _quiz_id: quiz.id }),
+        supabase.from("quiz_answers").select("id, question_id, answer_text, is_correct, points_awarded, feedback, graded_at").eq("submission_id", sub.id),
+      ]);
+      if (error) throw error;
+      setQuestions((questionsData || []) as Question[]);
+      setResultAnswers((answersData || []) as QuizAnswer[]);
+      setResultsOpen(true);
+    } catch (error: unknown) {
       console.error("Error:", error);
+      toast({ title: "Error", description: error instanceof Error ? error.message : "Failed to load results.", variant: "destructive" });
+    }
+  };
+
+  const toggleMultiSelect = (questionId: string, option: string, checked: boolean) => {
+    const current = parseMultiSelectAnswer(answers[questionId]);
+    const next = checked ? [...current, option] : current.filter((o) => o !== option);
+    setAnswers({ ...answers, [questionId]: JSON.stringify(next) });
+  };
+
+  const handleCloseQuiz = (open: boolean) => {
+    if (!open && selectedQuiz && !submitting) {
+      // Keep the attempt running; push the latest answers before leaving
+      supabase.rpc("save_quiz_draft", { _quiz_id: selectedQuiz.id, _answers: answers }).then(() => fetchSubmissions());
+      setExpiresAt(null);
     }
+    setDialogOpen(open);
   };
 
-  const handleSubmitQuiz = async () => {
+  const handleSubmitQuiz = useCallback(async (timeUp = false) => {
     if (!user || !selectedQuiz) return;
 
     // Validate all questions answered
-    const unanswered = questions.filter((q) => !answers[q.id]?.trim());
-    if (unanswered.length > 0) {
+    const unanswered = questions.filter((q) => q.question_type === "multi_select"
+      ? parseMultiSelectAnswer(answers[q.id]).length === 0
+      : !answers[q.id]?.trim());
+    if (!timeUp && unanswered.length > 0) {
       toast({ title: "Error", description: `Please answer all questions. ${unanswered.length} remaining.`, variant: "destructive" });
       return;
     }
 
     setSubmitting(true);
     try {
-      // Calculate score for MCQ questions
-      let totalScore = 0;
-      let totalPoints = 0;
-      const answerRecords: { question_id: string; answer_text: string; is_correct: boolean | null; points_awarded: number }[] = [];
-
-      for (const question of questions) {
-        totalPoints += question.points;
-        const studentAnswer = answers[question.id];
-        if (question.question_type === "mcq") {
-          // Fetch correct answer for auto-grading
-          const { data: qData } = await supabase
-            .from("quiz_questions")
-            .select("correct_answer")
-            .eq("id", question.id)
-            .single();
-          const isCorrect = qData?.correct_answer?.toLowerCase().trim() === studentAnswer?.toLowerCase().trim();
-          const pointsAwarded = isCorrect ? question.points : 0;
-          totalScore += pointsAwarded;
-          answerRecords.push({ question_id: question.id, answer_text: studentAnswer, is_correct: isCorrect, points_awarded: pointsAwarded });
-        } else {
-          // Text questions - not auto-graded
-          answerRecords.push({ question_id: question.id, answer_text: studentAnswer, is_correct: null, points_awarded: 0 });
-        }
-      }
+      const { data, error } = await supabase.rpc("submit_quiz", { _quiz_id: selectedQuiz.id, _answers: answers });
+      if (error) throw error;
+      const result = data as { score: number; total_points: number; is_graded: boolean };
 
-      const hasTextQuestions = questions.some((q) => q.question_type === "text");
-      const isFullyGraded = !hasTextQuestions;
-
-      // Insert submission
-      const { data: submission, error: subError } = await supabase
-        .from("quiz_submissions")
-        .insert({
-          quiz_id: selectedQuiz.id,
-          student_id: user.id,
-          score: totalScore,
-          total_points: totalPoints,
-          is_graded: isFullyGraded,
-        })
-        .select()
-        .single();
-      if (subError) throw subError;
-
-      // Insert answers
-      const { error: ansError } = await supabase
-        .from("quiz_answers")
-        .insert(answerRecords.map((a) => ({ ...a, submission_id: submission.id })));
-      if (ansError) throw ansError;
-
-      toast({ title: "Quiz Submitted!", description: `You scored ${totalScore}/${totalPoints} on auto-graded questions.` });
+      toast({
+        title: timeUp ? "Time's up! Quiz submitted." : "Quiz Submitted!",
+        description: result.is_graded
+          ? `You scored ${result.score}/${result.total_points}.`
+          : `You scored ${result.score}/${result.total_points} on auto-graded questions.`,
+      });
+      localStorage.removeItem(draftKey(user.id, selectedQuiz.id));
       setDialogOpen(false);
+      setExpiresAt(null);
 
       // Refresh submissions
-      const { data: subsData } = await supabase.from("quiz_submissions").select("*").eq("student_id", user.id);
-      setSubmissions((subsData || []) as QuizSubmission[]);
-    } catch (error: any) {
+      await fetchSubmissions();
+    } catch (error: unknown) {
       console.error("Error:", error);
-      toast({ title: "Error", description: error.message || "Failed to submit quiz.", variant: "destructive" });
+      const message = error instanceof Error ? error.message : "Failed to submit quiz.";
+      if (timeUp) {
+        // The server submits the last saved draft of an attempt that ran out
+        toast({ title: "Could not submit your quiz", description: `${message} Your saved answers will be submitted automatically.`, variant: "destructive" });
+        setDialogOpen(false);
+        setExpiresAt(null);
+        fetchSubmissions();
+      } else {
+        toast({ title: "Error", description: message, variant: "destructive" });
+      }
     } finally {
       setSubmitting(false);
     }
-  };
+  }, [user, selectedQuiz, questions, answers, toast, fetchSubmissions]);
+
+  // Submit automatically when the attempt runs out
+  useEffect(() => {
+    if (dialogOpen && timeLeft === 0 && !autoSubmitted.current) {
+      autoSubmitted.current = true;
+      handleSubmitQuiz(true);
+    }
+  }, [dialogOpen, timeLeft, handleSubmitQuiz]);
 
   if (studentStatus !== "approved") {
     return (
@@ -206,13 +344,18 @@ export default function StudentQuizzes() {
         ) : (
           <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
             {quizzes.map((quiz) => {
-              const sub = submissions.find((s) => s.quiz_id === quiz.id);
+              const quizSubs = submissions.filter((s) => s.quiz_id === quiz.id);
+              const sub = quizSubs[0];
+              const attemptsLeft = Math.max((quiz.max_attempts || 1) - quizSubs.length, 0);
               const deadlinePassed = isDeadlinePassed(quiz.deadline, quiz.deadline_time);
+              const inProgress = attempts.find((a) => a.quiz_id === quiz.id && new Date(a.expires_at) > new Date());
               return (
                 <Card key={quiz.id} className="transition-all hover:shadow-md">
                   <CardHeader className="pb-3">
                     <div className="flex items-center justify-between">
-                      {sub ? (
+                      {inProgress ? (
+                        <Badge className="bg-warning/10 text-warning"><Timer className="mr-1 h-3 w-3" /> In progress</Badge>
+                      ) : sub ? (
                         <Badge className="bg-success/10 text-success">
                           <CheckCircle className="mr-1 h-3 w-3" /> Completed
                         </Badge>
@@ -229,15 +372,31 @@ export default function StudentQuizzes() {
                     <p className="text-sm text-muted-foreground">
                       Deadline: {format(new Date(quiz.deadline), "MMM dd, yyyy")}{quiz.deadline_time ? ` at ${quiz.deadline_time}` : ""}
                     </p>
+                    {quiz.duration_minutes && (
+                      <p className="text-sm text-muted-foreground">Time limit: {quiz.duration_minutes} min</p>
+                    )}
                     {sub && (
                       <div className="rounded-lg bg-success/5 border border-success/20 p-2 flex items-center gap-2">
                         <Award className="h-4 w-4 text-success" />
                         <span className="text-sm font-medium">Score: {sub.score}/{sub.total_points}</span>
+                        {quiz.max_attempts > 1 && <span className="text-xs text-muted-foreground">(attempt {sub.attempt_number})</span>}
                         {!sub.is_graded && <Badge variant="outline" className="text-xs">Partially graded</Badge>}
                       </div>
                     )}
-                    {!sub && !deadlinePassed && (
-                      <Button className="w-full" onClick={() => handleOpenQuiz(quiz)}>Take Quiz</Button>
+                    {quiz.max_attempts > 1 && (
+                      <p className="text-xs text-muted-foreground">{attemptsLeft} of {quiz.max_attempts} attempts left</p>
+                    )}
+                    {sub && (
+                      <Button className="w-full" variant="ghost" size="sm" onClick={() => handleViewResults(quiz, sub)}>
+                        View Results
+                      </Button>
+                    )}
+                    {inProgress ? (
+                      <Button className="w-full" onClick={() => handleOpenQuiz(quiz)}>Resume Quiz</Button>
+                    ) : attemptsLeft > 0 && !deadlinePassed && (
+                      <Button className="w-full" variant={sub ? "outline" : "default"} onClick={() => handleOpenQuiz(quiz)}>
+                        {sub ? "Retake Quiz" : "Take Quiz"}
+                      </Button>
                     )}
                   </CardContent>
                 </Card>
@@ -248,7 +407,7 @@ export default function StudentQuizzes() {
       </div>
 
       {/* Quiz Taking Dialog */}
-      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+      <Dialog open={dialogOpen} onOpenChange={handleCloseQuiz}>
         <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
           {selectedQuiz && (
             <>
@@ -256,6 +415,19 @@ export default function StudentQuizzes() {
                 <DialogTitle>{selectedQuiz.title}</DialogTitle>
                 {selectedQuiz.description && <DialogDescription>{selectedQuiz.description}</DialogDescription>}
               </DialogHeader>
+              <div className="sticky top-0 z-10 -mt-2 flex items-center justify-between rounded-lg border bg-background p-2 text-sm">
+                <span className="flex items-center gap-1 text-muted-foreground">
+                  {saveState === "error" ? (
+                    <><CloudOff className="h-4 w-4 text-destructive" /> Offline, answers kept on this device</>
+                  ) : saveState === "saving" ? "Saving..." : saveState === "saved" ? "All answers saved" : "Answers save automatically"}
+                </span>
+                {selectedQuiz.duration_minutes && timeLeft !== null && (
+                  <span className={`flex items-center gap-1 font-mono font-semibold ${timeLeft <= 60 ? "text-destructive" : ""}`}>
+                    <Timer className="h-4 w-4" />
+                    {Math.floor(timeLeft / 60)}:{String(timeLeft % 60).padStart(2, "0")}
+                  </span>
+                )}
+              </div>
               <div className="space-y-6">
                 {questions.map((q, idx) => (
                   <div key={q.id} className="space-y-3 rounded-lg border p-4">
@@ -273,6 +445,41 @@ export default function StudentQuizzes() {
                         ))}
                       </RadioGroup>
                     )}
+                    {q.question_type === "multi_select" && q.options && (
+                      <div className="space-y-2">
+                        <p className="text-xs text-muted-foreground">Select all that apply.</p>
+                        {(q.options as string[]).map((opt, oi) => (
+                          <div key={oi} className="flex items-center space-x-2">
+                            <Checkbox
+                              id={`${q.id}-${oi}`}
+                              checked={parseMultiSelectAnswer(answers[q.id]).includes(opt)}
+                              onCheckedChange={(c) => toggleMultiSelect(q.id, opt, c === true)}
+                            />
+                            <Label htmlFor={`${q.id}-${oi}`} className="cursor-pointer">{opt}</Label>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    {q.question_type === "true_false" && (
+                      <RadioGroup value={answers[q.id] || ""} onValueChange={(v) => setAnswers({ ...answers, [q.id]: v })} className="flex gap-6">
+                        {TRUE_FALSE_OPTIONS.map((opt) => (
+                          <div key={opt} className="flex items-center space-x-2">
+                            <RadioGroupItem value={opt} id={`${q.id}-${opt}`} />
+                            <Label htmlFor={`${q.id}-${opt}`} className="cursor-pointer">{opt}</Label>
+                          </div>
+                        ))}
+                      </RadioGroup>
+                    )}
+                    {q.question_type === "numeric" && (
+                      <Input
+                        type="number"
+                        step="any"
+                        value={answers[q.id] || ""}
+                        onChange={(e) => setAnswers({ ...answers, [q.id]: e.target.value })}
+                        placeholder="Enter a number..."
+                        className="max-w-[200px]"
+                      />
+                    )}
                     {q.question_type === "text" && (
                       <Textarea
                         value={answers[q.id] || ""}
@@ -281,11 +488,21 @@ export default function StudentQuizzes() {
                         rows={3}
                       />
                     )}
+                    {q.question_type === "code" && (
+                      <Textarea
+                        value={answers[q.id] || ""}
+                        onChange={(e) => setAnswers({ ...answers, [q.id]: e.target.value })}
+                        placeholder="Write your code..."
+                        rows={8}
+                        spellCheck={false}
+                        className="font-mono text-sm"
+                      />
+                    )}
                   </div>
                 ))}
                 <div className="flex justify-end gap-3 pt-4">
-                  <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
-                  <Button onClick={handleSubmitQuiz} disabled={submitting}>
+                  <Button variant="outline" onClick={() => handleCloseQuiz(false)}>Save &amp; Close</Button>
+                  <Button onClick={() => handleSubmitQuiz()} disabled={submitting}>
                     {submitting ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Submitting...</> : "Submit Quiz"}
                   </Button>
                 </div>
@@ -294,6 +511,51 @@ export default function StudentQuizzes() {
           )}
         </DialogContent>
       </Dialog>
+
+      {/* Results Dialog */}
+      <Dialog open={resultsOpen} onOpenChange={setResultsOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          {selectedQuiz && resultsSubmission && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{selectedQuiz.title}: Results</DialogTitle>
+                <DialogDescription>
+                  Score {resultsSubmission.score}/{resultsSubmission.total_points}
+                  {selectedQuiz.max_attempts > 1 ? ` · Attempt ${resultsSubmission.attempt_number}` : ""}
+                  {!resultsSubmission.is_graded ? " · Some answers are still being graded" : ""}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4">
+                {questions.map((q, idx) => {
+                  const ans = resultAnswers.find((a) => a.question_id === q.id);
+                  return (
+                    <div key={q.id} className="space-y-2 rounded-lg border p-4">
+                      <div className="flex items-center justify-between gap-2">
+                        <p className="font-medium">Q{idx + 1}. {q.question_text}</p>
+                        {!ans?.graded_at ? (
+                          <Badge variant="outline" className="shrink-0">Pending grading</Badge>
+                        ) : ans.is_correct ? (
+                          <Badge className="shrink-0 bg-success/10 text-success">{ans.points_awarded}/{q.points}</Badge>
+                        ) : (
+                          <Badge variant="destructive" className="shrink-0">{ans.points_awarded ?? 0}/{q.points}</Badge>
+                        )}
+                      </div>
+                      <p className={`whitespace-pre-wrap rounded-md bg-muted/30 p-2 text-sm ${q.question_type === "code" ? "font-mono" : ""}`}>
+                        {formatAnswer(q.question_type, ans?.answer_text ?? null) || <span className="italic text-muted-foreground">No answer</span>}
+                      </p>
+                      {ans?.feedback && (
+                        <div className="rounded-md border border-primary/20 bg-primary/5 p-2 text-sm">
+                          <span className="font-medium">Feedback: </span>{ans.feedback}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
     </DashboardLayout>
   );
 }
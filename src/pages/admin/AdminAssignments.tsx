@@ -22,8 +22,18 @@ import {
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { SkeletonTable } from "@/components/SkeletonCard";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2, Plus, ClipboardList, Lock, Users, CheckCircle, XCircle, FileText, Pencil, Trash2, Image, Link2, Type, Award } from "lucide-react";
+import { Loader2, Plus, ClipboardList, Lock, Users, CheckCircle, XCircle, FileText, Pencil, Trash2, Image, Link2, Type, Award, BellRing, CalendarClock } from "lucide-react";
 import { format } from "date-fns";
+import { DeadlineReminderSettingsDialog } from "@/components/notifications/DeadlineReminderSettingsDialog";
+import { DeadlineReminder, ReminderBadges } from "@/components/notifications/ReminderBadges";
+import { RubricEditor } from "@/components/assignments/RubricEditor";
+import { RubricTable } from "@/components/assignments/RubricTable";
+import {
+  RubricCriterion, RubricScore, parseRubric, parseRubricScores, rubricMaxPoints, rubricPicksFromScores, rubricScoreTotal, toRubricColumn, toRubricScores, validateRubric,
+} from "@/lib/rubric";
+import type { Json } from "@/integrations/supabase/types";
+import { AssignmentExtension, ExtensionDialog } from "@/components/assignments/ExtensionDialog";
+import { assignmentDueAt, describeLatePolicy } from "@/lib/latePolicy";
 
 interface Assignment {
   id: string;
@@ -35,7 +45,12 @@ interface Assignment {
   links: string | null;
   start_date: string;
   deadline: string;
+  deadline_time?: string | null;
   created_at: string;
+  rubric?: Json | null;
+  grace_minutes?: number;
+  late_penalty_percent?: number;
+  late_cutoff_days?: number | null;
   batches?: { name: string };
 }
 
@@ -54,6 +69,15 @@ interface Submission {
   submitted_at: string;
   text_content: string | null;
   submission_type: string | null;
+  late_days: number;
+}
+
+interface Grade {
+  grade_attained: number;
+  total_grade: number;
+  comments: string | null;
+  rubric_scores: RubricScore[];
+  late_penalty: number;
 }
 
 interface StudentInfo {
@@ -76,6 +100,8 @@ export default function AdminAssignments() {
   const [selectedAssignment, setSelectedAssignment] = useState<Assignment | null>(null);
   const [submissions, setSubmissions] = useState<Submission[]>([]);
   const [batchStudents, setBatchStudents] = useState<StudentInfo[]>([]);
+  const [reminders, setReminders] = useState<DeadlineReminder[]>([]);
+  const [reminderSettingsOpen, setReminderSettingsOpen] = useState(false);
   const [editMode, setEditMode] = useState(false);
   const [editingAssignment, setEditingAssignment] = useState<Assignment | null>(null);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
@@ -86,7 +112,11 @@ export default function AdminAssignments() {
   const [totalGrade, setTotalGrade] = useState("100");
   const [gradeComments, setGradeComments] = useState("");
   const [savingGrade, setSavingGrade] = useState(false);
-  const [grades, setGrades] = useState<Record<string, { grade_attained: number; total_grade: number; comments: string | null }>>({});
+  const [grades, setGrades] = useState<Record<string, Grade>>({});
+  const [rubricPicks, setRubricPicks] = useState<Record<string, number>>({});
+  const [expandedRubric, setExpandedRubric] = useState<string | null>(null);
+  const [extensions, setExtensions] = useState<AssignmentExtension[]>([]);
+  const [extensionStudent, setExtensionStudent] = useState<{ user_id: string; name: string } | null>(null);
 
   // Form state
   const [batchId, setBatchId] = useState("");
@@ -104,6 +134,11 @@ export default function AdminAssignments() {
   const [allowLink, setAllowLink] = useState(false);
   const [allowText, setAllowText] = useState(false);
   const [allowImage, setAllowImage] = useState(false);
+  const [rubric, setRubric] = useState<RubricCriterion[]>([]);
+  const [graceMinutes, setGraceMinutes] = useState("0");
+  const [latePenalty, setLatePenalty] = useState("0");
+  // Days after the deadline; empty means late submissions are always accepted
+  const [lateCutoff, setLateCutoff] = useState("0");
 
   const fetchData = async () => {
     try {
@@ -148,6 +183,7 @@ export default function AdminAssignments() {
     setLinks(""); setStartDate(new Date().toISOString().split("T")[0]); setDeadline("");
     setDeadlineTime("23:59"); setPdfFiles(null); setEditMode(false); setEditingAssignment(null);
     setAllowPdf(true); setAllowLink(false); setAllowText(false); setAllowImage(false);
+    setRubric([]); setGraceMinutes("0"); setLatePenalty("0"); setLateCutoff("0");
   };
 
   const populateFormForEdit = (assignment: Assignment) => {
@@ -161,6 +197,10 @@ export default function AdminAssignments() {
     setStartDate(assignment.start_date);
     setDeadline(assignment.deadline);
     setDeadlineTime((assignment as any).deadline_time || "23:59");
+    setRubric(parseRubric(assignment.rubric));
+    setGraceMinutes(String(assignment.grace_minutes ?? 0));
+    setLatePenalty(String(assignment.late_penalty_percent ?? 0));
+    setLateCutoff(assignment.late_cutoff_days === null ? "" : String(assignment.late_cutoff_days ?? 0));
     setPdfFiles(null);
     setDialogOpen(true);
   };
@@ -170,6 +210,18 @@ export default function AdminAssignments() {
       toast({ title: "Error", description: "Please fill all required fields.", variant: "destructive" });
       return;
     }
+    const rubricError = validateRubric(rubric);
+    if (rubricError) {
+      toast({ title: "Error", description: rubricError, variant: "destructive" });
+      return;
+    }
+    const grace = Number(graceMinutes || 0);
+    const penalty = Number(latePenalty || 0);
+    const cutoff = lateCutoff.trim() === "" ? null : Number(lateCutoff);
+    if (!Number.isInteger(grace) || grace < 0 || !(penalty >= 0 && penalty <= 100) || (cutoff !== null && (!Number.isInteger(cutoff) || cutoff < 0))) {
+      toast({ title: "Error", description: "Grace period and cutoff must be whole numbers, and the penalty between 0 and 100%.", variant: "destructive" });
+      return;
+    }
 
     setSaving(true);
     try {
@@ -208,6 +260,10 @@ export default function AdminAssignments() {
         start_date: startDate,
         deadline,
         deadline_time: deadlineTime || "23:59",
+        rubric: toRubricColumn(rubric),
+        grace_minutes: grace,
+        late_penalty_percent: penalty,
+        late_cutoff_days: cutoff,
       };
 
       if (editMode && editingAssignment) {
@@ -267,15 +323,19 @@ export default function AdminAssignments() {
       if (!studentProfiles || studentProfiles.length === 0) { setBatchStudents([]); return; }
 
       const userIds = studentProfiles.map((s) => s.user_id);
-      const [{ data: profilesData }, { data: gradesData }] = await Promise.all([
+      const [{ data: profilesData }, { data: gradesData }, { data: remindersData }, { data: extensionsData }] = await Promise.all([
         supabase.from("profiles").select("id, full_name, email").in("id", userIds),
         supabase.from("assignment_grades").select("*").eq("assignment_id", assignment.id),
+        supabase.from("deadline_reminders").select("student_id, offset_hours, sent_at").eq("assignment_id", assignment.id),
+        supabase.from("assignment_extensions").select("student_id, extended_deadline, reason").eq("assignment_id", assignment.id),
       ]);
+      setReminders(remindersData || []);
+      setExtensions(extensionsData || []);
 
       // Build grades map
-      const gradesMap: Record<string, { grade_attained: number; total_grade: number; comments: string | null }> = {};
-      (gradesData || []).forEach((g: any) => {
-        gradesMap[g.student_id] = { grade_attained: g.grade_attained, total_grade: g.total_grade, comments: g.comments };
+      const gradesMap: Record<string, Grade> = {};
+      (gradesData || []).forEach((g) => {
+        gradesMap[g.student_id] = { grade_attained: g.grade_attained, total_grade: g.total_grade, comments: g.comments, rubric_scores: parseRubricScores(g.rubric_scores), late_penalty: g.late_penalty };
       });
       setGrades(gradesMap);
 
@@ -320,6 +380,31 @@ export default function AdminAssignments() {
   }
 
   const submittedStudentIds = [...new Set(submissions.map((s) => s.student_id))];
+  const selectedRubric = parseRubric(selectedAssignment?.rubric);
+  const rubricScores = selectedRubric.length > 0 ? toRubricScores(selectedRubric, rubricPicks) : null;
+  const selectedDueAt = selectedAssignment ? assignmentDueAt(selectedAssignment.deadline, selectedAssignment.deadline_time) : new Date();
+
+  const renderExtension = (student: StudentInfo) => {
+    const extension = extensions.find((e) => e.student_id === student.user_id);
+    return (
+      <>
+        {extension && (
+          <Badge variant="outline" className="text-xs font-normal" title={extension.reason || undefined}>
+            Extended to {format(new Date(extension.extended_deadline), "MMM dd, HH:mm")}
+          </Badge>
+        )}
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          title={extension ? "Edit extension" : "Grant extension"}
+          onClick={() => setExtensionStudent({ user_id: student.user_id, name: student.profiles?.full_name || "Student" })}
+        >
+          <CalendarClock className="h-4 w-4" />
+        </Button>
+      </>
+    );
+  };
   const submittedStudents = batchStudents.filter((s) => submittedStudentIds.includes(s.user_id));
   const notSubmittedStudents = batchStudents.filter((s) => !submittedStudentIds.includes(s.user_id));
 
@@ -381,6 +466,32 @@ export default function AdminAssignments() {
                   <Input type="time" value={deadlineTime} onChange={(e) => setDeadlineTime(e.target.value)} />
                   <p className="text-xs text-muted-foreground">Submissions allowed until this time on the deadline date.</p>
                 </div>
+
+                {/* Late policy */}
+                <div className="space-y-2">
+                  <Label>Late Submissions</Label>
+                  <div className="grid gap-4 sm:grid-cols-3">
+                    <div className="space-y-1">
+                      <Label className="text-xs">Grace Period (minutes)</Label>
+                      <Input type="number" min="0" value={graceMinutes} onChange={(e) => setGraceMinutes(e.target.value)} />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Penalty per Day (%)</Label>
+                      <Input type="number" min="0" max="100" value={latePenalty} onChange={(e) => setLatePenalty(e.target.value)} />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Cutoff (days late)</Label>
+                      <Input type="number" min="0" value={lateCutoff} onChange={(e) => setLateCutoff(e.target.value)} placeholder="No cutoff" />
+                    </div>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {describeLatePolicy({
+                      grace_minutes: Number(graceMinutes) || 0,
+                      late_penalty_percent: Number(latePenalty) || 0,
+                      late_cutoff_days: lateCutoff.trim() === "" ? null : Number(lateCutoff) || 0,
+                    })}. Penalties are deducted from the grade automatically.
+                  </p>
+                </div>
                 <div className="space-y-2">
                   <Label>PDF Attachments {editMode ? "(leave empty to keep current)" : ""}</Label>
                   <Input type="file" accept=".pdf,.doc,.docx" multiple onChange={(e) => setPdfFiles(e.target.files)} />
@@ -415,6 +526,13 @@ export default function AdminAssignments() {
                   </div>
                 </div>
 
+                {/* Rubric */}
+                <div className="space-y-2">
+                  <Label>Grading Rubric (optional)</Label>
+                  <p className="text-xs text-muted-foreground">Criteria with level descriptors. Graded submissions are totalled from the levels picked.</p>
+                  <RubricEditor criteria={rubric} onChange={setRubric} />
+                </div>
+
                 <div className="flex justify-end gap-3 pt-4">
                   <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
                   <Button onClick={handleSubmit} disabled={saving || uploading}>
@@ -435,6 +553,11 @@ export default function AdminAssignments() {
               {batches.map((b) => <SelectItem key={b.id} value={b.id}>{b.name}</SelectItem>)}
             </SelectContent>
           </Select>
+          {role === "admin" && (
+            <Button variant="outline" size="sm" className="sm:ml-auto" onClick={() => setReminderSettingsOpen(true)}>
+              <BellRing className="mr-2 h-4 w-4" /> Deadline Reminders
+            </Button>
+          )}
         </div>
 
         {filteredAssignments.length === 0 ? (
@@ -493,6 +616,13 @@ export default function AdminAssignments() {
                 <DialogTitle>Assignment #{selectedAssignment.assignment_number}: {selectedAssignment.title}</DialogTitle>
                 <DialogDescription>
                   {selectedAssignment.batches?.name} • Deadline: {format(new Date(selectedAssignment.deadline), "MMM dd, yyyy")}{(selectedAssignment as any).deadline_time ? ` at ${(selectedAssignment as any).deadline_time}` : ""}
+                  <span className="block text-xs">
+                    Late policy: {describeLatePolicy({
+                      grace_minutes: selectedAssignment.grace_minutes ?? 0,
+                      late_penalty_percent: selectedAssignment.late_penalty_percent ?? 0,
+                      late_cutoff_days: selectedAssignment.late_cutoff_days ?? null,
+                    })}
+                  </span>
                 </DialogDescription>
               </DialogHeader>
               <Tabs defaultValue="submitted">
@@ -518,10 +648,21 @@ export default function AdminAssignments() {
                               </div>
                             </div>
                             <div className="flex items-center gap-2">
+                              <ReminderBadges reminders={reminders.filter((r) => r.student_id === student.user_id)} />
+                              {renderExtension(student)}
+                              {grade && grade.late_penalty > 0 && (
+                                <Badge variant="outline" className="text-xs text-warning">−{grade.late_penalty} late</Badge>
+                              )}
                               {grade ? (
-                                <Badge className="bg-primary/10 text-primary">{grade.grade_attained}/{grade.total_grade}</Badge>
+                                grade.rubric_scores.length > 0 ? (
+                                  <button type="button" onClick={() => setExpandedRubric(expandedRubric === student.user_id ? null : student.user_id)} title="Show rubric">
+                                    <Badge className="bg-primary/10 text-primary">{grade.grade_attained}/{grade.total_grade}</Badge>
+                                  </button>
+                                ) : (
+                                  <Badge className="bg-primary/10 text-primary">{grade.grade_attained}/{grade.total_grade}</Badge>
+                                )
                               ) : (
-                                <Button variant="outline" size="sm" onClick={() => { setGradingStudent(student.user_id); setGradeAttained(""); setTotalGrade("100"); setGradeComments(""); }}>
+                                <Button variant="outline" size="sm" onClick={() => { setGradingStudent(student.user_id); setGradeAttained(""); setTotalGrade("100"); setGradeComments(""); setRubricPicks({}); }}>
                                   <Award className="mr-1 h-3 w-3" /> Grade
                                 </Button>
                               )}
@@ -530,35 +671,57 @@ export default function AdminAssignments() {
                           {/* Grading form */}
                           {gradingStudent === student.user_id && (
                             <div className="rounded-lg bg-muted/50 p-3 space-y-2 mt-2">
-                              <div className="grid grid-cols-2 gap-2">
-                                <div className="space-y-1">
-                                  <Label className="text-xs">Grade Attained *</Label>
-                                  <Input type="number" min="0" value={gradeAttained} onChange={(e) => setGradeAttained(e.target.value)} placeholder="0" className="h-8" />
-                                </div>
-                                <div className="space-y-1">
-                                  <Label className="text-xs">Total Grade *</Label>
-                                  <Input type="number" min="1" value={totalGrade} onChange={(e) => setTotalGrade(e.target.value)} placeholder="100" className="h-8" />
+                              {selectedRubric.length > 0 ? (
+                                <>
+                                  <RubricTable
+                                    criteria={selectedRubric}
+                                    selected={rubricPicks}
+                                    onSelect={(criterionId, levelIndex) => setRubricPicks({ ...rubricPicks, [criterionId]: levelIndex })}
+                                  />
+                                  <p className="text-sm font-medium">
+                                    Total: {rubricScores ? rubricScoreTotal(rubricScores) : "–"} / {rubricMaxPoints(selectedRubric)}
+                                  </p>
+                                </>
+                              ) : (
+                                <div className="grid grid-cols-2 gap-2">
+                                  <div className="space-y-1">
+                                    <Label className="text-xs">Grade Attained *</Label>
+                                    <Input type="number" min="0" value={gradeAttained} onChange={(e) => setGradeAttained(e.target.value)} placeholder="0" className="h-8" />
+                                  </div>
+                                  <div className="space-y-1">
+                                    <Label className="text-xs">Total Grade *</Label>
+                                    <Input type="number" min="1" value={totalGrade} onChange={(e) => setTotalGrade(e.target.value)} placeholder="100" className="h-8" />
+                                  </div>
                                 </div>
-                              </div>
+                              )}
                               <div className="space-y-1">
                                 <Label className="text-xs">Comments (optional)</Label>
                                 <Input value={gradeComments} onChange={(e) => setGradeComments(e.target.value)} placeholder="Feedback..." className="h-8" />
                               </div>
                               <div className="flex gap-2">
                                 <Button size="sm" disabled={savingGrade} onClick={async () => {
-                                  if (!gradeAttained || !totalGrade || !user || !selectedAssignment) return;
+                                  if (!user || !selectedAssignment) return;
+                                  if (selectedRubric.length > 0 ? !rubricScores : !gradeAttained || !totalGrade) {
+                                    toast({ title: "Error", description: selectedRubric.length > 0 ? "Pick a level for every criterion." : "Enter the grade and total.", variant: "destructive" });
+                                    return;
+                                  }
+                                  // With a rubric the database recomputes these from the levels picked
+                                  const attained = rubricScores ? rubricScoreTotal(rubricScores) : parseFloat(gradeAttained);
+                                  const total = rubricScores ? rubricMaxPoints(selectedRubric) : parseFloat(totalGrade);
                                   setSavingGrade(true);
                                   try {
-                                    const { error } = await supabase.from("assignment_grades").upsert({
+                                    const { data: saved, error } = await supabase.from("assignment_grades").upsert({
                                       assignment_id: selectedAssignment.id,
                                       student_id: student.user_id,
-                                      grade_attained: parseFloat(gradeAttained),
-                                      total_grade: parseFloat(totalGrade),
+                                      raw_grade: attained,
+                                      total_grade: total,
                                       comments: gradeComments || null,
+                                      rubric_scores: rubricScores ? rubricScores.map((score) => ({ ...score })) : null,
                                       graded_by: user.id,
-                                    }, { onConflict: "assignment_id,student_id" });
+                                    }, { onConflict: "assignment_id,student_id" }).select("grade_attained, total_grade, late_penalty").single();
                                     if (error) throw error;
-                                    setGrades({ ...grades, [student.user_id]: { grade_attained: parseFloat(gradeAttained), total_grade: parseFloat(totalGrade), comments: gradeComments || null } });
+                                    // Totals come back from the database with any late penalty applied
+                                    setGrades({ ...grades, [student.user_id]: { ...saved, comments: gradeComments || null, rubric_scores: rubricScores || [] } });
                                     setGradingStudent(null);
                                     toast({ title: "Graded", description: `Grade saved for ${student.profiles?.full_name}.` });
                                   } catch (error: any) {
@@ -573,6 +736,11 @@ export default function AdminAssignments() {
                               </div>
                             </div>
                           )}
+                          {grade && expandedRubric === student.user_id && (
+                            <div className="pl-6">
+                              <RubricTable criteria={selectedRubric} selected={rubricPicksFromScores(grade.rubric_scores)} />
+                            </div>
+                          )}
                           {grade && grade.comments && (
                             <p className="text-xs text-muted-foreground pl-6">💬 {grade.comments}</p>
                           )}
@@ -580,6 +748,7 @@ export default function AdminAssignments() {
                             <div key={sub.id} className="flex items-center justify-between pl-6 text-xs border-t pt-1">
                               <div className="flex items-center gap-2">
                                 <Badge variant="outline" className="text-xs">{sub.submission_type || "file"}</Badge>
+                                {sub.late_days > 0 && <Badge variant="outline" className="text-xs text-destructive">Late {sub.late_days}d</Badge>}
                                 <span className="text-muted-foreground">{sub.file_name}</span>
                                 <span className="text-muted-foreground">{format(new Date(sub.submitted_at), "MMM dd, HH:mm")}</span>
                               </div>
@@ -610,10 +779,12 @@ export default function AdminAssignments() {
                     notSubmittedStudents.map((student) => (
                       <div key={student.user_id} className="flex items-center gap-2 rounded-lg border p-3">
                         <XCircle className="h-4 w-4 text-destructive flex-shrink-0" />
-                        <div>
+                        <div className="flex-1">
                           <p className="font-medium text-sm">{student.profiles?.full_name}</p>
                           <p className="text-xs text-muted-foreground">{student.student_id}</p>
                         </div>
+                        <ReminderBadges reminders={reminders.filter((r) => r.student_id === student.user_id)} />
+                        {renderExtension(student)}
                       </div>
                     ))
                   )}
@@ -624,6 +795,20 @@ export default function AdminAssignments() {
         </DialogContent>
       </Dialog>
 
+      <DeadlineReminderSettingsDialog open={reminderSettingsOpen} onOpenChange={setReminderSettingsOpen} />
+
+      {selectedAssignment && (
+        <ExtensionDialog
+          open={!!extensionStudent}
+          onOpenChange={(open) => !open && setExtensionStudent(null)}
+          assignmentId={selectedAssignment.id}
+          student={extensionStudent}
+          dueAt={selectedDueAt}
+          extension={extensions.find((e) => e.student_id === extensionStudent?.user_id) || null}
+          onSaved={() => handleViewTracking(selectedAssignment)}
+        />
+      )}
+
       {/* Delete Confirmation */}
       <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <AlertDialogContent>
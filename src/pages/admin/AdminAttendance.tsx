@@ -0,0 +1,445 @@
+import { useEffect, useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { DashboardLayout } from "@/components/layout/DashboardLayout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { SkeletonTable } from "@/components/SkeletonCard";
+import { useToast } from "@/hooks/use-toast";
+import { Lock, ClipboardCheck, Plus, Loader2, Download, Search, CalendarDays, QrCode } from "lucide-react";
+import { addDays, format, isSameDay, parseISO, startOfDay } from "date-fns";
+import { AttendanceBadge } from "@/components/attendance/AttendanceBadge";
+import { AttendanceSheetDialog } from "@/components/attendance/AttendanceSheetDialog";
+import { CheckInQrDialog } from "@/components/attendance/CheckInQrDialog";
+import {
+  ATTENDANCE_STATUSES, AttendanceSessionRow, DEFAULT_MIN_ATTENDANCE, isBelowThreshold, summarizeByStudent,
+} from "@/lib/attendance";
+import { CalendarEventRow, CalendarOccurrence, expandEvent } from "@/lib/calendarEvents";
+import { downloadRows } from "@/lib/spreadsheet";
+import { fetchAllRows } from "@/lib/fetchAllRows";
+
+interface Batch {
+  id: string;
+  name: string;
+  assigned_faculty_id: string | null;
+  min_attendance_percent: number;
+}
+
+interface BatchStudent {
+  user_id: string;
+  student_id: string | null;
+  full_name: string;
+}
+
+interface RecordRow {
+  session_id: string;
+  student_id: string;
+  status: string;
+}
+
+export default function AdminAttendance() {
+  const { user, role, loading: authLoading } = useAuth();
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [batches, setBatches] = useState<Batch[]>([]);
+  const [batchId, setBatchId] = useState("");
+  const [date, setDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [events, setEvents] = useState<CalendarEventRow[]>([]);
+  const [sessions, setSessions] = useState<AttendanceSessionRow[]>([]);
+  const [records, setRecords] = useState<RecordRow[]>([]);
+  const [students, setStudents] = useState<BatchStudent[]>([]);
+  const [activeSession, setActiveSession] = useState<AttendanceSessionRow | null>(null);
+  const [qrSession, setQrSession] = useState<AttendanceSessionRow | null>(null);
+  const [opening, setOpening] = useState<string | null>(null);
+  const [adHocOpen, setAdHocOpen] = useState(false);
+  const [adHocTitle, setAdHocTitle] = useState("");
+  const [adHocTime, setAdHocTime] = useState("");
+  const [search, setSearch] = useState("");
+
+  useEffect(() => {
+    const fetchBatches = async () => {
+      try {
+        const today = new Date().toISOString().split('T')[0];
+        const { data } = await supabase
+          .from("batches")
+          .select("id, name, assigned_faculty_id, min_attendance_percent")
+          .gt("end_date", today)
+          .order("name");
+        let available = data || [];
+        // Faculty take attendance for the batches they teach
+        if (role === "faculty" && user) available = available.filter(b => b.assigned_faculty_id === user.id);
+        setBatches(available);
+        if (available.length > 0) setBatchId(available[0].id);
+      } catch (error) {
+        console.error("Error:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    if (role === "admin" || role === "faculty") fetchBatches();
+  }, [role, user]);
+
+  const fetchBatchData = async (id: string) => {
+    try {
+      const [eventsRes, sessionsRes, studentsRes] = await Promise.all([
+        supabase.from("calendar_events").select("*").eq("batch_id", id).eq("event_type", "session"),
+        supabase.from("attendance_sessions").select("id, batch_id, event_id, session_date, title, starts_at").eq("batch_id", id).order("session_date", { ascending: false }),
+        supabase.from("student_profiles").select("user_id, student_id").eq("batch_id", id).eq("status", "approved"),
+      ]);
+      const userIds = (studentsRes.data || []).map(s => s.user_id);
+      const [recordRows, namesRes] = await Promise.all([
+        fetchAllRows((from, to) => supabase
+          .from("attendance_records")
+          .select("session_id, student_id, status, attendance_sessions!inner(batch_id)")
+          .eq("attendance_sessions.batch_id", id)
+          .order("id")
+          .range(from, to)),
+        supabase.from("profiles").select("id, full_name").in("id", userIds),
+      ]);
+
+      setEvents(eventsRes.data || []);
+      setSessions(sessionsRes.data || []);
+      setRecords(recordRows.map(({ session_id, student_id, status }) => ({ session_id, student_id, status })));
+      setStudents((studentsRes.data || []).map(s => ({
+        ...s,
+        full_name: namesRes.data?.find(p => p.id === s.user_id)?.full_name || "Unknown",
+      })).sort((a, b) => a.full_name.localeCompare(b.full_name)));
+    } catch (error) {
+      console.error("Error:", error);
+    }
+  };
+
+  useEffect(() => {
+    if (batchId) fetchBatchData(batchId);
+  }, [batchId]);
+
+  const batch = batches.find(b => b.id === batchId);
+  const threshold = batch?.min_attendance_percent ?? DEFAULT_MIN_ATTENDANCE;
+
+  // Scheduled sessions on the selected day, from the batch calendar
+  const day = startOfDay(parseISO(date));
+  const scheduled = events
+    .flatMap(e => expandEvent(e, day, addDays(day, 1)))
+    .filter(o => isSameDay(o.start, day))
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+  const daySessions = sessions.filter(s => s.session_date === date);
+  const unscheduled = daySessions.filter(s => !scheduled.some(o => o.eventId === s.event_id));
+
+  const recordsFor = (sessionId: string) => records.filter(r => r.session_id === sessionId);
+
+  // Sessions for calendar occurrences are created the first time they are opened
+  const openOccurrence = async (o: CalendarOccurrence, open: (session: AttendanceSessionRow) => void) => {
+    const existing = daySessions.find(s => s.event_id === o.eventId);
+    if (existing) {
+      open(existing);
+      return;
+    }
+    setOpening(o.key);
+    try {
+      const { data, error } = await supabase
+        .from("attendance_sessions")
+        .insert({ batch_id: batchId, event_id: o.eventId, session_date: date, title: o.title, starts_at: o.start.toISOString(), created_by: user!.id })
+        .select("id, batch_id, event_id, session_date, title, starts_at")
+        .single();
+      if (error) throw error;
+      setSessions(prev => [data, ...prev]);
+      open(data);
+    } catch (error: unknown) {
+      toast({ title: "Error", description: error instanceof Error ? error.message : "Could not open the session.", variant: "destructive" });
+    } finally {
+      setOpening(null);
+    }
+  };
+
+  const createAdHocSession = async () => {
+    if (!adHocTitle.trim()) {
+      toast({ title: "Error", description: "Give the session a title.", variant: "destructive" });
+      return;
+    }
+    setOpening("ad-hoc");
+    try {
+      const [year, month, dayOfMonth] = date.split("-").map(Number);
+      const [hours, minutes] = adHocTime ? adHocTime.split(":").map(Number) : [0, 0];
+      const { data, error } = await supabase
+        .from("attendance_sessions")
+        .insert({
+          batch_id: batchId,
+          session_date: date,
+          title: adHocTitle.trim(),
+          starts_at: adHocTime ? new Date(year, month - 1, dayOfMonth, hours, minutes).toISOString() : null,
+          created_by: user!.id,
+        })
+        .select("id, batch_id, event_id, session_date, title, starts_at")
+        .single();
+      if (error) throw error;
+      setSessions(prev => [data, ...prev]);
+      setAdHocOpen(false);
+      setAdHocTitle("");
+      setAdHocTime("");
+      setActiveSession(data);
+    } catch (error: unknown) {
+      toast({ title: "Error", description: error instanceof Error ? error.message : "Could not create the session.", variant: "destructive" });
+    } finally {
+      setOpening(null);
+    }
+  };
+
+  const summaries = summarizeByStudent(records);
+  const filteredStudents = students.filter(s =>
+    !search || s.full_name.toLowerCase().includes(search.toLowerCase()) || s.student_id?.toLowerCase().includes(search.toLowerCase()));
+  const belowCount = students.filter(s => isBelowThreshold(summaries[s.user_id]?.percent ?? null, threshold)).length;
+
+  const exportSummary = () => {
+    const rows: (string | number)[][] = [["Student Name", "Student ID", "Sessions", "Present", "Late", "Absent", "Excused", "Attendance %", "Eligible"]];
+    students.forEach(s => {
+      const summary = summaries[s.user_id];
+      rows.push([
+        s.full_name, s.student_id || "",
+        summary?.sessions || 0, summary?.present || 0, summary?.late || 0, summary?.absent || 0, summary?.excused || 0,
+        summary?.percent === null || !summary ? "" : Math.round(summary.percent),
+        isBelowThreshold(summary?.percent ?? null, threshold) ? "No" : "Yes",
+      ]);
+    });
+    downloadRows(rows, `attendance-${batch?.name || "batch"}-${format(new Date(), "yyyy-MM-dd")}`, "csv");
+  };
+
+  const SessionRow = ({ title, time, session, busy, action, onQr }: { title: string; time: string; session?: AttendanceSessionRow; busy?: boolean; action: () => void; onQr: () => void }) => {
+    const marked = session ? recordsFor(session.id) : [];
+    return (
+      <div className="flex flex-col gap-3 rounded-lg border p-3 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <p className="font-medium">{title}</p>
+          <p className="text-sm text-muted-foreground">{time}</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {marked.length > 0 ? (
+            ATTENDANCE_STATUSES.map(st => {
+              const count = marked.filter(r => r.status === st.value).length;
+              return count > 0 ? <Badge key={st.value} variant="outline" className={st.className}>{st.short} {count}</Badge> : null;
+            })
+          ) : (
+            <Badge variant="outline" className="text-muted-foreground">Not taken</Badge>
+          )}
+          <Button size="sm" variant={marked.length > 0 ? "outline" : "default"} onClick={action} disabled={!!opening}>
+            {busy ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ClipboardCheck className="mr-2 h-4 w-4" />}
+            {marked.length > 0 ? "Edit" : "Take Attendance"}
+          </Button>
+          <Button size="sm" variant="outline" onClick={onQr} disabled={!!opening} title="Show a check-in QR code">
+            <QrCode className="mr-2 h-4 w-4" /> QR
+          </Button>
+        </div>
+      </div>
+    );
+  };
+
+  if (authLoading || loading) return <DashboardLayout><SkeletonTable /></DashboardLayout>;
+
+  if (role !== "admin" && role !== "faculty") {
+    return <DashboardLayout><div className="flex flex-col items-center justify-center py-12"><Lock className="mb-4 h-12 w-12 text-muted-foreground" /><h3>Access Denied</h3></div></DashboardLayout>;
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between fade-in">
+          <div>
+            <h1 className="text-2xl font-bold md:text-3xl">Attendance</h1>
+            <p className="text-muted-foreground">Mark attendance per session and track eligibility.</p>
+          </div>
+          <Select value={batchId} onValueChange={setBatchId}>
+            <SelectTrigger className="w-64"><SelectValue placeholder="Select batch" /></SelectTrigger>
+            <SelectContent>{batches.map(b => <SelectItem key={b.id} value={b.id}>{b.name}</SelectItem>)}</SelectContent>
+          </Select>
+        </div>
+
+        {batches.length === 0 ? (
+          <Card><CardContent className="py-12 text-center text-muted-foreground">No active batches assigned to you.</CardContent></Card>
+        ) : (
+          <Tabs defaultValue="sessions" className="space-y-4">
+            <TabsList>
+              <TabsTrigger value="sessions">Sessions</TabsTrigger>
+              <TabsTrigger value="summary">Summary</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="sessions" className="space-y-4">
+              <Card>
+                <CardHeader className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+                  <div>
+                    <CardTitle className="flex items-center gap-2 text-base"><CalendarDays className="h-4 w-4" /> Sessions on {format(day, "EEEE, MMM dd")}</CardTitle>
+                    <CardDescription>Scheduled sessions come from the batch calendar.</CardDescription>
+                  </div>
+                  <div className="flex gap-2">
+                    <Input type="date" value={date} onChange={e => e.target.value && setDate(e.target.value)} className="w-44" />
+                    <Button variant="outline" onClick={() => setAdHocOpen(true)}><Plus className="mr-2 h-4 w-4" /> Unscheduled</Button>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {scheduled.length === 0 && unscheduled.length === 0 ? (
+                    <p className="text-center text-muted-foreground py-8">No sessions on this day. Add one to the calendar or record an unscheduled session.</p>
+                  ) : (
+                    <>
+                      {scheduled.map(o => (
+                        <SessionRow
+                          key={o.key}
+                          title={o.title}
+                          time={o.allDay ? "All day" : `${format(o.start, "h:mm a")} – ${format(o.end, "h:mm a")}`}
+                          session={daySessions.find(s => s.event_id === o.eventId)}
+                          busy={opening === o.key}
+                          action={() => openOccurrence(o, setActiveSession)}
+                          onQr={() => openOccurrence(o, setQrSession)}
+                        />
+                      ))}
+                      {unscheduled.map(s => (
+                        <SessionRow
+                          key={s.id}
+                          title={s.title}
+                          time={s.starts_at ? `${format(parseISO(s.starts_at), "h:mm a")} · Unscheduled` : "Unscheduled"}
+                          session={s}
+                          action={() => setActiveSession(s)}
+                          onQr={() => setQrSession(s)}
+                        />
+                      ))}
+                    </>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">Recent Sheets</CardTitle>
+                  <CardDescription>{sessions.length} sessions recorded for this batch</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {sessions.length === 0 ? (
+                    <p className="text-center text-muted-foreground py-6">No attendance taken yet.</p>
+                  ) : (
+                    <div className="overflow-x-auto">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Date</TableHead>
+                            <TableHead>Session</TableHead>
+                            {ATTENDANCE_STATUSES.map(st => <TableHead key={st.value} className="text-center">{st.label}</TableHead>)}
+                            <TableHead className="text-right">Actions</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {sessions.slice(0, 20).map(s => {
+                            const marked = recordsFor(s.id);
+                            return (
+                              <TableRow key={s.id}>
+                                <TableCell className="whitespace-nowrap">{format(parseISO(s.session_date), "MMM dd, yyyy")}</TableCell>
+                                <TableCell className="font-medium">{s.title}</TableCell>
+                                {ATTENDANCE_STATUSES.map(st => (
+                                  <TableCell key={st.value} className="text-center">{marked.filter(r => r.status === st.value).length}</TableCell>
+                                ))}
+                                <TableCell className="text-right">
+                                  <Button variant="ghost" size="sm" onClick={() => setActiveSession(s)}>Open</Button>
+                                </TableCell>
+                              </TableRow>
+                            );
+                          })}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="summary">
+              <Card>
+                <CardHeader className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+                  <div>
+                    <CardTitle className="text-base">Attendance Summary</CardTitle>
+                    <CardDescription>
+                      Minimum attendance for {batch?.name}: {threshold}% · {belowCount} student{belowCount === 1 ? "" : "s"} below. Late counts as attended; excused sessions are not counted.
+                    </CardDescription>
+                  </div>
+                  <div className="flex gap-2">
+                    <div className="relative">
+                      <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                      <Input placeholder="Search..." value={search} onChange={e => setSearch(e.target.value)} className="w-48 pl-9" />
+                    </div>
+                    <Button variant="outline" onClick={exportSummary} disabled={students.length === 0}><Download className="mr-2 h-4 w-4" /> Export CSV</Button>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  {filteredStudents.length === 0 ? (
+                    <p className="text-center text-muted-foreground py-8">No students found.</p>
+                  ) : (
+                    <div className="overflow-x-auto">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Student</TableHead>
+                            <TableHead className="text-center">Sessions</TableHead>
+                            {ATTENDANCE_STATUSES.map(st => <TableHead key={st.value} className="text-center">{st.label}</TableHead>)}
+                            <TableHead className="text-right">Attendance</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {filteredStudents.map(s => {
+                            const summary = summaries[s.user_id];
+                            return (
+                              <TableRow key={s.user_id}>
+                                <TableCell>
+                                  <p className="font-medium">{s.full_name}</p>
+                                  <p className="font-mono text-xs text-muted-foreground">{s.student_id || "N/A"}</p>
+                                </TableCell>
+                                <TableCell className="text-center">{summary?.sessions || 0}</TableCell>
+                                {ATTENDANCE_STATUSES.map(st => <TableCell key={st.value} className="text-center">{summary?.[st.value] || 0}</TableCell>)}
+                                <TableCell className="text-right"><AttendanceBadge summary={summary} threshold={threshold} /></TableCell>
+                              </TableRow>
+                            );
+                          })}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+          </Tabs>
+        )}
+      </div>
+
+      <AttendanceSheetDialog session={activeSession} onOpenChange={(open) => !open && setActiveSession(null)} onSaved={() => fetchBatchData(batchId)} />
+      <CheckInQrDialog
+        session={qrSession}
+        onOpenChange={(open) => {
+          if (!open) {
+            setQrSession(null);
+            fetchBatchData(batchId);
+          }
+        }}
+      />
+
+      <Dialog open={adHocOpen} onOpenChange={setAdHocOpen}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Unscheduled Session</DialogTitle>
+            <DialogDescription>Record attendance for a session that isn't on the calendar ({format(day, "MMM dd")}).</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2"><Label>Title *</Label><Input value={adHocTitle} onChange={e => setAdHocTitle(e.target.value)} placeholder="e.g. Doubt clearing" /></div>
+            <div className="space-y-2"><Label>Start time</Label><Input type="time" value={adHocTime} onChange={e => setAdHocTime(e.target.value)} /></div>
+            <div className="flex justify-end gap-3">
+              <Button variant="outline" onClick={() => setAdHocOpen(false)}>Cancel</Button>
+              <Button onClick={createAdHocSession} disabled={opening === "ad-hoc"}>
+                {opening === "ad-hoc" && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Open Sheet
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </DashboardLayout>
+  );
+}
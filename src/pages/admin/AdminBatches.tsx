@@ -51,6 +51,7 @@ interface Batch {
   batch_strength: number | null;
   batch_timings: string | null;
   assigned_faculty_id: string | null;
+  min_attendance_percent: number;
   created_at: string;
 }
 
@@ -73,6 +74,7 @@ export default function AdminBatches() {
   const [batchStrength, setBatchStrength] = useState("");
   const [batchTimings, setBatchTimings] = useState("");
   const [assignedFacultyId, setAssignedFacultyId] = useState("");
+  const [minAttendance, setMinAttendance] = useState("75");
 
   const fetchData = async () => {
     try {
@@ -128,6 +130,7 @@ export default function AdminBatches() {
     setBatchStrength("");
     setBatchTimings("");
     setAssignedFacultyId("");
+    setMinAttendance("75");
     setEditingBatch(null);
   };
 
@@ -141,6 +144,7 @@ export default function AdminBatches() {
     setBatchStrength(batch.batch_strength?.toString() || "");
     setBatchTimings(batch.batch_timings || "");
     setAssignedFacultyId(batch.assigned_faculty_id || "");
+    setMinAttendance(batch.min_attendance_percent.toString());
     setDialogOpen(true);
   };
 
@@ -153,6 +157,15 @@ export default function AdminBatches() {
       });
       return;
     }
+    const minAttendancePercent = parseInt(minAttendance);
+    if (isNaN(minAttendancePercent) || minAttendancePercent < 0 || minAttendancePercent > 100) {
+      toast({
+        title: "Error",
+        description: "Minimum attendance must be between 0 and 100.",
+        variant: "destructive",
+      });
+      return;
+    }
 
     setSaving(true);
     try {
@@ -165,6 +178,7 @@ export default function AdminBatches() {
         batch_strength: batchStrength ? parseInt(batchStrength) : null,
         batch_timings: batchTimings || null,
         assigned_faculty_id: assignedFacultyId || null,
+        min_attendance_percent: minAttendancePercent,
       };
 
       if (editingBatch) {
@@ -342,20 +356,34 @@ export default function AdminBatches() {
                   </div>
                 </div>
 
-                <div className="space-y-2">
-                  <Label htmlFor="faculty">Assigned Faculty</Label>
-                  <Select value={assignedFacultyId} onValueChange={setAssignedFacultyId}>
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select faculty" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {facultyOptions.map((f) => (
-                        <SelectItem key={f.user_id} value={f.user_id}>
-                          {f.full_name}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="faculty">Assigned Faculty</Label>
+                    <Select value={assignedFacultyId} onValueChange={setAssignedFacultyId}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select faculty" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {facultyOptions.map((f) => (
+                          <SelectItem key={f.user_id} value={f.user_id}>
+                            {f.full_name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="minAttendance">Min. Attendance (%)</Label>
+                    <Input
+                      id="minAttendance"
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={minAttendance}
+                      onChange={(e) => setMinAttendance(e.target.value)}
+                    />
+                  </div>
                 </div>
 
                 <div className="flex justify-end gap-3 pt-4">
@@ -17,10 +17,15 @@ import {
 import {
   Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
 } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { SkeletonTable } from "@/components/SkeletonCard";
 import { useToast } from "@/hooks/use-toast";
-import { Lock, Plus, Calendar, Upload, Loader2, FileText, Trash2, Download } from "lucide-react";
+import { Lock, Plus, Calendar, Upload, Loader2, FileText, Trash2, Download, CalendarPlus } from "lucide-react";
 import { format } from "date-fns";
+import { EventCalendar } from "@/components/calendar/EventCalendar";
+import { CalendarEventDialog } from "@/components/calendar/CalendarEventDialog";
+import { OccurrenceDetailsDialog } from "@/components/calendar/OccurrenceDetailsDialog";
+import { CalendarEventRow, CalendarOccurrence, deadlineOccurrence } from "@/lib/calendarEvents";
 
 interface CalendarItem {
   id: string;
@@ -48,6 +53,13 @@ export default function AdminCalendar() {
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [deletingCalendar, setDeletingCalendar] = useState<CalendarItem | null>(null);
   const [deleting, setDeleting] = useState(false);
+  const [events, setEvents] = useState<CalendarEventRow[]>([]);
+  const [deadlines, setDeadlines] = useState<CalendarOccurrence[]>([]);
+  const [batchFilter, setBatchFilter] = useState("all");
+  const [eventDialogOpen, setEventDialogOpen] = useState(false);
+  const [editingEvent, setEditingEvent] = useState<CalendarEventRow | null>(null);
+  const [eventDate, setEventDate] = useState<Date | null>(null);
+  const [viewingDeadline, setViewingDeadline] = useState<CalendarOccurrence | null>(null);
 
   // Form state
   const [batchId, setBatchId] = useState("");
@@ -71,6 +83,8 @@ export default function AdminCalendar() {
         .order("created_at", { ascending: false });
       
       setCalendars((calendarsData as CalendarItem[]) || []);
+
+      await fetchEvents();
     } catch (error) {
       console.error("Error:", error);
     } finally {
@@ -78,6 +92,35 @@ export default function AdminCalendar() {
     }
   };
 
+  const fetchEvents = async () => {
+    const [{ data: eventsData }, { data: assignmentsData }, { data: quizzesData }] = await Promise.all([
+      supabase.from("calendar_events").select("*").order("starts_at"),
+      supabase.from("assignments").select("id, batch_id, title, deadline, deadline_time, description"),
+      supabase.from("quizzes").select("id, batch_id, title, deadline, deadline_time, description"),
+    ]);
+    setEvents(eventsData || []);
+    setDeadlines([
+      ...(assignmentsData || []).map((a) => deadlineOccurrence("assignment", a)),
+      ...(quizzesData || []).map((q) => deadlineOccurrence("quiz", q)),
+    ]);
+  };
+
+  const openNewEvent = (day: Date | null) => {
+    setEditingEvent(null);
+    setEventDate(day);
+    setEventDialogOpen(true);
+  };
+
+  const handleSelectOccurrence = (occurrence: CalendarOccurrence) => {
+    const event = events.find((e) => e.id === occurrence.eventId);
+    if (event) {
+      setEditingEvent(event);
+      setEventDialogOpen(true);
+    } else {
+      setViewingDeadline(occurrence);
+    }
+  };
+
   useEffect(() => {
     if (!authLoading) fetchData();
   }, [authLoading]);
@@ -151,83 +194,136 @@ export default function AdminCalendar() {
     return <DashboardLayout><div className="flex flex-col items-center justify-center py-12"><Lock className="mb-4 h-12 w-12 text-muted-foreground" /><h3>Access Denied</h3></div></DashboardLayout>;
   }
 
+  // Faculty only see events of the batches they teach
+  const batchIds = new Set(batches.map(b => b.id));
+
   return (
     <DashboardLayout>
       <div className="space-y-6">
         <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between fade-in">
           <div>
             <h1 className="text-2xl font-bold md:text-3xl">Working Calendar</h1>
-            <p className="text-muted-foreground">Upload and manage batch-wise working calendars.</p>
+            <p className="text-muted-foreground">Schedule batch events and manage working calendar PDFs.</p>
           </div>
-          <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
-            <DialogTrigger asChild>
-              <Button><Plus className="mr-2 h-4 w-4" /> Upload Calendar</Button>
-            </DialogTrigger>
-            <DialogContent>
-              <DialogHeader>
-                <DialogTitle>Upload Working Calendar</DialogTitle>
-                <DialogDescription>Upload a PDF calendar for a specific batch/course.</DialogDescription>
-              </DialogHeader>
-              <div className="space-y-4">
-                <div className="space-y-2">
-                  <Label>Batch *</Label>
-                  <Select value={batchId} onValueChange={setBatchId}>
-                    <SelectTrigger><SelectValue placeholder="Select batch" /></SelectTrigger>
-                    <SelectContent>{batches.map(b => <SelectItem key={b.id} value={b.id}>{b.name}</SelectItem>)}</SelectContent>
-                  </Select>
-                </div>
-                <div className="space-y-2">
-                  <Label>Title</Label>
-                  <Input value={title} onChange={e => setTitle(e.target.value)} placeholder="Working Calendar" />
-                </div>
-                <div className="space-y-2">
-                  <Label>PDF File *</Label>
-                  <Input type="file" accept=".pdf" onChange={e => setPdfFile(e.target.files?.[0] || null)} />
-                  {pdfFile && <Badge variant="outline">{pdfFile.name}</Badge>}
-                </div>
-                <div className="flex justify-end gap-3">
-                  <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
-                  <Button onClick={handleUpload} disabled={saving}>
-                    {saving ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Uploading...</> : <><Upload className="mr-2 h-4 w-4" /> Upload</>}
-                  </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => openNewEvent(null)}><CalendarPlus className="mr-2 h-4 w-4" /> Add Event</Button>
+            <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+              <DialogTrigger asChild>
+                <Button><Plus className="mr-2 h-4 w-4" /> Upload Calendar</Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Upload Working Calendar</DialogTitle>
+                  <DialogDescription>Upload a PDF calendar for a specific batch/course.</DialogDescription>
+                </DialogHeader>
+                <div className="space-y-4">
+                  <div className="space-y-2">
+                    <Label>Batch *</Label>
+                    <Select value={batchId} onValueChange={setBatchId}>
+                      <SelectTrigger><SelectValue placeholder="Select batch" /></SelectTrigger>
+                      <SelectContent>{batches.map(b => <SelectItem key={b.id} value={b.id}>{b.name}</SelectItem>)}</SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Title</Label>
+                    <Input value={title} onChange={e => setTitle(e.target.value)} placeholder="Working Calendar" />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>PDF File *</Label>
+                    <Input type="file" accept=".pdf" onChange={e => setPdfFile(e.target.files?.[0] || null)} />
+                    {pdfFile && <Badge variant="outline">{pdfFile.name}</Badge>}
+                  </div>
+                  <div className="flex justify-end gap-3">
+                    <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+                    <Button onClick={handleUpload} disabled={saving}>
+                      {saving ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Uploading...</> : <><Upload className="mr-2 h-4 w-4" /> Upload</>}
+                    </Button>
+                  </div>
                 </div>
-              </div>
-            </DialogContent>
-          </Dialog>
+              </DialogContent>
+            </Dialog>
+          </div>
         </div>
 
-        {calendars.length === 0 ? (
-          <Card><CardContent className="flex flex-col items-center justify-center py-12">
-            <Calendar className="mb-4 h-12 w-12 text-muted-foreground" />
-            <h3 className="text-lg font-semibold">No calendars yet</h3>
-            <p className="mb-4 text-muted-foreground">Upload a working calendar for a batch.</p>
-            <Button onClick={() => setDialogOpen(true)}><Plus className="mr-2 h-4 w-4" /> Upload Calendar</Button>
-          </CardContent></Card>
-        ) : (
-          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
-            {calendars.map(cal => (
-              <Card key={cal.id} className="transition-all hover:shadow-md">
-                <CardHeader className="pb-3">
-                  <div className="flex items-center justify-between">
-                    <Badge variant="outline">{cal.batches?.name}</Badge>
-                    <span className="text-xs text-muted-foreground">{format(new Date(cal.created_at), "MMM dd, yyyy")}</span>
-                  </div>
-                  <CardTitle className="text-base mt-2 flex items-center gap-2"><Calendar className="h-4 w-4 text-primary" />{cal.title}</CardTitle>
-                </CardHeader>
-                <CardContent className="flex gap-2">
-                  <Button variant="outline" size="sm" className="flex-1" onClick={() => handleViewPdf(cal.pdf_url)}>
-                    <FileText className="mr-2 h-4 w-4" /> View PDF
-                  </Button>
-                  <Button variant="ghost" size="sm" className="text-destructive hover:text-destructive" onClick={() => { setDeletingCalendar(cal); setDeleteDialogOpen(true); }}>
-                    <Trash2 className="h-4 w-4" />
-                  </Button>
-                </CardContent>
-              </Card>
-            ))}
-          </div>
-        )}
+        <Tabs defaultValue="events" className="space-y-4">
+          <TabsList>
+            <TabsTrigger value="events">Events</TabsTrigger>
+            <TabsTrigger value="pdf">PDF Calendars ({calendars.length})</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="events">
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between gap-4 pb-3">
+                <CardTitle className="text-base">Batch Events</CardTitle>
+                <Select value={batchFilter} onValueChange={setBatchFilter}>
+                  <SelectTrigger className="w-56"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All batches</SelectItem>
+                    {batches.map(b => <SelectItem key={b.id} value={b.id}>{b.name}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </CardHeader>
+              <CardContent>
+                <EventCalendar
+                  events={events.filter(e => batchIds.has(e.batch_id) && (batchFilter === "all" || e.batch_id === batchFilter))}
+                  deadlines={deadlines.filter(d => batchIds.has(d.batchId) && (batchFilter === "all" || d.batchId === batchFilter))}
+                  onSelect={handleSelectOccurrence}
+                  onSelectDay={openNewEvent}
+                />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="pdf">
+            {calendars.length === 0 ? (
+              <Card><CardContent className="flex flex-col items-center justify-center py-12">
+                <Calendar className="mb-4 h-12 w-12 text-muted-foreground" />
+                <h3 className="text-lg font-semibold">No calendars yet</h3>
+                <p className="mb-4 text-muted-foreground">Upload a working calendar for a batch.</p>
+                <Button onClick={() => setDialogOpen(true)}><Plus className="mr-2 h-4 w-4" /> Upload Calendar</Button>
+              </CardContent></Card>
+            ) : (
+              <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+                {calendars.map(cal => (
+                  <Card key={cal.id} className="transition-all hover:shadow-md">
+                    <CardHeader className="pb-3">
+                      <div className="flex items-center justify-between">
+                        <Badge variant="outline">{cal.batches?.name}</Badge>
+                        <span className="text-xs text-muted-foreground">{format(new Date(cal.created_at), "MMM dd, yyyy")}</span>
+                      </div>
+                      <CardTitle className="text-base mt-2 flex items-center gap-2"><Calendar className="h-4 w-4 text-primary" />{cal.title}</CardTitle>
+                    </CardHeader>
+                    <CardContent className="flex gap-2">
+                      <Button variant="outline" size="sm" className="flex-1" onClick={() => handleViewPdf(cal.pdf_url)}>
+                        <FileText className="mr-2 h-4 w-4" /> View PDF
+                      </Button>
+                      <Button variant="ghost" size="sm" className="text-destructive hover:text-destructive" onClick={() => { setDeletingCalendar(cal); setDeleteDialogOpen(true); }}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
       </div>
 
+      <CalendarEventDialog
+        open={eventDialogOpen}
+        onOpenChange={setEventDialogOpen}
+        batches={batches}
+        event={editingEvent}
+        defaultBatchId={batchFilter !== "all" ? batchFilter : undefined}
+        defaultDate={eventDate}
+        onSaved={fetchEvents}
+      />
+      <OccurrenceDetailsDialog
+        occurrence={viewingDeadline}
+        batchName={batches.find(b => b.id === viewingDeadline?.batchId)?.name}
+        onOpenChange={(open) => { if (!open) setViewingDeadline(null); }}
+      />
+
       <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <AlertDialogContent>
           <AlertDialogHeader>
@@ -0,0 +1,24 @@
+import { useAuth } from "@/hooks/useAuth";
+import { DashboardLayout } from "@/components/layout/DashboardLayout";
+import { LeadFunnelDashboard } from "@/components/leads/LeadFunnelDashboard";
+import { Shield } from "lucide-react";
+
+export default function AdminLeadsFunnel() {
+  const { role } = useAuth();
+
+  if (role !== "admin") {
+    return <DashboardLayout><div className="flex flex-col items-center justify-center py-12"><Shield className="mb-4 h-12 w-12 text-muted-foreground" /><h3>Access Denied</h3></div></DashboardLayout>;
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="fade-in">
+          <h1 className="text-2xl font-bold md:text-3xl">Leads Funnel</h1>
+          <p className="text-muted-foreground">Stage conversion, time in stage and BDE performance across all leads.</p>
+        </div>
+        <LeadFunnelDashboard scope="admin" />
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -8,7 +8,10 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
-import { Shield, Filter } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Shield, Filter, History, Link2, GraduationCap } from "lucide-react";
+import { LeadActivityDialog } from "@/components/leads/LeadActivityDialog";
+import { LinkStudentDialog } from "@/components/leads/LinkStudentDialog";
 
 interface Lead {
   id: string;
@@ -24,6 +27,20 @@ interface Lead {
   status: string;
   assigned_bde_id: string | null;
   created_by: string;
+  converted_student_id: string | null;
+}
+
+interface LinkedStudent {
+  user_id: string;
+  status: string | null;
+  full_name: string;
+}
+
+interface EnrolmentRow {
+  key: string;
+  leads: number;
+  registered: number;
+  approved: number;
 }
 
 interface BdeProfile {
@@ -49,22 +66,41 @@ export default function AdminLeadsGenerated() {
   const [collegeFilter, setCollegeFilter] = useState("");
   const [yearFilter, setYearFilter] = useState("all");
   const [bdeFilter, setBdeFilter] = useState("all");
+  const [activityLead, setActivityLead] = useState<Lead | null>(null);
+  const [activityOpen, setActivityOpen] = useState(false);
+  const [linkLead, setLinkLead] = useState<Lead | null>(null);
+  const [linkOpen, setLinkOpen] = useState(false);
+  const [linkedStudents, setLinkedStudents] = useState<LinkedStudent[]>([]);
 
-  useEffect(() => {
-    const fetchData = async () => {
-      const { data: leadsData } = await supabase.from("leads").select("*").order("created_at", { ascending: false });
-      setLeads((leadsData || []) as Lead[]);
+  const fetchData = async () => {
+    const { data: leadsData } = await supabase.from("leads").select("*").order("created_at", { ascending: false });
+    setLeads((leadsData || []) as Lead[]);
 
-      const { data: bdeRoles } = await supabase.from("user_roles").select("user_id").eq("role", "bde");
-      if (bdeRoles && bdeRoles.length > 0) {
-        const ids = bdeRoles.map(r => r.user_id);
-        const { data: profiles } = await supabase.from("profiles").select("id, full_name").in("id", ids);
-        setBdeProfiles((profiles || []).map(p => ({ user_id: p.id, full_name: p.full_name })));
-      }
-      setLoading(false);
-    };
-    fetchData();
-  }, []);
+    const studentIds = [...new Set((leadsData || []).map(l => l.converted_student_id).filter(Boolean))] as string[];
+    if (studentIds.length > 0) {
+      const [{ data: studentProfiles }, { data: studentNames }] = await Promise.all([
+        supabase.from("student_profiles").select("user_id, status").in("user_id", studentIds),
+        supabase.from("profiles").select("id, full_name").in("id", studentIds),
+      ]);
+      setLinkedStudents(studentIds.map(id => ({
+        user_id: id,
+        status: studentProfiles?.find(sp => sp.user_id === id)?.status || null,
+        full_name: studentNames?.find(p => p.id === id)?.full_name || "",
+      })));
+    } else {
+      setLinkedStudents([]);
+    }
+
+    const { data: bdeRoles } = await supabase.from("user_roles").select("user_id").eq("role", "bde");
+    if (bdeRoles && bdeRoles.length > 0) {
+      const ids = bdeRoles.map(r => r.user_id);
+      const { data: profiles } = await supabase.from("profiles").select("id, full_name").in("id", ids);
+      setBdeProfiles((profiles || []).map(p => ({ user_id: p.id, full_name: p.full_name })));
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => { fetchData(); }, []);
 
   if (role !== "admin") {
     return <DashboardLayout><div className="flex flex-col items-center justify-center py-12"><Shield className="mb-4 h-12 w-12 text-muted-foreground" /><h3>Access Denied</h3></div></DashboardLayout>;
@@ -83,6 +119,51 @@ export default function AdminLeadsGenerated() {
     return bdeProfiles.find(b => b.user_id === id)?.full_name || "-";
   };
 
+  // Which BDEs and colleges produced registered and approved students
+  const enrolmentBy = (keyOf: (l: Lead) => string) => {
+    const rows = new Map<string, EnrolmentRow>();
+    filtered.forEach(l => {
+      const key = keyOf(l);
+      const row = rows.get(key) || { key, leads: 0, registered: 0, approved: 0 };
+      row.leads++;
+      if (l.converted_student_id) {
+        row.registered++;
+        if (linkedStudents.find(s => s.user_id === l.converted_student_id)?.status === "approved") row.approved++;
+      }
+      rows.set(key, row);
+    });
+    return [...rows.values()].sort((a, b) => b.approved - a.approved || b.registered - a.registered || b.leads - a.leads);
+  };
+  const enrolmentByBde = enrolmentBy(l => getBdeName(l.assigned_bde_id || l.created_by));
+  const enrolmentByCollege = enrolmentBy(l => l.college_name?.trim() || "Unknown");
+
+  const EnrolmentTable = ({ title, rows }: { title: string; rows: EnrolmentRow[] }) => (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>{title}</TableHead>
+            <TableHead className="text-right">Leads</TableHead>
+            <TableHead className="text-right">Registered</TableHead>
+            <TableHead className="text-right">Approved</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.slice(0, 10).map(r => (
+            <TableRow key={r.key}>
+              <TableCell className="font-medium">{r.key}</TableCell>
+              <TableCell className="text-right">{r.leads}</TableCell>
+              <TableCell className="text-right">{r.registered}</TableCell>
+              <TableCell className="text-right">
+                {r.approved} <span className="text-xs text-muted-foreground">({r.leads ? Math.round((r.approved / r.leads) * 100) : 0}%)</span>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+
   return (
     <DashboardLayout>
       <div className="space-y-6">
@@ -123,6 +204,16 @@ export default function AdminLeadsGenerated() {
           </CardContent>
         </Card>
 
+        {filtered.length > 0 && (
+          <Card>
+            <CardHeader><CardTitle className="flex items-center gap-2 text-base"><GraduationCap className="h-4 w-4" /> Enrolments</CardTitle></CardHeader>
+            <CardContent className="grid gap-6 lg:grid-cols-2">
+              <EnrolmentTable title="BDE" rows={enrolmentByBde} />
+              <EnrolmentTable title="College" rows={enrolmentByCollege} />
+            </CardContent>
+          </Card>
+        )}
+
         <Card>
           <CardHeader><CardTitle>Leads ({filtered.length})</CardTitle></CardHeader>
           <CardContent>
@@ -136,11 +227,13 @@ export default function AdminLeadsGenerated() {
                     <TableHead>Year</TableHead>
                     <TableHead>Status</TableHead>
                     <TableHead>Generated By (BDE)</TableHead>
+                    <TableHead>Student</TableHead>
+                    <TableHead>History</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
                   {filtered.length === 0 ? (
-                    <TableRow><TableCell colSpan={6} className="text-center py-8 text-muted-foreground">No leads found</TableCell></TableRow>
+                    <TableRow><TableCell colSpan={8} className="text-center py-8 text-muted-foreground">No leads found</TableCell></TableRow>
                   ) : (
                     filtered.map(lead => (
                       <TableRow key={lead.id}>
@@ -150,6 +243,24 @@ export default function AdminLeadsGenerated() {
                         <TableCell>{lead.year || "-"}</TableCell>
                         <TableCell><Badge variant="outline">{statusLabels[lead.status] || lead.status}</Badge></TableCell>
                         <TableCell>{getBdeName(lead.created_by)}</TableCell>
+                        <TableCell>
+                          {lead.converted_student_id ? (
+                            <button type="button" onClick={() => { setLinkLead(lead); setLinkOpen(true); }}>
+                              <Badge className={linkedStudents.find(s => s.user_id === lead.converted_student_id)?.status === "approved" ? "bg-success/10 text-success" : ""} variant="outline">
+                                {linkedStudents.find(s => s.user_id === lead.converted_student_id)?.full_name || "Linked"}
+                              </Badge>
+                            </button>
+                          ) : (
+                            <Button size="sm" variant="ghost" onClick={() => { setLinkLead(lead); setLinkOpen(true); }}>
+                              <Link2 className="mr-1 h-4 w-4" /> Link
+                            </Button>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Button size="sm" variant="ghost" onClick={() => { setActivityLead(lead); setActivityOpen(true); }}>
+                            <History className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
                       </TableRow>
                     ))
                   )}
@@ -159,6 +270,9 @@ export default function AdminLeadsGenerated() {
           </CardContent>
         </Card>
       </div>
+
+      <LeadActivityDialog lead={activityLead} open={activityOpen} onOpenChange={setActivityOpen} />
+      <LinkStudentDialog lead={linkLead} open={linkOpen} onOpenChange={setLinkOpen} onLinked={fetchData} />
     </DashboardLayout>
   );
 }
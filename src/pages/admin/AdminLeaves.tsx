@@ -18,8 +18,10 @@ import {
 } from "@/components/ui/dialog";
 import { SkeletonTable } from "@/components/SkeletonCard";
 import { useToast } from "@/hooks/use-toast";
-import { Shield, CalendarOff, Filter, Check, X, Loader2, Users, GraduationCap, Eye } from "lucide-react";
-import { format, parseISO, isToday } from "date-fns";
+import { Shield, CalendarOff, Filter, Check, X, Loader2, Users, GraduationCap, Eye, Scale, AlertTriangle, Paperclip } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { LeavePoliciesDialog } from "@/components/leave/LeavePoliciesDialog";
+import { LeavePolicy, checkLeaveApproval, computeLeaveBalances, formatDays, formatLeaveDates, resolveLeavePolicy } from "@/lib/leavePolicy";
 
 interface Batch {
   id: string;
@@ -30,6 +32,10 @@ interface Batch {
 interface LeaveRequest {
   id: string;
   leave_date: string;
+  end_date: string;
+  half_day: string | null;
+  days: number;
+  attachment_path: string | null;
   leave_type: "sick" | "casual";
   reason: string;
   title: string | null;
@@ -59,6 +65,8 @@ export default function AdminLeaves() {
   const [facultyBatchIds, setFacultyBatchIds] = useState<string[]>([]);
   const [viewDialogOpen, setViewDialogOpen] = useState(false);
   const [selectedRequest, setSelectedRequest] = useState<LeaveRequest | null>(null);
+  const [policies, setPolicies] = useState<LeavePolicy[]>([]);
+  const [policiesOpen, setPoliciesOpen] = useState(false);
 
   // Filters
   const [dateFilter, setDateFilter] = useState("all");
@@ -78,6 +86,11 @@ export default function AdminLeaves() {
     }
   };
 
+  const fetchPolicies = async () => {
+    const { data } = await supabase.from("leave_policies").select("*");
+    setPolicies(data || []);
+  };
+
   const fetchRequests = async () => {
     try {
       let assignedBatchIds: string[] = [];
@@ -132,14 +145,17 @@ export default function AdminLeaves() {
     if (role === "admin" || role === "faculty") {
       fetchRequests();
       fetchBatches();
+      fetchPolicies();
     }
   }, [role]);
 
   useEffect(() => {
     let result = requests;
     if (userTypeFilter !== "all") result = result.filter((r) => r.user_role === userTypeFilter);
-    if (dateFilter === "today") result = result.filter((r) => isToday(parseISO(r.leave_date)));
-    else if (dateFilter === "custom" && customDate) result = result.filter((r) => r.leave_date === customDate);
+    // Date filters match any request whose range covers the day
+    const covers = (r: LeaveRequest, day: string) => r.leave_date <= day && r.end_date >= day;
+    if (dateFilter === "today") result = result.filter((r) => covers(r, format(new Date(), "yyyy-MM-dd")));
+    else if (dateFilter === "custom" && customDate) result = result.filter((r) => covers(r, customDate));
     if (batchFilter !== "all") result = result.filter((r) => r.student_profile?.batch_id === batchFilter);
     setFilteredRequests(result);
   }, [dateFilter, customDate, batchFilter, userTypeFilter, requests]);
@@ -152,12 +168,13 @@ export default function AdminLeaves() {
         reviewed_by: user?.id,
         reviewed_at: new Date().toISOString(),
       }).eq("id", requestId);
-      if (error) throw error;
+      // The quota trigger rejects approvals over a blocking allowance
+      if (error) throw new Error(error.message);
       toast({ title: "Success", description: `Leave request ${approved ? "approved" : "rejected"} successfully.` });
       fetchRequests();
-    } catch (error) {
+    } catch (error: unknown) {
       console.error("Error updating leave request:", error);
-      toast({ title: "Error", description: "Failed to update leave request.", variant: "destructive" });
+      toast({ title: "Error", description: error instanceof Error ? error.message : "Failed to update leave request.", variant: "destructive" });
     } finally {
       setProcessingId(null);
     }
@@ -176,6 +193,34 @@ export default function AdminLeaves() {
     return <Badge className="bg-primary/10 text-primary"><GraduationCap className="mr-1 h-3 w-3" />Student</Badge>;
   };
 
+  const openAttachment = async (path: string) => {
+    try {
+      const { data, error } = await supabase.storage.from("leave-attachments").createSignedUrl(path, 60 * 60);
+      if (error) throw error;
+      if (data?.signedUrl) window.open(data.signedUrl, "_blank");
+    } catch (err) {
+      console.error("Error getting attachment URL:", err);
+      toast({ title: "Error", description: "Could not open the attachment.", variant: "destructive" });
+    }
+  };
+
+  const policyFor = (r: LeaveRequest) =>
+    r.user_role === "faculty" ? resolveLeavePolicy(policies, "faculty") : resolveLeavePolicy(policies, "student", r.student_profile?.batch_id);
+
+  // Quota standing of a pending request if it were approved now
+  const quotaStatus = (r: LeaveRequest) =>
+    r.status === "pending" ? checkLeaveApproval(policyFor(r), requests.filter((x) => x.user_id === r.user_id), r) : "ok";
+
+  const getQuotaBadge = (r: LeaveRequest) => {
+    const status = quotaStatus(r);
+    if (status === "ok") return null;
+    return (
+      <Badge variant="outline" className={status === "block" ? "bg-destructive/10 text-destructive border-destructive/20" : "bg-warning/10 text-warning border-warning/20"}>
+        <AlertTriangle className="mr-1 h-3 w-3" /> Over quota
+      </Badge>
+    );
+  };
+
   const studentRequests = requests.filter(r => r.user_role === "student");
   const facultyRequests = requests.filter(r => r.user_role === "faculty");
   const pendingRequests = requests.filter(r => r.status === "pending");
@@ -198,9 +243,16 @@ export default function AdminLeaves() {
   return (
     <DashboardLayout>
       <div className="space-y-6">
-        <div className="fade-in">
-          <h1 className="text-2xl font-bold md:text-3xl">Leave Requests</h1>
-          <p className="text-muted-foreground">Manage all leave requests from students and faculty.</p>
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between fade-in">
+          <div>
+            <h1 className="text-2xl font-bold md:text-3xl">Leave Requests</h1>
+            <p className="text-muted-foreground">Manage all leave requests from students and faculty.</p>
+          </div>
+          {canManage && (
+            <Button variant="outline" onClick={() => setPoliciesOpen(true)}>
+              <Scale className="mr-2 h-4 w-4" /> Leave Policies
+            </Button>
+          )}
         </div>
 
         {/* Stats */}
@@ -300,7 +352,7 @@ export default function AdminLeaves() {
                     <TableRow>
                       <TableHead>User</TableHead>
                       <TableHead>Type</TableHead>
-                      <TableHead>Leave Date</TableHead>
+                      <TableHead>Leave Dates</TableHead>
                       <TableHead>Leave Type</TableHead>
                       <TableHead>Reason</TableHead>
                       <TableHead>Status</TableHead>
@@ -317,10 +369,20 @@ export default function AdminLeaves() {
                           </div>
                         </TableCell>
                         <TableCell>{getUserTypeBadge(request.user_role)}</TableCell>
-                        <TableCell>{format(parseISO(request.leave_date), "MMM d, yyyy")}</TableCell>
-                        <TableCell><Badge variant="outline" className="capitalize">{request.leave_type}</Badge></TableCell>
+                        <TableCell>
+                          <p className="whitespace-nowrap">{formatLeaveDates(request)}</p>
+                          <p className="text-xs text-muted-foreground">{formatDays(request.days)}</p>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-1">
+                            <Badge variant="outline" className="capitalize">{request.leave_type}</Badge>
+                            {request.attachment_path && <Paperclip className="h-3 w-3 text-muted-foreground" />}
+                          </div>
+                        </TableCell>
                         <TableCell><p className="max-w-[200px] truncate">{request.reason}</p></TableCell>
-                        <TableCell>{getStatusBadge(request.status)}</TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">{getStatusBadge(request.status)}{getQuotaBadge(request)}</div>
+                        </TableCell>
                         <TableCell className="text-right">
                           <div className="flex justify-end gap-2">
                             <Button size="sm" variant="ghost" onClick={() => { setSelectedRequest(request); setViewDialogOpen(true); }}>
@@ -331,7 +393,13 @@ export default function AdminLeaves() {
                                 <Button size="sm" variant="outline" className="text-destructive hover:bg-destructive/10" onClick={() => handleAction(request.id, false)} disabled={processingId === request.id}>
                                   {processingId === request.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <X className="h-4 w-4" />}
                                 </Button>
-                                <Button size="sm" variant="default" onClick={() => handleAction(request.id, true)} disabled={processingId === request.id}>
+                                <Button
+                                  size="sm"
+                                  variant="default"
+                                  onClick={() => handleAction(request.id, true)}
+                                  disabled={processingId === request.id || quotaStatus(request) === "block"}
+                                  title={quotaStatus(request) === "block" ? "Over the leave allowance" : undefined}
+                                >
                                   {processingId === request.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
                                 </Button>
                               </>
@@ -368,8 +436,9 @@ export default function AdminLeaves() {
               <div className="space-y-4">
                 <div className="grid grid-cols-2 gap-4 text-sm">
                   <div className="rounded-lg bg-muted/50 p-3">
-                    <p className="text-muted-foreground">Leave Date</p>
-                    <p className="font-medium">{format(parseISO(selectedRequest.leave_date), "EEEE, MMM d, yyyy")}</p>
+                    <p className="text-muted-foreground">Leave Dates</p>
+                    <p className="font-medium">{formatLeaveDates(selectedRequest)}</p>
+                    <p className="text-xs text-muted-foreground">{formatDays(selectedRequest.days)}, excluding weekends and holidays</p>
                   </div>
                   <div className="rounded-lg bg-muted/50 p-3">
                     <p className="text-muted-foreground">Leave Type</p>
@@ -390,10 +459,39 @@ export default function AdminLeaves() {
                     <p className="font-medium">{selectedRequest.title}</p>
                   </div>
                 )}
+                {(() => {
+                  const policy = policyFor(selectedRequest);
+                  const balance = computeLeaveBalances(policy, requests.filter((r) => r.user_id === selectedRequest.user_id), selectedRequest.leave_date)
+                    .find((b) => b.type === selectedRequest.leave_type);
+                  if (!balance || balance.quota === null) return null;
+                  const status = quotaStatus(selectedRequest);
+                  return (
+                    <div className={`rounded-lg border p-4 ${status === "block" ? "border-destructive/30 bg-destructive/5" : status === "warn" ? "border-warning/30 bg-warning/5" : ""}`}>
+                      <p className="text-sm font-medium text-muted-foreground mb-1">Leave Balance</p>
+                      <p className="text-sm">
+                        <span className="capitalize">{balance.type}</span>: {balance.used} approved, {balance.pending} pending of {balance.quota} allowed
+                        {policy?.period === "year" && ` in ${selectedRequest.leave_date.slice(0, 4)}`}
+                      </p>
+                      {status !== "ok" && (
+                        <p className={`mt-1 text-sm ${status === "block" ? "text-destructive" : "text-warning"}`}>
+                          {status === "block" ? "Approving would exceed the allowance, which this policy does not permit." : "Approving will take this user over their allowance."}
+                        </p>
+                      )}
+                    </div>
+                  );
+                })()}
                 <div className="rounded-lg border p-4">
                   <p className="text-sm font-medium text-muted-foreground mb-1">Reason</p>
                   <p className="whitespace-pre-wrap">{selectedRequest.reason}</p>
                 </div>
+                {selectedRequest.attachment_path && (
+                  <div className="rounded-lg border p-4">
+                    <p className="text-sm font-medium text-muted-foreground mb-1">Attachment</p>
+                    <Button variant="link" className="h-auto p-0 text-sm" onClick={() => openAttachment(selectedRequest.attachment_path!)}>
+                      <Paperclip className="mr-1 h-3 w-3" /> View proof
+                    </Button>
+                  </div>
+                )}
                 <div className="rounded-lg border p-4">
                   <p className="text-sm font-medium text-muted-foreground mb-1">Contact</p>
                   <p className="text-sm">{selectedRequest.profile?.email}</p>
@@ -404,7 +502,7 @@ export default function AdminLeaves() {
                     <Button variant="outline" className="text-destructive" onClick={() => { handleAction(selectedRequest.id, false); setViewDialogOpen(false); }}>
                       <X className="mr-2 h-4 w-4" /> Reject
                     </Button>
-                    <Button onClick={() => { handleAction(selectedRequest.id, true); setViewDialogOpen(false); }}>
+                    <Button onClick={() => { handleAction(selectedRequest.id, true); setViewDialogOpen(false); }} disabled={quotaStatus(selectedRequest) === "block"}>
                       <Check className="mr-2 h-4 w-4" /> Approve
                     </Button>
                   </div>
@@ -414,6 +512,8 @@ export default function AdminLeaves() {
           )}
         </DialogContent>
       </Dialog>
+
+      <LeavePoliciesDialog open={policiesOpen} onOpenChange={setPoliciesOpen} batches={batches} onSaved={fetchPolicies} />
     </DashboardLayout>
   );
 }
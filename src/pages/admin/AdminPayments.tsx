@@ -0,0 +1,367 @@
+import { useEffect, useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { DashboardLayout } from "@/components/layout/DashboardLayout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { SkeletonTable } from "@/components/SkeletonCard";
+import { AlertTriangle, Download, IndianRupee, Plus, Search, Shield, Wallet } from "lucide-react";
+import { format, parseISO, startOfMonth } from "date-fns";
+import { PaymentPlanDialog, PlanPayer } from "@/components/payments/PaymentPlanDialog";
+import { PaymentLedgerDialog } from "@/components/payments/PaymentLedgerDialog";
+import { PaymentRecord, allocatePayments, formatCurrency, getPaymentModeLabel, sumAmounts } from "@/lib/payments";
+import { downloadRows } from "@/lib/spreadsheet";
+
+interface PlanRow {
+  id: string;
+  lead_id: string | null;
+  student_id: string | null;
+  payer_name: string;
+  title: string;
+  total_amount: number;
+  created_at: string;
+}
+
+interface InstallmentRow {
+  plan_id: string;
+  installment_number: number;
+  amount: number;
+  due_date: string;
+}
+
+interface LeadRow {
+  id: string;
+  name: string;
+  phone: string | null;
+  college_name: string | null;
+  assigned_bde_id: string | null;
+  created_by: string;
+  converted_student_id: string | null;
+}
+
+interface StudentRow {
+  user_id: string;
+  student_id: string | null;
+  batch_id: string | null;
+}
+
+interface CollectionRow {
+  key: string;
+  plans: number;
+  billed: number;
+  collected: number;
+  outstanding: number;
+  overdue: number;
+}
+
+export default function AdminPayments() {
+  const { role } = useAuth();
+  const [loading, setLoading] = useState(true);
+  const [plans, setPlans] = useState<PlanRow[]>([]);
+  const [installments, setInstallments] = useState<InstallmentRow[]>([]);
+  const [payments, setPayments] = useState<PaymentRecord[]>([]);
+  const [leads, setLeads] = useState<LeadRow[]>([]);
+  const [students, setStudents] = useState<StudentRow[]>([]);
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [batchNames, setBatchNames] = useState<Record<string, string>>({});
+  const [search, setSearch] = useState("");
+  const [outstandingOnly, setOutstandingOnly] = useState(false);
+  const [from, setFrom] = useState(format(startOfMonth(new Date()), "yyyy-MM-dd"));
+  const [to, setTo] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [planDialogOpen, setPlanDialogOpen] = useState(false);
+  const [ledgerPlanId, setLedgerPlanId] = useState<string | null>(null);
+  const [ledgerOpen, setLedgerOpen] = useState(false);
+
+  const fetchData = async () => {
+    try {
+      const [planRes, installmentRes, paymentRes, leadRes, studentRes, batchRes, bdeRes] = await Promise.all([
+        supabase.from("payment_plans").select("id, lead_id, student_id, payer_name, title, total_amount, created_at").order("created_at", { ascending: false }),
+        supabase.from("payment_installments").select("plan_id, installment_number, amount, due_date"),
+        supabase.from("payments").select("*").order("paid_on", { ascending: false }),
+        supabase.from("leads").select("id, name, phone, college_name, assigned_bde_id, created_by, converted_student_id"),
+        supabase.from("student_profiles").select("user_id, student_id, batch_id"),
+        supabase.from("batches").select("id, name"),
+        supabase.from("user_roles").select("user_id").eq("role", "bde"),
+      ]);
+      if (planRes.error) throw planRes.error;
+      setPlans(planRes.data || []);
+      setInstallments(installmentRes.data || []);
+      setPayments(paymentRes.data || []);
+      setLeads(leadRes.data || []);
+      setStudents(studentRes.data || []);
+      setBatchNames(Object.fromEntries((batchRes.data || []).map((b) => [b.id, b.name])));
+
+      const ids = [...new Set([...(studentRes.data || []).map((s) => s.user_id), ...(bdeRes.data || []).map((r) => r.user_id)])];
+      if (ids.length > 0) {
+        const { data: profiles } = await supabase.from("profiles").select("id, full_name").in("id", ids);
+        setNames(Object.fromEntries((profiles || []).map((p) => [p.id, p.full_name])));
+      }
+    } catch (error) {
+      console.error("Error fetching payments:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => { fetchData(); }, []);
+
+  if (role !== "admin") {
+    return <DashboardLayout><div className="flex flex-col items-center justify-center py-12"><Shield className="mb-4 h-12 w-12 text-muted-foreground" /><h3>Access Denied</h3></div></DashboardLayout>;
+  }
+
+  if (loading) return <DashboardLayout><SkeletonTable /></DashboardLayout>;
+
+  const today = format(new Date(), "yyyy-MM-dd");
+
+  // A plan belongs to the batch of its student (directly or through the converted lead)
+  // and to the BDE who worked the lead
+  const planLead = (plan: PlanRow) =>
+    leads.find((l) => l.id === plan.lead_id) || (plan.student_id ? leads.find((l) => l.converted_student_id === plan.student_id) : undefined);
+  const planBatch = (plan: PlanRow) => {
+    const studentId = plan.student_id || planLead(plan)?.converted_student_id;
+    const batchId = students.find((s) => s.user_id === studentId)?.batch_id;
+    return batchId ? batchNames[batchId] || "Unknown batch" : "No batch";
+  };
+  const planBde = (plan: PlanRow) => {
+    const lead = planLead(plan);
+    return lead ? names[lead.assigned_bde_id || lead.created_by] || "Unknown BDE" : "Direct";
+  };
+
+  const ledger = plans.map((plan) => {
+    const planPayments = payments.filter((p) => p.plan_id === plan.id);
+    const paid = sumAmounts(planPayments);
+    const schedule = allocatePayments(installments.filter((i) => i.plan_id === plan.id), paid, today);
+    return {
+      ...plan,
+      paid,
+      outstanding: Math.max(Number(plan.total_amount) - paid, 0),
+      overdue: schedule.filter((i) => i.status === "overdue").reduce((sum, i) => sum + Number(i.amount) - i.paid, 0),
+      nextDue: schedule.find((i) => i.status !== "paid"),
+      batch: planBatch(plan),
+      bde: planBde(plan),
+    };
+  });
+
+  const query = search.trim().toLowerCase();
+  const visibleLedger = ledger.filter((p) =>
+    (!outstandingOnly || p.outstanding > 0)
+    && (!query || p.payer_name.toLowerCase().includes(query) || p.title.toLowerCase().includes(query)));
+
+  const paymentsInRange = payments.filter((p) => (!from || p.paid_on >= from) && (!to || p.paid_on <= to));
+  const collectionsBy = (keyOf: (plan: (typeof ledger)[number]) => string) => {
+    const rows = new Map<string, CollectionRow>();
+    for (const plan of ledger) {
+      const key = keyOf(plan);
+      const row = rows.get(key) || { key, plans: 0, billed: 0, collected: 0, outstanding: 0, overdue: 0 };
+      row.plans++;
+      row.billed += Number(plan.total_amount);
+      row.collected += sumAmounts(paymentsInRange.filter((p) => p.plan_id === plan.id));
+      row.outstanding += plan.outstanding;
+      row.overdue += plan.overdue;
+      rows.set(key, row);
+    }
+    return [...rows.values()].sort((a, b) => b.collected - a.collected || b.billed - a.billed);
+  };
+
+  const payerOptions: PlanPayer[] = [
+    ...students.map((s) => ({
+      key: `student:${s.user_id}`, lead_id: null, student_id: s.user_id,
+      name: names[s.user_id] || s.student_id || "Student", detail: `Student${s.student_id ? ` ${s.student_id}` : ""}`,
+    })),
+    ...leads.filter((l) => !l.converted_student_id).map((l) => ({
+      key: `lead:${l.id}`, lead_id: l.id, student_id: null,
+      name: l.name, detail: `Lead${l.college_name ? ` · ${l.college_name}` : ""}`,
+    })),
+  ].sort((a, b) => a.name.localeCompare(b.name));
+
+  const handleExport = () => {
+    const planById = Object.fromEntries(ledger.map((p) => [p.id, p]));
+    downloadRows([
+      ["Receipt", "Date", "Payer", "Plan", "Amount", "Mode", "Reference", "Batch", "BDE"],
+      ...paymentsInRange.map((p) => {
+        const plan = planById[p.plan_id];
+        return [p.receipt_number, p.paid_on, plan?.payer_name, plan?.title, Number(p.amount), getPaymentModeLabel(p.mode), p.reference_number, plan?.batch, plan?.bde];
+      }),
+    ], `collections-${from || "start"}-to-${to || today}`, "csv");
+  };
+
+  const CollectionTable = ({ title, rows }: { title: string; rows: CollectionRow[] }) => (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>{title}</TableHead>
+            <TableHead className="text-right">Plans</TableHead>
+            <TableHead className="text-right">Billed</TableHead>
+            <TableHead className="text-right">Collected</TableHead>
+            <TableHead className="text-right">Outstanding</TableHead>
+            <TableHead className="text-right">Overdue</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.length === 0 ? (
+            <TableRow><TableCell colSpan={6} className="text-center py-8 text-muted-foreground">No payment plans yet</TableCell></TableRow>
+          ) : (
+            rows.map((r) => (
+              <TableRow key={r.key}>
+                <TableCell className="font-medium">{r.key}</TableCell>
+                <TableCell className="text-right">{r.plans}</TableCell>
+                <TableCell className="text-right">{formatCurrency(r.billed)}</TableCell>
+                <TableCell className="text-right text-success">{formatCurrency(r.collected)}</TableCell>
+                <TableCell className="text-right">{formatCurrency(r.outstanding)}</TableCell>
+                <TableCell className={`text-right ${r.overdue > 0 ? "text-destructive" : ""}`}>{formatCurrency(r.overdue)}</TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+
+  const totalOutstanding = ledger.reduce((sum, p) => sum + p.outstanding, 0);
+  const totalOverdue = ledger.reduce((sum, p) => sum + p.overdue, 0);
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between fade-in">
+          <div>
+            <h1 className="text-2xl font-bold md:text-3xl">Payments</h1>
+            <p className="text-muted-foreground">Fee plans, installments, receipts and collections.</p>
+          </div>
+          <Button onClick={() => setPlanDialogOpen(true)}><Plus className="mr-2 h-4 w-4" /> New Plan</Button>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-3">
+          <Card className="card-3d slide-up">
+            <CardHeader className="flex flex-row items-center justify-between pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">Collected ({paymentsInRange.length} payments)</CardTitle>
+              <div className="flex h-8 w-8 items-center justify-center rounded-lg bg-success/10"><IndianRupee className="h-4 w-4 text-success" /></div>
+            </CardHeader>
+            <CardContent><p className="text-3xl font-bold text-success">{formatCurrency(sumAmounts(paymentsInRange))}</p></CardContent>
+          </Card>
+          <Card className="card-3d slide-up" style={{ animationDelay: "0.1s" }}>
+            <CardHeader className="flex flex-row items-center justify-between pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">Outstanding</CardTitle>
+              <div className="flex h-8 w-8 items-center justify-center rounded-lg bg-primary/10"><Wallet className="h-4 w-4 text-primary" /></div>
+            </CardHeader>
+            <CardContent><p className="text-3xl font-bold">{formatCurrency(totalOutstanding)}</p></CardContent>
+          </Card>
+          <Card className="card-3d slide-up" style={{ animationDelay: "0.2s" }}>
+            <CardHeader className="flex flex-row items-center justify-between pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">Overdue</CardTitle>
+              <div className="flex h-8 w-8 items-center justify-center rounded-lg bg-destructive/10"><AlertTriangle className="h-4 w-4 text-destructive" /></div>
+            </CardHeader>
+            <CardContent><p className="text-3xl font-bold text-destructive">{formatCurrency(totalOverdue)}</p></CardContent>
+          </Card>
+        </div>
+
+        <Tabs defaultValue="ledger" className="space-y-4">
+          <TabsList>
+            <TabsTrigger value="ledger">Ledger</TabsTrigger>
+            <TabsTrigger value="collections">Collections</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="ledger">
+            <Card>
+              <CardHeader className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+                <CardTitle>Plans ({visibleLedger.length})</CardTitle>
+                <div className="flex flex-wrap items-center gap-4">
+                  <div className="flex items-center gap-2">
+                    <Switch id="outstanding-only" checked={outstandingOnly} onCheckedChange={setOutstandingOnly} />
+                    <Label htmlFor="outstanding-only">Outstanding only</Label>
+                  </div>
+                  <div className="relative">
+                    <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                    <Input value={search} onChange={(e) => setSearch(e.target.value)} placeholder="Search payer or plan..." className="pl-9" />
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Payer</TableHead>
+                        <TableHead>Plan</TableHead>
+                        <TableHead>Batch</TableHead>
+                        <TableHead>BDE</TableHead>
+                        <TableHead className="text-right">Total</TableHead>
+                        <TableHead className="text-right">Paid</TableHead>
+                        <TableHead className="text-right">Outstanding</TableHead>
+                        <TableHead>Next Due</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {visibleLedger.length === 0 ? (
+                        <TableRow><TableCell colSpan={8} className="text-center py-8 text-muted-foreground">No payment plans found</TableCell></TableRow>
+                      ) : (
+                        visibleLedger.map((p) => (
+                          <TableRow key={p.id} className="cursor-pointer" onClick={() => { setLedgerPlanId(p.id); setLedgerOpen(true); }}>
+                            <TableCell className="font-medium">{p.payer_name}</TableCell>
+                            <TableCell>{p.title}</TableCell>
+                            <TableCell>{p.batch}</TableCell>
+                            <TableCell>{p.bde}</TableCell>
+                            <TableCell className="text-right">{formatCurrency(Number(p.total_amount))}</TableCell>
+                            <TableCell className="text-right">{formatCurrency(p.paid)}</TableCell>
+                            <TableCell className="text-right">{formatCurrency(p.outstanding)}</TableCell>
+                            <TableCell>
+                              {p.nextDue ? (
+                                <Badge variant="outline" className={p.nextDue.status === "overdue" ? "bg-destructive/10 text-destructive" : ""}>
+                                  {format(parseISO(p.nextDue.due_date), "MMM dd")} · {formatCurrency(Number(p.nextDue.amount) - p.nextDue.paid)}
+                                </Badge>
+                              ) : (
+                                <Badge variant="outline" className="bg-success/10 text-success">Fully paid</Badge>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        ))
+                      )}
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="collections" className="space-y-4">
+            <Card>
+              <CardContent className="pt-6">
+                <div className="flex flex-wrap items-end gap-4">
+                  <div className="space-y-2"><Label>Collected From</Label><Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} /></div>
+                  <div className="space-y-2"><Label>To</Label><Input type="date" value={to} onChange={(e) => setTo(e.target.value)} /></div>
+                  <Button variant="outline" onClick={handleExport} disabled={paymentsInRange.length === 0}>
+                    <Download className="mr-2 h-4 w-4" /> Export Payments
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader><CardTitle className="text-base">By Batch</CardTitle></CardHeader>
+              <CardContent><CollectionTable title="Batch" rows={collectionsBy((p) => p.batch)} /></CardContent>
+            </Card>
+            <Card>
+              <CardHeader><CardTitle className="text-base">By BDE</CardTitle></CardHeader>
+              <CardContent><CollectionTable title="BDE" rows={collectionsBy((p) => p.bde)} /></CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+      </div>
+
+      <PaymentPlanDialog
+        open={planDialogOpen}
+        onOpenChange={setPlanDialogOpen}
+        payer={null}
+        payerOptions={payerOptions}
+        onCreated={(planId) => { fetchData(); setLedgerPlanId(planId); setLedgerOpen(true); }}
+      />
+      <PaymentLedgerDialog planId={ledgerPlanId} open={ledgerOpen} onOpenChange={setLedgerOpen} onChanged={fetchData} />
+    </DashboardLayout>
+  );
+}
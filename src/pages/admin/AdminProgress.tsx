@@ -14,8 +14,10 @@ import {
   Accordion, AccordionContent, AccordionItem, AccordionTrigger,
 } from "@/components/ui/accordion";
 import { SkeletonTable } from "@/components/SkeletonCard";
-import { Shield, Search, TrendingUp, Users, Calendar, Clock, Download, BarChart3, CheckCircle, XCircle, ArrowUpDown, FolderKanban, ClipboardList } from "lucide-react";
+import { Shield, Search, TrendingUp, Users, Calendar, Clock, Download, BarChart3, CheckCircle, XCircle, ArrowUpDown, FolderKanban, ClipboardList, ClipboardCheck } from "lucide-react";
 import { format, parseISO, subDays, subMonths, eachDayOfInterval, differenceInDays } from "date-fns";
+import { AttendanceBadge } from "@/components/attendance/AttendanceBadge";
+import { AttendanceSummary, DEFAULT_MIN_ATTENDANCE, isBelowThreshold, summarizeTotals } from "@/lib/attendance";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LineChart, Line, PieChart, Pie, Cell } from "recharts";
 
 interface Student {
@@ -40,6 +42,7 @@ interface DiaryEntry {
 interface Batch {
   id: string;
   name: string;
+  min_attendance_percent: number;
 }
 
 const COLORS = ["hsl(var(--primary))", "hsl(var(--accent))", "hsl(var(--success))", "hsl(var(--warning))", "hsl(var(--destructive))"];
@@ -56,6 +59,7 @@ export default function AdminProgress() {
   const [sortBy, setSortBy] = useState("entries-high");
   const [projectCounts, setProjectCounts] = useState<Record<string, number>>({});
   const [assignmentData, setAssignmentData] = useState<{ byStudent: Record<string, { total: number; submitted: number }> }>({ byStudent: {} });
+  const [attendanceByStudent, setAttendanceByStudent] = useState<Record<string, AttendanceSummary>>({});
 
   useEffect(() => {
     if (role === "admin" || role === "faculty") fetchData();
@@ -64,13 +68,14 @@ export default function AdminProgress() {
   const fetchData = async () => {
     try {
       const today = new Date().toISOString().split('T')[0];
-      const [batchesRes, studentsRes, diariesRes, projectMembersRes, assignmentsRes, submissionsRes] = await Promise.all([
-        supabase.from("batches").select("id, name, end_date").gt("end_date", today).order("name"),
+      const [batchesRes, studentsRes, diariesRes, projectMembersRes, assignmentsRes, submissionsRes, attendanceRes] = await Promise.all([
+        supabase.from("batches").select("id, name, end_date, min_attendance_percent").gt("end_date", today).order("name"),
         supabase.from("student_profiles").select("user_id, student_id, batch_id, usn").eq("status", "approved"),
         supabase.from("internship_diary").select("id, user_id, entry_date, week_number, hours_worked, work_description, title, created_at").order("entry_date", { ascending: false }),
         supabase.from("project_members").select("user_id"),
         supabase.from("assignments").select("id, batch_id, deadline"),
         supabase.from("assignment_submissions").select("student_id, assignment_id"),
+        supabase.rpc("attendance_totals"),
       ]);
 
       setBatches(batchesRes.data || []);
@@ -116,6 +121,7 @@ export default function AdminProgress() {
         };
       });
       setAssignmentData({ byStudent });
+      setAttendanceByStudent(summarizeTotals(attendanceRes.data || []));
     } catch (error) {
       console.error("Error:", error);
     } finally {
@@ -148,9 +154,15 @@ export default function AdminProgress() {
       case "fest-id":
         result.sort((a, b) => (a.student_id || "").localeCompare(b.student_id || ""));
         break;
+      case "attendance-low":
+        result.sort((a, b) => (attendanceByStudent[a.user_id]?.percent ?? 101) - (attendanceByStudent[b.user_id]?.percent ?? 101));
+        break;
     }
     return result;
-  }, [students, batchFilter, searchQuery, sortBy, diaryEntries]);
+  }, [students, batchFilter, searchQuery, sortBy, diaryEntries, attendanceByStudent]);
+
+  const minAttendanceFor = (student: Student) =>
+    batches.find(b => b.id === student.batch_id)?.min_attendance_percent ?? DEFAULT_MIN_ATTENDANCE;
 
   const getStudentEntries = (userId: string) => diaryEntries.filter(e => e.user_id === userId);
 
@@ -179,6 +191,7 @@ export default function AdminProgress() {
   const totalStudentsFiltered = filteredStudents.length;
   const studentsWithEntries = new Set(filteredEntries.map(e => e.user_id)).size;
   const studentsWithoutEntries = totalStudentsFiltered - studentsWithEntries;
+  const belowAttendance = filteredStudents.filter(s => isBelowThreshold(attendanceByStudent[s.user_id]?.percent ?? null, minAttendanceFor(s))).length;
   const completionData = [
     { name: "Submitted", value: studentsWithEntries },
     { name: "Not Submitted", value: studentsWithoutEntries },
@@ -207,13 +220,15 @@ export default function AdminProgress() {
   }).filter(d => d.submitted > 0 || d.missed > 0);
 
   const exportCSV = () => {
-    const rows = [["Student Name", "Student ID", "USN", "Entry Date", "Submitted Date", "Status", "Week", "Hours", "Title", "Description", "Projects Worked", "Assignments Submitted", "Assignments Missed"]];
+    const rows = [["Student Name", "Student ID", "USN", "Entry Date", "Submitted Date", "Status", "Week", "Hours", "Title", "Description", "Projects Worked", "Assignments Submitted", "Assignments Missed", "Attendance %"]];
     filteredStudents.forEach(student => {
       const entries = getTimeFilteredEntries(getStudentEntries(student.user_id));
       const pCount = projectCounts[student.user_id] || 0;
       const aStats = assignmentData.byStudent[student.user_id] || { total: 0, submitted: 0 };
+      const attendancePercent = attendanceByStudent[student.user_id]?.percent;
+      const attendanceCell = attendancePercent === null || attendancePercent === undefined ? "" : Math.round(attendancePercent).toString();
       if (entries.length === 0) {
-        rows.push([student.profile?.full_name || "", student.student_id || "", student.usn || "", "", "", "No entries", "", "", "", "", pCount.toString(), aStats.submitted.toString(), (aStats.total - aStats.submitted).toString()]);
+        rows.push([student.profile?.full_name || "", student.student_id || "", student.usn || "", "", "", "No entries", "", "", "", "", pCount.toString(), aStats.submitted.toString(), (aStats.total - aStats.submitted).toString(), attendanceCell]);
       } else {
         entries.forEach(e => {
           const entryDate = e.entry_date;
@@ -226,6 +241,7 @@ export default function AdminProgress() {
             `Week ${e.week_number}`, e.hours_worked.toString(),
             e.title || "", e.work_description.replace(/,/g, ";"),
             pCount.toString(), aStats.submitted.toString(), (aStats.total - aStats.submitted).toString(),
+            attendanceCell,
           ]);
         });
       }
@@ -297,6 +313,7 @@ export default function AdminProgress() {
                     <SelectItem value="entries-low">Entries: Low → High</SelectItem>
                     <SelectItem value="name">Name (A-Z)</SelectItem>
                     <SelectItem value="fest-id">FEST ID</SelectItem>
+                    <SelectItem value="attendance-low">Attendance: Low → High</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -305,7 +322,7 @@ export default function AdminProgress() {
         </Card>
 
         {/* Stats */}
-        <div className="grid gap-4 sm:grid-cols-4">
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-5">
           <Card>
             <CardContent className="flex items-center gap-4 pt-6">
               <div className="flex h-12 w-12 items-center justify-center rounded-xl bg-primary/10"><Users className="h-6 w-6 text-primary" /></div>
@@ -330,6 +347,12 @@ export default function AdminProgress() {
               <div><p className="text-2xl font-bold">{filteredEntries.length}</p><p className="text-sm text-muted-foreground">Total Entries</p></div>
             </CardContent>
           </Card>
+          <Card>
+            <CardContent className="flex items-center gap-4 pt-6">
+              <div className="flex h-12 w-12 items-center justify-center rounded-xl bg-warning/10"><ClipboardCheck className="h-6 w-6 text-warning" /></div>
+              <div><p className="text-2xl font-bold">{belowAttendance}</p><p className="text-sm text-muted-foreground">Below Min. Attendance</p></div>
+            </CardContent>
+          </Card>
         </div>
 
         {/* Charts */}
@@ -456,6 +479,7 @@ export default function AdminProgress() {
                           <Badge variant="outline" className="font-mono text-xs">{student.student_id || "N/A"}</Badge>
                           {student.usn && <Badge variant="secondary" className="text-xs">{student.usn}</Badge>}
                           <span className="text-sm text-muted-foreground">{entries.length} entries • {totalHours}h • {pCount} proj • {aStats.submitted}/{aStats.total} assign</span>
+                          <AttendanceBadge summary={attendanceByStudent[student.user_id]} threshold={minAttendanceFor(student)} className="text-xs" />
                           {entries.length === 0 && <Badge variant="destructive" className="text-xs">No entries</Badge>}
                         </div>
                       </AccordionTrigger>
@@ -0,0 +1,249 @@
+import { useEffect, useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { Constants } from "@/integrations/supabase/types";
+import { DashboardLayout } from "@/components/layout/DashboardLayout";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { SkeletonTable } from "@/components/SkeletonCard";
+import { QuestionEditor } from "@/components/quizzes/QuestionEditor";
+import type { BankQuestion } from "@/components/quizzes/QuestionBankPicker";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Lock, Layers, Loader2, Trash2, Pencil, Search } from "lucide-react";
+import { QuestionDraft, emptyQuestion, validateQuestion, toQuestionRow, fromQuestionRow, getQuestionTypeLabel } from "@/lib/quizQuestions";
+
+type InternshipRole = (typeof Constants.public.Enums.internship_role)[number];
+
+export default function AdminQuestionBank() {
+  const { user, role, loading: authLoading } = useAuth();
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [questions, setQuestions] = useState<BankQuestion[]>([]);
+  const [roleFilter, setRoleFilter] = useState("all");
+  const [topicFilter, setTopicFilter] = useState("all");
+  const [searchQuery, setSearchQuery] = useState("");
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [deletingQuestion, setDeletingQuestion] = useState<BankQuestion | null>(null);
+  const [deleting, setDeleting] = useState(false);
+
+  // Form state
+  const [draft, setDraft] = useState<QuestionDraft>(emptyQuestion());
+  const [internshipRole, setInternshipRole] = useState("general");
+
+  const fetchQuestions = async () => {
+    try {
+      const { data, error } = await supabase.from("quiz_question_bank").select("*").order("created_at", { ascending: false });
+      if (error) throw error;
+      setQuestions(data || []);
+    } catch (error) {
+      console.error("Error:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!authLoading) fetchQuestions();
+  }, [authLoading]);
+
+  const resetForm = () => {
+    setEditingId(null); setDraft(emptyQuestion()); setInternshipRole("general");
+  };
+
+  const handleEdit = (q: BankQuestion) => {
+    setEditingId(q.id);
+    setDraft(fromQuestionRow(q));
+    setInternshipRole(q.internship_role || "general");
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+    const problem = validateQuestion(draft);
+    if (problem) {
+      toast({ title: "Error", description: problem, variant: "destructive" }); return;
+    }
+
+    setSaving(true);
+    try {
+      const payload = {
+        ...toQuestionRow(draft),
+        internship_role: internshipRole === "general" ? null : (internshipRole as InternshipRole),
+      };
+      const { error } = editingId
+        ? await supabase.from("quiz_question_bank").update(payload).eq("id", editingId)
+        : await supabase.from("quiz_question_bank").insert({ ...payload, created_by: user.id });
+      if (error) throw error;
+
+      toast({ title: "Success", description: editingId ? "Question updated." : "Question added to the bank." });
+      setDialogOpen(false);
+      resetForm();
+      fetchQuestions();
+    } catch (error: unknown) {
+      toast({ title: "Error", description: error instanceof Error ? error.message : "Failed to save question.", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deletingQuestion) return;
+    setDeleting(true);
+    try {
+      const { error } = await supabase.from("quiz_question_bank").delete().eq("id", deletingQuestion.id);
+      if (error) throw error;
+      toast({ title: "Deleted" });
+      setDeleteDialogOpen(false);
+      fetchQuestions();
+    } catch (error: unknown) {
+      toast({ title: "Error", description: error instanceof Error ? error.message : "Failed to delete question.", variant: "destructive" });
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  const topics = [...new Set(questions.map((q) => q.topic).filter(Boolean))].sort() as string[];
+  const filteredQuestions = questions.filter((q) =>
+    (roleFilter === "all" || (roleFilter === "general" ? !q.internship_role : q.internship_role === roleFilter))
+    && (topicFilter === "all" || q.topic === topicFilter)
+    && (!searchQuery || q.question_text.toLowerCase().includes(searchQuery.toLowerCase()))
+  );
+
+  if (authLoading || loading) return <DashboardLayout><SkeletonTable /></DashboardLayout>;
+
+  if (role !== "admin" && role !== "faculty") {
+    return (
+      <DashboardLayout>
+        <div className="flex flex-col items-center justify-center py-12">
+          <Lock className="mb-4 h-12 w-12 text-muted-foreground" />
+          <h3 className="text-lg font-semibold">Access Denied</h3>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between fade-in">
+          <div>
+            <h1 className="text-2xl font-bold md:text-3xl">Question Bank</h1>
+            <p className="text-muted-foreground">Reusable quiz questions, tagged by internship role and topic.</p>
+          </div>
+          <Button onClick={() => { resetForm(); setDialogOpen(true); }}><Plus className="mr-2 h-4 w-4" /> Add Question</Button>
+        </div>
+
+        <div className="grid gap-3 sm:grid-cols-3">
+          <Select value={roleFilter} onValueChange={setRoleFilter}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Roles</SelectItem>
+              <SelectItem value="general">General</SelectItem>
+              {Constants.public.Enums.internship_role.map((r) => <SelectItem key={r} value={r}>{r.toUpperCase()}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <Select value={topicFilter} onValueChange={setTopicFilter}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Topics</SelectItem>
+              {topics.map((t) => <SelectItem key={t} value={t}>{t}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input value={searchQuery} onChange={(e) => setSearchQuery(e.target.value)} placeholder="Search questions..." className="pl-9" />
+          </div>
+        </div>
+
+        {filteredQuestions.length === 0 ? (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-12">
+              <Layers className="mb-4 h-12 w-12 text-muted-foreground" />
+              <h3 className="text-lg font-semibold">No questions found</h3>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {filteredQuestions.map((q) => (
+              <Card key={q.id} className="transition-all hover:shadow-md">
+                <CardContent className="flex flex-col gap-3 p-4 sm:flex-row sm:items-center sm:justify-between">
+                  <div className="space-y-2">
+                    <p className="font-medium">{q.question_text}</p>
+                    <div className="flex flex-wrap gap-1">
+                      <Badge variant="outline">{getQuestionTypeLabel(q.question_type)}</Badge>
+                      <Badge variant="outline">{q.points} pt{q.points !== 1 ? "s" : ""}</Badge>
+                      <Badge variant="secondary">{q.internship_role ? q.internship_role.toUpperCase() : "General"}</Badge>
+                      {q.topic && <Badge variant="secondary">{q.topic}</Badge>}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button variant="outline" size="sm" onClick={() => handleEdit(q)}>
+                      <Pencil className="mr-2 h-4 w-4" /> Edit
+                    </Button>
+                    <Button variant="ghost" size="sm" className="text-destructive" onClick={() => { setDeletingQuestion(q); setDeleteDialogOpen(true); }}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Add / Edit Dialog */}
+      <Dialog open={dialogOpen} onOpenChange={(o) => { setDialogOpen(o); if (!o) resetForm(); }}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Edit Question" : "Add Question"}</DialogTitle>
+            <DialogDescription>Quizzes copy bank questions, so edits here don't change existing quizzes.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Internship Role</Label>
+              <Select value={internshipRole} onValueChange={setInternshipRole}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="general">General</SelectItem>
+                  {Constants.public.Enums.internship_role.map((r) => <SelectItem key={r} value={r}>{r.toUpperCase()}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <QuestionEditor label="Question" question={draft} onChange={setDraft} topicSuggestions={topics} />
+            <div className="flex justify-end gap-3 pt-2">
+              <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+              <Button onClick={handleSave} disabled={saving}>
+                {saving ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Saving...</> : editingId ? "Save Changes" : <><Plus className="mr-2 h-4 w-4" /> Add Question</>}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Question</AlertDialogTitle>
+            <AlertDialogDescription>Quizzes that already use this question keep their copy.</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} disabled={deleting} className="bg-destructive text-destructive-foreground">
+              {deleting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Trash2 className="mr-2 h-4 w-4" />} Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </DashboardLayout>
+  );
+}
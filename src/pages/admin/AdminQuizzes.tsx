@@ -8,14 +8,27 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogTrigger } from "@/components/ui/dialog";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { SkeletonTable } from "@/components/SkeletonCard";
+import { QuizGradingDialog } from "@/components/quizzes/QuizGradingDialog";
+import { QuestionEditor } from "@/components/quizzes/QuestionEditor";
+import { QuestionBankPicker } from "@/components/quizzes/QuestionBankPicker";
+import { QuizAnalyticsDialog } from "@/components/quizzes/QuizAnalyticsDialog";
+import { BatchQuizReportDialog } from "@/components/quizzes/BatchQuizReportDialog";
+import { QuestionImportDialog } from "@/components/quizzes/QuestionImportDialog";
+import { QuestionDraft, emptyQuestion, validateQuestion, toQuestionRow } from "@/lib/quizQuestions";
+import { questionFileRows } from "@/lib/quizQuestionFile";
+import { downloadRows } from "@/lib/spreadsheet";
 import { useToast } from "@/hooks/use-toast";
-import { Plus, Lock, FileQuestion, Loader2, Trash2, Eye, Users, CheckCircle, XCircle } from "lucide-react";
+import { Plus, Lock, FileQuestion, Loader2, Trash2, Eye, Users, CheckCircle, XCircle, PenLine, Layers, BarChart3, Upload, Download, BellRing } from "lucide-react";
 import { format } from "date-fns";
+import { DeadlineReminderSettingsDialog } from "@/components/notifications/DeadlineReminderSettingsDialog";
+import { DeadlineReminder, ReminderBadges } from "@/components/notifications/ReminderBadges";
 
 interface Quiz {
   id: string;
@@ -24,18 +37,13 @@ interface Quiz {
   description: string | null;
   deadline: string;
   deadline_time: string | null;
+  max_attempts: number;
+  shuffle_options: boolean;
+  duration_minutes: number | null;
   created_at: string;
   batches?: { name: string };
 }
 
-interface QuestionDraft {
-  question_text: string;
-  question_type: "mcq" | "text";
-  options: string[];
-  correct_answer: string;
-  points: number;
-}
-
 interface Batch {
   id: string;
   name: string;
@@ -57,7 +65,16 @@ export default function AdminQuizzes() {
   const [trackingQuiz, setTrackingQuiz] = useState<Quiz | null>(null);
   const [trackingSubs, setTrackingSubs] = useState<any[]>([]);
   const [trackingStudents, setTrackingStudents] = useState<any[]>([]);
+  const [trackingReminders, setTrackingReminders] = useState<DeadlineReminder[]>([]);
+  const [reminderSettingsOpen, setReminderSettingsOpen] = useState(false);
   const [selectedBatchFilter, setSelectedBatchFilter] = useState("all");
+  const [gradingQuiz, setGradingQuiz] = useState<Quiz | null>(null);
+  const [gradeDialogOpen, setGradeDialogOpen] = useState(false);
+  const [bankPickerOpen, setBankPickerOpen] = useState(false);
+  const [analyticsQuiz, setAnalyticsQuiz] = useState<Quiz | null>(null);
+  const [analyticsOpen, setAnalyticsOpen] = useState(false);
+  const [batchReportOpen, setBatchReportOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
 
   // Form state
   const [batchId, setBatchId] = useState("");
@@ -65,9 +82,10 @@ export default function AdminQuizzes() {
   const [description, setDescription] = useState("");
   const [deadline, setDeadline] = useState("");
   const [deadlineTime, setDeadlineTime] = useState("23:59");
-  const [questions, setQuestions] = useState<QuestionDraft[]>([
-    { question_text: "", question_type: "mcq", options: ["", "", "", ""], correct_answer: "", points: 1 },
-  ]);
+  const [maxAttempts, setMaxAttempts] = useState(1);
+  const [shuffleOptions, setShuffleOptions] = useState(false);
+  const [durationMinutes, setDurationMinutes] = useState("");
+  const [questions, setQuestions] = useState<QuestionDraft[]>([emptyQuestion()]);
 
   const fetchData = async () => {
     try {
@@ -95,24 +113,22 @@ export default function AdminQuizzes() {
   }, [authLoading]);
 
   const resetForm = () => {
-    setBatchId(""); setTitle(""); setDescription(""); setDeadline(""); setDeadlineTime("23:59");
-    setQuestions([{ question_text: "", question_type: "mcq", options: ["", "", "", ""], correct_answer: "", points: 1 }]);
+    setBatchId(""); setTitle(""); setDescription(""); setDeadline(""); setDeadlineTime("23:59"); setMaxAttempts(1); setShuffleOptions(false); setDurationMinutes("");
+    setQuestions([emptyQuestion()]);
   };
 
   const addQuestion = () => {
-    setQuestions([...questions, { question_text: "", question_type: "mcq", options: ["", "", "", ""], correct_answer: "", points: 1 }]);
+    setQuestions([...questions, emptyQuestion()]);
   };
 
-  const updateQuestion = (idx: number, field: string, value: any) => {
-    const updated = [...questions];
-    (updated[idx] as any)[field] = value;
-    setQuestions(updated);
+  const updateQuestion = (idx: number, question: QuestionDraft) => {
+    setQuestions(questions.map((q, i) => (i === idx ? question : q)));
   };
 
-  const updateOption = (qIdx: number, oIdx: number, value: string) => {
-    const updated = [...questions];
-    updated[qIdx].options[oIdx] = value;
-    setQuestions(updated);
+  const appendQuestions = (picked: QuestionDraft[]) => {
+    // Replace the untouched starter question instead of leaving it blank
+    const kept = questions.filter((q) => q.question_text.trim() || q.bank_question_id);
+    setQuestions([...kept, ...picked]);
   };
 
   const removeQuestion = (idx: number) => {
@@ -125,11 +141,9 @@ export default function AdminQuizzes() {
       toast({ title: "Error", description: "Fill all required fields.", variant: "destructive" }); return;
     }
     for (const q of questions) {
-      if (!q.question_text.trim()) {
-        toast({ title: "Error", description: "All questions must have text.", variant: "destructive" }); return;
-      }
-      if (q.question_type === "mcq" && (!q.correct_answer || q.options.filter((o) => o.trim()).length < 2)) {
-        toast({ title: "Error", description: "MCQ questions need at least 2 options and a correct answer.", variant: "destructive" }); return;
+      const problem = validateQuestion(q);
+      if (problem) {
+        toast({ title: "Error", description: problem, variant: "destructive" }); return;
       }
     }
 
@@ -137,17 +151,15 @@ export default function AdminQuizzes() {
     try {
       const { data: quiz, error } = await supabase.from("quizzes").insert({
         batch_id: batchId, title, description: description || null,
-        deadline, deadline_time: deadlineTime || "23:59", created_by: user.id,
+        deadline, deadline_time: deadlineTime || "23:59", max_attempts: maxAttempts, shuffle_options: shuffleOptions,
+        duration_minutes: parseInt(durationMinutes) > 0 ? parseInt(durationMinutes) : null, created_by: user.id,
       }).select().single();
       if (error) throw error;
 
       const questionPayloads = questions.map((q, i) => ({
+        ...toQuestionRow(q),
         quiz_id: quiz.id,
-        question_text: q.question_text,
-        question_type: q.question_type,
-        options: q.question_type === "mcq" ? q.options.filter((o) => o.trim()) : null,
-        correct_answer: q.question_type === "mcq" ? q.correct_answer : null,
-        points: q.points,
+        bank_question_id: q.bank_question_id || null,
         order_number: i + 1,
       }));
 
@@ -181,13 +193,33 @@ export default function AdminQuizzes() {
     }
   };
 
+  const handleExport = async (quiz: Quiz, fileFormat: "csv" | "xlsx") => {
+    try {
+      const { data, error } = await supabase
+        .from("quiz_questions").select("question_text, question_type, options, correct_answer, tolerance, points, topic")
+        .eq("quiz_id", quiz.id).order("order_number");
+      if (error) throw error;
+      const fileName = quiz.title.trim().replace(/[^a-z0-9]+/gi, "-").toLowerCase() || "quiz";
+      downloadRows(questionFileRows(data || []), `${fileName}-questions`, fileFormat);
+    } catch (error: unknown) {
+      toast({ title: "Error", description: error instanceof Error ? error.message : "Export failed.", variant: "destructive" });
+    }
+  };
+
   const handleTrack = async (quiz: Quiz) => {
     setTrackingQuiz(quiz);
     setTrackDialogOpen(true);
     try {
-      const { data: subs } = await supabase.from("quiz_submissions").select("*").eq("quiz_id", quiz.id);
+      // Attempts that ran out count as submitted
+      await supabase.rpc("finalize_expired_quiz_attempts", { _quiz_id: quiz.id });
+      // Latest attempt first, so lookups below pick each student's most recent submission
+      const { data: subs } = await supabase.from("quiz_submissions").select("*").eq("quiz_id", quiz.id).order("attempt_number", { ascending: false });
       setTrackingSubs(subs || []);
 
+      const { data: reminders } = await supabase
+        .from("deadline_reminders").select("student_id, offset_hours, sent_at").eq("quiz_id", quiz.id);
+      setTrackingReminders(reminders || []);
+
       const { data: students } = await supabase
         .from("student_profiles").select("user_id, student_id").eq("batch_id", quiz.batch_id).eq("status", "approved");
       if (students && students.length > 0) {
@@ -239,7 +271,7 @@ export default function AdminQuizzes() {
             <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
               <DialogHeader>
                 <DialogTitle>Create Quiz</DialogTitle>
-                <DialogDescription>Create a new quiz with MCQ and/or text questions.</DialogDescription>
+                <DialogDescription>Write questions or pull them from the question bank.</DialogDescription>
               </DialogHeader>
               <div className="space-y-4">
                 <div className="grid gap-4 sm:grid-cols-2">
@@ -259,7 +291,7 @@ export default function AdminQuizzes() {
                   <Label>Description</Label>
                   <Textarea value={description} onChange={(e) => setDescription(e.target.value)} placeholder="Quiz description..." />
                 </div>
-                <div className="grid gap-4 sm:grid-cols-2">
+                <div className="grid gap-4 sm:grid-cols-4">
                   <div className="space-y-2">
                     <Label>Deadline *</Label>
                     <Input type="date" value={deadline} onChange={(e) => setDeadline(e.target.value)} />
@@ -268,59 +300,47 @@ export default function AdminQuizzes() {
                     <Label>Deadline Time</Label>
                     <Input type="time" value={deadlineTime} onChange={(e) => setDeadlineTime(e.target.value)} />
                   </div>
+                  <div className="space-y-2">
+                    <Label>Attempts Allowed</Label>
+                    <Input type="number" min="1" max="10" value={maxAttempts} onChange={(e) => setMaxAttempts(Math.max(parseInt(e.target.value) || 1, 1))} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Time Limit (min)</Label>
+                    <Input type="number" min="1" value={durationMinutes} onChange={(e) => setDurationMinutes(e.target.value)} placeholder="None" />
+                  </div>
+                </div>
+                <div className="flex items-center justify-between rounded-lg border p-3">
+                  <div>
+                    <Label htmlFor="shuffle-options">Shuffle options</Label>
+                    <p className="text-xs text-muted-foreground">Each student sees answer options in a different order.</p>
+                  </div>
+                  <Switch id="shuffle-options" checked={shuffleOptions} onCheckedChange={setShuffleOptions} />
                 </div>
 
                 {/* Questions */}
                 <div className="space-y-4">
                   <div className="flex items-center justify-between">
                     <Label className="text-base font-semibold">Questions</Label>
-                    <Button type="button" variant="outline" size="sm" onClick={addQuestion}>
-                      <Plus className="mr-1 h-3 w-3" /> Add Question
-                    </Button>
+                    <div className="flex gap-2">
+                      <Button type="button" variant="outline" size="sm" onClick={() => setImportOpen(true)}>
+                        <Upload className="mr-1 h-3 w-3" /> Import
+                      </Button>
+                      <Button type="button" variant="outline" size="sm" onClick={() => setBankPickerOpen(true)}>
+                        <Layers className="mr-1 h-3 w-3" /> From Bank
+                      </Button>
+                      <Button type="button" variant="outline" size="sm" onClick={addQuestion}>
+                        <Plus className="mr-1 h-3 w-3" /> Add Question
+                      </Button>
+                    </div>
                   </div>
                   {questions.map((q, idx) => (
-                    <Card key={idx} className="p-4 space-y-3">
-                      <div className="flex items-center justify-between">
-                        <Badge variant="outline">Q{idx + 1}</Badge>
-                        <div className="flex items-center gap-2">
-                          <Select value={q.question_type} onValueChange={(v) => updateQuestion(idx, "question_type", v)}>
-                            <SelectTrigger className="w-[100px] h-8"><SelectValue /></SelectTrigger>
-                            <SelectContent>
-                              <SelectItem value="mcq">MCQ</SelectItem>
-                              <SelectItem value="text">Text</SelectItem>
-                            </SelectContent>
-                          </Select>
-                          <Input type="number" min="1" max="100" value={q.points} onChange={(e) => updateQuestion(idx, "points", parseInt(e.target.value) || 1)} className="w-16 h-8" placeholder="Pts" />
-                          {questions.length > 1 && (
-                            <Button variant="ghost" size="sm" className="text-destructive h-8" onClick={() => removeQuestion(idx)}>
-                              <Trash2 className="h-3 w-3" />
-                            </Button>
-                          )}
-                        </div>
-                      </div>
-                      <Input value={q.question_text} onChange={(e) => updateQuestion(idx, "question_text", e.target.value)} placeholder="Enter question..." />
-                      {q.question_type === "mcq" && (
-                        <div className="space-y-2 pl-4">
-                          {q.options.map((opt, oi) => (
-                            <div key={oi} className="flex items-center gap-2">
-                              <span className="text-xs text-muted-foreground w-4">{String.fromCharCode(65 + oi)}.</span>
-                              <Input value={opt} onChange={(e) => updateOption(idx, oi, e.target.value)} placeholder={`Option ${oi + 1}`} className="h-8" />
-                            </div>
-                          ))}
-                          <div className="space-y-1">
-                            <Label className="text-xs">Correct Answer *</Label>
-                            <Select value={q.correct_answer} onValueChange={(v) => updateQuestion(idx, "correct_answer", v)}>
-                              <SelectTrigger className="h-8"><SelectValue placeholder="Select correct answer" /></SelectTrigger>
-                              <SelectContent>
-                                {q.options.filter((o) => o.trim()).map((opt, oi) => (
-                                  <SelectItem key={oi} value={opt}>{opt}</SelectItem>
-                                ))}
-                              </SelectContent>
-                            </Select>
-                          </div>
-                        </div>
-                      )}
-                    </Card>
+                    <QuestionEditor
+                      key={idx}
+                      label={`Q${idx + 1}`}
+                      question={q}
+                      onChange={(updated) => updateQuestion(idx, updated)}
+                      onRemove={questions.length > 1 ? () => removeQuestion(idx) : undefined}
+                    />
                   ))}
                 </div>
 
@@ -344,6 +364,16 @@ export default function AdminQuizzes() {
               {batches.map((b) => <SelectItem key={b.id} value={b.id}>{b.name}</SelectItem>)}
             </SelectContent>
           </Select>
+          {selectedBatchFilter !== "all" && (
+            <Button variant="outline" size="sm" onClick={() => setBatchReportOpen(true)}>
+              <BarChart3 className="mr-2 h-4 w-4" /> Batch Report
+            </Button>
+          )}
+          {role === "admin" && (
+            <Button variant="outline" size="sm" className="ml-auto" onClick={() => setReminderSettingsOpen(true)}>
+              <BellRing className="mr-2 h-4 w-4" /> Deadline Reminders
+            </Button>
+          )}
         </div>
 
         {filteredQuizzes.length === 0 ? (
@@ -370,6 +400,9 @@ export default function AdminQuizzes() {
                       </div>
                       <p className="text-sm text-muted-foreground">
                         Deadline: {format(new Date(quiz.deadline), "MMM dd, yyyy")}{quiz.deadline_time ? ` at ${quiz.deadline_time}` : ""}
+                        {quiz.max_attempts > 1 && ` · ${quiz.max_attempts} attempts`}
+                        {quiz.duration_minutes && ` · ${quiz.duration_minutes} min`}
+                        {quiz.shuffle_options && " · Shuffled options"}
                       </p>
                     </div>
                   </div>
@@ -377,6 +410,21 @@ export default function AdminQuizzes() {
                     <Button variant="outline" size="sm" onClick={() => handleTrack(quiz)}>
                       <Users className="mr-2 h-4 w-4" /> Track
                     </Button>
+                    <Button variant="outline" size="sm" onClick={() => { setGradingQuiz(quiz); setGradeDialogOpen(true); }}>
+                      <PenLine className="mr-2 h-4 w-4" /> Grade
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => { setAnalyticsQuiz(quiz); setAnalyticsOpen(true); }}>
+                      <BarChart3 className="mr-2 h-4 w-4" /> Analytics
+                    </Button>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="outline" size="sm"><Download className="mr-2 h-4 w-4" /> Export</Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem onClick={() => handleExport(quiz, "csv")}>Questions as CSV</DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => handleExport(quiz, "xlsx")}>Questions as XLSX</DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
                     <Button variant="ghost" size="sm" className="text-destructive" onClick={() => { setDeletingQuiz(quiz); setDeleteDialogOpen(true); }}>
                       <Trash2 className="h-4 w-4" />
                     </Button>
@@ -416,7 +464,14 @@ export default function AdminQuizzes() {
                             <p className="text-xs text-muted-foreground">{s.student_id}</p>
                           </div>
                         </div>
-                        {sub && <Badge variant="outline">{sub.score}/{sub.total_points}</Badge>}
+                        {sub && (
+                          <div className="flex items-center gap-2">
+                            <ReminderBadges reminders={trackingReminders.filter((r) => r.student_id === s.user_id)} />
+                            {trackingQuiz.max_attempts > 1 && <span className="text-xs text-muted-foreground">Attempt {sub.attempt_number}</span>}
+                            {!sub.is_graded && <Badge variant="outline" className="text-xs text-warning">Needs grading</Badge>}
+                            <Badge variant="outline">{sub.score}/{sub.total_points}</Badge>
+                          </div>
+                        )}
                       </div>
                     );
                   })}
@@ -427,10 +482,11 @@ export default function AdminQuizzes() {
                   ) : notSubmittedStudents.map((s) => (
                     <div key={s.user_id} className="flex items-center gap-2 rounded-lg border p-3">
                       <XCircle className="h-4 w-4 text-destructive" />
-                      <div>
+                      <div className="flex-1">
                         <p className="font-medium text-sm">{s.profile?.full_name}</p>
                         <p className="text-xs text-muted-foreground">{s.student_id}</p>
                       </div>
+                      <ReminderBadges reminders={trackingReminders.filter((r) => r.student_id === s.user_id)} />
                     </div>
                   ))}
                 </TabsContent>
@@ -440,6 +496,23 @@ export default function AdminQuizzes() {
         </DialogContent>
       </Dialog>
 
+      <QuizGradingDialog quiz={gradingQuiz} open={gradeDialogOpen} onOpenChange={setGradeDialogOpen} />
+      <QuizAnalyticsDialog quiz={analyticsQuiz} open={analyticsOpen} onOpenChange={setAnalyticsOpen} />
+      <BatchQuizReportDialog
+        batch={batches.find((b) => b.id === selectedBatchFilter) || null}
+        open={batchReportOpen}
+        onOpenChange={setBatchReportOpen}
+      />
+      <DeadlineReminderSettingsDialog open={reminderSettingsOpen} onOpenChange={setReminderSettingsOpen} />
+
+      <QuestionBankPicker
+        open={bankPickerOpen}
+        onOpenChange={setBankPickerOpen}
+        onAdd={appendQuestions}
+        excludeIds={questions.map((q) => q.bank_question_id).filter(Boolean) as string[]}
+      />
+      <QuestionImportDialog open={importOpen} onOpenChange={setImportOpen} onImport={appendQuestions} />
+
       {/* Delete Confirmation */}
       <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <AlertDialogContent>
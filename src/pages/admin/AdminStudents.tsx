@@ -52,6 +52,8 @@ import {
   PaginationPrevious,
 } from "@/components/ui/pagination";
 import { format, parseISO } from "date-fns";
+import { AttendanceBadge } from "@/components/attendance/AttendanceBadge";
+import { AttendanceSummary, DEFAULT_MIN_ATTENDANCE, summarizeTotals } from "@/lib/attendance";
 
 interface Student {
   id: string;
@@ -80,6 +82,7 @@ interface Student {
 interface Batch {
   id: string;
   name: string;
+  min_attendance_percent: number;
 }
 
 const ITEMS_PER_PAGE = 20;
@@ -98,6 +101,7 @@ export default function AdminStudents() {
   const [currentPage, setCurrentPage] = useState(1);
   const [deleteStudent, setDeleteStudent] = useState<Student | null>(null);
   const [deleting, setDeleting] = useState(false);
+  const [attendanceByStudent, setAttendanceByStudent] = useState<Record<string, AttendanceSummary>>({});
   const { toast } = useToast();
 
   const handleDeleteStudent = async () => {
@@ -161,12 +165,14 @@ export default function AdminStudents() {
         const today = new Date().toISOString().split('T')[0];
         const { data: batchesData, error: batchesError } = await supabase
           .from("batches")
-          .select("id, name, end_date")
+          .select("id, name, end_date, min_attendance_percent")
           .gt("end_date", today)
           .order("name");
 
         if (batchesError) throw batchesError;
 
+        const { data: attendanceData } = await supabase.rpc("attendance_totals");
+
         // Merge data
         const studentsWithProfiles = (studentsData || []).map(student => ({
           ...student,
@@ -176,6 +182,7 @@ export default function AdminStudents() {
         setStudents(studentsWithProfiles as unknown as Student[]);
         setFilteredStudents(studentsWithProfiles as unknown as Student[]);
         setBatches(batchesData || []);
+        setAttendanceByStudent(summarizeTotals(attendanceData || []));
       } catch (error) {
         console.error("Error fetching data:", error);
       } finally {
@@ -427,6 +434,7 @@ export default function AdminStudents() {
                       <TableHead>Email</TableHead>
                       <TableHead>Phone</TableHead>
                       <TableHead>Batch</TableHead>
+                      <TableHead>Attendance</TableHead>
                       <TableHead>Status</TableHead>
                       <TableHead className="text-right">Actions</TableHead>
                     </TableRow>
@@ -459,6 +467,12 @@ export default function AdminStudents() {
                             {batches.find(b => b.id === student.batch_id)?.name || "N/A"}
                           </Badge>
                         </TableCell>
+                        <TableCell>
+                          <AttendanceBadge
+                            summary={attendanceByStudent[student.user_id]}
+                            threshold={batches.find(b => b.id === student.batch_id)?.min_attendance_percent ?? DEFAULT_MIN_ATTENDANCE}
+                          />
+                        </TableCell>
                         <TableCell>{getStatusBadge(student.status)}</TableCell>
                         <TableCell className="text-right">
                           <div className="flex items-center justify-end gap-1">
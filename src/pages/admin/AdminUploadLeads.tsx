@@ -12,7 +12,12 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
-import { Shield, Upload, Plus, Loader2, Filter } from "lucide-react";
+import { Shield, Upload, Plus, Loader2, Filter, Settings2, Users } from "lucide-react";
+import { LeadImportDialog } from "@/components/leads/LeadImportDialog";
+import { LeadAssignmentSettingsDialog } from "@/components/leads/LeadAssignmentSettingsDialog";
+import { BulkReassignDialog } from "@/components/leads/BulkReassignDialog";
+import { ASSIGNMENT_MODES, AssignmentMode, CLOSED_LEAD_STATUSES } from "@/lib/leadAssignment";
+import { readSpreadsheet } from "@/lib/spreadsheet";
 
 interface BdeUser {
   user_id: string;
@@ -55,6 +60,13 @@ export default function AdminUploadLeads() {
   const [dialogOpen, setDialogOpen] = useState(false);
   const [saving, setSaving] = useState(false);
   const [uploading, setUploading] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+  const [importRows, setImportRows] = useState<string[][]>([]);
+  const [importFileName, setImportFileName] = useState("");
+  const [assignmentMode, setAssignmentMode] = useState<AssignmentMode>("single");
+  const [uploadBde, setUploadBde] = useState("");
+  const [rulesOpen, setRulesOpen] = useState(false);
+  const [reassignOpen, setReassignOpen] = useState(false);
 
   // Filters
   const [branchFilter, setBranchFilter] = useState("");
@@ -141,49 +153,15 @@ export default function AdminUploadLeads() {
     const file = e.target.files?.[0];
     if (!file) return;
 
-    const ext = file.name.split(".").pop()?.toLowerCase();
-    if (!["csv"].includes(ext || "")) {
-      toast({ title: "Error", description: "Only CSV files are supported for upload.", variant: "destructive" });
-      return;
-    }
-
     setUploading(true);
     try {
-      const text = await file.text();
-      const lines = text.split("\n").filter(l => l.trim());
-      if (lines.length < 2) throw new Error("CSV file must have headers and at least one data row.");
-
-      const headers = lines[0].split(",").map(h => h.trim().toLowerCase());
-      const leadsToInsert = [];
-
-      for (let i = 1; i < lines.length; i++) {
-        const values = lines[i].split(",").map(v => v.trim());
-        const row: any = {};
-        headers.forEach((h, idx) => { row[h] = values[idx] || ""; });
-
-        leadsToInsert.push({
-          name: row.name || row.student_name || `Lead ${i}`,
-          college_name: row.college_name || row.college || null,
-          branch: row.branch || null,
-          year: row.year || null,
-          semester: row.semester || null,
-          phone: row.phone || row.phone_number || null,
-          email: row.email || null,
-          course_interested: row.course_interested || row.course || null,
-          lead_type: row.lead_type || "internship",
-          status: "initial_contact",
-          created_by: user!.id,
-          assigned_bde_id: formAssignedBde || null,
-        });
-      }
-
-      const { error } = await supabase.from("leads").insert(leadsToInsert);
-      if (error) throw error;
-
-      toast({ title: "Upload Successful", description: `${leadsToInsert.length} leads imported.` });
-      fetchData();
-    } catch (err: any) {
-      toast({ title: "Upload Failed", description: err.message, variant: "destructive" });
+      const rows = await readSpreadsheet(file);
+      if (rows.length < 2) throw new Error("File must have headers and at least one data row.");
+      setImportFileName(file.name);
+      setImportRows(rows);
+      setImportOpen(true);
+    } catch (err: unknown) {
+      toast({ title: "Upload Failed", description: err instanceof Error ? err.message : "Could not read the file.", variant: "destructive" });
     } finally {
       setUploading(false);
       if (fileInputRef.current) fileInputRef.current.value = "";
@@ -200,20 +178,27 @@ export default function AdminUploadLeads() {
     return true;
   });
 
+  const openLeadCounts: Record<string, number> = {};
+  leads.forEach(l => {
+    if (l.assigned_bde_id && !CLOSED_LEAD_STATUSES.includes(l.status)) {
+      openLeadCounts[l.assigned_bde_id] = (openLeadCounts[l.assigned_bde_id] || 0) + 1;
+    }
+  });
+
   return (
     <DashboardLayout>
       <div className="space-y-6">
         <div className="flex items-center justify-between fade-in">
           <div>
             <h1 className="text-2xl font-bold md:text-3xl">Upload Leads</h1>
-            <p className="text-muted-foreground">Upload CSV files or create leads manually.</p>
+            <p className="text-muted-foreground">Upload CSV or XLSX files or create leads manually.</p>
           </div>
           <div className="flex gap-2">
             <div className="relative">
-              <input ref={fileInputRef} type="file" accept=".csv" onChange={handleFileUpload} className="hidden" />
+              <input ref={fileInputRef} type="file" accept=".csv,.xlsx" onChange={handleFileUpload} className="hidden" />
               <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={uploading}>
                 {uploading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
-                Upload CSV
+                Upload CSV / XLSX
               </Button>
             </div>
             <Button onClick={() => { resetForm(); setDialogOpen(true); }}>
@@ -222,24 +207,42 @@ export default function AdminUploadLeads() {
           </div>
         </div>
 
-        {/* Assign BDE for uploaded leads */}
+        {/* Assignment for uploaded leads */}
         {bdeUsers.length > 0 && (
           <Card className="slide-up">
-            <CardHeader className="pb-3">
-              <CardTitle className="text-base">Assign BDE for Uploads</CardTitle>
-              <CardDescription>Select a BDE before uploading CSV - leads will be auto-assigned.</CardDescription>
+            <CardHeader className="flex flex-row items-start justify-between gap-2 space-y-0 pb-3">
+              <div className="space-y-1.5">
+                <CardTitle className="text-base">Assignment for Uploads</CardTitle>
+                <CardDescription>{ASSIGNMENT_MODES.find((m) => m.value === assignmentMode)?.description}</CardDescription>
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => setRulesOpen(true)}>
+                  <Settings2 className="mr-2 h-4 w-4" /> Rules
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => setReassignOpen(true)}>
+                  <Users className="mr-2 h-4 w-4" /> Bulk Reassign
+                </Button>
+              </div>
             </CardHeader>
-            <CardContent>
-              <Select value={formAssignedBde} onValueChange={setFormAssignedBde}>
-                <SelectTrigger className="max-w-sm"><SelectValue placeholder="Select BDE..." /></SelectTrigger>
+            <CardContent className="flex flex-col gap-3 sm:flex-row">
+              <Select value={assignmentMode} onValueChange={(v) => setAssignmentMode(v as AssignmentMode)}>
+                <SelectTrigger className="sm:max-w-xs"><SelectValue /></SelectTrigger>
                 <SelectContent>
-                  {bdeUsers.map(b => (
-                    <SelectItem key={b.user_id} value={b.user_id}>
-                      {b.profile?.full_name || b.profile?.email || b.user_id}
-                    </SelectItem>
-                  ))}
+                  {ASSIGNMENT_MODES.map(m => <SelectItem key={m.value} value={m.value}>{m.label}</SelectItem>)}
                 </SelectContent>
               </Select>
+              {assignmentMode === "single" && (
+                <Select value={uploadBde} onValueChange={setUploadBde}>
+                  <SelectTrigger className="max-w-sm"><SelectValue placeholder="Select BDE..." /></SelectTrigger>
+                  <SelectContent>
+                    {bdeUsers.map(b => (
+                      <SelectItem key={b.user_id} value={b.user_id}>
+                        {b.profile?.full_name || b.profile?.email || b.user_id}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
             </CardContent>
           </Card>
         )}
@@ -352,6 +355,21 @@ export default function AdminUploadLeads() {
           </div>
         </DialogContent>
       </Dialog>
+
+      {user && (
+        <LeadImportDialog
+          open={importOpen}
+          onOpenChange={setImportOpen}
+          fileName={importFileName}
+          rows={importRows}
+          userId={user.id}
+          assignmentMode={assignmentMode}
+          assignedBdeId={uploadBde || null}
+          onImported={fetchData}
+        />
+      )}
+      <LeadAssignmentSettingsDialog open={rulesOpen} onOpenChange={setRulesOpen} bdeUsers={bdeUsers} openLeadCounts={openLeadCounts} />
+      <BulkReassignDialog open={reassignOpen} onOpenChange={setReassignOpen} bdeUsers={bdeUsers} leads={leads} onReassigned={fetchData} />
     </DashboardLayout>
   );
 }
@@ -5,6 +5,8 @@ import { DashboardLayout } from "@/components/layout/DashboardLayout";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { SkeletonDashboard } from "@/components/SkeletonCard";
+import { LeadFunnelDashboard } from "@/components/leads/LeadFunnelDashboard";
+import { FollowUpQueue } from "@/components/leads/FollowUpQueue";
 import { Users, UserCheck, TrendingUp, Shield } from "lucide-react";
 
 export default function BdeDashboard() {
@@ -133,6 +135,10 @@ export default function BdeDashboard() {
           <TabsContent value="aicte"><StatsCards data={aicteStats} /></TabsContent>
           <TabsContent value="internship"><StatsCards data={internshipStats} /></TabsContent>
         </Tabs>
+
+        <FollowUpQueue />
+
+        <LeadFunnelDashboard scope="bde" />
       </div>
     </DashboardLayout>
   );
@@ -12,7 +12,12 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
-import { Shield, Plus, Loader2, Pencil } from "lucide-react";
+import { Textarea } from "@/components/ui/textarea";
+import { Shield, Plus, Loader2, Pencil, History, IndianRupee } from "lucide-react";
+import { LeadActivityDialog } from "@/components/leads/LeadActivityDialog";
+import { PaymentPlanDialog } from "@/components/payments/PaymentPlanDialog";
+import { PaymentLedgerDialog } from "@/components/payments/PaymentLedgerDialog";
+import { format } from "date-fns";
 
 interface Lead {
   id: string;
@@ -29,6 +34,7 @@ interface Lead {
   reminder_date: string | null;
   assigned_bde_id: string | null;
   created_by: string;
+  converted_student_id: string | null;
 }
 
 const statusOptions = [
@@ -58,6 +64,12 @@ export default function BdeLeadsGenerated() {
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editingLead, setEditingLead] = useState<Lead | null>(null);
   const [saving, setSaving] = useState(false);
+  const [activityLead, setActivityLead] = useState<Lead | null>(null);
+  const [activityOpen, setActivityOpen] = useState(false);
+  const [planByLead, setPlanByLead] = useState<Record<string, string>>({});
+  const [paymentLead, setPaymentLead] = useState<Lead | null>(null);
+  const [ledgerPlanId, setLedgerPlanId] = useState<string | null>(null);
+  const [ledgerOpen, setLedgerOpen] = useState(false);
 
   // Form state
   const [formName, setFormName] = useState("");
@@ -69,6 +81,7 @@ export default function BdeLeadsGenerated() {
   const [formStatus, setFormStatus] = useState("initial_contact");
   const [formLeadType, setFormLeadType] = useState("internship");
   const [formReminder, setFormReminder] = useState("");
+  const [formNote, setFormNote] = useState("");
 
   const fetchLeads = async () => {
     if (!user) return;
@@ -86,8 +99,11 @@ export default function BdeLeadsGenerated() {
       .eq("assigned_bde_id", user.id)
       .order("created_at", { ascending: false });
 
+    const { data: plans } = await supabase.from("payment_plans").select("id, lead_id");
+
     setLeads((created || []) as Lead[]);
     setAssignedLeads((assigned || []) as Lead[]);
+    setPlanByLead(Object.fromEntries((plans || []).filter(p => p.lead_id).map(p => [p.lead_id, p.id])));
     setLoading(false);
   };
 
@@ -96,7 +112,7 @@ export default function BdeLeadsGenerated() {
   const resetForm = () => {
     setFormName(""); setFormPhone(""); setFormBranch(""); setFormCollege("");
     setFormYear(""); setFormCourse(""); setFormStatus("initial_contact");
-    setFormLeadType("internship"); setFormReminder(""); setEditingLead(null);
+    setFormLeadType("internship"); setFormReminder(""); setFormNote(""); setEditingLead(null);
   };
 
   const handleSave = async () => {
@@ -114,6 +130,13 @@ export default function BdeLeadsGenerated() {
         }
         const { error } = await supabase.from("leads").update(updateData).eq("id", editingLead.id);
         if (error) throw error;
+        // The status change itself is recorded by a trigger; the note goes alongside it
+        if (formNote.trim()) {
+          const { error: noteError } = await supabase.from("lead_activities").insert({
+            lead_id: editingLead.id, actor_id: user!.id, activity_type: "note", note: formNote.trim(),
+          });
+          if (noteError) throw noteError;
+        }
         toast({ title: "Updated", description: "Lead status updated." });
       } else {
         // Create new lead
@@ -147,10 +170,19 @@ export default function BdeLeadsGenerated() {
     setFormCourse(lead.course_interested || "");
     setFormStatus(lead.status);
     setFormLeadType(lead.lead_type);
-    setFormReminder(lead.reminder_date ? lead.reminder_date.split("T")[0] : "");
+    setFormReminder(lead.reminder_date ? format(new Date(lead.reminder_date), "yyyy-MM-dd'T'HH:mm") : "");
     setDialogOpen(true);
   };
 
+  const openPayments = (lead: Lead) => {
+    if (planByLead[lead.id]) {
+      setLedgerPlanId(planByLead[lead.id]);
+      setLedgerOpen(true);
+    } else {
+      setPaymentLead(lead);
+    }
+  };
+
   if (role !== "bde") {
     return <DashboardLayout><div className="flex flex-col items-center justify-center py-12"><Shield className="mb-4 h-12 w-12 text-muted-foreground" /><h3>Access Denied</h3></div></DashboardLayout>;
   }
@@ -190,11 +222,23 @@ export default function BdeLeadsGenerated() {
                     <Badge className={statusColors[lead.status] || ""} variant="outline">
                       {statusOptions.find(s => s.value === lead.status)?.label || lead.status}
                     </Badge>
+                    {lead.converted_student_id && <Badge variant="outline" className="ml-1 bg-success/10 text-success">Registered</Badge>}
+                    {lead.status === "re_initiate_call" && lead.reminder_date && (
+                      <p className="mt-1 text-xs text-muted-foreground">Call back {format(new Date(lead.reminder_date), "MMM dd, h:mm a")}</p>
+                    )}
                   </TableCell>
                   <TableCell>
                     <Button size="sm" variant="ghost" onClick={() => openEditDialog(lead)}>
                       <Pencil className="h-4 w-4" />
                     </Button>
+                    <Button size="sm" variant="ghost" onClick={() => { setActivityLead(lead); setActivityOpen(true); }}>
+                      <History className="h-4 w-4" />
+                    </Button>
+                    {(planByLead[lead.id] || lead.status === "converted" || lead.status === "paid") && (
+                      <Button size="sm" variant="ghost" title="Payments" onClick={() => openPayments(lead)}>
+                        <IndianRupee className="h-4 w-4" />
+                      </Button>
+                    )}
                   </TableCell>
                 </TableRow>
               ))
@@ -287,8 +331,14 @@ export default function BdeLeadsGenerated() {
             </div>
             {formStatus === "re_initiate_call" && (
               <div className="space-y-2">
-                <Label>Reminder Date</Label>
-                <Input type="date" value={formReminder} onChange={e => setFormReminder(e.target.value)} />
+                <Label>Call Back At</Label>
+                <Input type="datetime-local" value={formReminder} onChange={e => setFormReminder(e.target.value)} />
+              </div>
+            )}
+            {editingLead && (
+              <div className="space-y-2">
+                <Label>Note</Label>
+                <Textarea value={formNote} onChange={e => setFormNote(e.target.value)} placeholder="What happened? (added to the lead's history)" rows={2} />
               </div>
             )}
             <Button onClick={handleSave} className="w-full" disabled={saving}>
@@ -298,6 +348,15 @@ export default function BdeLeadsGenerated() {
           </div>
         </DialogContent>
       </Dialog>
+
+      <LeadActivityDialog lead={activityLead} open={activityOpen} onOpenChange={setActivityOpen} canLog />
+      <PaymentPlanDialog
+        open={!!paymentLead}
+        onOpenChange={(open) => { if (!open) setPaymentLead(null); }}
+        payer={paymentLead && { key: paymentLead.id, lead_id: paymentLead.id, student_id: null, name: paymentLead.name, detail: paymentLead.college_name || "Lead" }}
+        onCreated={(planId) => { fetchLeads(); setLedgerPlanId(planId); setLedgerOpen(true); }}
+      />
+      <PaymentLedgerDialog planId={ledgerPlanId} open={ledgerOpen} onOpenChange={setLedgerOpen} onChanged={fetchLeads} />
     </DashboardLayout>
   );
 }
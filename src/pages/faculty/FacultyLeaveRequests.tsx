@@ -3,34 +3,22 @@ import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
 import { DashboardLayout } from "@/components/layout/DashboardLayout";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
-import { Label } from "@/components/ui/label";
-import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import {
-  Dialog,
-  DialogContent,
-  DialogDescription,
-  DialogHeader,
-  DialogTitle,
-  DialogTrigger,
-} from "@/components/ui/dialog";
-import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from "@/components/ui/select";
 import { SkeletonTable } from "@/components/SkeletonCard";
-import { useToast } from "@/hooks/use-toast";
-import { Loader2, Plus, Shield, Calendar, Clock, CheckCircle, XCircle } from "lucide-react";
+import { Plus, Shield, Calendar, Clock, CheckCircle, XCircle, Paperclip } from "lucide-react";
 import { format, parseISO } from "date-fns";
+import { LeaveBalanceCard } from "@/components/leave/LeaveBalanceCard";
+import { LeaveRequestDialog } from "@/components/leave/LeaveRequestDialog";
+import { LeavePolicy, computeLeaveBalances, formatDays, formatLeaveDates, resolveLeavePolicy } from "@/lib/leavePolicy";
 
 interface LeaveRequest {
   id: string;
   leave_date: string;
+  end_date: string;
+  half_day: string | null;
+  days: number;
+  attachment_path: string | null;
   leave_type: string;
   reason: string;
   status: string;
@@ -39,29 +27,27 @@ interface LeaveRequest {
 
 export default function FacultyLeaveRequests() {
   const { user, role } = useAuth();
-  const { toast } = useToast();
   const [loading, setLoading] = useState(true);
-  const [saving, setSaving] = useState(false);
   const [requests, setRequests] = useState<LeaveRequest[]>([]);
+  const [policy, setPolicy] = useState<LeavePolicy | null>(null);
   const [dialogOpen, setDialogOpen] = useState(false);
 
-  // Form state
-  const [leaveDate, setLeaveDate] = useState("");
-  const [leaveType, setLeaveType] = useState("");
-  const [reason, setReason] = useState("");
-
   const fetchRequests = async () => {
     if (!user) return;
 
     try {
-      const { data, error } = await supabase
-        .from("leave_requests")
-        .select("*")
-        .eq("user_id", user.id)
-        .order("created_at", { ascending: false });
-
-      if (error) throw error;
-      setRequests(data || []);
+      const [requestsRes, policiesRes] = await Promise.all([
+        supabase
+          .from("leave_requests")
+          .select("*")
+          .eq("user_id", user.id)
+          .order("created_at", { ascending: false }),
+        supabase.from("leave_policies").select("*").eq("audience", "faculty"),
+      ]);
+
+      if (requestsRes.error) throw requestsRes.error;
+      setRequests(requestsRes.data || []);
+      setPolicy(resolveLeavePolicy(policiesRes.data || [], "faculty"));
     } catch (error) {
       console.error("Error fetching requests:", error);
     } finally {
@@ -73,50 +59,6 @@ export default function FacultyLeaveRequests() {
     fetchRequests();
   }, [user]);
 
-  const handleSubmit = async () => {
-    if (!user || !leaveDate || !leaveType || !reason) {
-      toast({
-        title: "Error",
-        description: "Please fill in all fields.",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    setSaving(true);
-    try {
-      const { error } = await supabase.from("leave_requests").insert({
-        user_id: user.id,
-        leave_date: leaveDate,
-        leave_type: leaveType as "sick" | "casual",
-        reason,
-        status: "pending",
-      });
-
-      if (error) throw error;
-
-      toast({
-        title: "Success",
-        description: "Leave request submitted successfully.",
-      });
-
-      setDialogOpen(false);
-      setLeaveDate("");
-      setLeaveType("");
-      setReason("");
-      fetchRequests();
-    } catch (error) {
-      console.error("Error submitting request:", error);
-      toast({
-        title: "Error",
-        description: "Failed to submit leave request.",
-        variant: "destructive",
-      });
-    } finally {
-      setSaving(false);
-    }
-  };
-
   const getStatusIcon = (status: string) => {
     switch (status) {
       case "approved":
@@ -173,74 +115,10 @@ export default function FacultyLeaveRequests() {
             <p className="text-muted-foreground">Request and track your leave applications.</p>
           </div>
 
-          <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
-            <DialogTrigger asChild>
-              <Button className="transition-smooth hover:scale-105">
-                <Plus className="mr-2 h-4 w-4" />
-                Request Leave
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="scale-in">
-              <DialogHeader>
-                <DialogTitle>Request Leave</DialogTitle>
-                <DialogDescription>
-                  Submit a new leave request to the admin.
-                </DialogDescription>
-              </DialogHeader>
-
-              <div className="space-y-4">
-                <div className="space-y-2">
-                  <Label htmlFor="leaveDate">Leave Date *</Label>
-                  <Input
-                    id="leaveDate"
-                    type="date"
-                    value={leaveDate}
-                    onChange={(e) => setLeaveDate(e.target.value)}
-                  />
-                </div>
-
-                <div className="space-y-2">
-                  <Label htmlFor="leaveType">Leave Type *</Label>
-                  <Select value={leaveType} onValueChange={setLeaveType}>
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select type" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="sick">Sick Leave</SelectItem>
-                      <SelectItem value="casual">Casual Leave</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-
-                <div className="space-y-2">
-                  <Label htmlFor="reason">Reason *</Label>
-                  <Textarea
-                    id="reason"
-                    placeholder="Explain the reason for your leave..."
-                    value={reason}
-                    onChange={(e) => setReason(e.target.value)}
-                    rows={3}
-                  />
-                </div>
-
-                <div className="flex justify-end gap-3">
-                  <Button variant="outline" onClick={() => setDialogOpen(false)}>
-                    Cancel
-                  </Button>
-                  <Button onClick={handleSubmit} disabled={saving}>
-                    {saving ? (
-                      <>
-                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                        Submitting...
-                      </>
-                    ) : (
-                      "Submit Request"
-                    )}
-                  </Button>
-                </div>
-              </div>
-            </DialogContent>
-          </Dialog>
+          <Button onClick={() => setDialogOpen(true)} className="transition-smooth hover:scale-105">
+            <Plus className="mr-2 h-4 w-4" />
+            Request Leave
+          </Button>
         </div>
 
         {/* Stats */}
@@ -280,6 +158,8 @@ export default function FacultyLeaveRequests() {
           </Card>
         </div>
 
+        <LeaveBalanceCard policy={policy} balances={computeLeaveBalances(policy, requests, format(new Date(), "yyyy-MM-dd"))} />
+
         {/* Requests List */}
         <Card className="slide-up">
           <CardHeader>
@@ -320,8 +200,12 @@ export default function FacultyLeaveRequests() {
                         </p>
                         {getStatusBadge(request.status)}
                       </div>
-                      <p className="text-sm text-muted-foreground">
-                        {format(parseISO(request.leave_date), "MMMM d, yyyy")}
+                      <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                        {request.end_date === request.leave_date && !request.half_day
+                          ? format(parseISO(request.leave_date), "MMMM d, yyyy")
+                          : formatLeaveDates(request)}
+                        <span>· {formatDays(request.days)}</span>
+                        {request.attachment_path && <Paperclip className="h-3 w-3" />}
                       </p>
                       <p className="text-sm">{request.reason}</p>
                       <p className="text-xs text-muted-foreground">
@@ -335,6 +219,8 @@ export default function FacultyLeaveRequests() {
           </CardContent>
         </Card>
       </div>
+
+      <LeaveRequestDialog open={dialogOpen} onOpenChange={setDialogOpen} policy={policy} requests={requests} onSubmitted={fetchRequests} />
     </DashboardLayout>
   );
 }
@@ -0,0 +1,81 @@
+import type { MailMessage } from "./mailer.ts";
+
+type TemplateData = Record<string, unknown>;
+type Rendered = Omit<MailMessage, "to">;
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const str = (value: unknown) => (value === null || value === undefined ? "" : String(value));
+
+// "2026-03-07" -> "Sat, 7 Mar 2026"; dates are calendar dates, so format them in UTC
+const formatDate = (value: unknown) => {
+  const date = new Date(`${str(value)}T00:00:00Z`);
+  if (isNaN(date.getTime())) return str(value);
+  return date.toLocaleDateString("en-IN", { weekday: "short", day: "numeric", month: "short", year: "numeric", timeZone: "UTC" });
+};
+
+const formatDeadline = (data: TemplateData) =>
+  data.deadline_time ? `${formatDate(data.deadline)}, ${str(data.deadline_time).slice(0, 5)}` : `${formatDate(data.deadline)} (end of day)`;
+
+// Plain-text paragraphs plus an optional call to action, wrapped in a minimal HTML layout
+function layout(subject: string, paragraphs: string[], action?: { label: string; path: string }): Rendered {
+  const appUrl = (Deno.env.get("APP_URL") || "").replace(/\/$/, "");
+  const link = action && appUrl ? `${appUrl}${action.path}` : null;
+  const footer = "You can choose which emails you receive from your profile page.";
+
+  const text = [...paragraphs, ...(link ? [`${action!.label}: ${link}`] : []), "", "— FEST Interns", footer].join("\n\n");
+  const html = `<!doctype html><html><body style="font-family:Arial,sans-serif;color:#1f2937;line-height:1.5">
+${paragraphs.map((p) => `<p>${escapeHtml(p)}</p>`).join("\n")}
+${link ? `<p><a href="${escapeHtml(link)}" style="display:inline-block;padding:10px 16px;background:#2563eb;color:#fff;border-radius:6px;text-decoration:none">${escapeHtml(action!.label)}</a></p>` : ""}
+<p>— FEST Interns</p>
+<p style="font-size:12px;color:#6b7280">${escapeHtml(footer)}</p>
+</body></html>`;
+  return { subject, text, html };
+}
+
+function deadlineReminder(data: TemplateData): Rendered {
+  const isQuiz = data.kind === "quiz";
+  const hours = Number(data.hours_before);
+  const dueIn = !hours ? "soon" : hours >= 24 && hours % 24 === 0 ? `in ${hours / 24} day${hours === 24 ? "" : "s"}` : `in ${hours} hour${hours === 1 ? "" : "s"}`;
+  return layout(`Due ${dueIn}: ${str(data.title)}`, [
+    `Reminder: the ${isQuiz ? "quiz" : "assignment"} "${str(data.title)}" is due ${formatDeadline(data)}, and we haven't received your submission yet.`,
+  ], { label: isQuiz ? "Go to quizzes" : "Go to assignments", path: isQuiz ? "/quizzes" : "/assignments" });
+}
+
+const templates: Record<string, (data: TemplateData) => Rendered> = {
+  signup_approved: () =>
+    layout("Your FEST Interns account is approved", [
+      "Good news: your registration has been approved.",
+      "You can now sign in to see your batch, resources, assignments and quizzes.",
+    ], { label: "Open your dashboard", path: "/dashboard" }),
+
+  leave_decided: (data) => {
+    const range = data.half_day
+      ? `${formatDate(data.start_date)} (half day)`
+      : data.end_date && data.end_date !== data.start_date
+        ? `${formatDate(data.start_date)} to ${formatDate(data.end_date)}`
+        : formatDate(data.start_date);
+    const type = str(data.leave_type) === "sick" ? "sick" : "casual";
+    return layout(`Leave request ${str(data.status)}`, [
+      `Your ${type} leave request for ${range} has been ${str(data.status)}.`,
+    ], { label: "View your leave requests", path: str(data.link) || "/leaves" });
+  },
+
+  assignment_posted: (data) =>
+    layout(`New assignment: ${str(data.title)}`, [
+      `A new assignment, "${str(data.title)}", has been posted for your batch.`,
+      `Deadline: ${formatDeadline(data)}.`,
+    ], { label: "View assignments", path: "/assignments" }),
+
+  deadline_reminder: (data) => deadlineReminder(data),
+
+  // Queued before deadline_reminder replaced it
+  deadline_tomorrow: (data) => deadlineReminder({ hours_before: 24, ...data }),
+};
+
+export function renderEmail(template: string, data: TemplateData): Rendered {
+  const render = templates[template];
+  if (!render) throw new Error(`Unknown email template "${template}"`);
+  return render(data);
+}
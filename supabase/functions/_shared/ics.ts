@@ -0,0 +1,137 @@
+// iCalendar (RFC 5545) writer for subscription feeds. Timed events are written as wall-clock
+// times in one fixed-offset timezone so weekly rules keep their weekday in calendar apps.
+
+export interface FeedTimezone {
+  tzid: string;
+  // Offset from UTC in minutes, e.g. 330 for +05:30
+  offsetMinutes: number;
+}
+
+export interface FeedEvent {
+  uid: string;
+  summary: string;
+  description?: string | null;
+  location?: string | null;
+  category?: string;
+  // All-day events are written as dates with an exclusive end date
+  allDay: boolean;
+  start: Date;
+  end: Date;
+  repeat?: { frequency: "daily" | "weekly"; weekdays: number[]; until: string | null };
+  // Deadlines and leaves should not block time as busy
+  transparent?: boolean;
+}
+
+const BYDAY = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+const utcStamp = (date: Date) =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+// Shift a UTC instant so its UTC fields read as the feed timezone's wall clock
+const toLocal = (date: Date, tz: FeedTimezone) => new Date(date.getTime() + tz.offsetMinutes * 60 * 1000);
+
+const localDate = (date: Date, tz: FeedTimezone) => {
+  const d = toLocal(date, tz);
+  return `${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}`;
+};
+
+const localDateTime = (date: Date, tz: FeedTimezone) => {
+  const d = toLocal(date, tz);
+  return `${localDate(date, tz)}T${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}00`;
+};
+
+const formatOffset = (minutes: number) =>
+  `${minutes < 0 ? "-" : "+"}${pad(Math.floor(Math.abs(minutes) / 60))}${pad(Math.abs(minutes) % 60)}`;
+
+// Wall-clock date and time in the feed timezone (e.g. a deadline stored as date + time) as an instant
+export function fromLocal(date: string, time: string | null, tz: FeedTimezone) {
+  const [year, month, day] = date.split("-").map(Number);
+  const [hours, minutes] = time ? time.split(":").map(Number) : [0, 0];
+  return new Date(Date.UTC(year, month - 1, day, hours, minutes) - tz.offsetMinutes * 60 * 1000);
+}
+
+// escapeIcsText and foldLine are copied from src/lib/ics.ts, as edge functions can't import
+// from src. Change both copies together.
+export function escapeIcsText(value: string) {
+  return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+// Lines longer than 75 octets continue on the next line after a single space
+function foldLine(line: string) {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+  const parts: string[] = [];
+  let current = "";
+  let size = 0;
+  for (const char of line) {
+    const charSize = encoder.encode(char).length;
+    if (size + charSize > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = "";
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function repeatRule(event: FeedEvent, tz: FeedTimezone) {
+  const repeat = event.repeat!;
+  const parts = [`FREQ=${repeat.frequency.toUpperCase()}`];
+  if (repeat.frequency === "weekly") {
+    const weekdays = repeat.weekdays.length > 0 ? repeat.weekdays : [toLocal(event.start, tz).getUTCDay()];
+    parts.push(`BYDAY=${weekdays.map((d) => BYDAY[d]).join(",")}`);
+  }
+  if (repeat.until) {
+    // UNTIL is inclusive of the whole last day; with a TZID start it must be given in UTC
+    parts.push(`UNTIL=${event.allDay
+      ? repeat.until.replace(/-/g, "")
+      : utcStamp(new Date(fromLocal(repeat.until, "23:59", tz).getTime() + 59 * 1000))}`);
+  }
+  return `RRULE:${parts.join(";")}`;
+}
+
+export function buildFeed(calendarName: string, tz: FeedTimezone, events: FeedEvent[]) {
+  const stamp = utcStamp(new Date());
+  const offset = formatOffset(tz.offsetMinutes);
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//LMS//Calendar Feed//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeIcsText(calendarName)}`,
+    `X-WR-TIMEZONE:${tz.tzid}`,
+    "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+    "X-PUBLISHED-TTL:PT1H",
+    "BEGIN:VTIMEZONE",
+    `TZID:${tz.tzid}`,
+    "BEGIN:STANDARD",
+    "DTSTART:19700101T000000",
+    `TZOFFSETFROM:${offset}`,
+    `TZOFFSETTO:${offset}`,
+    "END:STANDARD",
+    "END:VTIMEZONE",
+  ];
+  for (const event of events) {
+    lines.push("BEGIN:VEVENT", `UID:${event.uid}`, `DTSTAMP:${stamp}`);
+    if (event.allDay) {
+      lines.push(`DTSTART;VALUE=DATE:${localDate(event.start, tz)}`, `DTEND;VALUE=DATE:${localDate(event.end, tz)}`);
+    } else {
+      lines.push(`DTSTART;TZID=${tz.tzid}:${localDateTime(event.start, tz)}`, `DTEND;TZID=${tz.tzid}:${localDateTime(event.end, tz)}`);
+    }
+    if (event.repeat) lines.push(repeatRule(event, tz));
+    lines.push(`SUMMARY:${escapeIcsText(event.summary)}`);
+    if (event.description) lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+    if (event.location) lines.push(`LOCATION:${escapeIcsText(event.location)}`);
+    if (event.category) lines.push(`CATEGORIES:${escapeIcsText(event.category)}`);
+    if (event.transparent) lines.push("TRANSP:TRANSPARENT");
+    lines.push("END:VEVENT");
+  }
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,74 @@
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+// A transport may keep a connection open between messages; call close() when done
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+  close(): Promise<void>;
+}
+
+const fromAddress = () => Deno.env.get("SMTP_FROM") || "FEST Interns <no-reply@festinterns.local>";
+
+// SMTP settings come from function secrets. In local development point
+// SMTP_HOSTNAME/SMTP_PORT at a mail catcher (e.g. Inbucket/Mailpit) and leave SMTP_TLS unset.
+export function smtpTransport(): MailTransport {
+  const hostname = Deno.env.get("SMTP_HOSTNAME");
+  if (!hostname) throw new Error("SMTP is not configured");
+
+  const username = Deno.env.get("SMTP_USERNAME");
+  const password = Deno.env.get("SMTP_PASSWORD");
+  let client: SMTPClient | null = null;
+
+  return {
+    async send(message) {
+      client ||= new SMTPClient({
+        connection: {
+          hostname,
+          port: Number(Deno.env.get("SMTP_PORT") || 587),
+          tls: Deno.env.get("SMTP_TLS") === "true",
+          auth: username ? { username, password: password || "" } : undefined,
+        },
+      });
+      await client.send({
+        from: fromAddress(),
+        to: message.to,
+        subject: message.subject,
+        content: message.text,
+        html: message.html,
+      });
+    },
+    async close() {
+      await client?.close();
+      client = null;
+    },
+  };
+}
+
+// Writes messages to the function log instead of sending them (MAIL_TRANSPORT=log)
+export function logTransport(): MailTransport {
+  return {
+    async send(message) {
+      console.log(`[mail] to=${message.to} subject=${JSON.stringify(message.subject)}\n${message.text}`);
+    },
+    async close() {},
+  };
+}
+
+export function createTransport(): MailTransport {
+  return Deno.env.get("MAIL_TRANSPORT") === "log" ? logTransport() : smtpTransport();
+}
+
+export async function sendMail(message: MailMessage) {
+  const transport = createTransport();
+  try {
+    await transport.send(message);
+  } finally {
+    await transport.close();
+  }
+}
@@ -0,0 +1,179 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { buildFeed, fromLocal, type FeedEvent, type FeedTimezone } from "../_shared/ics.ts";
+
+// Calendar apps poll this URL without a session: GET /calendar-feed?token=<feed token>.
+// The token is checked against its stored SHA-256 hash.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Session times and deadlines are entered in Indian Standard Time
+const FEED_TIMEZONE: FeedTimezone = { tzid: "Asia/Kolkata", offsetMinutes: 330 };
+const HISTORY_DAYS = 60;
+
+const text = (body: string, status: number) =>
+  new Response(body, { status, headers: { ...corsHeaders, "Content-Type": "text/plain; charset=utf-8" } });
+
+const sha256 = async (value: string) => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, "0")).join("");
+};
+
+const addDays = (date: Date, days: number) => new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+  if (req.method !== "GET") {
+    return text("Method not allowed", 405);
+  }
+
+  try {
+    const token = new URL(req.url).searchParams.get("token")?.trim();
+    if (!token || !/^[0-9a-f]{64}$/.test(token)) {
+      return text("Invalid feed link", 404);
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    );
+
+    const { data: feed } = await supabaseAdmin
+      .from("calendar_feed_tokens")
+      .select("user_id")
+      .eq("token_hash", await sha256(token))
+      .maybeSingle();
+    // Same response for unknown and revoked tokens
+    if (!feed) {
+      return text("Invalid feed link", 404);
+    }
+    const userId = feed.user_id;
+
+    await supabaseAdmin
+      .from("calendar_feed_tokens")
+      .update({ last_accessed_at: new Date().toISOString() })
+      .eq("user_id", userId);
+
+    const [{ data: roleRows }, { data: profile }] = await Promise.all([
+      supabaseAdmin.from("user_roles").select("role").eq("user_id", userId),
+      supabaseAdmin.from("profiles").select("full_name").eq("id", userId).maybeSingle(),
+    ]);
+    const roles = (roleRows || []).map((r) => r.role as string);
+
+    // Students follow their own batch, faculty the batches they teach, admins every batch
+    let batchQuery = supabaseAdmin.from("batches").select("id, name");
+    if (roles.includes("faculty") && !roles.includes("admin")) {
+      batchQuery = batchQuery.eq("assigned_faculty_id", userId);
+    } else if (!roles.includes("admin")) {
+      const { data: studentProfile } = await supabaseAdmin
+        .from("student_profiles")
+        .select("batch_id")
+        .eq("user_id", userId)
+        .maybeSingle();
+      batchQuery = batchQuery.in("id", studentProfile?.batch_id ? [studentProfile.batch_id] : []);
+    }
+    const { data: batches } = await batchQuery;
+    const batchNames = new Map((batches || []).map((b) => [b.id, b.name]));
+    const batchIds = [...batchNames.keys()];
+    // Only label entries with their batch when the feed covers more than one
+    const label = (batchId: string, title: string) =>
+      batchIds.length > 1 ? `[${batchNames.get(batchId)}] ${title}` : title;
+
+    const since = addDays(new Date(), -HISTORY_DAYS);
+    const sinceDate = since.toISOString().slice(0, 10);
+    const events: FeedEvent[] = [];
+
+    if (batchIds.length > 0) {
+      const [{ data: sessions }, { data: assignments }, { data: quizzes }] = await Promise.all([
+        supabaseAdmin
+          .from("calendar_events")
+          .select("id, batch_id, title, description, event_type, starts_at, ends_at, all_day, location, recurrence, recurrence_days, recurrence_until")
+          .in("batch_id", batchIds)
+          .or(`ends_at.gte.${since.toISOString()},recurrence_until.gte.${sinceDate},and(recurrence.neq.none,recurrence_until.is.null)`),
+        supabaseAdmin
+          .from("assignments")
+          .select("id, batch_id, title, description, deadline, deadline_time")
+          .in("batch_id", batchIds)
+          .gte("deadline", sinceDate),
+        supabaseAdmin
+          .from("quizzes")
+          .select("id, batch_id, title, description, deadline, deadline_time")
+          .in("batch_id", batchIds)
+          .gte("deadline", sinceDate),
+      ]);
+
+      for (const s of sessions || []) {
+        events.push({
+          uid: `event-${s.id}@lms`,
+          summary: label(s.batch_id, s.title),
+          description: s.description,
+          location: s.location,
+          category: s.event_type,
+          allDay: s.all_day,
+          start: new Date(s.starts_at),
+          end: new Date(s.ends_at),
+          repeat: s.recurrence === "none"
+            ? undefined
+            : { frequency: s.recurrence, weekdays: s.recurrence_days || [], until: s.recurrence_until },
+          transparent: s.event_type === "holiday",
+        });
+      }
+
+      // Deadlines without a time are all-day entries on the due date
+      const deadlines = [
+        ...(assignments || []).map((a) => ({ ...a, kind: "Assignment" })),
+        ...(quizzes || []).map((q) => ({ ...q, kind: "Quiz" })),
+      ];
+      for (const d of deadlines) {
+        const due = fromLocal(d.deadline, d.deadline_time, FEED_TIMEZONE);
+        events.push({
+          uid: `${d.kind.toLowerCase()}-${d.id}@lms`,
+          summary: label(d.batch_id, `${d.kind} due: ${d.title}`),
+          description: d.description,
+          category: d.kind,
+          allDay: !d.deadline_time,
+          start: due,
+          end: d.deadline_time ? due : addDays(due, 1),
+          transparent: true,
+        });
+      }
+    }
+
+    const { data: leaves } = await supabaseAdmin
+      .from("leave_requests")
+      .select("id, leave_date, end_date, half_day, leave_type, title")
+      .eq("user_id", userId)
+      .eq("status", "approved")
+      .gte("end_date", sinceDate);
+    for (const l of leaves || []) {
+      const label = l.title ? `Leave: ${l.title}` : `${l.leave_type === "sick" ? "Sick" : "Casual"} leave`;
+      events.push({
+        uid: `leave-${l.id}@lms`,
+        summary: l.half_day ? `${label} (half day)` : label,
+        category: "Leave",
+        allDay: true,
+        start: fromLocal(l.leave_date, null, FEED_TIMEZONE),
+        end: addDays(fromLocal(l.end_date, null, FEED_TIMEZONE), 1),
+        transparent: true,
+      });
+    }
+
+    const name = profile?.full_name ? `FEST Interns – ${profile.full_name}` : "FEST Interns";
+    return new Response(buildFeed(name, FEED_TIMEZONE, events), {
+      headers: {
+        ...corsHeaders,
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="calendar.ics"',
+        "Cache-Control": "private, max-age=300",
+      },
+    });
+  } catch (error: unknown) {
+    console.error("Calendar feed error:", error);
+    // Anyone with the feed link can call this, so details stay in the log
+    return text("Could not build the calendar feed", 500);
+  }
+});
@@ -0,0 +1,94 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createTransport } from "../_shared/mailer.ts";
+import { renderEmail } from "../_shared/emailTemplates.ts";
+
+// Sends queued email_outbox rows. Run it on a schedule (e.g. every 5 minutes from Supabase cron)
+// with the service role key as the bearer token.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const BATCH_SIZE = 25;
+const MAX_ATTEMPTS = 5;
+const BASE_BACKOFF_MINUTES = 2;
+const MAX_BACKOFF_MINUTES = 6 * 60;
+
+const json = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+// 2, 4, 8, 16 ... minutes after each failed attempt, capped
+const backoffMinutes = (attempts: number) => Math.min(MAX_BACKOFF_MINUTES, BASE_BACKOFF_MINUTES * 2 ** (attempts - 1));
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  if (req.headers.get("Authorization") !== `Bearer ${serviceKey}`) {
+    return json({ error: "Unauthorized" }, 401);
+  }
+
+  const supabaseAdmin = createClient(Deno.env.get("SUPABASE_URL")!, serviceKey);
+
+  try {
+    const { data: messages, error: claimError } = await supabaseAdmin.rpc("claim_email_outbox", { _limit: BATCH_SIZE, _max_attempts: MAX_ATTEMPTS });
+    if (claimError) throw claimError;
+    if (!messages?.length) return json({ sent: 0, failed: 0 });
+
+    const transport = createTransport();
+    let sent = 0;
+    let failed = 0;
+    try {
+      for (const message of messages) {
+        // Stamped before sending so a message whose "sent" update is lost is not claimed again
+        const { error: startError } = await supabaseAdmin
+          .from("email_outbox")
+          .update({ send_started_at: new Date().toISOString() })
+          .eq("id", message.id);
+        if (startError) {
+          console.error(`Could not start sending email ${message.id}:`, startError);
+          failed++;
+          continue;
+        }
+
+        try {
+          await transport.send({ to: message.to_email, ...renderEmail(message.template, message.data ?? {}) });
+        } catch (error) {
+          failed++;
+          const giveUp = message.attempts >= MAX_ATTEMPTS;
+          const { error: retryError } = await supabaseAdmin
+            .from("email_outbox")
+            .update({
+              status: giveUp ? "failed" : "pending",
+              send_started_at: null,
+              last_error: error instanceof Error ? error.message : String(error),
+              next_attempt_at: new Date(Date.now() + backoffMinutes(message.attempts) * 60 * 1000).toISOString(),
+            })
+            .eq("id", message.id);
+          if (retryError) console.error(`Could not reschedule email ${message.id}:`, retryError);
+          continue;
+        }
+
+        sent++;
+        const { error: sentError } = await supabaseAdmin
+          .from("email_outbox")
+          .update({ status: "sent", sent_at: new Date().toISOString(), last_error: null })
+          .eq("id", message.id);
+        if (sentError) console.error(`Email ${message.id} was sent but could not be marked sent:`, sentError);
+      }
+    } finally {
+      await transport.close().catch(() => {});
+    }
+
+    return json({ sent, failed });
+  } catch (error) {
+    console.error("Email outbox error:", error);
+    return json({ error: error instanceof Error ? error.message : "Outbox processing failed" }, 500);
+  }
+});
@@ -1,4 +1,5 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { sendMail } from "../_shared/mailer.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -6,26 +7,66 @@ const corsHeaders = {
     "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
 };
 
+const CODE_TTL_MINUTES = 15;
+const MAX_CODE_ATTEMPTS = 5;
+const MAX_REQUESTS_PER_EMAIL = 3; // per hour
+const MAX_REQUESTS_PER_IP = 10; // per hour
+const MAX_CONFIRMS_PER_EMAIL = 10; // per hour
+const MAX_CONFIRMS_PER_IP = 20; // per hour
+
+const json = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+const sha256 = async (value: string) => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, "0")).join("");
+};
+
+const generateCode = () => {
+  const buf = new Uint32Array(1);
+  crypto.getRandomValues(buf);
+  return (buf[0] % 1_000_000).toString().padStart(6, "0");
+};
+
+const getClientIp = (req: Request) =>
+  req.headers.get("x-forwarded-for")?.split(",")[0].trim() || req.headers.get("x-real-ip") || null;
+
+type AdminClient = ReturnType<typeof createClient>;
+
+// Logs this call and reports whether the email or IP went over its hourly limit for the action.
+// The check and the log entry happen in one locked database call, so concurrent calls can't all pass.
+const isRateLimited = async (
+  supabaseAdmin: AdminClient,
+  action: "request" | "confirm",
+  email: string,
+  ip: string | null,
+  limits: { perEmail: number; perIp: number },
+) => {
+  const { data, error } = await supabaseAdmin.rpc("password_reset_rate_limited", {
+    _action: action,
+    _email: email,
+    _ip: ip,
+    _max_per_email: limits.perEmail,
+    _max_per_ip: limits.perIp,
+  });
+  if (error) throw error;
+  return data === true;
+};
+
 Deno.serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { email, newPassword } = await req.json();
-
-    if (!email || !newPassword) {
-      return new Response(
-        JSON.stringify({ error: "Email and new password are required" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
+    const { action, email: rawEmail, code, newPassword } = await req.json();
+    const email = typeof rawEmail === "string" ? rawEmail.trim().toLowerCase() : "";
 
-    if (newPassword.length < 6) {
-      return new Response(
-        JSON.stringify({ error: "Password must be at least 6 characters" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+    if (!email) {
+      return json({ error: "Email is required" }, 400);
     }
 
     const supabaseAdmin = createClient(
@@ -33,46 +74,135 @@ Deno.serve(async (req) => {
       Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
     );
 
-    // Find user by email with higher perPage limit
-    const { data: users, error: listError } = await supabaseAdmin.auth.admin.listUsers({
-      perPage: 1000,  // ✅ was defaulting to 50, user wasn't being found
-    });
-    if (listError) throw listError;
+    // Step 1: issue a one-time code
+    if (action === "request") {
+      const limited = await isRateLimited(supabaseAdmin, "request", email, getClientIp(req), {
+        perEmail: MAX_REQUESTS_PER_EMAIL,
+        perIp: MAX_REQUESTS_PER_IP,
+      });
+      if (limited) {
+        return json({ error: "Too many reset requests. Please try again in an hour." }, 429);
+      }
 
-    console.log("Total users fetched:", users.users.length);
-    console.log("Looking for email:", email.toLowerCase());
+      const { data: userId, error: lookupError } = await supabaseAdmin.rpc("get_auth_user_id_by_email", { _email: email });
+      if (lookupError) throw lookupError;
 
-    const user = users.users.find(
-      (u) => u.email?.toLowerCase() === email.toLowerCase()
-    );
+      // Respond the same way whether or not the account exists
+      if (userId) {
+        const resetCode = generateCode();
 
-    console.log("User found:", user ? user.id : "NOT FOUND");
+        // Only the latest code stays valid
+        await supabaseAdmin
+          .from("password_reset_codes")
+          .update({ used_at: new Date().toISOString() })
+          .eq("user_id", userId)
+          .is("used_at", null);
 
-    if (!user) {
-      return new Response(
-        JSON.stringify({ error: "No account found with this email address" }),
-        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+        const { error: insertError } = await supabaseAdmin.from("password_reset_codes").insert({
+          user_id: userId,
+          email,
+          code_hash: await sha256(`${userId}:${resetCode}`),
+          expires_at: new Date(Date.now() + CODE_TTL_MINUTES * 60 * 1000).toISOString(),
+        });
+        if (insertError) throw insertError;
+
+        // A send failure is logged rather than returned, as an error would reveal that the account exists
+        try {
+          await sendMail({
+            to: email,
+            subject: "Your FEST Interns password reset code",
+            text: `Your password reset code is ${resetCode}. It expires in ${CODE_TTL_MINUTES} minutes and can be used once.\n\nIf you did not request a password reset, you can ignore this email.`,
+          });
+        } catch (mailError) {
+          console.error("Reset code email failed:", mailError);
+        }
+      }
+
+      return json({ success: true, message: "If an account exists for this email, a reset code has been sent." });
     }
 
-    // Update password
-    const { error: updateError } = await supabaseAdmin.auth.admin.updateUserById(
-      user.id,
-      { password: newPassword }
-    );
+    // Step 2: verify the code and set the new password
+    if (action === "confirm") {
+      if (!code || !newPassword) {
+        return json({ error: "Reset code and new password are required" }, 400);
+      }
 
-    if (updateError) throw updateError;
+      if (newPassword.length < 6) {
+        return json({ error: "Password must be at least 6 characters" }, 400);
+      }
 
-    return new Response(
-      JSON.stringify({ success: true, message: "Password updated successfully" }),
-      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+      const limited = await isRateLimited(supabaseAdmin, "confirm", email, getClientIp(req), {
+        perEmail: MAX_CONFIRMS_PER_EMAIL,
+        perIp: MAX_CONFIRMS_PER_IP,
+      });
+      if (limited) {
+        return json({ error: "Too many attempts. Please try again in an hour." }, 429);
+      }
+
+      const { data: resetRow, error: fetchError } = await supabaseAdmin
+        .from("password_reset_codes")
+        .select("id, user_id, code_hash")
+        .eq("email", email)
+        .is("used_at", null)
+        .gt("expires_at", new Date().toISOString())
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      if (fetchError) throw fetchError;
+
+      if (!resetRow) {
+        return json({ error: "Invalid or expired reset code" }, 400);
+      }
+
+      // The attempt is counted atomically before the code is checked
+      const { data: attempts, error: attemptError } = await supabaseAdmin.rpc("use_password_reset_attempt", {
+        _code_id: resetRow.id,
+        _max_attempts: MAX_CODE_ATTEMPTS,
+      });
+      if (attemptError) throw attemptError;
+
+      if (attempts === null) {
+        return json({ error: "Invalid or expired reset code" }, 400);
+      }
+
+      if ((await sha256(`${resetRow.user_id}:${String(code).trim()}`)) !== resetRow.code_hash) {
+        // Burn the code once it has been guessed at too often
+        if (attempts >= MAX_CODE_ATTEMPTS) {
+          await supabaseAdmin
+            .from("password_reset_codes")
+            .update({ used_at: new Date().toISOString() })
+            .eq("id", resetRow.id)
+            .is("used_at", null);
+        }
+        return json({ error: "Invalid or expired reset code" }, 400);
+      }
+
+      // Claim the code; the used_at filter makes a concurrent second use a no-op
+      const { data: claimed, error: claimError } = await supabaseAdmin
+        .from("password_reset_codes")
+        .update({ used_at: new Date().toISOString() })
+        .eq("id", resetRow.id)
+        .is("used_at", null)
+        .select("id");
+      if (claimError) throw claimError;
+
+      if (!claimed || claimed.length === 0) {
+        return json({ error: "Invalid or expired reset code" }, 400);
+      }
+
+      const { error: updateError } = await supabaseAdmin.auth.admin.updateUserById(
+        resetRow.user_id,
+        { password: newPassword }
+      );
+      if (updateError) throw updateError;
+
+      return json({ success: true, message: "Password updated successfully" });
+    }
+
+    return json({ error: "Unknown action" }, 400);
   } catch (error: unknown) {
+    // Details stay in the log; they can say more about the account than a caller should learn
     console.error("Reset password error:", error);
-    const message = error instanceof Error ? error.message : "Failed to reset password";
-    return new Response(
-      JSON.stringify({ error: message }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+    return json({ error: "Failed to reset password" }, 500);
   }
 });
@@ -0,0 +1,37 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Sends due assignment and quiz deadline reminders (see send_deadline_reminders). Run it on a
+// schedule, e.g. every 15 minutes from Supabase cron, with the service role key as the bearer
+// token. Emails are queued in email_outbox and delivered by process-email-outbox.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const json = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  if (req.headers.get("Authorization") !== `Bearer ${serviceKey}`) {
+    return json({ error: "Unauthorized" }, 401);
+  }
+
+  const supabaseAdmin = createClient(Deno.env.get("SUPABASE_URL")!, serviceKey);
+
+  const { data: sent, error } = await supabaseAdmin.rpc("send_deadline_reminders");
+  if (error) {
+    console.error("Deadline reminder error:", error);
+    return json({ error: error.message }, 500);
+  }
+
+  return json({ sent });
+});
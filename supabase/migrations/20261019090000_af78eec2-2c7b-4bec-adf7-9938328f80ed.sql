@@ -0,0 +1,43 @@
+
+-- One-time password reset codes (emails stored lower-cased, only the SHA-256 hash of the code is kept)
+CREATE TABLE public.password_reset_codes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  code_hash TEXT NOT NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  expires_at TIMESTAMPTZ NOT NULL,
+  used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_password_reset_codes_email ON public.password_reset_codes (email, created_at DESC);
+
+-- Log of reset requests, used to rate-limit per email and per IP
+CREATE TABLE public.password_reset_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  email TEXT NOT NULL,
+  ip_address TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_password_reset_requests_email ON public.password_reset_requests (email, created_at DESC);
+CREATE INDEX idx_password_reset_requests_ip ON public.password_reset_requests (ip_address, created_at DESC);
+
+-- RLS on with no policies: only the service role (reset-password edge function) can touch these
+ALTER TABLE public.password_reset_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.password_reset_requests ENABLE ROW LEVEL SECURITY;
+
+-- Look up an auth user by email without paging through auth.admin.listUsers
+CREATE OR REPLACE FUNCTION public.get_auth_user_id_by_email(_email TEXT)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT id FROM auth.users WHERE lower(email) = lower(trim(_email)) LIMIT 1
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_auth_user_id_by_email(TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_auth_user_id_by_email(TEXT) TO service_role;
@@ -0,0 +1,174 @@
+
+-- Attempt limit per quiz (one submission unless faculty allow more)
+ALTER TABLE public.quizzes ADD COLUMN IF NOT EXISTS max_attempts INTEGER NOT NULL DEFAULT 1 CHECK (max_attempts >= 1);
+
+-- Allow more than one submission per student, numbered per attempt
+ALTER TABLE public.quiz_submissions DROP CONSTRAINT IF EXISTS quiz_submissions_quiz_id_student_id_key;
+ALTER TABLE public.quiz_submissions ADD COLUMN IF NOT EXISTS attempt_number INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE public.quiz_submissions ADD CONSTRAINT quiz_submissions_quiz_student_attempt_key UNIQUE (quiz_id, student_id, attempt_number);
+
+-- Students no longer read quiz_questions directly (that exposed correct_answer);
+-- they go through get_quiz_questions instead.
+DROP POLICY IF EXISTS "Students can view quiz questions for their batch" ON public.quiz_questions;
+
+-- Students no longer write submissions or answers directly; submit_quiz grades them server-side.
+DROP POLICY IF EXISTS "Students can insert their own quiz submissions" ON public.quiz_submissions;
+DROP POLICY IF EXISTS "Students can insert their own quiz answers" ON public.quiz_answers;
+
+-- Whether a student can take quizzes of the given batch
+CREATE OR REPLACE FUNCTION public.is_approved_batch_student(_user_id uuid, _batch_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT has_role(_user_id, 'student') AND EXISTS (
+    SELECT 1 FROM public.student_profiles
+    WHERE user_id = _user_id AND batch_id = _batch_id AND status = 'approved'
+  )
+$$;
+
+-- Deadline of a quiz as an absolute timestamp. deadline_time is a wall-clock "HH:MM"
+-- in India Standard Time, matching how faculty enter it.
+CREATE OR REPLACE FUNCTION public.quiz_deadline_at(_deadline date, _deadline_time text)
+RETURNS timestamptz
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT ((_deadline + COALESCE(NULLIF(_deadline_time, ''), '23:59')::time + interval '59.999 seconds')
+    AT TIME ZONE 'Asia/Kolkata')
+$$;
+
+-- Auto-grade a single answer. Returns NULL for question types that need manual grading.
+CREATE OR REPLACE FUNCTION public.grade_quiz_answer(_question public.quiz_questions, _answer text)
+RETURNS boolean
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF _question.question_type = 'mcq' THEN
+    RETURN lower(trim(COALESCE(_answer, ''))) = lower(trim(COALESCE(_question.correct_answer, '')));
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+-- Questions of a quiz without the correct answers, for students of the quiz's batch
+CREATE OR REPLACE FUNCTION public.get_quiz_questions(_quiz_id uuid)
+RETURNS TABLE (
+  id uuid,
+  quiz_id uuid,
+  question_text text,
+  question_type text,
+  options jsonb,
+  points numeric,
+  order_number integer
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _batch_id uuid;
+BEGIN
+  SELECT q.batch_id INTO _batch_id FROM public.quizzes q WHERE q.id = _quiz_id;
+  IF _batch_id IS NULL THEN
+    RAISE EXCEPTION 'Quiz not found';
+  END IF;
+
+  IF NOT (
+    has_role(auth.uid(), 'admin') OR has_role(auth.uid(), 'faculty')
+    OR public.is_approved_batch_student(auth.uid(), _batch_id)
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to view this quiz';
+  END IF;
+
+  RETURN QUERY
+    SELECT qq.id, qq.quiz_id, qq.question_text, qq.question_type, qq.options, qq.points, qq.order_number
+    FROM public.quiz_questions qq
+    WHERE qq.quiz_id = _quiz_id
+    ORDER BY qq.order_number;
+END;
+$$;
+
+-- Grade and record a student's quiz attempt.
+-- _answers is a JSON object of question_id -> answer text.
+CREATE OR REPLACE FUNCTION public.submit_quiz(_quiz_id uuid, _answers jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _quiz public.quizzes%ROWTYPE;
+  _question public.quiz_questions%ROWTYPE;
+  _student_id uuid := auth.uid();
+  _attempts integer;
+  _submission_id uuid;
+  _answer text;
+  _is_correct boolean;
+  _score numeric := 0;
+  _total numeric := 0;
+  _needs_manual boolean := false;
+BEGIN
+  SELECT * INTO _quiz FROM public.quizzes WHERE id = _quiz_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz not found';
+  END IF;
+
+  IF NOT public.is_approved_batch_student(_student_id, _quiz.batch_id) THEN
+    RAISE EXCEPTION 'You are not enrolled in this quiz''s batch';
+  END IF;
+
+  IF now() > public.quiz_deadline_at(_quiz.deadline, _quiz.deadline_time) THEN
+    RAISE EXCEPTION 'The deadline for this quiz has passed';
+  END IF;
+
+  -- Serialize concurrent submissions from the same student
+  PERFORM pg_advisory_xact_lock(hashtext(_quiz_id::text || _student_id::text));
+
+  SELECT COUNT(*) INTO _attempts FROM public.quiz_submissions
+  WHERE quiz_id = _quiz_id AND student_id = _student_id;
+  IF _attempts >= _quiz.max_attempts THEN
+    RAISE EXCEPTION 'No attempts left for this quiz';
+  END IF;
+
+  INSERT INTO public.quiz_submissions (quiz_id, student_id, attempt_number, score, total_points, is_graded)
+  VALUES (_quiz_id, _student_id, _attempts + 1, 0, 0, false)
+  RETURNING id INTO _submission_id;
+
+  FOR _question IN SELECT * FROM public.quiz_questions WHERE quiz_id = _quiz_id ORDER BY order_number LOOP
+    _answer := NULLIF(trim(COALESCE(_answers ->> _question.id::text, '')), '');
+    _total := _total + _question.points;
+    _is_correct := public.grade_quiz_answer(_question, _answer);
+
+    IF _is_correct IS NULL THEN
+      _needs_manual := true;
+    ELSIF _is_correct THEN
+      _score := _score + _question.points;
+    END IF;
+
+    INSERT INTO public.quiz_answers (submission_id, question_id, answer_text, is_correct, points_awarded)
+    VALUES (_submission_id, _question.id, _answer, _is_correct, CASE WHEN _is_correct THEN _question.points ELSE 0 END);
+  END LOOP;
+
+  UPDATE public.quiz_submissions
+  SET score = _score, total_points = _total, is_graded = NOT _needs_manual
+  WHERE id = _submission_id;
+
+  RETURN jsonb_build_object(
+    'submission_id', _submission_id,
+    'attempt_number', _attempts + 1,
+    'score', _score,
+    'total_points', _total,
+    'is_graded', NOT _needs_manual
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_quiz_questions(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.submit_quiz(uuid, jsonb) TO authenticated;
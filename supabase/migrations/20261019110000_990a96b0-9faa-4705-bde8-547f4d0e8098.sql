@@ -0,0 +1,147 @@
+
+-- Manual grading of quiz answers (text questions)
+ALTER TABLE public.quiz_answers
+  ADD COLUMN IF NOT EXISTS feedback TEXT,
+  ADD COLUMN IF NOT EXISTS graded_by UUID,
+  ADD COLUMN IF NOT EXISTS graded_at TIMESTAMPTZ;
+
+-- Auto-graded answers count as graded from the start
+UPDATE public.quiz_answers a
+SET graded_at = s.submitted_at
+FROM public.quiz_submissions s
+WHERE s.id = a.submission_id AND a.is_correct IS NOT NULL AND a.graded_at IS NULL;
+
+-- Recompute a submission's score, and mark it graded once every answer has been scored
+CREATE OR REPLACE FUNCTION public.recalculate_quiz_submission(_submission_id uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.quiz_submissions s
+  SET score = COALESCE((SELECT SUM(points_awarded) FROM public.quiz_answers WHERE submission_id = s.id), 0),
+      is_graded = NOT EXISTS (
+        SELECT 1 FROM public.quiz_answers WHERE submission_id = s.id AND graded_at IS NULL
+      )
+  WHERE s.id = _submission_id
+$$;
+
+-- Award points (partial allowed) and feedback to one answer
+CREATE OR REPLACE FUNCTION public.score_quiz_answer(_answer_id uuid, _points numeric, _feedback text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _submission_id uuid;
+  _max_points numeric;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'admin') OR has_role(auth.uid(), 'faculty')) THEN
+    RAISE EXCEPTION 'Only admin or faculty can grade quiz answers';
+  END IF;
+
+  SELECT a.submission_id, q.points INTO _submission_id, _max_points
+  FROM public.quiz_answers a
+  JOIN public.quiz_questions q ON q.id = a.question_id
+  WHERE a.id = _answer_id;
+
+  IF _submission_id IS NULL THEN
+    RAISE EXCEPTION 'Answer not found';
+  END IF;
+
+  IF _points IS NULL OR _points < 0 OR _points > _max_points THEN
+    RAISE EXCEPTION 'Points must be between 0 and %', _max_points;
+  END IF;
+
+  UPDATE public.quiz_answers
+  SET points_awarded = _points,
+      is_correct = (_points >= _max_points),
+      feedback = NULLIF(trim(COALESCE(_feedback, '')), ''),
+      graded_by = auth.uid(),
+      graded_at = now()
+  WHERE id = _answer_id;
+
+  PERFORM public.recalculate_quiz_submission(_submission_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.score_quiz_answer(uuid, numeric, text) TO authenticated;
+
+-- submit_quiz now stamps graded_at on auto-graded answers
+CREATE OR REPLACE FUNCTION public.submit_quiz(_quiz_id uuid, _answers jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _quiz public.quizzes%ROWTYPE;
+  _question public.quiz_questions%ROWTYPE;
+  _student_id uuid := auth.uid();
+  _attempts integer;
+  _submission_id uuid;
+  _answer text;
+  _is_correct boolean;
+  _score numeric := 0;
+  _total numeric := 0;
+  _needs_manual boolean := false;
+BEGIN
+  SELECT * INTO _quiz FROM public.quizzes WHERE id = _quiz_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz not found';
+  END IF;
+
+  IF NOT public.is_approved_batch_student(_student_id, _quiz.batch_id) THEN
+    RAISE EXCEPTION 'You are not enrolled in this quiz''s batch';
+  END IF;
+
+  IF now() > public.quiz_deadline_at(_quiz.deadline, _quiz.deadline_time) THEN
+    RAISE EXCEPTION 'The deadline for this quiz has passed';
+  END IF;
+
+  -- Serialize concurrent submissions from the same student
+  PERFORM pg_advisory_xact_lock(hashtext(_quiz_id::text || _student_id::text));
+
+  SELECT COUNT(*) INTO _attempts FROM public.quiz_submissions
+  WHERE quiz_id = _quiz_id AND student_id = _student_id;
+  IF _attempts >= _quiz.max_attempts THEN
+    RAISE EXCEPTION 'No attempts left for this quiz';
+  END IF;
+
+  INSERT INTO public.quiz_submissions (quiz_id, student_id, attempt_number, score, total_points, is_graded)
+  VALUES (_quiz_id, _student_id, _attempts + 1, 0, 0, false)
+  RETURNING id INTO _submission_id;
+
+  FOR _question IN SELECT * FROM public.quiz_questions WHERE quiz_id = _quiz_id ORDER BY order_number LOOP
+    _answer := NULLIF(trim(COALESCE(_answers ->> _question.id::text, '')), '');
+    _total := _total + _question.points;
+    _is_correct := public.grade_quiz_answer(_question, _answer);
+
+    IF _is_correct IS NULL THEN
+      _needs_manual := true;
+    ELSIF _is_correct THEN
+      _score := _score + _question.points;
+    END IF;
+
+    INSERT INTO public.quiz_answers (submission_id, question_id, answer_text, is_correct, points_awarded, graded_at)
+    VALUES (
+      _submission_id, _question.id, _answer, _is_correct,
+      CASE WHEN _is_correct THEN _question.points ELSE 0 END,
+      CASE WHEN _is_correct IS NULL THEN NULL ELSE now() END
+    );
+  END LOOP;
+
+  UPDATE public.quiz_submissions
+  SET score = _score, total_points = _total, is_graded = NOT _needs_manual
+  WHERE id = _submission_id;
+
+  RETURN jsonb_build_object(
+    'submission_id', _submission_id,
+    'attempt_number', _attempts + 1,
+    'score', _score,
+    'total_points', _total,
+    'is_graded', NOT _needs_manual
+  );
+END;
+$$;
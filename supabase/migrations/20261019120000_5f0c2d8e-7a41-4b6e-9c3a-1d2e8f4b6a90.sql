@@ -0,0 +1,131 @@
+
+-- Reusable question bank, tagged by internship role and topic
+CREATE TABLE public.quiz_question_bank (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  question_text text NOT NULL,
+  question_type text NOT NULL DEFAULT 'mcq'
+    CHECK (question_type IN ('mcq', 'multi_select', 'true_false', 'numeric', 'text', 'code')),
+  options jsonb,
+  correct_answer text,
+  tolerance numeric CHECK (tolerance >= 0),
+  points numeric NOT NULL DEFAULT 1,
+  internship_role internship_role,
+  topic text,
+  created_by uuid NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_quiz_question_bank_role_topic ON public.quiz_question_bank (internship_role, topic);
+
+ALTER TABLE public.quiz_question_bank ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin and faculty can manage the question bank" ON public.quiz_question_bank
+  FOR ALL TO authenticated
+  USING (has_role(auth.uid(), 'admin') OR has_role(auth.uid(), 'faculty'))
+  WITH CHECK (has_role(auth.uid(), 'admin') OR has_role(auth.uid(), 'faculty'));
+
+CREATE TRIGGER update_quiz_question_bank_updated_at
+BEFORE UPDATE ON public.quiz_question_bank
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- New question types. Answers are stored as text:
+--   multi_select: JSON array of the selected options (correct_answer likewise)
+--   true_false:   'True' or 'False'
+--   numeric:      a number, correct when within tolerance of correct_answer
+--   code:         source code, graded manually like text
+ALTER TABLE public.quiz_questions
+  ADD COLUMN IF NOT EXISTS tolerance numeric CHECK (tolerance >= 0),
+  ADD COLUMN IF NOT EXISTS bank_question_id uuid REFERENCES public.quiz_question_bank(id) ON DELETE SET NULL;
+
+ALTER TABLE public.quiz_questions ADD CONSTRAINT quiz_questions_question_type_check
+  CHECK (question_type IN ('mcq', 'multi_select', 'true_false', 'numeric', 'text', 'code'));
+
+-- Show each student the options of a question in their own order
+ALTER TABLE public.quizzes ADD COLUMN IF NOT EXISTS shuffle_options boolean NOT NULL DEFAULT false;
+
+CREATE OR REPLACE FUNCTION public.grade_quiz_answer(_question public.quiz_questions, _answer text)
+RETURNS boolean
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF _question.question_type IN ('mcq', 'true_false') THEN
+    RETURN lower(trim(COALESCE(_answer, ''))) = lower(trim(COALESCE(_question.correct_answer, '')));
+  END IF;
+
+  IF _question.question_type = 'multi_select' THEN
+    BEGIN
+      RETURN (
+        SELECT array_agg(DISTINCT lower(trim(v)) ORDER BY lower(trim(v)))
+        FROM jsonb_array_elements_text(COALESCE(_answer, '[]')::jsonb) v
+      ) IS NOT DISTINCT FROM (
+        SELECT array_agg(DISTINCT lower(trim(v)) ORDER BY lower(trim(v)))
+        FROM jsonb_array_elements_text(COALESCE(_question.correct_answer, '[]')::jsonb) v
+      );
+    EXCEPTION WHEN others THEN
+      RETURN false;
+    END;
+  END IF;
+
+  IF _question.question_type = 'numeric' THEN
+    BEGIN
+      RETURN abs(trim(_answer)::numeric - trim(_question.correct_answer)::numeric) <= COALESCE(_question.tolerance, 0);
+    EXCEPTION WHEN others THEN
+      RETURN false;
+    END;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Questions of a quiz without the correct answers. When the quiz shuffles options,
+-- each student gets a stable order of their own (it survives reloads).
+CREATE OR REPLACE FUNCTION public.get_quiz_questions(_quiz_id uuid)
+RETURNS TABLE (
+  id uuid,
+  quiz_id uuid,
+  question_text text,
+  question_type text,
+  options jsonb,
+  points numeric,
+  order_number integer
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _batch_id uuid;
+  _shuffle boolean;
+BEGIN
+  SELECT q.batch_id, q.shuffle_options INTO _batch_id, _shuffle FROM public.quizzes q WHERE q.id = _quiz_id;
+  IF _batch_id IS NULL THEN
+    RAISE EXCEPTION 'Quiz not found';
+  END IF;
+
+  IF NOT (
+    has_role(auth.uid(), 'admin') OR has_role(auth.uid(), 'faculty')
+    OR public.is_approved_batch_student(auth.uid(), _batch_id)
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to view this quiz';
+  END IF;
+
+  RETURN QUERY
+    SELECT qq.id, qq.quiz_id, qq.question_text, qq.question_type,
+      CASE
+        WHEN _shuffle AND qq.question_type IN ('mcq', 'multi_select') AND jsonb_typeof(qq.options) = 'array' THEN (
+          SELECT jsonb_agg(o ORDER BY md5(auth.uid()::text || qq.id::text || o))
+          FROM jsonb_array_elements_text(qq.options) o
+        )
+        ELSE qq.options
+      END,
+      qq.points, qq.order_number
+    FROM public.quiz_questions qq
+    WHERE qq.quiz_id = _quiz_id
+    ORDER BY qq.order_number;
+END;
+$$;
@@ -0,0 +1,196 @@
+
+-- Optional time limit per quiz
+ALTER TABLE public.quizzes ADD COLUMN IF NOT EXISTS duration_minutes INTEGER CHECK (duration_minutes > 0);
+
+-- An attempt in progress: server-recorded start time and the student's draft answers.
+-- The row is removed once the attempt is submitted.
+CREATE TABLE public.quiz_attempts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  quiz_id uuid NOT NULL REFERENCES public.quizzes(id) ON DELETE CASCADE,
+  student_id uuid NOT NULL,
+  started_at timestamptz NOT NULL DEFAULT now(),
+  expires_at timestamptz NOT NULL,
+  answers jsonb NOT NULL DEFAULT '{}'::jsonb,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (quiz_id, student_id)
+);
+
+ALTER TABLE public.quiz_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin and faculty can view quiz attempts" ON public.quiz_attempts
+  FOR SELECT TO authenticated
+  USING (has_role(auth.uid(), 'admin') OR has_role(auth.uid(), 'faculty'));
+
+CREATE POLICY "Students can view their own quiz attempts" ON public.quiz_attempts
+  FOR SELECT TO authenticated
+  USING (student_id = auth.uid());
+
+-- Start (or resume) the caller's attempt. The attempt ends when the time limit runs out,
+-- or at the quiz deadline, whichever comes first.
+CREATE OR REPLACE FUNCTION public.start_quiz_attempt(_quiz_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _quiz public.quizzes%ROWTYPE;
+  _attempt public.quiz_attempts%ROWTYPE;
+  _student_id uuid := auth.uid();
+  _deadline timestamptz;
+  _attempts integer;
+BEGIN
+  SELECT * INTO _quiz FROM public.quizzes WHERE id = _quiz_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz not found';
+  END IF;
+
+  IF NOT public.is_approved_batch_student(_student_id, _quiz.batch_id) THEN
+    RAISE EXCEPTION 'You are not enrolled in this quiz''s batch';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext(_quiz_id::text || _student_id::text));
+
+  SELECT * INTO _attempt FROM public.quiz_attempts WHERE quiz_id = _quiz_id AND student_id = _student_id;
+
+  IF NOT FOUND THEN
+    _deadline := public.quiz_deadline_at(_quiz.deadline, _quiz.deadline_time);
+    IF now() > _deadline THEN
+      RAISE EXCEPTION 'The deadline for this quiz has passed';
+    END IF;
+
+    SELECT COUNT(*) INTO _attempts FROM public.quiz_submissions
+    WHERE quiz_id = _quiz_id AND student_id = _student_id;
+    IF _attempts >= _quiz.max_attempts THEN
+      RAISE EXCEPTION 'No attempts left for this quiz';
+    END IF;
+
+    INSERT INTO public.quiz_attempts (quiz_id, student_id, expires_at)
+    VALUES (
+      _quiz_id, _student_id,
+      CASE WHEN _quiz.duration_minutes IS NULL THEN _deadline
+        ELSE LEAST(now() + make_interval(mins => _quiz.duration_minutes), _deadline) END
+    )
+    RETURNING * INTO _attempt;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'started_at', _attempt.started_at,
+    'expires_at', _attempt.expires_at,
+    'answers', _attempt.answers,
+    'updated_at', _attempt.updated_at,
+    'server_now', now()
+  );
+END;
+$$;
+
+-- Save the caller's draft answers while their attempt is still running
+CREATE OR REPLACE FUNCTION public.save_quiz_draft(_quiz_id uuid, _answers jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.quiz_attempts
+  SET answers = COALESCE(_answers, '{}'::jsonb), updated_at = now()
+  WHERE quiz_id = _quiz_id AND student_id = auth.uid()
+    AND now() <= expires_at + interval '30 seconds';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No quiz attempt in progress';
+  END IF;
+END;
+$$;
+
+-- submit_quiz now honours the attempt in progress: within its time (plus 30 seconds for
+-- network latency) the submitted answers count; after that only the last saved draft does.
+CREATE OR REPLACE FUNCTION public.submit_quiz(_quiz_id uuid, _answers jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _quiz public.quizzes%ROWTYPE;
+  _question public.quiz_questions%ROWTYPE;
+  _attempt public.quiz_attempts%ROWTYPE;
+  _student_id uuid := auth.uid();
+  _attempts integer;
+  _submission_id uuid;
+  _answer text;
+  _is_correct boolean;
+  _score numeric := 0;
+  _total numeric := 0;
+  _needs_manual boolean := false;
+BEGIN
+  SELECT * INTO _quiz FROM public.quizzes WHERE id = _quiz_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz not found';
+  END IF;
+
+  IF NOT public.is_approved_batch_student(_student_id, _quiz.batch_id) THEN
+    RAISE EXCEPTION 'You are not enrolled in this quiz''s batch';
+  END IF;
+
+  -- Serialize concurrent submissions from the same student
+  PERFORM pg_advisory_xact_lock(hashtext(_quiz_id::text || _student_id::text));
+
+  SELECT * INTO _attempt FROM public.quiz_attempts WHERE quiz_id = _quiz_id AND student_id = _student_id;
+  IF FOUND THEN
+    IF now() > _attempt.expires_at + interval '30 seconds' THEN
+      _answers := _attempt.answers;
+    END IF;
+  ELSIF _quiz.duration_minutes IS NOT NULL THEN
+    RAISE EXCEPTION 'This quiz is timed; start it before submitting';
+  ELSIF now() > public.quiz_deadline_at(_quiz.deadline, _quiz.deadline_time) THEN
+    RAISE EXCEPTION 'The deadline for this quiz has passed';
+  END IF;
+
+  SELECT COUNT(*) INTO _attempts FROM public.quiz_submissions
+  WHERE quiz_id = _quiz_id AND student_id = _student_id;
+  IF _attempts >= _quiz.max_attempts THEN
+    RAISE EXCEPTION 'No attempts left for this quiz';
+  END IF;
+
+  INSERT INTO public.quiz_submissions (quiz_id, student_id, attempt_number, score, total_points, is_graded)
+  VALUES (_quiz_id, _student_id, _attempts + 1, 0, 0, false)
+  RETURNING id INTO _submission_id;
+
+  FOR _question IN SELECT * FROM public.quiz_questions WHERE quiz_id = _quiz_id ORDER BY order_number LOOP
+    _answer := NULLIF(trim(COALESCE(_answers ->> _question.id::text, '')), '');
+    _total := _total + _question.points;
+    _is_correct := public.grade_quiz_answer(_question, _answer);
+
+    IF _is_correct IS NULL THEN
+      _needs_manual := true;
+    ELSIF _is_correct THEN
+      _score := _score + _question.points;
+    END IF;
+
+    INSERT INTO public.quiz_answers (submission_id, question_id, answer_text, is_correct, points_awarded, graded_at)
+    VALUES (
+      _submission_id, _question.id, _answer, _is_correct,
+      CASE WHEN _is_correct THEN _question.points ELSE 0 END,
+      CASE WHEN _is_correct IS NULL THEN NULL ELSE now() END
+    );
+  END LOOP;
+
+  UPDATE public.quiz_submissions
+  SET score = _score, total_points = _total, is_graded = NOT _needs_manual
+  WHERE id = _submission_id;
+
+  DELETE FROM public.quiz_attempts WHERE quiz_id = _quiz_id AND student_id = _student_id;
+
+  RETURN jsonb_build_object(
+    'submission_id', _submission_id,
+    'attempt_number', _attempts + 1,
+    'score', _score,
+    'total_points', _total,
+    'is_graded', NOT _needs_manual
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.start_quiz_attempt(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.save_quiz_draft(uuid, jsonb) TO authenticated;
@@ -0,0 +1,8 @@
+
+-- Topic on quiz questions (copied from the question bank, or set by hand) for per-topic analytics
+ALTER TABLE public.quiz_questions ADD COLUMN IF NOT EXISTS topic TEXT;
+
+UPDATE public.quiz_questions qq
+SET topic = b.topic
+FROM public.quiz_question_bank b
+WHERE b.id = qq.bank_question_id AND qq.topic IS NULL;
@@ -0,0 +1,154 @@
+-- When a lead was last handed to a BDE; round-robin continues after the most recent one
+ALTER TABLE public.leads ADD COLUMN IF NOT EXISTS assigned_at timestamptz;
+
+UPDATE public.leads SET assigned_at = created_at WHERE assigned_bde_id IS NOT NULL AND assigned_at IS NULL;
+
+CREATE OR REPLACE FUNCTION public.set_lead_assigned_at()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.assigned_bde_id IS NOT NULL
+     AND (TG_OP = 'INSERT' OR NEW.assigned_bde_id IS DISTINCT FROM OLD.assigned_bde_id) THEN
+    NEW.assigned_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_leads_assigned_at BEFORE INSERT OR UPDATE OF assigned_bde_id ON public.leads
+  FOR EACH ROW EXECUTE FUNCTION public.set_lead_assigned_at();
+
+-- BDEs taken out of automatic assignment (e.g. on leave or no longer with the team).
+-- BDEs without a row here receive leads.
+CREATE TABLE public.bde_lead_settings (
+  bde_id uuid PRIMARY KEY,
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.bde_lead_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage BDE lead settings" ON public.bde_lead_settings FOR ALL TO authenticated
+  USING (has_role(auth.uid(), 'admin'))
+  WITH CHECK (has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_bde_lead_settings_updated_at BEFORE UPDATE ON public.bde_lead_settings
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Routes leads from a college or for a course to a specific BDE
+CREATE TABLE public.lead_assignment_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  field text NOT NULL CHECK (field IN ('college_name', 'course_interested')),
+  match_value text NOT NULL CHECK (btrim(match_value) <> ''),
+  bde_id uuid NOT NULL,
+  priority integer NOT NULL DEFAULT 0,
+  created_by uuid,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.lead_assignment_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage lead assignment rules" ON public.lead_assignment_rules FOR ALL TO authenticated
+  USING (has_role(auth.uid(), 'admin'))
+  WITH CHECK (has_role(auth.uid(), 'admin'));
+
+-- BDEs that can receive leads automatically, in a stable order
+CREATE OR REPLACE FUNCTION public.active_bde_ids()
+RETURNS uuid[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(array_agg(ur.user_id ORDER BY ur.user_id), '{}')
+  FROM public.user_roles ur
+  LEFT JOIN public.bde_lead_settings s ON s.bde_id = ur.user_id
+  WHERE ur.role = 'bde' AND COALESCE(s.active, true)
+$$;
+
+-- Assigns the given leads. A matching routing rule wins (highest priority first); otherwise
+-- 'round_robin' rotates through active BDEs and 'least_loaded' picks the BDE with the fewest
+-- open leads. Returns the number of leads assigned.
+CREATE OR REPLACE FUNCTION public.auto_assign_leads(_lead_ids uuid[], _mode text DEFAULT 'round_robin')
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _bdes uuid[];
+  _open integer[];
+  _lead public.leads%ROWTYPE;
+  _target uuid;
+  _cursor integer := 0;
+  _last uuid;
+  _i integer;
+  _best integer;
+  _count integer := 0;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can assign leads';
+  END IF;
+  IF _mode NOT IN ('round_robin', 'least_loaded') THEN
+    RAISE EXCEPTION 'Unknown assignment mode %', _mode;
+  END IF;
+
+  -- One assignment run at a time so concurrent uploads don't share a cursor
+  PERFORM pg_advisory_xact_lock(hashtext('auto_assign_leads'));
+
+  _bdes := public.active_bde_ids();
+  IF array_length(_bdes, 1) IS NULL THEN
+    RAISE EXCEPTION 'No active BDEs to assign leads to';
+  END IF;
+
+  SELECT array_agg(
+    (SELECT COUNT(*) FROM public.leads l
+     WHERE l.assigned_bde_id = b AND l.status NOT IN ('paid', 'not_interested'))::integer
+    ORDER BY ord)
+  INTO _open
+  FROM unnest(_bdes) WITH ORDINALITY AS t(b, ord);
+
+  SELECT assigned_bde_id INTO _last FROM public.leads
+  WHERE assigned_bde_id = ANY(_bdes) AND assigned_at IS NOT NULL
+  ORDER BY assigned_at DESC LIMIT 1;
+  IF _last IS NOT NULL THEN
+    _cursor := array_position(_bdes, _last);
+  END IF;
+
+  FOR _lead IN SELECT * FROM public.leads WHERE id = ANY(_lead_ids) ORDER BY created_at, id LOOP
+    SELECT r.bde_id INTO _target
+    FROM public.lead_assignment_rules r
+    WHERE r.bde_id = ANY(_bdes)
+      AND lower(btrim(r.match_value)) = lower(btrim(
+        CASE r.field WHEN 'college_name' THEN _lead.college_name ELSE _lead.course_interested END))
+    ORDER BY r.priority DESC, r.created_at
+    LIMIT 1;
+
+    IF _target IS NULL THEN
+      IF _mode = 'round_robin' THEN
+        _cursor := _cursor % array_length(_bdes, 1) + 1;
+        _target := _bdes[_cursor];
+      ELSE
+        _best := 1;
+        FOR _i IN 2..array_length(_bdes, 1) LOOP
+          IF _open[_i] < _open[_best] THEN _best := _i; END IF;
+        END LOOP;
+        _target := _bdes[_best];
+      END IF;
+    END IF;
+
+    UPDATE public.leads SET assigned_bde_id = _target WHERE id = _lead.id;
+    _i := array_position(_bdes, _target);
+    _open[_i] := _open[_i] + 1;
+    _count := _count + 1;
+    _target := NULL;
+  END LOOP;
+
+  RETURN _count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.auto_assign_leads(uuid[], text) TO authenticated;
@@ -0,0 +1,77 @@
+-- History of everything that happened to a lead. Creation, status and assignment changes are
+-- recorded by a trigger; calls, WhatsApp contacts and notes are logged by the BDE.
+CREATE TABLE public.lead_activities (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  lead_id uuid NOT NULL REFERENCES public.leads(id) ON DELETE CASCADE,
+  actor_id uuid,
+  activity_type text NOT NULL CHECK (activity_type IN ('created', 'status_change', 'assignment', 'call', 'whatsapp', 'note')),
+  from_status text,
+  to_status text,
+  call_outcome text CHECK (call_outcome IN ('connected', 'no_answer', 'busy', 'switched_off', 'wrong_number', 'call_back')),
+  assigned_bde_id uuid,
+  note text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_lead_activities_lead ON public.lead_activities(lead_id, created_at);
+
+ALTER TABLE public.lead_activities ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage all lead activities" ON public.lead_activities FOR ALL TO authenticated
+  USING (has_role(auth.uid(), 'admin'))
+  WITH CHECK (has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "BDEs can view activities of their leads" ON public.lead_activities FOR SELECT TO authenticated
+  USING (
+    has_role(auth.uid(), 'bde'::app_role)
+    AND EXISTS (
+      SELECT 1 FROM public.leads l
+      WHERE l.id = lead_id AND (l.assigned_bde_id = auth.uid() OR l.created_by = auth.uid())
+    )
+  );
+
+CREATE POLICY "BDEs can log activities on their leads" ON public.lead_activities FOR INSERT TO authenticated
+  WITH CHECK (
+    has_role(auth.uid(), 'bde'::app_role)
+    AND actor_id = auth.uid()
+    AND activity_type IN ('call', 'whatsapp', 'note')
+    AND EXISTS (
+      SELECT 1 FROM public.leads l
+      WHERE l.id = lead_id AND (l.assigned_bde_id = auth.uid() OR l.created_by = auth.uid())
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.log_lead_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.lead_activities (lead_id, actor_id, activity_type, to_status, assigned_bde_id)
+    VALUES (NEW.id, COALESCE(auth.uid(), NEW.created_by), 'created', NEW.status, NEW.assigned_bde_id);
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.lead_activities (lead_id, actor_id, activity_type, from_status, to_status)
+    VALUES (NEW.id, auth.uid(), 'status_change', OLD.status, NEW.status);
+  END IF;
+
+  IF NEW.assigned_bde_id IS DISTINCT FROM OLD.assigned_bde_id THEN
+    INSERT INTO public.lead_activities (lead_id, actor_id, activity_type, assigned_bde_id)
+    VALUES (NEW.id, auth.uid(), 'assignment', NEW.assigned_bde_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_leads_changes AFTER INSERT OR UPDATE OF status, assigned_bde_id ON public.leads
+  FOR EACH ROW EXECUTE FUNCTION public.log_lead_changes();
+
+-- Existing leads start their history at creation; earlier status changes were never recorded
+INSERT INTO public.lead_activities (lead_id, actor_id, activity_type, to_status, assigned_bde_id, note, created_at)
+SELECT id, created_by, 'created', status, assigned_bde_id, 'History before this point was not recorded.', created_at
+FROM public.leads;
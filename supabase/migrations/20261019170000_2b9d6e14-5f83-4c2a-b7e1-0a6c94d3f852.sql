@@ -0,0 +1,115 @@
+-- The registered student a lead turned into
+ALTER TABLE public.leads
+  ADD COLUMN IF NOT EXISTS converted_student_id uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS converted_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_leads_converted_student ON public.leads(converted_student_id);
+
+ALTER TABLE public.lead_activities DROP CONSTRAINT IF EXISTS lead_activities_activity_type_check;
+ALTER TABLE public.lead_activities ADD CONSTRAINT lead_activities_activity_type_check
+  CHECK (activity_type IN ('created', 'status_change', 'assignment', 'call', 'whatsapp', 'note', 'student_linked', 'student_unlinked'));
+
+ALTER TABLE public.lead_activities ADD COLUMN IF NOT EXISTS student_id uuid;
+
+-- Last 10 digits, so "+91 98765-43210" and "9876543210" compare equal
+CREATE OR REPLACE FUNCTION public.normalize_phone(_phone text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT NULLIF(right(regexp_replace(COALESCE(_phone, ''), '\D', '', 'g'), 10), '')
+$$;
+
+-- Link unconverted leads with the same phone or email to a newly registered student
+CREATE OR REPLACE FUNCTION public.link_leads_to_new_student()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _profile public.profiles%ROWTYPE;
+  _lead_id uuid;
+BEGIN
+  SELECT * INTO _profile FROM public.profiles WHERE id = NEW.user_id;
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  FOR _lead_id IN
+    SELECT id FROM public.leads
+    WHERE converted_student_id IS NULL
+      AND (
+        (public.normalize_phone(_profile.phone) IS NOT NULL AND public.normalize_phone(phone) = public.normalize_phone(_profile.phone))
+        OR (NULLIF(btrim(_profile.email), '') IS NOT NULL AND lower(btrim(email)) = lower(btrim(_profile.email)))
+      )
+  LOOP
+    UPDATE public.leads SET converted_student_id = _profile.id, converted_at = now() WHERE id = _lead_id;
+    INSERT INTO public.lead_activities (lead_id, actor_id, activity_type, student_id, note)
+    VALUES (_lead_id, NULL, 'student_linked', _profile.id, 'Matched automatically at signup.');
+  END LOOP;
+  RETURN NEW;
+END;
+$$;
+
+-- handle_new_user creates the profile before the student profile, so the phone is known here
+CREATE TRIGGER link_leads_on_student_created AFTER INSERT ON public.student_profiles
+  FOR EACH ROW EXECUTE FUNCTION public.link_leads_to_new_student();
+
+-- Manually link a lead to a student, or unlink it when no student is given
+CREATE OR REPLACE FUNCTION public.link_lead_to_student(_lead_id uuid, _student_id uuid DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _previous uuid;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can link leads to students';
+  END IF;
+
+  SELECT converted_student_id INTO _previous FROM public.leads WHERE id = _lead_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Lead not found';
+  END IF;
+  IF _student_id IS NOT DISTINCT FROM _previous THEN
+    RETURN;
+  END IF;
+
+  IF _student_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM public.student_profiles WHERE user_id = _student_id) THEN
+    RAISE EXCEPTION 'Student not found';
+  END IF;
+
+  UPDATE public.leads
+  SET converted_student_id = _student_id,
+      converted_at = CASE WHEN _student_id IS NULL THEN NULL ELSE now() END
+  WHERE id = _lead_id;
+
+  INSERT INTO public.lead_activities (lead_id, actor_id, activity_type, student_id)
+  VALUES (_lead_id, auth.uid(), CASE WHEN _student_id IS NULL THEN 'student_unlinked' ELSE 'student_linked' END,
+          COALESCE(_student_id, _previous));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.link_lead_to_student(uuid, uuid) TO authenticated;
+
+-- Match students who registered before leads were linked
+WITH matches AS (
+  SELECT DISTINCT ON (l.id) l.id AS lead_id, p.id AS profile_id
+  FROM public.leads l
+  JOIN public.profiles p
+    ON (public.normalize_phone(p.phone) IS NOT NULL AND public.normalize_phone(l.phone) = public.normalize_phone(p.phone))
+    OR (NULLIF(btrim(p.email), '') IS NOT NULL AND lower(btrim(l.email)) = lower(btrim(p.email)))
+  JOIN public.student_profiles sp ON sp.user_id = p.id
+  WHERE l.converted_student_id IS NULL
+  ORDER BY l.id, p.created_at
+), linked AS (
+  UPDATE public.leads l SET converted_student_id = m.profile_id, converted_at = now()
+  FROM matches m WHERE l.id = m.lead_id
+  RETURNING l.id, l.converted_student_id
+)
+INSERT INTO public.lead_activities (lead_id, activity_type, student_id, note)
+SELECT id, 'student_linked', converted_student_id, 'Matched to an existing student account.' FROM linked;
@@ -0,0 +1,33 @@
+-- Per-BDE conversion figures for the funnel leaderboard. BDEs can only read their own
+-- leads, so the aggregate is computed here and shared with every BDE and admin.
+CREATE OR REPLACE FUNCTION public.get_bde_leaderboard(_from date DEFAULT NULL, _to date DEFAULT NULL)
+RETURNS TABLE (bde_id uuid, full_name text, leads bigint, converted bigint, paid bigint, registered bigint)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (has_role(auth.uid(), 'admin') OR has_role(auth.uid(), 'bde'::app_role)) THEN
+    RAISE EXCEPTION 'Only admins and BDEs can view the leaderboard';
+  END IF;
+
+  RETURN QUERY
+  SELECT ur.user_id,
+         COALESCE(p.full_name, ''),
+         count(l.id),
+         count(l.id) FILTER (WHERE l.status IN ('converted', 'paid')),
+         count(l.id) FILTER (WHERE l.status = 'paid'),
+         count(l.id) FILTER (WHERE l.converted_student_id IS NOT NULL)
+  FROM public.user_roles ur
+  LEFT JOIN public.profiles p ON p.id = ur.user_id
+  LEFT JOIN public.leads l
+    ON COALESCE(l.assigned_bde_id, l.created_by) = ur.user_id
+   AND (_from IS NULL OR l.created_at::date >= _from)
+   AND (_to IS NULL OR l.created_at::date <= _to)
+  WHERE ur.role = 'bde'::app_role
+  GROUP BY ur.user_id, p.full_name;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_bde_leaderboard(date, date) TO authenticated;
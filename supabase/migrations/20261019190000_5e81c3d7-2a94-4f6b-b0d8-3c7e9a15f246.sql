@@ -0,0 +1,144 @@
+-- Fee owed by a lead or enrolled student, split into installments. payer_name is kept so
+-- receipts stay readable if the lead or profile is removed later.
+CREATE TABLE public.payment_plans (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  lead_id uuid REFERENCES public.leads(id) ON DELETE SET NULL,
+  student_id uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  payer_name text NOT NULL,
+  title text NOT NULL,
+  total_amount numeric(12, 2) NOT NULL CHECK (total_amount > 0),
+  notes text,
+  created_by uuid,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_payment_plans_lead ON public.payment_plans(lead_id);
+CREATE INDEX idx_payment_plans_student ON public.payment_plans(student_id);
+
+CREATE TABLE public.payment_installments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  plan_id uuid NOT NULL REFERENCES public.payment_plans(id) ON DELETE CASCADE,
+  installment_number integer NOT NULL CHECK (installment_number > 0),
+  amount numeric(12, 2) NOT NULL CHECK (amount > 0),
+  due_date date NOT NULL,
+  UNIQUE (plan_id, installment_number)
+);
+
+-- Plans that have received money cannot be deleted
+CREATE TABLE public.payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  plan_id uuid NOT NULL REFERENCES public.payment_plans(id) ON DELETE RESTRICT,
+  receipt_number text NOT NULL UNIQUE,
+  amount numeric(12, 2) NOT NULL CHECK (amount > 0),
+  mode text NOT NULL CHECK (mode IN ('cash', 'upi', 'bank_transfer', 'card', 'cheque')),
+  reference_number text,
+  paid_on date NOT NULL DEFAULT CURRENT_DATE,
+  notes text,
+  recorded_by uuid,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_payments_plan ON public.payments(plan_id, paid_on);
+
+ALTER TABLE public.payment_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.payment_installments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.payments ENABLE ROW LEVEL SECURITY;
+
+-- Whether the current user is the BDE working the plan's lead
+CREATE OR REPLACE FUNCTION public.is_payment_plan_bde(_plan_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT has_role(auth.uid(), 'bde'::app_role) AND EXISTS (
+    SELECT 1 FROM public.payment_plans pp
+    JOIN public.leads l ON l.id = pp.lead_id
+    WHERE pp.id = _plan_id AND (l.assigned_bde_id = auth.uid() OR l.created_by = auth.uid())
+  )
+$$;
+
+CREATE POLICY "Admins can manage payment plans" ON public.payment_plans FOR ALL TO authenticated
+  USING (has_role(auth.uid(), 'admin'))
+  WITH CHECK (has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "BDEs can view plans of their leads" ON public.payment_plans FOR SELECT TO authenticated
+  USING (public.is_payment_plan_bde(id));
+
+CREATE POLICY "BDEs can create plans for their leads" ON public.payment_plans FOR INSERT TO authenticated
+  WITH CHECK (
+    has_role(auth.uid(), 'bde'::app_role)
+    AND created_by = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM public.leads l
+      WHERE l.id = lead_id AND (l.assigned_bde_id = auth.uid() OR l.created_by = auth.uid())
+    )
+  );
+
+CREATE POLICY "Students can view their own plans" ON public.payment_plans FOR SELECT TO authenticated
+  USING (student_id = auth.uid());
+
+CREATE POLICY "Admins can manage installments" ON public.payment_installments FOR ALL TO authenticated
+  USING (has_role(auth.uid(), 'admin'))
+  WITH CHECK (has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "BDEs can manage installments of their plans" ON public.payment_installments FOR ALL TO authenticated
+  USING (public.is_payment_plan_bde(plan_id))
+  WITH CHECK (public.is_payment_plan_bde(plan_id));
+
+CREATE POLICY "Students can view their own installments" ON public.payment_installments FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.payment_plans pp WHERE pp.id = plan_id AND pp.student_id = auth.uid()));
+
+CREATE POLICY "Admins can manage payments" ON public.payments FOR ALL TO authenticated
+  USING (has_role(auth.uid(), 'admin'))
+  WITH CHECK (has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "BDEs can view payments of their plans" ON public.payments FOR SELECT TO authenticated
+  USING (public.is_payment_plan_bde(plan_id));
+
+CREATE POLICY "BDEs can record payments on their plans" ON public.payments FOR INSERT TO authenticated
+  WITH CHECK (public.is_payment_plan_bde(plan_id) AND recorded_by = auth.uid());
+
+CREATE POLICY "Students can view their own payments" ON public.payments FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.payment_plans pp WHERE pp.id = plan_id AND pp.student_id = auth.uid()));
+
+CREATE TRIGGER update_payment_plans_updated_at BEFORE UPDATE ON public.payment_plans
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Sequential receipt numbers, e.g. RCPT-2026-00042
+CREATE SEQUENCE public.payment_receipt_seq;
+
+CREATE OR REPLACE FUNCTION public.set_payment_receipt_number()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.receipt_number := 'RCPT-' || to_char(NEW.paid_on, 'YYYY') || '-' || lpad(nextval('public.payment_receipt_seq')::text, 5, '0');
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_payments_receipt_number BEFORE INSERT ON public.payments
+  FOR EACH ROW EXECUTE FUNCTION public.set_payment_receipt_number();
+
+-- The first payment on a lead's plan moves the lead to "paid"
+CREATE OR REPLACE FUNCTION public.mark_lead_paid()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.leads l SET status = 'paid'
+  FROM public.payment_plans pp
+  WHERE pp.id = NEW.plan_id AND l.id = pp.lead_id AND l.status <> 'paid';
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER mark_lead_paid_on_payment AFTER INSERT ON public.payments
+  FOR EACH ROW EXECUTE FUNCTION public.mark_lead_paid();
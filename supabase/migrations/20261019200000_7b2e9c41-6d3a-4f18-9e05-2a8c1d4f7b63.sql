@@ -0,0 +1,39 @@
+-- Structured events per batch. Assignment and quiz deadlines are read from their own tables;
+-- the PDF calendars stay available as attachments.
+CREATE TABLE public.calendar_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  batch_id uuid NOT NULL REFERENCES public.batches(id) ON DELETE CASCADE,
+  title text NOT NULL,
+  description text,
+  event_type text NOT NULL DEFAULT 'session' CHECK (event_type IN ('session', 'holiday', 'review', 'other')),
+  starts_at timestamptz NOT NULL,
+  ends_at timestamptz NOT NULL,
+  all_day boolean NOT NULL DEFAULT false,
+  location text,
+  -- Weekly events repeat on recurrence_days (0 = Sunday); without an end date they repeat indefinitely
+  recurrence text NOT NULL DEFAULT 'none' CHECK (recurrence IN ('none', 'daily', 'weekly')),
+  recurrence_days smallint[] NOT NULL DEFAULT '{}',
+  recurrence_until date,
+  created_by uuid NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (ends_at >= starts_at)
+);
+
+CREATE INDEX idx_calendar_events_batch ON public.calendar_events(batch_id, starts_at);
+
+ALTER TABLE public.calendar_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin and faculty can manage calendar events" ON public.calendar_events
+FOR ALL USING (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'faculty'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'faculty'::app_role));
+
+CREATE POLICY "Students can view calendar events for their batch" ON public.calendar_events
+FOR SELECT USING (
+  has_role(auth.uid(), 'student'::app_role) AND
+  batch_id IN (SELECT batch_id FROM student_profiles WHERE user_id = auth.uid())
+);
+
+CREATE TRIGGER update_calendar_events_updated_at
+BEFORE UPDATE ON public.calendar_events
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,22 @@
+-- Private iCalendar feed per user. Only the SHA-256 hash of the token is kept, so the feed URL
+-- is shown once when generated; regenerating replaces the hash and revokes the old URL.
+CREATE TABLE public.calendar_feed_tokens (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  token_hash text NOT NULL UNIQUE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  last_accessed_at timestamptz
+);
+
+ALTER TABLE public.calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own feed token" ON public.calendar_feed_tokens
+FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own feed token" ON public.calendar_feed_tokens
+FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can replace their own feed token" ON public.calendar_feed_tokens
+FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can revoke their own feed token" ON public.calendar_feed_tokens
+FOR DELETE USING (auth.uid() = user_id);
@@ -0,0 +1,58 @@
+-- Minimum attendance a student needs in a batch to stay eligible (certificate, reviews)
+ALTER TABLE public.batches
+ADD COLUMN min_attendance_percent smallint NOT NULL DEFAULT 75
+CHECK (min_attendance_percent BETWEEN 0 AND 100);
+
+-- One attendance sheet per batch session. Sheets opened from a calendar event are keyed by the
+-- event and the occurrence date; unscheduled sessions have no event.
+CREATE TABLE public.attendance_sessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  batch_id uuid NOT NULL REFERENCES public.batches(id) ON DELETE CASCADE,
+  event_id uuid REFERENCES public.calendar_events(id) ON DELETE SET NULL,
+  session_date date NOT NULL,
+  title text NOT NULL,
+  starts_at timestamptz,
+  created_by uuid NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_attendance_sessions_occurrence ON public.attendance_sessions(event_id, session_date) WHERE event_id IS NOT NULL;
+CREATE INDEX idx_attendance_sessions_batch ON public.attendance_sessions(batch_id, session_date);
+
+CREATE TABLE public.attendance_records (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id uuid NOT NULL REFERENCES public.attendance_sessions(id) ON DELETE CASCADE,
+  student_id uuid NOT NULL,
+  status text NOT NULL CHECK (status IN ('present', 'absent', 'late', 'excused')),
+  note text,
+  marked_by uuid,
+  marked_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (session_id, student_id)
+);
+
+CREATE INDEX idx_attendance_records_student ON public.attendance_records(student_id);
+
+ALTER TABLE public.attendance_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.attendance_records ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin and faculty can manage attendance sessions" ON public.attendance_sessions
+FOR ALL USING (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'faculty'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'faculty'::app_role));
+
+CREATE POLICY "Students can view attendance sessions for their batch" ON public.attendance_sessions
+FOR SELECT USING (
+  has_role(auth.uid(), 'student'::app_role) AND
+  batch_id IN (SELECT batch_id FROM student_profiles WHERE user_id = auth.uid())
+);
+
+CREATE POLICY "Admin and faculty can manage attendance records" ON public.attendance_records
+FOR ALL USING (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'faculty'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'faculty'::app_role));
+
+CREATE POLICY "Students can view their own attendance" ON public.attendance_records
+FOR SELECT USING (auth.uid() = student_id);
+
+CREATE TRIGGER update_attendance_sessions_updated_at
+BEFORE UPDATE ON public.attendance_sessions
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,93 @@
+-- Rotating QR check-in codes for attendance sessions. Faculty screens request a fresh code every
+-- few seconds; each code is accepted only for a short window after it was issued.
+CREATE TABLE public.attendance_checkin_codes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id uuid NOT NULL REFERENCES public.attendance_sessions(id) ON DELETE CASCADE,
+  code text NOT NULL UNIQUE,
+  created_by uuid NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  expires_at timestamptz NOT NULL
+);
+
+CREATE INDEX idx_attendance_checkin_codes_session ON public.attendance_checkin_codes(session_id, expires_at);
+
+-- RLS on with no policies: codes are only issued and redeemed through the functions below
+ALTER TABLE public.attendance_checkin_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.issue_attendance_checkin_code(_session_id uuid)
+RETURNS TABLE (code text, expires_at timestamptz)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _code text;
+  _expires timestamptz := now() + interval '45 seconds';
+BEGIN
+  IF NOT (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'faculty'::app_role)) THEN
+    RAISE EXCEPTION 'Only faculty can start a check-in';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM attendance_sessions WHERE id = _session_id) THEN
+    RAISE EXCEPTION 'Attendance session not found';
+  END IF;
+
+  DELETE FROM attendance_checkin_codes c WHERE c.expires_at < now() - interval '1 hour';
+
+  _code := upper(substr(replace(gen_random_uuid()::text, '-', ''), 1, 8));
+  INSERT INTO attendance_checkin_codes (session_id, code, created_by, expires_at)
+  VALUES (_session_id, _code, auth.uid(), _expires);
+
+  RETURN QUERY SELECT _code, _expires;
+END;
+$$;
+
+-- Marks the calling student present (or late, 15 minutes after the session start).
+-- A mark already made by faculty is kept unless it was "absent".
+CREATE OR REPLACE FUNCTION public.check_in_attendance(_code text)
+RETURNS TABLE (session_title text, session_date date, status text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _checkin attendance_checkin_codes%ROWTYPE;
+  _session attendance_sessions%ROWTYPE;
+  _status text;
+BEGIN
+  IF NOT has_role(auth.uid(), 'student'::app_role) THEN
+    RAISE EXCEPTION 'Only students can check in';
+  END IF;
+
+  SELECT * INTO _checkin FROM attendance_checkin_codes c WHERE c.code = upper(trim(_code));
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invalid check-in code';
+  END IF;
+  IF _checkin.expires_at < now() THEN
+    RAISE EXCEPTION 'This code has expired. Scan the code currently on screen.';
+  END IF;
+
+  SELECT * INTO _session FROM attendance_sessions s WHERE s.id = _checkin.session_id;
+  IF NOT EXISTS (
+    SELECT 1 FROM student_profiles sp
+    WHERE sp.user_id = auth.uid() AND sp.status = 'approved' AND sp.batch_id = _session.batch_id
+  ) THEN
+    RAISE EXCEPTION 'You are not enrolled in the batch for this session';
+  END IF;
+
+  _status := CASE
+    WHEN _session.starts_at IS NOT NULL AND now() > _session.starts_at + interval '15 minutes' THEN 'late'
+    ELSE 'present'
+  END;
+
+  INSERT INTO attendance_records (session_id, student_id, status, note, marked_by, marked_at)
+  VALUES (_session.id, auth.uid(), _status, 'QR check-in', auth.uid(), now())
+  ON CONFLICT (session_id, student_id) DO UPDATE
+  SET status = EXCLUDED.status, note = EXCLUDED.note, marked_by = EXCLUDED.marked_by, marked_at = EXCLUDED.marked_at
+  WHERE attendance_records.status = 'absent';
+
+  RETURN QUERY
+  SELECT _session.title, _session.session_date, r.status
+  FROM attendance_records r
+  WHERE r.session_id = _session.id AND r.student_id = auth.uid();
+END;
+$$;
@@ -0,0 +1,101 @@
+-- Leave policies: per-type quotas for students (per batch, with an all-students default) and for faculty.
+-- A missing policy or an empty quota means unlimited, which keeps the previous behaviour.
+CREATE TABLE public.leave_policies (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  audience text NOT NULL CHECK (audience IN ('student', 'faculty')),
+  batch_id uuid REFERENCES public.batches(id) ON DELETE CASCADE,
+  sick_quota smallint CHECK (sick_quota >= 0),
+  casual_quota smallint CHECK (casual_quota >= 0),
+  enforcement text NOT NULL DEFAULT 'warn' CHECK (enforcement IN ('warn', 'block')),
+  period text NOT NULL DEFAULT 'total' CHECK (period IN ('total', 'year')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (audience = 'student' OR batch_id IS NULL)
+);
+
+-- One policy per batch, plus one default per audience
+CREATE UNIQUE INDEX idx_leave_policies_scope
+  ON public.leave_policies(audience, COALESCE(batch_id, '00000000-0000-0000-0000-000000000000'::uuid));
+
+ALTER TABLE public.leave_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view leave policies" ON public.leave_policies
+FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admins can manage leave policies" ON public.leave_policies
+FOR ALL USING (has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_leave_policies_updated_at
+BEFORE UPDATE ON public.leave_policies
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Faculty get the faculty policy; students get their batch policy, falling back to the student default
+CREATE OR REPLACE FUNCTION public.leave_policy_for(_user_id uuid)
+RETURNS public.leave_policies
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.*
+  FROM leave_policies p
+  WHERE CASE
+    WHEN has_role(_user_id, 'faculty'::app_role) THEN p.audience = 'faculty'
+    ELSE p.audience = 'student' AND (
+      p.batch_id IS NULL
+      OR p.batch_id = (SELECT sp.batch_id FROM student_profiles sp WHERE sp.user_id = _user_id)
+    )
+  END
+  ORDER BY p.batch_id IS NULL
+  LIMIT 1
+$$;
+
+-- Blocking policies are enforced here: new requests count against pending and approved leave,
+-- approvals count against approved leave only. Warn-only policies are left to the UI.
+CREATE OR REPLACE FUNCTION public.enforce_leave_quota()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _policy leave_policies%ROWTYPE;
+  _quota smallint;
+  _used bigint;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NOT (NEW.status = 'approved' AND OLD.status IS DISTINCT FROM 'approved') THEN
+    RETURN NEW;
+  END IF;
+  IF NEW.status = 'rejected' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _policy FROM leave_policy_for(NEW.user_id);
+  IF _policy.id IS NULL OR _policy.enforcement <> 'block' THEN
+    RETURN NEW;
+  END IF;
+
+  _quota := CASE NEW.leave_type WHEN 'sick' THEN _policy.sick_quota ELSE _policy.casual_quota END;
+  IF _quota IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT count(*) INTO _used
+  FROM leave_requests l
+  WHERE l.user_id = NEW.user_id
+    AND l.leave_type = NEW.leave_type
+    AND l.id <> NEW.id
+    AND CASE WHEN TG_OP = 'INSERT' THEN l.status IN ('pending', 'approved') ELSE l.status = 'approved' END
+    AND (_policy.period = 'total' OR date_trunc('year', l.leave_date) = date_trunc('year', NEW.leave_date));
+
+  IF _used + 1 > _quota THEN
+    RAISE EXCEPTION '% leave quota exceeded: % of % day(s) already used or requested', initcap(NEW.leave_type::text), _used, _quota;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_leave_quota
+BEFORE INSERT OR UPDATE OF status ON public.leave_requests
+FOR EACH ROW EXECUTE FUNCTION public.enforce_leave_quota();
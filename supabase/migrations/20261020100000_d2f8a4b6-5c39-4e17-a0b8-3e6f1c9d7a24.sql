@@ -0,0 +1,145 @@
+-- Leave requests cover a date range (leave_date is the first day) or a half day.
+-- days holds the working days taken, skipping weekends and batch calendar holidays.
+ALTER TABLE public.leave_requests
+  ADD COLUMN end_date date,
+  ADD COLUMN half_day text CHECK (half_day IN ('first_half', 'second_half')),
+  ADD COLUMN days numeric(5,1) NOT NULL DEFAULT 1,
+  ADD COLUMN attachment_path text;
+
+UPDATE public.leave_requests SET end_date = leave_date;
+
+ALTER TABLE public.leave_requests
+  ALTER COLUMN end_date SET NOT NULL,
+  ADD CONSTRAINT leave_requests_date_range CHECK (end_date >= leave_date),
+  ADD CONSTRAINT leave_requests_half_day_single CHECK (half_day IS NULL OR end_date = leave_date);
+
+CREATE INDEX idx_leave_requests_range ON public.leave_requests(leave_date, end_date);
+
+-- Holidays from the calendars of the user's batch (students) or assigned batches (faculty).
+-- Dates are taken in the institute's timezone, matching the calendar feed.
+CREATE OR REPLACE FUNCTION public.leave_holidays(_user_id uuid, _start date, _end date)
+RETURNS SETOF date
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT DISTINCT d::date
+  FROM generate_series(_start, _end, interval '1 day') d
+  JOIN calendar_events e ON e.event_type = 'holiday' AND e.batch_id IN (
+    SELECT sp.batch_id FROM student_profiles sp WHERE sp.user_id = _user_id
+    UNION
+    SELECT b.id FROM batches b WHERE b.assigned_faculty_id = _user_id
+  )
+  WHERE CASE e.recurrence
+    WHEN 'none' THEN
+      d::date BETWEEN (e.starts_at AT TIME ZONE 'Asia/Kolkata')::date
+        AND ((e.ends_at AT TIME ZONE 'Asia/Kolkata') - CASE WHEN e.all_day THEN interval '1 day' ELSE interval '0' END)::date
+    ELSE
+      d::date >= (e.starts_at AT TIME ZONE 'Asia/Kolkata')::date
+      AND (e.recurrence_until IS NULL OR d::date <= e.recurrence_until)
+      AND (e.recurrence = 'daily' OR extract(dow FROM d)::smallint = ANY (
+        CASE WHEN cardinality(e.recurrence_days) > 0 THEN e.recurrence_days
+        ELSE ARRAY[extract(dow FROM e.starts_at AT TIME ZONE 'Asia/Kolkata')::smallint] END
+      ))
+  END
+$$;
+
+CREATE OR REPLACE FUNCTION public.leave_working_days(_user_id uuid, _start date, _end date, _half_day text DEFAULT NULL)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT count(*) * CASE WHEN _half_day IS NULL THEN 1 ELSE 0.5 END
+  FROM generate_series(_start, _end, interval '1 day') d
+  WHERE extract(isodow FROM d) < 6
+    AND d::date NOT IN (SELECT leave_holidays(_user_id, _start, _end))
+$$;
+
+-- Runs before enforce_leave_quota (triggers fire in name order), so the quota sees the day count
+CREATE OR REPLACE FUNCTION public.compute_leave_days()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.end_date := COALESCE(NEW.end_date, NEW.leave_date);
+  NEW.days := leave_working_days(NEW.user_id, NEW.leave_date, NEW.end_date, NEW.half_day);
+  IF NEW.days = 0 THEN
+    RAISE EXCEPTION 'The selected dates fall on weekends or holidays only';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER compute_leave_days
+BEFORE INSERT OR UPDATE OF leave_date, end_date, half_day ON public.leave_requests
+FOR EACH ROW EXECUTE FUNCTION public.compute_leave_days();
+
+-- Quotas are now counted in working days rather than requests
+CREATE OR REPLACE FUNCTION public.enforce_leave_quota()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _policy leave_policies%ROWTYPE;
+  _quota smallint;
+  _used numeric;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NOT (NEW.status = 'approved' AND OLD.status IS DISTINCT FROM 'approved') THEN
+    RETURN NEW;
+  END IF;
+  IF NEW.status = 'rejected' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _policy FROM leave_policy_for(NEW.user_id);
+  IF _policy.id IS NULL OR _policy.enforcement <> 'block' THEN
+    RETURN NEW;
+  END IF;
+
+  _quota := CASE NEW.leave_type WHEN 'sick' THEN _policy.sick_quota ELSE _policy.casual_quota END;
+  IF _quota IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(sum(l.days), 0) INTO _used
+  FROM leave_requests l
+  WHERE l.user_id = NEW.user_id
+    AND l.leave_type = NEW.leave_type
+    AND l.id <> NEW.id
+    AND CASE WHEN TG_OP = 'INSERT' THEN l.status IN ('pending', 'approved') ELSE l.status = 'approved' END
+    AND (_policy.period = 'total' OR date_trunc('year', l.leave_date) = date_trunc('year', NEW.leave_date));
+
+  IF _used + NEW.days > _quota THEN
+    RAISE EXCEPTION '% leave quota exceeded: % of % day(s) already used or requested', initcap(NEW.leave_type::text), _used, _quota;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Medical certificates and other proof, stored under the uploader's user id
+INSERT INTO storage.buckets (id, name, public) VALUES ('leave-attachments', 'leave-attachments', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users upload own leave attachments" ON storage.objects
+  FOR INSERT TO authenticated
+  WITH CHECK (bucket_id = 'leave-attachments' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users read own leave attachments" ON storage.objects
+  FOR SELECT TO authenticated
+  USING (bucket_id = 'leave-attachments' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Admin/faculty read leave attachments" ON storage.objects
+  FOR SELECT TO authenticated
+  USING (bucket_id = 'leave-attachments' AND (has_role(auth.uid(),'admin'::app_role) OR has_role(auth.uid(),'faculty'::app_role)));
+
+CREATE POLICY "Admin manage leave attachments" ON storage.objects
+  FOR ALL TO authenticated
+  USING (bucket_id = 'leave-attachments' AND has_role(auth.uid(),'admin'::app_role))
+  WITH CHECK (bucket_id = 'leave-attachments' AND has_role(auth.uid(),'admin'::app_role));
@@ -0,0 +1,202 @@
+-- In-app notifications, delivered to the bell menu over Supabase realtime.
+-- Rows are written only by the triggers below, so every screen that changes the source rows
+-- (approvals, leave decisions, grading, ...) produces the same notifications.
+CREATE TABLE public.notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  type text NOT NULL,
+  title text NOT NULL,
+  body text,
+  -- In-app route to open, e.g. /leaves
+  link text,
+  read_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_notifications_user ON public.notifications(user_id, created_at DESC);
+CREATE INDEX idx_notifications_unread ON public.notifications(user_id) WHERE read_at IS NULL;
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notifications" ON public.notifications
+FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can mark their own notifications read" ON public.notifications
+FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own notifications" ON public.notifications
+FOR DELETE USING (auth.uid() = user_id);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+
+CREATE OR REPLACE FUNCTION public.notify_user(_user_id uuid, _type text, _title text, _body text, _link text)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO notifications (user_id, type, title, body, link)
+  VALUES (_user_id, _type, _title, _body, _link);
+$$;
+
+-- Every approved student in the batch
+CREATE OR REPLACE FUNCTION public.notify_batch(_batch_id uuid, _type text, _title text, _body text, _link text)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO notifications (user_id, type, title, body, link)
+  SELECT sp.user_id, _type, _title, _body, _link
+  FROM student_profiles sp
+  WHERE sp.batch_id = _batch_id AND sp.status = 'approved';
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.notify_user(uuid, text, text, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.notify_batch(uuid, text, text, text, text) FROM PUBLIC, anon, authenticated;
+
+-- Leave approved or rejected
+CREATE OR REPLACE FUNCTION public.notify_leave_decision()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IN ('approved', 'rejected') AND OLD.status IS DISTINCT FROM NEW.status THEN
+    PERFORM notify_user(
+      NEW.user_id,
+      'leave_' || NEW.status,
+      'Leave request ' || NEW.status,
+      initcap(NEW.leave_type::text) || ' leave from ' || to_char(NEW.leave_date, 'Mon DD')
+        || CASE WHEN NEW.end_date > NEW.leave_date THEN ' to ' || to_char(NEW.end_date, 'Mon DD') ELSE '' END
+        || ' was ' || NEW.status || '.',
+      CASE WHEN has_role(NEW.user_id, 'faculty'::app_role) THEN '/faculty-leaves' ELSE '/leaves' END
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_leave_decision
+AFTER UPDATE OF status ON public.leave_requests
+FOR EACH ROW EXECUTE FUNCTION public.notify_leave_decision();
+
+-- Query resolved
+CREATE OR REPLACE FUNCTION public.notify_query_resolved()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.is_resolved AND NOT COALESCE(OLD.is_resolved, false) THEN
+    PERFORM notify_user(
+      NEW.user_id,
+      'query_resolved',
+      'Query resolved: ' || NEW.title,
+      COALESCE(NEW.resolution_comment, 'The admin team has resolved your query.'),
+      '/queries'
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_query_resolved
+AFTER UPDATE OF is_resolved ON public.admin_queries
+FOR EACH ROW EXECUTE FUNCTION public.notify_query_resolved();
+
+-- Assignment graded or regraded
+CREATE OR REPLACE FUNCTION public.notify_assignment_graded()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _title text;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.grade_attained = OLD.grade_attained AND NEW.total_grade = OLD.total_grade THEN
+    RETURN NEW;
+  END IF;
+  SELECT a.title INTO _title FROM assignments a WHERE a.id = NEW.assignment_id;
+  PERFORM notify_user(
+    NEW.student_id,
+    'assignment_graded',
+    CASE WHEN TG_OP = 'INSERT' THEN 'Assignment graded: ' ELSE 'Grade updated: ' END || COALESCE(_title, 'assignment'),
+    'You scored ' || NEW.grade_attained || ' / ' || NEW.total_grade || '.',
+    '/assignments'
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_assignment_graded
+AFTER INSERT OR UPDATE OF grade_attained, total_grade ON public.assignment_grades
+FOR EACH ROW EXECUTE FUNCTION public.notify_assignment_graded();
+
+-- New assignments, quizzes and resources for a batch
+CREATE OR REPLACE FUNCTION public.notify_batch_content()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  CASE TG_TABLE_NAME
+    WHEN 'assignments' THEN
+      PERFORM notify_batch(NEW.batch_id, 'assignment_posted', 'New assignment: ' || NEW.title,
+        'Due ' || to_char(NEW.deadline, 'Mon DD, YYYY') || '.', '/assignments');
+    WHEN 'quizzes' THEN
+      PERFORM notify_batch(NEW.batch_id, 'quiz_posted', 'New quiz: ' || NEW.title,
+        'Due ' || to_char(NEW.deadline, 'Mon DD, YYYY') || '.', '/quizzes');
+    WHEN 'resources' THEN
+      PERFORM notify_batch(NEW.batch_id, 'resource_posted', 'New resource: ' || NEW.title,
+        'Added to module ' || NEW.module_number || '.', '/resources');
+  END CASE;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_assignment_posted
+AFTER INSERT ON public.assignments
+FOR EACH ROW EXECUTE FUNCTION public.notify_batch_content();
+
+CREATE TRIGGER notify_quiz_posted
+AFTER INSERT ON public.quizzes
+FOR EACH ROW EXECUTE FUNCTION public.notify_batch_content();
+
+CREATE TRIGGER notify_resource_posted
+AFTER INSERT ON public.resources
+FOR EACH ROW EXECUTE FUNCTION public.notify_batch_content();
+
+-- Signup approved or rejected (students and team members)
+CREATE OR REPLACE FUNCTION public.notify_signup_decision()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status::text IN ('approved', 'rejected') AND OLD.status IS DISTINCT FROM NEW.status THEN
+    PERFORM notify_user(
+      NEW.user_id,
+      'signup_' || NEW.status::text,
+      CASE WHEN NEW.status::text = 'approved' THEN 'Your account has been approved' ELSE 'Your registration was not approved' END,
+      CASE WHEN NEW.status::text = 'approved' THEN 'Welcome to FEST Interns! All features are now available.'
+        ELSE 'Please contact the admin team if you think this is a mistake.' END,
+      '/dashboard'
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_student_signup_decision
+AFTER UPDATE OF status ON public.student_profiles
+FOR EACH ROW EXECUTE FUNCTION public.notify_signup_decision();
+
+CREATE TRIGGER notify_team_signup_decision
+AFTER UPDATE OF status ON public.team_profiles
+FOR EACH ROW EXECUTE FUNCTION public.notify_signup_decision();
@@ -0,0 +1,209 @@
+-- Email outbox. Triggers enqueue templated messages; the process-email-outbox edge function
+-- renders and sends them over SMTP, retrying failures with exponential backoff.
+CREATE TABLE public.email_preferences (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  leave_decisions boolean NOT NULL DEFAULT true,
+  new_assignments boolean NOT NULL DEFAULT true,
+  deadline_reminders boolean NOT NULL DEFAULT true,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.email_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their email preferences" ON public.email_preferences
+FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their email preferences" ON public.email_preferences
+FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their email preferences" ON public.email_preferences
+FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_email_preferences_updated_at
+BEFORE UPDATE ON public.email_preferences
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE public.email_outbox (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  to_email text NOT NULL,
+  -- Template key understood by supabase/functions/_shared/emailTemplates.ts
+  template text NOT NULL,
+  data jsonb NOT NULL DEFAULT '{}'::jsonb,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'failed')),
+  attempts integer NOT NULL DEFAULT 0,
+  next_attempt_at timestamptz NOT NULL DEFAULT now(),
+  last_error text,
+  -- Stops the same event from being emailed twice (e.g. one reminder per deadline per student)
+  dedupe_key text UNIQUE,
+  sent_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_email_outbox_due ON public.email_outbox(next_attempt_at) WHERE status IN ('pending', 'sending');
+
+ALTER TABLE public.email_outbox ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view the email outbox" ON public.email_outbox
+FOR SELECT USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Queues a message unless the user has opted out of its category. Account emails are always sent.
+CREATE OR REPLACE FUNCTION public.enqueue_email(_user_id uuid, _template text, _data jsonb, _dedupe_key text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _allowed boolean;
+  _email text;
+BEGIN
+  SELECT CASE _template
+    WHEN 'leave_decided' THEN p.leave_decisions
+    WHEN 'assignment_posted' THEN p.new_assignments
+    WHEN 'deadline_tomorrow' THEN p.deadline_reminders
+    ELSE true
+  END INTO _allowed
+  FROM email_preferences p WHERE p.user_id = _user_id;
+  IF _allowed IS FALSE THEN
+    RETURN;
+  END IF;
+
+  SELECT pr.email INTO _email FROM profiles pr WHERE pr.id = _user_id;
+  IF _email IS NULL OR _email = '' THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO email_outbox (user_id, to_email, template, data, dedupe_key)
+  VALUES (_user_id, _email, _template, _data, _dedupe_key)
+  ON CONFLICT (dedupe_key) DO NOTHING;
+END;
+$$;
+
+-- Hands out due messages to one sender at a time. Rows stuck in "sending" (a crashed run) are retried.
+CREATE OR REPLACE FUNCTION public.claim_email_outbox(_limit integer DEFAULT 25)
+RETURNS SETOF public.email_outbox
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE email_outbox o
+  SET status = 'sending', attempts = o.attempts + 1, next_attempt_at = now() + interval '10 minutes'
+  WHERE o.id IN (
+    SELECT id FROM email_outbox
+    WHERE status IN ('pending', 'sending') AND next_attempt_at <= now()
+    ORDER BY next_attempt_at
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING o.*;
+$$;
+
+-- Deadlines falling tomorrow (institute time) for students who haven't submitted yet
+CREATE OR REPLACE FUNCTION public.enqueue_deadline_emails()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _tomorrow date := (now() AT TIME ZONE 'Asia/Kolkata')::date + 1;
+BEGIN
+  PERFORM enqueue_email(
+    sp.user_id,
+    'deadline_tomorrow',
+    jsonb_build_object('kind', 'assignment', 'title', a.title, 'deadline', a.deadline, 'deadline_time', a.deadline_time),
+    'deadline_tomorrow:assignment:' || a.id || ':' || sp.user_id
+  )
+  FROM assignments a
+  JOIN student_profiles sp ON sp.batch_id = a.batch_id AND sp.status = 'approved'
+  WHERE a.deadline = _tomorrow
+    AND NOT EXISTS (SELECT 1 FROM assignment_submissions s WHERE s.assignment_id = a.id AND s.student_id = sp.user_id);
+
+  PERFORM enqueue_email(
+    sp.user_id,
+    'deadline_tomorrow',
+    jsonb_build_object('kind', 'quiz', 'title', q.title, 'deadline', q.deadline, 'deadline_time', q.deadline_time),
+    'deadline_tomorrow:quiz:' || q.id || ':' || sp.user_id
+  )
+  FROM quizzes q
+  JOIN student_profiles sp ON sp.batch_id = q.batch_id AND sp.status = 'approved'
+  WHERE q.deadline = _tomorrow
+    AND NOT EXISTS (SELECT 1 FROM quiz_submissions s WHERE s.quiz_id = q.id AND s.student_id = sp.user_id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.enqueue_email(uuid, text, jsonb, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.claim_email_outbox(integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.enqueue_deadline_emails() FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.email_signup_approved()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status::text = 'approved' AND OLD.status IS DISTINCT FROM NEW.status THEN
+    PERFORM enqueue_email(NEW.user_id, 'signup_approved', '{}'::jsonb, 'signup_approved:' || NEW.user_id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER email_student_signup_approved
+AFTER UPDATE OF status ON public.student_profiles
+FOR EACH ROW EXECUTE FUNCTION public.email_signup_approved();
+
+CREATE TRIGGER email_team_signup_approved
+AFTER UPDATE OF status ON public.team_profiles
+FOR EACH ROW EXECUTE FUNCTION public.email_signup_approved();
+
+CREATE OR REPLACE FUNCTION public.email_leave_decided()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IN ('approved', 'rejected') AND OLD.status IS DISTINCT FROM NEW.status THEN
+    PERFORM enqueue_email(NEW.user_id, 'leave_decided', jsonb_build_object(
+      'status', NEW.status,
+      'leave_type', NEW.leave_type,
+      'start_date', NEW.leave_date,
+      'end_date', NEW.end_date,
+      'half_day', NEW.half_day,
+      'days', NEW.days,
+      'link', CASE WHEN has_role(NEW.user_id, 'faculty'::app_role) THEN '/faculty-leaves' ELSE '/leaves' END
+    ));
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER email_leave_decided
+AFTER UPDATE OF status ON public.leave_requests
+FOR EACH ROW EXECUTE FUNCTION public.email_leave_decided();
+
+CREATE OR REPLACE FUNCTION public.email_assignment_posted()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM enqueue_email(
+    sp.user_id,
+    'assignment_posted',
+    jsonb_build_object('title', NEW.title, 'deadline', NEW.deadline, 'deadline_time', NEW.deadline_time),
+    'assignment_posted:' || NEW.id || ':' || sp.user_id
+  )
+  FROM student_profiles sp
+  WHERE sp.batch_id = NEW.batch_id AND sp.status = 'approved';
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER email_assignment_posted
+AFTER INSERT ON public.assignments
+FOR EACH ROW EXECUTE FUNCTION public.email_assignment_posted();
@@ -0,0 +1,171 @@
+-- Deadline reminders. A scheduled job reminds students who haven't submitted an assignment or quiz
+-- at configurable offsets before its deadline, in-app and by email, and logs each reminder for faculty.
+CREATE TABLE public.deadline_reminder_settings (
+  -- Single-row table
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  -- Hours before the deadline, e.g. {48,2}
+  offsets_hours integer[] NOT NULL DEFAULT '{48,2}'
+    CHECK (cardinality(offsets_hours) BETWEEN 1 AND 5 AND 0 < ALL (offsets_hours) AND 720 >= ALL (offsets_hours)),
+  enabled boolean NOT NULL DEFAULT true,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.deadline_reminder_settings (id) VALUES (true);
+
+ALTER TABLE public.deadline_reminder_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view reminder settings" ON public.deadline_reminder_settings
+FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admins can update reminder settings" ON public.deadline_reminder_settings
+FOR UPDATE USING (has_role(auth.uid(), 'admin'::app_role)) WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_deadline_reminder_settings_updated_at
+BEFORE UPDATE ON public.deadline_reminder_settings
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE public.deadline_reminders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  assignment_id uuid REFERENCES public.assignments(id) ON DELETE CASCADE,
+  quiz_id uuid REFERENCES public.quizzes(id) ON DELETE CASCADE,
+  student_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  offset_hours integer NOT NULL,
+  deadline_at timestamptz NOT NULL,
+  sent_at timestamptz NOT NULL DEFAULT now(),
+  CHECK ((assignment_id IS NULL) <> (quiz_id IS NULL))
+);
+
+CREATE UNIQUE INDEX idx_deadline_reminders_unique
+ON public.deadline_reminders (COALESCE(assignment_id, quiz_id), student_id, offset_hours);
+CREATE INDEX idx_deadline_reminders_assignment ON public.deadline_reminders(assignment_id) WHERE assignment_id IS NOT NULL;
+CREATE INDEX idx_deadline_reminders_quiz ON public.deadline_reminders(quiz_id) WHERE quiz_id IS NOT NULL;
+
+ALTER TABLE public.deadline_reminders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view deadline reminders" ON public.deadline_reminders
+FOR SELECT USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Faculty can view deadline reminders" ON public.deadline_reminders
+FOR SELECT USING (has_role(auth.uid(), 'faculty'::app_role));
+
+CREATE POLICY "Students can view their deadline reminders" ON public.deadline_reminders
+FOR SELECT USING (auth.uid() = student_id);
+
+-- Sends the reminders that are due and returns how many were sent. For each open deadline and
+-- non-submitter, the smallest offset already reached is used, so an assignment posted two hours
+-- before its deadline gets one reminder rather than a 48h and a 2h one at the same time.
+CREATE OR REPLACE FUNCTION public.send_deadline_reminders()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _settings deadline_reminder_settings;
+  _max_offset integer;
+  _sent integer := 0;
+  r record;
+BEGIN
+  SELECT * INTO _settings FROM deadline_reminder_settings WHERE id;
+  IF NOT FOUND OR NOT _settings.enabled THEN
+    RETURN 0;
+  END IF;
+  SELECT max(o) INTO _max_offset FROM unnest(_settings.offsets_hours) o;
+
+  FOR r IN
+    WITH due AS (
+      SELECT 'assignment'::text AS kind, a.id, a.title, a.batch_id, a.deadline, a.deadline_time,
+        quiz_deadline_at(a.deadline, a.deadline_time) AS deadline_at
+      FROM assignments a
+      UNION ALL
+      SELECT 'quiz', q.id, q.title, q.batch_id, q.deadline, q.deadline_time,
+        quiz_deadline_at(q.deadline, q.deadline_time)
+      FROM quizzes q
+    )
+    SELECT d.*, sp.user_id,
+      (SELECT min(o) FROM unnest(_settings.offsets_hours) o WHERE now() >= d.deadline_at - make_interval(hours => o)) AS offset_hours
+    FROM due d
+    JOIN student_profiles sp ON sp.batch_id = d.batch_id AND sp.status = 'approved'
+    WHERE d.deadline_at > now()
+      AND d.deadline_at <= now() + make_interval(hours => _max_offset)
+      AND NOT EXISTS (
+        SELECT 1 FROM assignment_submissions s
+        WHERE d.kind = 'assignment' AND s.assignment_id = d.id AND s.student_id = sp.user_id
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM quiz_submissions s
+        WHERE d.kind = 'quiz' AND s.quiz_id = d.id AND s.student_id = sp.user_id
+      )
+  LOOP
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM deadline_reminders dr
+      WHERE COALESCE(dr.assignment_id, dr.quiz_id) = r.id AND dr.student_id = r.user_id AND dr.offset_hours <= r.offset_hours
+    );
+
+    INSERT INTO deadline_reminders (assignment_id, quiz_id, student_id, offset_hours, deadline_at)
+    VALUES (
+      CASE WHEN r.kind = 'assignment' THEN r.id END,
+      CASE WHEN r.kind = 'quiz' THEN r.id END,
+      r.user_id, r.offset_hours, r.deadline_at
+    );
+
+    PERFORM notify_user(
+      r.user_id,
+      'deadline_reminder',
+      'Due soon: ' || r.title,
+      initcap(r.kind) || ' due ' || to_char(r.deadline_at AT TIME ZONE 'Asia/Kolkata', 'Mon DD, HH24:MI')
+        || '. You haven''t submitted yet.',
+      CASE WHEN r.kind = 'quiz' THEN '/quizzes' ELSE '/assignments' END
+    );
+
+    PERFORM enqueue_email(
+      r.user_id,
+      'deadline_reminder',
+      jsonb_build_object('kind', r.kind, 'title', r.title, 'deadline', r.deadline, 'deadline_time', r.deadline_time, 'hours_before', r.offset_hours),
+      'deadline_reminder:' || r.kind || ':' || r.id || ':' || r.user_id || ':' || r.offset_hours
+    );
+
+    _sent := _sent + 1;
+  END LOOP;
+
+  RETURN _sent;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.send_deadline_reminders() FROM PUBLIC, anon, authenticated;
+
+-- Replaced by send_deadline_reminders
+DROP FUNCTION public.enqueue_deadline_emails();
+
+CREATE OR REPLACE FUNCTION public.enqueue_email(_user_id uuid, _template text, _data jsonb, _dedupe_key text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _allowed boolean;
+  _email text;
+BEGIN
+  SELECT CASE _template
+    WHEN 'leave_decided' THEN p.leave_decisions
+    WHEN 'assignment_posted' THEN p.new_assignments
+    WHEN 'deadline_reminder' THEN p.deadline_reminders
+    WHEN 'deadline_tomorrow' THEN p.deadline_reminders
+    ELSE true
+  END INTO _allowed
+  FROM email_preferences p WHERE p.user_id = _user_id;
+  IF _allowed IS FALSE THEN
+    RETURN;
+  END IF;
+
+  SELECT pr.email INTO _email FROM profiles pr WHERE pr.id = _user_id;
+  IF _email IS NULL OR _email = '' THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO email_outbox (user_id, to_email, template, data, dedupe_key)
+  VALUES (_user_id, _email, _template, _data, _dedupe_key)
+  ON CONFLICT (dedupe_key) DO NOTHING;
+END;
+$$;
@@ -0,0 +1,66 @@
+-- Rubric grading. An assignment may carry a rubric: a list of criteria, each with level
+-- descriptors worth a number of points:
+--   [{"id": "...", "title": "Code quality", "levels": [{"label": "Excellent", "description": "...", "points": 10}, ...]}]
+-- A rubric grade stores the level picked for every criterion:
+--   [{"criterion_id": "...", "level_index": 0, "points": 10}]
+ALTER TABLE public.assignments ADD COLUMN rubric jsonb;
+
+ALTER TABLE public.assignment_grades ADD COLUMN rubric_scores jsonb;
+
+-- Checks a rubric grade against the assignment's rubric and derives the totals from it,
+-- so grade_attained/total_grade always match the levels picked.
+CREATE OR REPLACE FUNCTION public.compute_rubric_grade()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _rubric jsonb;
+  _criterion jsonb;
+  _score jsonb;
+  _level jsonb;
+  _scores jsonb := '[]'::jsonb;
+  _attained numeric := 0;
+  _total numeric := 0;
+BEGIN
+  IF NEW.rubric_scores IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT a.rubric INTO _rubric FROM assignments a WHERE a.id = NEW.assignment_id;
+  IF _rubric IS NULL OR jsonb_array_length(_rubric) = 0 THEN
+    RAISE EXCEPTION 'This assignment has no rubric';
+  END IF;
+
+  FOR _criterion IN SELECT value FROM jsonb_array_elements(_rubric) LOOP
+    SELECT s.value INTO _score
+    FROM jsonb_array_elements(NEW.rubric_scores) s
+    WHERE s.value->>'criterion_id' = _criterion->>'id';
+    IF _score IS NULL THEN
+      RAISE EXCEPTION 'Pick a level for "%"', _criterion->>'title';
+    END IF;
+
+    _level := _criterion->'levels'->((_score->>'level_index')::int);
+    IF _level IS NULL THEN
+      RAISE EXCEPTION 'Invalid level for "%"', _criterion->>'title';
+    END IF;
+
+    _scores := _scores || jsonb_build_array(jsonb_build_object(
+      'criterion_id', _criterion->>'id',
+      'level_index', (_score->>'level_index')::int,
+      'points', (_level->>'points')::numeric
+    ));
+    _attained := _attained + (_level->>'points')::numeric;
+    _total := _total + (SELECT max((l.value->>'points')::numeric) FROM jsonb_array_elements(_criterion->'levels') l);
+  END LOOP;
+
+  NEW.rubric_scores := _scores;
+  NEW.grade_attained := _attained;
+  NEW.total_grade := _total;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER compute_rubric_grade
+BEFORE INSERT OR UPDATE ON public.assignment_grades
+FOR EACH ROW EXECUTE FUNCTION public.compute_rubric_grade();
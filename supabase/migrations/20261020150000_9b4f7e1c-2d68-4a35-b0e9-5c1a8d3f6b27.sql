@@ -0,0 +1,212 @@
+-- Late submission policy. Each assignment has a grace period, a penalty per day late and a hard
+-- cutoff; faculty can move the deadline for individual students. Submissions are stamped with
+-- how many days late they were, and grades have the penalty deducted automatically.
+ALTER TABLE public.assignments
+  ADD COLUMN grace_minutes integer NOT NULL DEFAULT 0 CHECK (grace_minutes >= 0),
+  -- Percent of the total grade deducted per started day late
+  ADD COLUMN late_penalty_percent numeric(5,2) NOT NULL DEFAULT 0 CHECK (late_penalty_percent BETWEEN 0 AND 100),
+  -- Days after the deadline that late submissions are still accepted; NULL never closes.
+  -- 0 keeps the existing behaviour of closing at the deadline.
+  ADD COLUMN late_cutoff_days integer DEFAULT 0 CHECK (late_cutoff_days >= 0);
+
+CREATE TABLE public.assignment_extensions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  assignment_id uuid NOT NULL REFERENCES public.assignments(id) ON DELETE CASCADE,
+  student_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  extended_deadline timestamptz NOT NULL,
+  reason text,
+  granted_by uuid NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (assignment_id, student_id)
+);
+
+ALTER TABLE public.assignment_extensions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin and faculty can manage extensions" ON public.assignment_extensions
+  FOR ALL TO authenticated
+  USING (has_role(auth.uid(), 'admin') OR has_role(auth.uid(), 'faculty'))
+  WITH CHECK (has_role(auth.uid(), 'admin') OR has_role(auth.uid(), 'faculty'));
+
+CREATE POLICY "Students can view their own extensions" ON public.assignment_extensions
+  FOR SELECT TO authenticated
+  USING (student_id = auth.uid());
+
+CREATE TRIGGER update_assignment_extensions_updated_at
+BEFORE UPDATE ON public.assignment_extensions
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 0 = on time or within the grace period
+ALTER TABLE public.assignment_submissions ADD COLUMN late_days integer NOT NULL DEFAULT 0;
+
+-- grade_attained is the grade after the late penalty; raw_grade is what was awarded
+ALTER TABLE public.assignment_grades
+  ADD COLUMN raw_grade numeric,
+  ADD COLUMN late_penalty numeric NOT NULL DEFAULT 0;
+
+UPDATE public.assignment_grades SET raw_grade = grade_attained;
+
+-- The student's deadline: their extension if they have one, otherwise the assignment's
+CREATE OR REPLACE FUNCTION public.assignment_deadline_for(_assignment_id uuid, _student_id uuid)
+RETURNS timestamptz
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT e.extended_deadline FROM assignment_extensions e WHERE e.assignment_id = _assignment_id AND e.student_id = _student_id),
+    (SELECT quiz_deadline_at(a.deadline, a.deadline_time) FROM assignments a WHERE a.id = _assignment_id)
+  )
+$$;
+
+-- Started days past the deadline, or 0 when submitted on time or within the grace period
+CREATE OR REPLACE FUNCTION public.assignment_late_days(_assignment_id uuid, _student_id uuid, _submitted_at timestamptz)
+RETURNS integer
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _due timestamptz := assignment_deadline_for(_assignment_id, _student_id);
+  _grace integer;
+BEGIN
+  SELECT a.grace_minutes INTO _grace FROM assignments a WHERE a.id = _assignment_id;
+  IF _due IS NULL OR _submitted_at <= _due + make_interval(mins => COALESCE(_grace, 0)) THEN
+    RETURN 0;
+  END IF;
+  RETURN ceil(extract(epoch FROM _submitted_at - _due) / 86400)::integer;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.flag_late_submission()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _assignment assignments;
+  _due timestamptz;
+BEGIN
+  -- Lateness is judged on the server clock, not a client-supplied time
+  NEW.submitted_at := now();
+
+  SELECT * INTO _assignment FROM assignments WHERE id = NEW.assignment_id;
+  _due := assignment_deadline_for(NEW.assignment_id, NEW.student_id);
+
+  IF _assignment.late_cutoff_days IS NOT NULL AND NEW.submitted_at > _due + GREATEST(
+    make_interval(mins => _assignment.grace_minutes),
+    make_interval(days => _assignment.late_cutoff_days)
+  ) THEN
+    RAISE EXCEPTION 'Submissions for this assignment are closed';
+  END IF;
+
+  NEW.late_days := assignment_late_days(NEW.assignment_id, NEW.student_id, NEW.submitted_at);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER flag_late_submission
+BEFORE INSERT ON public.assignment_submissions
+FOR EACH ROW EXECUTE FUNCTION public.flag_late_submission();
+
+-- Deducts the late penalty, based on the student's most recent submission. Runs after
+-- compute_rubric_grade (triggers fire in name order). An update that leaves grade_attained
+-- as it was keeps the previously awarded raw grade, so the penalty is never applied twice.
+CREATE OR REPLACE FUNCTION public.grade_late_penalty()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _raw numeric;
+  _late_days integer;
+  _percent numeric;
+  _penalty numeric;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.grade_attained IS NOT DISTINCT FROM OLD.grade_attained THEN
+    _raw := COALESCE(OLD.raw_grade, OLD.grade_attained);
+  ELSE
+    _raw := NEW.grade_attained;
+  END IF;
+
+  SELECT s.late_days INTO _late_days
+  FROM assignment_submissions s
+  WHERE s.assignment_id = NEW.assignment_id AND s.student_id = NEW.student_id
+  ORDER BY s.submitted_at DESC
+  LIMIT 1;
+
+  SELECT a.late_penalty_percent INTO _percent FROM assignments a WHERE a.id = NEW.assignment_id;
+
+  _penalty := round(NEW.total_grade * LEAST(100, COALESCE(_late_days, 0) * COALESCE(_percent, 0)) / 100, 2);
+  NEW.raw_grade := _raw;
+  NEW.late_penalty := LEAST(_penalty, GREATEST(_raw, 0));
+  NEW.grade_attained := _raw - NEW.late_penalty;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER grade_late_penalty
+BEFORE INSERT OR UPDATE ON public.assignment_grades
+FOR EACH ROW EXECUTE FUNCTION public.grade_late_penalty();
+
+-- Re-stamps submissions and re-applies penalties after a deadline, policy or extension changes
+CREATE OR REPLACE FUNCTION public.refresh_assignment_lateness(_assignment_id uuid, _student_id uuid DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE assignment_submissions s
+  SET late_days = assignment_late_days(s.assignment_id, s.student_id, s.submitted_at)
+  WHERE s.assignment_id = _assignment_id AND (_student_id IS NULL OR s.student_id = _student_id);
+
+  UPDATE assignment_grades g
+  SET grade_attained = g.grade_attained
+  WHERE g.assignment_id = _assignment_id AND (_student_id IS NULL OR g.student_id = _student_id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_assignment_lateness(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.refresh_lateness_on_extension()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM refresh_assignment_lateness(OLD.assignment_id, OLD.student_id);
+    RETURN OLD;
+  END IF;
+  PERFORM refresh_assignment_lateness(NEW.assignment_id, NEW.student_id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER refresh_lateness_on_extension
+AFTER INSERT OR UPDATE OR DELETE ON public.assignment_extensions
+FOR EACH ROW EXECUTE FUNCTION public.refresh_lateness_on_extension();
+
+CREATE OR REPLACE FUNCTION public.refresh_lateness_on_policy_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF (NEW.deadline, NEW.deadline_time, NEW.grace_minutes, NEW.late_penalty_percent)
+    IS DISTINCT FROM (OLD.deadline, OLD.deadline_time, OLD.grace_minutes, OLD.late_penalty_percent) THEN
+    PERFORM refresh_assignment_lateness(NEW.id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER refresh_lateness_on_policy_change
+AFTER UPDATE ON public.assignments
+FOR EACH ROW EXECUTE FUNCTION public.refresh_lateness_on_policy_change();
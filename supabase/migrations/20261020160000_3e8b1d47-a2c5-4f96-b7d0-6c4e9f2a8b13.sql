@@ -0,0 +1,19 @@
+-- Per-student attendance counts, optionally for one batch. Summing in the database keeps
+-- the totals correct however many records there are; runs with the caller's RLS.
+CREATE OR REPLACE FUNCTION public.attendance_totals(_batch_id uuid DEFAULT NULL)
+RETURNS TABLE (student_id uuid, present integer, late integer, absent integer, excused integer)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    r.student_id,
+    count(*) FILTER (WHERE r.status = 'present')::integer,
+    count(*) FILTER (WHERE r.status = 'late')::integer,
+    count(*) FILTER (WHERE r.status = 'absent')::integer,
+    count(*) FILTER (WHERE r.status = 'excused')::integer
+  FROM attendance_records r
+  JOIN attendance_sessions s ON s.id = r.session_id
+  WHERE _batch_id IS NULL OR s.batch_id = _batch_id
+  GROUP BY r.student_id
+$$;
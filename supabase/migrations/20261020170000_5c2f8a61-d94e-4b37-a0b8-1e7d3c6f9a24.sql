@@ -0,0 +1,15 @@
+-- Duplicate check for lead imports. Takes the normalized phones and emails from the file and
+-- returns the ones already in leads, so the check doesn't depend on reading every lead.
+CREATE INDEX IF NOT EXISTS idx_leads_normalized_phone ON public.leads (public.normalize_phone(phone));
+CREATE INDEX IF NOT EXISTS idx_leads_normalized_email ON public.leads (lower(trim(email)));
+
+CREATE OR REPLACE FUNCTION public.existing_lead_contacts(_phones text[], _emails text[])
+RETURNS TABLE (phone text, email text)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT normalize_phone(l.phone), NULL FROM leads l WHERE normalize_phone(l.phone) = ANY(_phones)
+  UNION
+  SELECT NULL, lower(trim(l.email)) FROM leads l WHERE lower(trim(l.email)) = ANY(_emails)
+$$;
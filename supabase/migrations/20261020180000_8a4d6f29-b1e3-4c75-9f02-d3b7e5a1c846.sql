@@ -0,0 +1,20 @@
+-- Confirm attempts are logged alongside reset requests so they can be rate-limited too
+ALTER TABLE public.password_reset_requests
+  ADD COLUMN action TEXT NOT NULL DEFAULT 'request' CHECK (action IN ('request', 'confirm'));
+
+-- Counts a guess against a reset code before it is checked. Returns the new attempt count,
+-- or NULL when the code is used up, so concurrent guesses can't share one attempt.
+CREATE OR REPLACE FUNCTION public.use_password_reset_attempt(_code_id UUID, _max_attempts INTEGER)
+RETURNS INTEGER
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE password_reset_codes
+  SET attempts = attempts + 1
+  WHERE id = _code_id AND used_at IS NULL AND attempts < _max_attempts
+  RETURNING attempts
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.use_password_reset_attempt(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.use_password_reset_attempt(UUID, INTEGER) TO service_role;
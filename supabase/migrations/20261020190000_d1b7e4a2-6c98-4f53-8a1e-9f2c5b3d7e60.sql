@@ -0,0 +1,80 @@
+-- Funnel dashboard figures, aggregated here rather than by loading every lead and activity.
+-- Runs with the caller's RLS, so BDEs only ever count their own leads. Returns
+--   {"total": n, "lost": n,
+--    "stages": [{"status": "...", "reached": n, "median_days": n | null}, ...],
+--    "college" | "branch" | "course": [{"key": "...", "leads": n, "converted": n}, ...]}
+-- A lead reaches every stage up to the furthest one in its status history; median_days
+-- covers only stays in a stage that ended with a status change.
+CREATE OR REPLACE FUNCTION public.get_lead_funnel(
+  _from date DEFAULT NULL,
+  _to date DEFAULT NULL,
+  _lead_type text DEFAULT NULL,
+  _owner uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH stages AS (
+    -- Forward stages in order; not_interested is an exit, counted as lost
+    SELECT * FROM unnest(ARRAY['initial_contact', 'whatsapp_group_created', 're_initiate_call', 'converted', 'paid'])
+      WITH ORDINALITY AS s(status, n)
+  ),
+  filtered AS (
+    SELECT l.id, l.status, l.college_name, l.branch, l.course_interested
+    FROM leads l
+    WHERE (_from IS NULL OR l.created_at::date >= _from)
+      AND (_to IS NULL OR l.created_at::date <= _to)
+      AND (_lead_type IS NULL OR l.lead_type = _lead_type)
+      AND (_owner IS NULL OR COALESCE(l.assigned_bde_id, l.created_by) = _owner)
+  ),
+  changes AS (
+    SELECT a.lead_id, a.to_status, a.created_at,
+           lead(a.created_at) OVER (PARTITION BY a.lead_id ORDER BY a.created_at) AS left_at
+    FROM lead_activities a
+    JOIN filtered f ON f.id = a.lead_id
+    WHERE a.activity_type IN ('created', 'status_change') AND a.to_status IS NOT NULL
+  ),
+  furthest AS (
+    SELECT f.id, GREATEST((SELECT s.n FROM stages s WHERE s.status = f.status), max(cs.n)) AS n
+    FROM filtered f
+    LEFT JOIN changes c ON c.lead_id = f.id
+    LEFT JOIN stages cs ON cs.status = c.to_status
+    GROUP BY f.id, f.status
+  ),
+  breakdown AS (
+    SELECT d.dimension, COALESCE(NULLIF(trim(d.value), ''), 'Unknown') AS key,
+           count(*) AS leads,
+           count(*) FILTER (WHERE f.status IN ('converted', 'paid')) AS converted
+    FROM filtered f
+    CROSS JOIN LATERAL (VALUES ('college', f.college_name), ('branch', f.branch), ('course', f.course_interested)) AS d(dimension, value)
+    GROUP BY 1, 2
+  )
+  SELECT jsonb_build_object(
+    'total', (SELECT count(*) FROM filtered),
+    'lost', (SELECT count(*) FROM filtered WHERE status = 'not_interested'),
+    'stages', (
+      SELECT jsonb_agg(jsonb_build_object(
+        'status', s.status,
+        'reached', (SELECT count(*) FROM furthest fu WHERE fu.n >= s.n),
+        'median_days', (
+          SELECT percentile_cont(0.5) WITHIN GROUP (ORDER BY extract(epoch FROM c.left_at - c.created_at) / 86400)
+          FROM changes c
+          WHERE c.to_status = s.status AND c.left_at IS NOT NULL
+        )
+      ) ORDER BY s.n)
+      FROM stages s
+    )
+  ) || (
+    SELECT jsonb_object_agg(dim.name, COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('key', b.key, 'leads', b.leads, 'converted', b.converted)
+        ORDER BY b.converted DESC, b.leads DESC, b.key)
+      FROM breakdown b
+      WHERE b.dimension = dim.name
+    ), '[]'::jsonb))
+    FROM unnest(ARRAY['college', 'branch', 'course']) AS dim(name)
+  )
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_lead_funnel(date, date, text, uuid) TO authenticated;
@@ -0,0 +1,90 @@
+-- Graders write raw_grade, the grade awarded; grade_attained is always derived from it, so
+-- re-saving a grade can never be mistaken for leaving it unchanged.
+CREATE OR REPLACE FUNCTION public.grade_late_penalty()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _late_days integer;
+  _percent numeric;
+  _penalty numeric;
+BEGIN
+  -- Inserts that only give grade_attained are taken as the awarded grade
+  IF NEW.raw_grade IS NULL THEN
+    NEW.raw_grade := NEW.grade_attained;
+  END IF;
+
+  SELECT s.late_days INTO _late_days
+  FROM assignment_submissions s
+  WHERE s.assignment_id = NEW.assignment_id AND s.student_id = NEW.student_id
+  ORDER BY s.submitted_at DESC
+  LIMIT 1;
+
+  SELECT a.late_penalty_percent INTO _percent FROM assignments a WHERE a.id = NEW.assignment_id;
+
+  _penalty := round(NEW.total_grade * LEAST(100, COALESCE(_late_days, 0) * COALESCE(_percent, 0)) / 100, 2);
+  NEW.late_penalty := LEAST(_penalty, GREATEST(NEW.raw_grade, 0));
+  NEW.grade_attained := NEW.raw_grade - NEW.late_penalty;
+  RETURN NEW;
+END;
+$$;
+
+-- Rubric grades set the awarded grade; grade_late_penalty (which fires after) derives grade_attained
+CREATE OR REPLACE FUNCTION public.compute_rubric_grade()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _rubric jsonb;
+  _criterion jsonb;
+  _score jsonb;
+  _level jsonb;
+  _scores jsonb := '[]'::jsonb;
+  _attained numeric := 0;
+  _total numeric := 0;
+BEGIN
+  IF NEW.rubric_scores IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT a.rubric INTO _rubric FROM assignments a WHERE a.id = NEW.assignment_id;
+  IF _rubric IS NULL OR jsonb_array_length(_rubric) = 0 THEN
+    RAISE EXCEPTION 'This assignment has no rubric';
+  END IF;
+
+  FOR _criterion IN SELECT value FROM jsonb_array_elements(_rubric) LOOP
+    SELECT s.value INTO _score
+    FROM jsonb_array_elements(NEW.rubric_scores) s
+    WHERE s.value->>'criterion_id' = _criterion->>'id';
+    IF _score IS NULL THEN
+      RAISE EXCEPTION 'Pick a level for "%"', _criterion->>'title';
+    END IF;
+
+    _level := _criterion->'levels'->((_score->>'level_index')::int);
+    IF _level IS NULL THEN
+      RAISE EXCEPTION 'Invalid level for "%"', _criterion->>'title';
+    END IF;
+
+    _scores := _scores || jsonb_build_array(jsonb_build_object(
+      'criterion_id', _criterion->>'id',
+      'level_index', (_score->>'level_index')::int,
+      'points', (_level->>'points')::numeric
+    ));
+    _attained := _attained + (_level->>'points')::numeric;
+    _total := _total + (SELECT max((l.value->>'points')::numeric) FROM jsonb_array_elements(_criterion->'levels') l);
+  END LOOP;
+
+  NEW.rubric_scores := _scores;
+  NEW.raw_grade := _attained;
+  NEW.total_grade := _total;
+  RETURN NEW;
+END;
+$$;
+
+-- Regrades that only change raw_grade notify the student too
+DROP TRIGGER notify_assignment_graded ON public.assignment_grades;
+CREATE TRIGGER notify_assignment_graded
+AFTER INSERT OR UPDATE OF grade_attained, raw_grade, total_grade ON public.assignment_grades
+FOR EACH ROW EXECUTE FUNCTION public.notify_assignment_graded();
@@ -0,0 +1,7 @@
+-- Only re-check a rubric grade when the grade itself is written. refresh_assignment_lateness
+-- touches grade_attained alone, so moving a deadline or changing the late policy no longer
+-- fails on grades given under an earlier version of the rubric.
+DROP TRIGGER compute_rubric_grade ON public.assignment_grades;
+CREATE TRIGGER compute_rubric_grade
+BEFORE INSERT OR UPDATE OF rubric_scores, raw_grade, total_grade ON public.assignment_grades
+FOR EACH ROW EXECUTE FUNCTION public.compute_rubric_grade();
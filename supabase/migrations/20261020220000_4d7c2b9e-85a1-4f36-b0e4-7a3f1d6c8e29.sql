@@ -0,0 +1,154 @@
+-- Timed attempts that run out are submitted by the server with the last saved draft, instead
+-- of waiting for the student to reopen the quiz. finalize_expired_quiz_attempts is called
+-- before submissions are read, and can also be run on a schedule with the service role.
+
+-- Grades answers into a new submission and closes the attempt in progress. Callers check
+-- access and hold the per-student advisory lock.
+CREATE OR REPLACE FUNCTION public.record_quiz_submission(_quiz_id uuid, _student_id uuid, _answers jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _quiz public.quizzes%ROWTYPE;
+  _question public.quiz_questions%ROWTYPE;
+  _attempts integer;
+  _submission_id uuid;
+  _answer text;
+  _is_correct boolean;
+  _score numeric := 0;
+  _total numeric := 0;
+  _needs_manual boolean := false;
+BEGIN
+  SELECT * INTO _quiz FROM public.quizzes WHERE id = _quiz_id;
+
+  SELECT COUNT(*) INTO _attempts FROM public.quiz_submissions
+  WHERE quiz_id = _quiz_id AND student_id = _student_id;
+  IF _attempts >= _quiz.max_attempts THEN
+    RAISE EXCEPTION 'No attempts left for this quiz';
+  END IF;
+
+  INSERT INTO public.quiz_submissions (quiz_id, student_id, attempt_number, score, total_points, is_graded)
+  VALUES (_quiz_id, _student_id, _attempts + 1, 0, 0, false)
+  RETURNING id INTO _submission_id;
+
+  FOR _question IN SELECT * FROM public.quiz_questions WHERE quiz_id = _quiz_id ORDER BY order_number LOOP
+    _answer := NULLIF(trim(COALESCE(_answers ->> _question.id::text, '')), '');
+    _total := _total + _question.points;
+    _is_correct := public.grade_quiz_answer(_question, _answer);
+
+    IF _is_correct IS NULL THEN
+      _needs_manual := true;
+    ELSIF _is_correct THEN
+      _score := _score + _question.points;
+    END IF;
+
+    INSERT INTO public.quiz_answers (submission_id, question_id, answer_text, is_correct, points_awarded, graded_at)
+    VALUES (
+      _submission_id, _question.id, _answer, _is_correct,
+      CASE WHEN _is_correct THEN _question.points ELSE 0 END,
+      CASE WHEN _is_correct IS NULL THEN NULL ELSE now() END
+    );
+  END LOOP;
+
+  UPDATE public.quiz_submissions
+  SET score = _score, total_points = _total, is_graded = NOT _needs_manual
+  WHERE id = _submission_id;
+
+  DELETE FROM public.quiz_attempts WHERE quiz_id = _quiz_id AND student_id = _student_id;
+
+  RETURN jsonb_build_object(
+    'submission_id', _submission_id,
+    'attempt_number', _attempts + 1,
+    'score', _score,
+    'total_points', _total,
+    'is_graded', NOT _needs_manual
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_quiz_submission(uuid, uuid, jsonb) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.submit_quiz(_quiz_id uuid, _answers jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _quiz public.quizzes%ROWTYPE;
+  _attempt public.quiz_attempts%ROWTYPE;
+  _student_id uuid := auth.uid();
+BEGIN
+  SELECT * INTO _quiz FROM public.quizzes WHERE id = _quiz_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz not found';
+  END IF;
+
+  IF NOT public.is_approved_batch_student(_student_id, _quiz.batch_id) THEN
+    RAISE EXCEPTION 'You are not enrolled in this quiz''s batch';
+  END IF;
+
+  -- Serialize concurrent submissions from the same student
+  PERFORM pg_advisory_xact_lock(hashtext(_quiz_id::text || _student_id::text));
+
+  SELECT * INTO _attempt FROM public.quiz_attempts WHERE quiz_id = _quiz_id AND student_id = _student_id;
+  IF FOUND THEN
+    IF now() > _attempt.expires_at + interval '30 seconds' THEN
+      _answers := _attempt.answers;
+    END IF;
+  ELSIF _quiz.duration_minutes IS NOT NULL THEN
+    RAISE EXCEPTION 'This quiz is timed; start it before submitting';
+  ELSIF now() > public.quiz_deadline_at(_quiz.deadline, _quiz.deadline_time) THEN
+    RAISE EXCEPTION 'The deadline for this quiz has passed';
+  END IF;
+
+  RETURN public.record_quiz_submission(_quiz_id, _student_id, _answers);
+END;
+$$;
+
+-- Submits every attempt whose time ran out (plus the 30 second grace submit_quiz allows).
+-- Admins, faculty and the service role finalize any student's attempts, students only
+-- their own. Returns the number of attempts submitted.
+CREATE OR REPLACE FUNCTION public.finalize_expired_quiz_attempts(_quiz_id uuid DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _caller uuid := auth.uid();
+  _all_students boolean := _caller IS NULL OR has_role(_caller, 'admin') OR has_role(_caller, 'faculty');
+  _expired public.quiz_attempts%ROWTYPE;
+  _attempt public.quiz_attempts%ROWTYPE;
+  _finalized integer := 0;
+BEGIN
+  FOR _expired IN
+    SELECT * FROM public.quiz_attempts
+    WHERE now() > expires_at + interval '30 seconds'
+      AND (_quiz_id IS NULL OR quiz_id = _quiz_id)
+      AND (_all_students OR student_id = _caller)
+  LOOP
+    PERFORM pg_advisory_xact_lock(hashtext(_expired.quiz_id::text || _expired.student_id::text));
+
+    -- The student may have submitted while we waited for the lock
+    SELECT * INTO _attempt FROM public.quiz_attempts WHERE id = _expired.id;
+    CONTINUE WHEN NOT FOUND;
+
+    IF (SELECT COUNT(*) FROM public.quiz_submissions s WHERE s.quiz_id = _attempt.quiz_id AND s.student_id = _attempt.student_id)
+      >= (SELECT q.max_attempts FROM public.quizzes q WHERE q.id = _attempt.quiz_id) THEN
+      DELETE FROM public.quiz_attempts WHERE id = _attempt.id;
+      CONTINUE;
+    END IF;
+
+    PERFORM public.record_quiz_submission(_attempt.quiz_id, _attempt.student_id, _attempt.answers);
+    _finalized := _finalized + 1;
+  END LOOP;
+
+  RETURN _finalized;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.finalize_expired_quiz_attempts(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.finalize_expired_quiz_attempts(uuid) TO authenticated, service_role;
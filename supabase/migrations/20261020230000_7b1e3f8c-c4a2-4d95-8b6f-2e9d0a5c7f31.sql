@@ -0,0 +1,4 @@
+-- recalculate_quiz_submission is only meant to run from score_quiz_answer, which checks the
+-- caller is admin or faculty. It runs as the owner, so it shouldn't be callable directly.
+REVOKE EXECUTE ON FUNCTION public.recalculate_quiz_submission(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.recalculate_quiz_submission(uuid) TO service_role;
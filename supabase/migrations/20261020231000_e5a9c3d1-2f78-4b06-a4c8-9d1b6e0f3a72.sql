@@ -0,0 +1,27 @@
+-- Rows stuck in "sending" were reclaimed forever, past the sender's attempt limit. They are
+-- now marked failed once they have used up their attempts; only the rest are handed out.
+DROP FUNCTION public.claim_email_outbox(integer);
+
+CREATE OR REPLACE FUNCTION public.claim_email_outbox(_limit integer DEFAULT 25, _max_attempts integer DEFAULT 5)
+RETURNS SETOF public.email_outbox
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE email_outbox
+  SET status = 'failed', last_error = COALESCE(last_error, 'Sending did not complete')
+  WHERE status = 'sending' AND next_attempt_at <= now() AND attempts >= _max_attempts;
+
+  UPDATE email_outbox o
+  SET status = 'sending', attempts = o.attempts + 1, next_attempt_at = now() + interval '10 minutes'
+  WHERE o.id IN (
+    SELECT id FROM email_outbox
+    WHERE status IN ('pending', 'sending') AND next_attempt_at <= now() AND attempts < _max_attempts
+    ORDER BY next_attempt_at
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING o.*;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_email_outbox(integer, integer) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,3 @@
+-- Recipients may only mark notifications read; the rest of the row is set by notify_user
+REVOKE UPDATE ON public.notifications FROM anon, authenticated;
+GRANT UPDATE (read_at) ON public.notifications TO authenticated;
@@ -0,0 +1,3 @@
+-- leave_policy_for is only called from the leave quota triggers; it runs as the owner and
+-- takes any user id, so it shouldn't be callable directly.
+REVOKE EXECUTE ON FUNCTION public.leave_policy_for(uuid) FROM PUBLIC, anon, authenticated;
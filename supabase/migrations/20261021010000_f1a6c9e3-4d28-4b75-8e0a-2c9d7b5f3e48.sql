@@ -0,0 +1,28 @@
+-- leave_holidays and leave_working_days take any user id and run as the owner. Holidays are
+-- only needed inside leave_working_days; the day count is also used by the leave form, for
+-- the caller's own requests or by staff.
+CREATE OR REPLACE FUNCTION public.leave_working_days(_user_id uuid, _start date, _end date, _half_day text DEFAULT NULL)
+RETURNS numeric
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND _user_id IS DISTINCT FROM auth.uid()
+    AND NOT (has_role(auth.uid(), 'admin') OR has_role(auth.uid(), 'faculty')) THEN
+    RAISE EXCEPTION 'You can only count your own leave days';
+  END IF;
+
+  RETURN (
+    SELECT count(*) * CASE WHEN _half_day IS NULL THEN 1 ELSE 0.5 END
+    FROM generate_series(_start, _end, interval '1 day') d
+    WHERE extract(isodow FROM d) < 6
+      AND d::date NOT IN (SELECT leave_holidays(_user_id, _start, _end))
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.leave_holidays(uuid, date, date) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.leave_working_days(uuid, date, date, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.leave_working_days(uuid, date, date, text) TO authenticated, service_role;
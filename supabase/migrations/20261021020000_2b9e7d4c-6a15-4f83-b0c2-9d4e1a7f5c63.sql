@@ -0,0 +1,28 @@
+-- Uploaders can remove their own leave attachments while no request refers to them, so a
+-- request that fails to save doesn't leave its file behind
+CREATE POLICY "Users delete own unused leave attachments" ON storage.objects
+  FOR DELETE TO authenticated
+  USING (
+    bucket_id = 'leave-attachments'
+    AND auth.uid()::text = (storage.foldername(name))[1]
+    AND NOT EXISTS (SELECT 1 FROM public.leave_requests r WHERE r.attachment_path = storage.objects.name)
+  );
+
+-- Sick leave needs proof. A trigger rather than a CHECK, so older requests without one can
+-- still be approved or rejected.
+CREATE OR REPLACE FUNCTION public.require_sick_leave_proof()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.leave_type = 'sick' AND NEW.attachment_path IS NULL THEN
+    RAISE EXCEPTION 'Attach a medical certificate or other proof for sick leave';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER require_sick_leave_proof
+BEFORE INSERT OR UPDATE OF leave_type, attachment_path ON public.leave_requests
+FOR EACH ROW EXECUTE FUNCTION public.require_sick_leave_proof();
@@ -0,0 +1,3 @@
+-- active_bde_ids is only called from auto_assign_leads; it runs as the owner and lists every
+-- active BDE, so it shouldn't be callable directly.
+REVOKE EXECUTE ON FUNCTION public.active_bde_ids() FROM PUBLIC, anon, authenticated;
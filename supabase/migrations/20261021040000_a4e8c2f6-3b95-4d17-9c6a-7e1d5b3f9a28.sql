@@ -0,0 +1,5 @@
+-- The lateness helpers are only called from flag_late_submission and refresh_assignment_lateness,
+-- which run as the owner. They read any student's deadline extensions, so they shouldn't be
+-- callable directly.
+REVOKE EXECUTE ON FUNCTION public.assignment_deadline_for(uuid, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.assignment_late_days(uuid, uuid, timestamptz) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,33 @@
+-- A message whose send went through but whose "sent" update failed stayed in "sending" and was
+-- reclaimed, so it went out twice. The sender now stamps send_started_at just before handing a
+-- message to the mail server. A stuck row that was never handed over is still reclaimed; one
+-- that was is marked failed instead of being sent again.
+ALTER TABLE public.email_outbox ADD COLUMN send_started_at timestamptz;
+
+CREATE OR REPLACE FUNCTION public.claim_email_outbox(_limit integer DEFAULT 25, _max_attempts integer DEFAULT 5)
+RETURNS SETOF public.email_outbox
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE email_outbox
+  SET status = 'failed', last_error = 'Delivery was not confirmed; not retried to avoid sending twice'
+  WHERE status = 'sending' AND next_attempt_at <= now() AND send_started_at IS NOT NULL;
+
+  UPDATE email_outbox
+  SET status = 'failed', last_error = COALESCE(last_error, 'Sending did not complete')
+  WHERE status = 'sending' AND next_attempt_at <= now() AND attempts >= _max_attempts;
+
+  UPDATE email_outbox o
+  SET status = 'sending', attempts = o.attempts + 1, next_attempt_at = now() + interval '10 minutes'
+  WHERE o.id IN (
+    SELECT id FROM email_outbox
+    WHERE status IN ('pending', 'sending') AND next_attempt_at <= now() AND attempts < _max_attempts
+    ORDER BY next_attempt_at
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING o.*;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_email_outbox(integer, integer) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,45 @@
+-- Checks the hourly reset limits and logs the call in one step. Counting and inserting from the
+-- edge function let concurrent calls all pass the check; the advisory locks serialise calls for
+-- the same email and IP (always email first, so two calls can't wait on each other).
+-- Returns true when the email or IP is over its limit, in which case nothing is logged.
+CREATE OR REPLACE FUNCTION public.password_reset_rate_limited(
+  _action TEXT,
+  _email TEXT,
+  _ip TEXT,
+  _max_per_email INTEGER,
+  _max_per_ip INTEGER
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _since TIMESTAMPTZ := now() - interval '1 hour';
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('password_reset_email:' || _email));
+  IF _ip IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtext('password_reset_ip:' || _ip));
+  END IF;
+
+  IF (
+    SELECT count(*) FROM password_reset_requests
+    WHERE action = _action AND email = _email AND created_at >= _since
+  ) >= _max_per_email THEN
+    RETURN true;
+  END IF;
+
+  IF _ip IS NOT NULL AND (
+    SELECT count(*) FROM password_reset_requests
+    WHERE action = _action AND ip_address = _ip AND created_at >= _since
+  ) >= _max_per_ip THEN
+    RETURN true;
+  END IF;
+
+  INSERT INTO password_reset_requests (email, ip_address, action) VALUES (_email, _ip, _action);
+  RETURN false;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.password_reset_rate_limited(TEXT, TEXT, TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.password_reset_rate_limited(TEXT, TEXT, TEXT, INTEGER, INTEGER) TO service_role;